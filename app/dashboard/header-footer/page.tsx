@@ -0,0 +1,235 @@
+/**
+ * PDFヘッダー・フッター挿入ページ
+ * PDFの上端・下端にファイル名・日付・ページ番号・任意のテキストを追加する機能
+ */
+
+'use client'
+
+import { useState, Suspense, useEffect } from 'react'
+import { usePdfHeaderFooter } from '@/hooks/use-pdf-header-footer'
+import { useDashboardData } from '@/hooks/use-dashboard-data'
+import { useNotifications } from '@/hooks/use-notifications'
+import { DEFAULT_PDF_HEADER_FOOTER_OPTIONS, type PdfHeaderFooterOptions } from '@/types'
+import AlertCircle from 'lucide-react/dist/esm/icons/alert-circle'
+import FileText from 'lucide-react/dist/esm/icons/file-text'
+import CheckCircle from 'lucide-react/dist/esm/icons/check-circle'
+import dynamic from 'next/dynamic'
+
+// 動的インポート（SSR無効化：pdf-libはクライアントのみ）
+const UploadArea = dynamic(
+  () =>
+    import('@/components/pdf-merge/upload-area').then(
+      (mod) => ({ default: mod.UploadArea })
+    ),
+  {
+    ssr: false,
+    loading: () => (
+      <div className="rounded-lg border-2 border-dashed border-border bg-card p-12 animate-pulse">
+        <div className="flex flex-col items-center justify-center gap-3">
+          <div className="h-12 w-12 rounded-full bg-muted" />
+          <div className="h-4 w-48 rounded bg-muted" />
+          <div className="h-3 w-32 rounded bg-muted" />
+        </div>
+      </div>
+    ),
+  }
+)
+
+const PasswordPrompt = dynamic(
+  () => import('@/components/pdf-merge/password-prompt').then(mod => ({ default: mod.PasswordPrompt })),
+  {
+    loading: () => <div className="h-32 bg-muted/50 rounded-lg animate-pulse" />,
+    ssr: false
+  }
+)
+
+const MergeProgress = dynamic(
+  () =>
+    import('@/components/pdf-merge/merge-progress').then(
+      (mod) => ({ default: mod.MergeProgress })
+    ),
+  { ssr: false }
+)
+
+const HeaderFooterOptions = dynamic(
+  () =>
+    import('@/components/header-footer/header-footer-options').then(
+      (mod) => ({ default: mod.HeaderFooterOptions })
+    ),
+  {
+    ssr: false,
+    loading: () => (
+      <div className="h-full w-80 animate-pulse bg-muted/30" />
+    ),
+  }
+)
+
+export default function HeaderFooterPage() {
+  const [state, actions] = usePdfHeaderFooter()
+  const [options, setOptions] = useState<PdfHeaderFooterOptions>(
+    DEFAULT_PDF_HEADER_FOOTER_OPTIONS
+  )
+  const [, { addActivity }] = useDashboardData()
+  const [, { show }] = useNotifications()
+
+  // Track header/footer completion and errors (unified effect to prevent double renders)
+  useEffect(() => {
+    const fileName = state.file?.name || 'PDFファイル'
+    // Success case
+    if (state.headerFooterResult) {
+      addActivity('header-footer', state.headerFooterResult.filename, 'completed', {
+        pageCount: state.headerFooterResult.pages,
+      })
+      show('success', 'ヘッダー・フッターの追加が完了しました', `${state.headerFooterResult.pages}ページのPDFを作成しました`)
+      return
+    }
+    // Error case
+    if (state.error) {
+      addActivity('header-footer', fileName, 'failed', {
+        errorMessage: state.error,
+      })
+      show('error', 'ヘッダー・フッターの追加に失敗しました', state.error)
+      return
+    }
+  }, [state.headerFooterResult, state.error, state.file, addActivity, show])
+
+  /**
+   * ファイル選択ハンドラ
+   */
+  const handleFileSelected = (files: File[]) => {
+    if (files.length > 0) {
+      actions.setFile(files[0])
+    }
+  }
+
+  /**
+   * ヘッダー・フッター追加実行
+   */
+  const handleAddHeaderFooter = async () => {
+    await actions.addHeaderFooter(options)
+  }
+
+  return (
+    <div className="flex h-[calc(100vh-4rem)]">
+      {/* メインコンテンツ（左側） */}
+      <div className="flex-1 overflow-auto">
+        <div className="p-6">
+          {/* ヘッダー */}
+          <div className="mb-8">
+            <h2 className="text-xl font-bold text-foreground">
+              PDFヘッダー・フッターの挿入
+            </h2>
+            <p className="mt-2 text-sm text-muted-foreground">
+              PDFの上端・下端にファイル名、日付、ページ番号、「Confidential」などのテキストを追加します。ページ範囲ごとに内容を変えられます。
+            </p>
+          </div>
+
+          {/* エラー表示 */}
+          {state.error && (
+            <div className="mb-6 flex items-center gap-3 rounded-lg border border-destructive/50 bg-destructive/10 p-4">
+              <AlertCircle className="h-5 w-5 flex-shrink-0 text-destructive" />
+              <p className="flex-1 text-sm text-destructive">{state.error}</p>
+              <button
+                type="button"
+                onClick={actions.clearError}
+                className="flex-shrink-0 rounded p-1 text-destructive hover:bg-destructive/20"
+                aria-label="エラーを閉じる"
+              >
+                ✕
+              </button>
+            </div>
+          )}
+
+          {/* パスワード入力 */}
+          {state.passwordRequest && (
+            <PasswordPrompt
+              key={state.passwordRequest.fileName}
+              request={state.passwordRequest}
+              onSubmit={actions.submitPassword}
+              onCancel={actions.cancelPassword}
+              disabled={state.isProcessing}
+            />
+          )}
+
+          {/* 進捗表示 */}
+          {state.progress && state.progress.stage !== 'completed' && (
+            <div className="mb-6">
+              <Suspense fallback={<div className="h-2" />}>
+                <MergeProgress progress={state.progress} />
+              </Suspense>
+            </div>
+          )}
+
+          {/* 成功メッセージ */}
+          {state.headerFooterResult && (
+            <div className="mb-6 flex items-center gap-3 rounded-lg border border-success/50 bg-success-bg p-4">
+              <CheckCircle className="h-5 w-5 flex-shrink-0 text-success" />
+              <div className="flex-1">
+                <p className="text-sm font-medium text-success-text">
+                  ヘッダー・フッターの追加が完了しました
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {state.headerFooterResult.filename} ({state.headerFooterResult.pages}ページ)
+                </p>
+              </div>
+            </div>
+          )}
+
+          {/* ファイルアップロードエリア or ファイル表示 */}
+          {!state.file ? (
+            <Suspense fallback={<div className="h-64 animate-pulse bg-muted/30 rounded-lg" />}>
+              <UploadArea
+                onFilesSelected={handleFileSelected}
+                disabled={state.isProcessing}
+                accept="application/pdf,.docx,application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+                hint="PDF・Wordファイル（.docx、最大50MB）"
+              />
+            </Suspense>
+          ) : (
+            <div className="rounded-lg border border-border bg-card p-4 shadow-sm">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                  <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-primary/10">
+                    <FileText className="h-5 w-5 text-primary" />
+                  </div>
+                  <div>
+                    <p className="font-medium text-foreground">{state.file.name}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {state.file.size} • {state.totalPages}ページ
+                    </p>
+                  </div>
+                </div>
+                <button
+                  type="button"
+                  onClick={actions.removeFile}
+                  disabled={state.isProcessing}
+                  className="rounded p-2 text-muted-foreground hover:bg-muted hover:text-foreground disabled:cursor-not-allowed disabled:opacity-50"
+                  aria-label="ファイルを削除"
+                >
+                  ✕
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* オプションパネル（右側） */}
+      <div className="hidden w-80 xl:block">
+        <Suspense fallback={<div className="h-full w-80 animate-pulse bg-muted/30" />}>
+          <HeaderFooterOptions
+            options={options}
+            onOptionsChange={setOptions}
+            onExecute={handleAddHeaderFooter}
+            onDownload={actions.download}
+            disabled={state.isProcessing || !state.file}
+            isProcessing={state.isProcessing}
+            hasResult={!!state.headerFooterResult}
+            totalPages={state.totalPages}
+            filename={state.file?.name}
+          />
+        </Suspense>
+      </div>
+    </div>
+  )
+}
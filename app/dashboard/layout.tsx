@@ -20,7 +20,10 @@ function getPageTitle(pathname: string): string {
   if (pathname?.includes("proofreading")) return "文章校正AI"
   if (pathname?.includes("transcription")) return "音声認識・議事録"
   if (pathname?.includes("page-numbers")) return "ページ番号挿入"
+  if (pathname?.includes("header-footer")) return "ヘッダー・フッター"
+  if (pathname?.includes("watermark")) return "透かし"
   if (pathname?.includes("compress")) return "圧縮・軽量化"
+  if (pathname?.includes("pdf-protect")) return "PDF保護"
   return "ダッシュボード"
 }
 
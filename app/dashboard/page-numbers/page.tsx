@@ -6,14 +6,18 @@
 'use client'
 
 import { useState, Suspense, useEffect } from 'react'
-import { usePdfPageNumbers } from '@/hooks/use-pdf-page-numbers'
+import { usePdfPageNumbers, usePdfPageNumbersBatch } from '@/hooks/use-pdf-page-numbers'
 import { useDashboardData } from '@/hooks/use-dashboard-data'
 import { useNotifications } from '@/hooks/use-notifications'
 import { DEFAULT_PDF_NUMBERING_OPTIONS, type PdfNumberingOptions } from '@/types'
 import AlertCircle from 'lucide-react/dist/esm/icons/alert-circle'
 import FileText from 'lucide-react/dist/esm/icons/file-text'
 import CheckCircle from 'lucide-react/dist/esm/icons/check-circle'
+import FileSpreadsheet from 'lucide-react/dist/esm/icons/file-spreadsheet'
 import dynamic from 'next/dynamic'
+import { BatchModeToggle } from '@/components/pdf-batch/batch-mode-toggle'
+import { BatchFileList } from '@/components/pdf-batch/batch-file-list'
+import { NumberingPreview } from '@/components/page-numbers/numbering-preview'
 
 // 動的インポート（SSR無効化：pdf-libはクライアントのみ）
 const UploadArea = dynamic(
@@ -35,6 +39,14 @@ const UploadArea = dynamic(
   }
 )
 
+const PasswordPrompt = dynamic(
+  () => import('@/components/pdf-merge/password-prompt').then(mod => ({ default: mod.PasswordPrompt })),
+  {
+    loading: () => <div className="h-32 bg-muted/50 rounded-lg animate-pulse" />,
+    ssr: false
+  }
+)
+
 const MergeProgress = dynamic(
   () =>
     import('@/components/pdf-merge/merge-progress').then(
@@ -58,6 +70,8 @@ const NumberingOptions = dynamic(
 
 export default function PageNumbersPage() {
   const [state, actions] = usePdfPageNumbers()
+  const [batchState, batchActions] = usePdfPageNumbersBatch()
+  const [batchMode, setBatchMode] = useState(false)
   const [options, setOptions] = useState<PdfNumberingOptions>(
     DEFAULT_PDF_NUMBERING_OPTIONS
   )
@@ -85,6 +99,26 @@ export default function PageNumbersPage() {
     }
   }, [state.numberingResult, state.error, state.file, addActivity, show])
 
+  // 一括処理の完了を通知
+  useEffect(() => {
+    if (!batchState.result) return
+    const { completed, failed } = batchState.result
+    addActivity('numbering', `${completed + failed}件のPDF`, completed > 0 ? 'completed' : 'failed')
+    if (failed > 0) {
+      show('warning', '一部のファイルにページ番号を追加できませんでした', `${completed}件成功、${failed}件失敗`)
+    } else if (completed > 0) {
+      show('success', 'ページ番号の一括追加が完了しました', `${completed}件のPDFにページ番号を追加しました`)
+    }
+  }, [batchState.result, addActivity, show])
+
+  const isProcessing = batchMode ? batchState.isProcessing : state.isProcessing
+  const error = batchMode ? batchState.error : state.error
+  // 一括処理では最もページ数の多いファイルに合わせる
+  const batchTotalPages = batchState.items.reduce((max, item) => Math.max(max, item.file.pages ?? 0), 0)
+
+  const batesLogButtonClass =
+    'flex flex-shrink-0 items-center gap-2 rounded-md border border-border bg-background px-3 py-2 text-sm font-medium text-foreground transition-colors hover:bg-muted'
+
   /**
    * ファイル選択ハンドラ
    */
@@ -101,6 +135,13 @@ export default function PageNumbersPage() {
     await actions.addNumbers(options)
   }
 
+  /**
+   * ページ番号一括追加実行
+   */
+  const handleBatchAddNumbers = async () => {
+    await batchActions.run(options)
+  }
+
   return (
     <div className="flex h-[calc(100vh-4rem)]">
       {/* メインコンテンツ（左側） */}
@@ -116,14 +157,21 @@ export default function PageNumbersPage() {
             </p>
           </div>
 
+          <BatchModeToggle
+            batchMode={batchMode}
+            onChange={setBatchMode}
+            disabled={isProcessing || batchState.isCreatingZip}
+            className="mb-6"
+          />
+
           {/* エラー表示 */}
-          {state.error && (
+          {error && (
             <div className="mb-6 flex items-center gap-3 rounded-lg border border-destructive/50 bg-destructive/10 p-4">
               <AlertCircle className="h-5 w-5 flex-shrink-0 text-destructive" />
-              <p className="flex-1 text-sm text-destructive">{state.error}</p>
+              <p className="flex-1 text-sm text-destructive">{error}</p>
               <button
                 type="button"
-                onClick={actions.clearError}
+                onClick={batchMode ? batchActions.clearError : actions.clearError}
                 className="flex-shrink-0 rounded p-1 text-destructive hover:bg-destructive/20"
                 aria-label="エラーを閉じる"
               >
@@ -132,8 +180,58 @@ export default function PageNumbersPage() {
             </div>
           )}
 
+          {/* パスワード入力 */}
+          {!batchMode && state.passwordRequest && (
+            <PasswordPrompt
+              key={state.passwordRequest.fileName}
+              request={state.passwordRequest}
+              onSubmit={actions.submitPassword}
+              onCancel={actions.cancelPassword}
+              disabled={state.isProcessing}
+            />
+          )}
+
+          {/* 一括処理 */}
+          {batchMode && (
+            <div className="space-y-6">
+              {batchState.progress && batchState.progress.stage !== 'completed' && (
+                <Suspense fallback={<div className="h-2" />}>
+                  <MergeProgress progress={batchState.progress} />
+                </Suspense>
+              )}
+              <Suspense fallback={<div className="h-64 animate-pulse bg-muted/30 rounded-lg" />}>
+                <UploadArea
+                  onFilesSelected={batchActions.addFiles}
+                  disabled={batchState.isProcessing || batchState.isCreatingZip}
+                  accept="application/pdf,.docx,application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+                  hint="PDF・Wordファイル（.docx、最大50MB）"
+                />
+              </Suspense>
+              <BatchFileList
+                items={batchState.items}
+                onRemove={batchActions.removeFile}
+                onClear={batchActions.clearFiles}
+                onCancel={batchActions.cancel}
+                onDownload={batchActions.download}
+                isProcessing={batchState.isProcessing}
+                isCreatingZip={batchState.isCreatingZip}
+                result={batchState.result}
+              />
+              {options.bates && batchState.result && batchState.result.completed > 0 && !batchState.isProcessing && (
+                <button
+                  type="button"
+                  onClick={batchActions.downloadBatesLog}
+                  className={batesLogButtonClass}
+                >
+                  <FileSpreadsheet className="h-4 w-4" />
+                  Bates番号の記録（CSV）
+                </button>
+              )}
+            </div>
+          )}
+
           {/* 進捗表示 */}
-          {state.progress && state.progress.stage !== 'completed' && (
+          {!batchMode && state.progress && state.progress.stage !== 'completed' && (
             <div className="mb-6">
               <Suspense fallback={<div className="h-2" />}>
                 <MergeProgress progress={state.progress} />
@@ -142,7 +240,7 @@ export default function PageNumbersPage() {
           )}
 
           {/* 成功メッセージ */}
-          {state.numberingResult && (
+          {!batchMode && state.numberingResult && (
             <div className="mb-6 flex items-center gap-3 rounded-lg border border-success/50 bg-success-bg p-4">
               <CheckCircle className="h-5 w-5 flex-shrink-0 text-success" />
               <div className="flex-1">
@@ -153,15 +251,27 @@ export default function PageNumbersPage() {
                   {state.numberingResult.filename} ({state.numberingResult.pages}ページ)
                 </p>
               </div>
+              {options.bates && (
+                <button
+                  type="button"
+                  onClick={actions.downloadBatesLog}
+                  className={batesLogButtonClass}
+                >
+                  <FileSpreadsheet className="h-4 w-4" />
+                  Bates番号の記録（CSV）
+                </button>
+              )}
             </div>
           )}
 
           {/* ファイルアップロードエリア or ファイル表示 */}
-          {!state.file ? (
+          {batchMode ? null : !state.file ? (
             <Suspense fallback={<div className="h-64 animate-pulse bg-muted/30 rounded-lg" />}>
               <UploadArea
                 onFilesSelected={handleFileSelected}
                 disabled={state.isProcessing}
+                accept="application/pdf,.docx,application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+                hint="PDF・Wordファイル（.docx、最大50MB）"
               />
             </Suspense>
           ) : (
@@ -191,14 +301,13 @@ export default function PageNumbersPage() {
             </div>
           )}
 
-          {/* サンプル画像/プレビュー（将来の拡張用） */}
-          {state.file && !state.numberingResult && !state.isProcessing && (
-            <div className="mt-6 rounded-lg border border-dashed border-border bg-muted/30 p-8 text-center">
-              <FileText className="mx-auto h-12 w-12 text-muted-foreground/50" />
-              <p className="mt-4 text-sm text-muted-foreground">
-                右側のパネルで設定を調整し、「ページ番号を追加」ボタンを押してください
-              </p>
-            </div>
+          {/* プレビュー */}
+          {(batchMode ? batchState.items.length > 0 : state.file && !state.numberingResult) && !isProcessing && (
+            <NumberingPreview
+              className="mt-6"
+              options={options}
+              totalPages={batchMode ? batchTotalPages : state.totalPages}
+            />
           )}
         </div>
       </div>
@@ -209,12 +318,14 @@ export default function PageNumbersPage() {
           <NumberingOptions
             options={options}
             onOptionsChange={setOptions}
-            onExecute={handleAddNumbers}
+            onExecute={batchMode ? handleBatchAddNumbers : handleAddNumbers}
             onDownload={actions.download}
-            disabled={state.isProcessing || !state.file}
-            isProcessing={state.isProcessing}
-            hasResult={!!state.numberingResult}
-            totalPages={state.totalPages}
+            disabled={batchMode ? isProcessing || batchState.items.length === 0 : isProcessing || !state.file}
+            isProcessing={isProcessing}
+            hasResult={!batchMode && !!state.numberingResult}
+            totalPages={batchMode ? batchTotalPages : state.totalPages}
+            filename={batchMode ? batchState.items[0]?.file.name : state.file?.name}
+            batchMode={batchMode}
           />
         </Suspense>
       </div>
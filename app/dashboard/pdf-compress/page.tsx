@@ -1,7 +1,7 @@
 'use client'
 
 import { useState, Suspense, useEffect } from 'react'
-import { usePdfCompression } from '@/hooks/use-pdf-compression'
+import { usePdfCompression, usePdfCompressionBatch } from '@/hooks/use-pdf-compression'
 import { useDashboardData } from '@/hooks/use-dashboard-data'
 import { useNotifications } from '@/hooks/use-notifications'
 import dynamic from 'next/dynamic'
@@ -10,7 +10,10 @@ import AlertCircle from 'lucide-react/dist/esm/icons/alert-circle'
 import X from 'lucide-react/dist/esm/icons/x'
 import Archive from 'lucide-react/dist/esm/icons/archive'
 import { Button } from '@/components/ui/button'
+import { BatchModeToggle } from '@/components/pdf-batch/batch-mode-toggle'
+import { BatchFileList } from '@/components/pdf-batch/batch-file-list'
 import { cn } from '@/lib/utils'
+import { formatFileSize } from '@/lib/file-utils'
 
 // Dynamic imports for better bundle splitting
 const UploadArea = dynamic(
@@ -29,6 +32,14 @@ const UploadArea = dynamic(
   }
 )
 
+const PasswordPrompt = dynamic(
+  () => import('@/components/pdf-merge/password-prompt').then(mod => ({ default: mod.PasswordPrompt })),
+  {
+    loading: () => <div className="h-32 bg-muted/50 rounded-lg animate-pulse" />,
+    ssr: false
+  }
+)
+
 const CompressionProgress = dynamic(
   () => import('@/components/pdf-merge/merge-progress').then(mod => ({ default: mod.MergeProgress })),
   {
@@ -51,6 +62,8 @@ const CompressionOptions = dynamic(
  */
 export default function PDFCompressPage() {
   const [state, actions] = usePdfCompression()
+  const [batchState, batchActions] = usePdfCompressionBatch()
+  const [batchMode, setBatchMode] = useState(false)
   const [options, setOptions] = useState<PdfCompressionOptions>(DEFAULT_PDF_COMPRESSION_OPTIONS)
   const [, { addActivity }] = useDashboardData()
   const [, { show }] = useNotifications()
@@ -66,7 +79,9 @@ export default function PDFCompressPage() {
         pageCount: state.compressionResult.pages,
       })
 
-      if (reductionPercent > 0) {
+      if (state.compressionResult.targetReached === false) {
+        show('warning', '目標サイズに収まりませんでした', `最小で${formatFileSize(state.compressionResult.compressedSize)}まで圧縮しました`)
+      } else if (reductionPercent > 0) {
         show('success', 'PDFの圧縮が完了しました', `${reductionPercent}%のファイルサイズ削減`)
       } else {
         show('info', '圧縮処理が完了しました', 'これ以上圧縮できませんでした')
@@ -83,11 +98,31 @@ export default function PDFCompressPage() {
     }
   }, [state.compressionResult, state.error, state.file, addActivity, show])
 
+  // 一括処理の完了を通知
+  useEffect(() => {
+    if (!batchState.result) return
+    const { completed, failed } = batchState.result
+    addActivity('compress', `${completed + failed}件のPDF`, completed > 0 ? 'completed' : 'failed')
+    if (failed > 0) {
+      show('warning', '一部のファイルを圧縮できませんでした', `${completed}件成功、${failed}件失敗`)
+    } else if (completed > 0) {
+      show('success', 'PDFの一括圧縮が完了しました', `${completed}件のPDFを圧縮しました`)
+    }
+  }, [batchState.result, addActivity, show])
+
+  const isProcessing = batchMode ? batchState.isProcessing : state.isProcessing
+  const error = batchMode ? batchState.error : state.error
+
   // 圧縮実行ハンドラ
   const handleCompress = async () => {
     await actions.compress(options)
   }
 
+  // 一括圧縮実行ハンドラ
+  const handleBatchCompress = async () => {
+    await batchActions.run(options)
+  }
+
   // ダウンロードハンドラ
   const handleDownload = () => {
     actions.download()
@@ -118,15 +153,21 @@ export default function PDFCompressPage() {
             </p>
           </div>
 
+          <BatchModeToggle
+            batchMode={batchMode}
+            onChange={setBatchMode}
+            disabled={isProcessing || batchState.isCreatingZip}
+          />
+
           {/* Error Display */}
-          {state.error && (
+          {error && (
             <div className="flex items-center gap-3 rounded-lg border border-destructive/50 bg-destructive/10 p-4 text-destructive">
               <AlertCircle className="h-5 w-5 shrink-0" />
-              <p className="text-sm flex-1">{state.error}</p>
+              <p className="text-sm flex-1">{error}</p>
               <Button
                 variant="ghost"
                 size="sm"
-                onClick={actions.clearError}
+                onClick={batchMode ? batchActions.clearError : actions.clearError}
                 className="h-8 w-8 p-0 shrink-0"
               >
                 <X className="h-4 w-4" />
@@ -134,13 +175,41 @@ export default function PDFCompressPage() {
             </div>
           )}
 
+          {/* Password Prompt */}
+          {!batchMode && state.passwordRequest && (
+            <PasswordPrompt
+              key={state.passwordRequest.fileName}
+              request={state.passwordRequest}
+              onSubmit={actions.submitPassword}
+              onCancel={actions.cancelPassword}
+              disabled={state.isProcessing}
+            />
+          )}
+
           {/* Progress Display */}
           <Suspense fallback={<div className="h-12 bg-muted/50 rounded animate-pulse" />}>
-            <CompressionProgress progress={state.progress} />
+            <CompressionProgress progress={batchMode ? batchState.progress : state.progress} />
           </Suspense>
 
           {/* Upload Area or File Info */}
-          {state.file ? (
+          {batchMode ? (
+            <>
+              <UploadArea
+                onFilesSelected={batchActions.addFiles}
+                disabled={batchState.isProcessing || batchState.isCreatingZip}
+              />
+              <BatchFileList
+                items={batchState.items}
+                onRemove={batchActions.removeFile}
+                onClear={batchActions.clearFiles}
+                onCancel={batchActions.cancel}
+                onDownload={batchActions.download}
+                isProcessing={batchState.isProcessing}
+                isCreatingZip={batchState.isCreatingZip}
+                result={batchState.result}
+              />
+            </>
+          ) : state.file ? (
             <div className="rounded-lg border border-border bg-card p-6">
               <div className="flex items-center justify-between">
                 <div className="flex items-center gap-4">
@@ -182,7 +251,7 @@ export default function PDFCompressPage() {
           )}
 
           {/* Completion Message */}
-          {state.compressionResult && (
+          {!batchMode && state.compressionResult && (
             <div className={cn(
               "rounded-lg border p-4",
               state.compressionResult.reductionRate > 0
@@ -215,11 +284,11 @@ export default function PDFCompressPage() {
           <CompressionOptions
             options={options}
             onOptionsChange={setOptions}
-            onCompress={handleCompress}
-            onDownload={state.compressionResult ? handleDownload : undefined}
-            disabled={state.isProcessing || !state.file}
-            isProcessing={state.isProcessing}
-            compressionResult={state.compressionResult}
+            onCompress={batchMode ? handleBatchCompress : handleCompress}
+            onDownload={!batchMode && state.compressionResult ? handleDownload : undefined}
+            disabled={batchMode ? isProcessing || batchState.items.length === 0 : isProcessing || !state.file}
+            isProcessing={isProcessing}
+            compressionResult={batchMode ? null : state.compressionResult}
           />
         </Suspense>
       </div>
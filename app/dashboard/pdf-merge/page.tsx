@@ -50,6 +50,14 @@ const OutputOptions = dynamic(
   }
 )
 
+const PasswordPrompt = dynamic(
+  () => import('@/components/pdf-merge/password-prompt').then(mod => ({ default: mod.PasswordPrompt })),
+  {
+    loading: () => <div className="h-32 bg-muted/50 rounded-lg animate-pulse" />,
+    ssr: false
+  }
+)
+
 const MergeProgress = dynamic(
   () => import('@/components/pdf-merge/merge-progress').then(mod => ({ default: mod.MergeProgress })),
   {
@@ -119,7 +127,7 @@ export default function PDFMergePage() {
               PDFファイルの結合 - ワークスペース
             </h2>
             <p className="mt-1 text-sm text-muted-foreground">
-              複数のPDFファイルを1つに結合できます（最大30ファイル、各50MBまで）
+              複数のPDF・Word・画像ファイルを1つに結合できます（最大30ファイル、各50MBまで）
             </p>
           </div>
 
@@ -139,6 +147,17 @@ export default function PDFMergePage() {
             </div>
           )}
 
+          {/* Password Prompt */}
+          {state.passwordRequest && (
+            <PasswordPrompt
+              key={state.passwordRequest.fileName}
+              request={state.passwordRequest}
+              onSubmit={actions.submitPassword}
+              onCancel={actions.cancelPassword}
+              disabled={state.isProcessing}
+            />
+          )}
+
           {/* Progress Display */}
           <Suspense fallback={<div className="h-12 bg-muted/50 rounded animate-pulse" />}>
             <MergeProgress progress={state.progress} />
@@ -157,6 +176,8 @@ export default function PDFMergePage() {
             <UploadArea
               onFilesSelected={actions.addFiles}
               disabled={state.isProcessing}
+              accept="application/pdf,.docx,application/vnd.openxmlformats-officedocument.wordprocessingml.document,image/jpeg,image/png,image/webp,image/heic,image/heif,.heic,.heif"
+              hint="PDF・Word（.docx）・画像ファイル（JPEG/PNG/WebP/HEIC、最大50MB、30ファイルまで）"
             />
           </Suspense>
 
@@ -166,6 +187,7 @@ export default function PDFMergePage() {
               files={state.files}
               onRemove={actions.removeFile}
               onReorder={actions.reorderFiles}
+              onPageRangeChange={actions.setPageRange}
               disabled={state.isProcessing}
             />
           </Suspense>
@@ -179,6 +201,13 @@ export default function PDFMergePage() {
               <p className="mt-1 text-xs text-muted-foreground">
                 {state.mergeResult.filename} ({(state.mergeResult.size / 1024 / 1024).toFixed(2)} MB, {state.mergeResult.pages} ページ)
               </p>
+              {state.mergeResult.optimization && (
+                <ul className="mt-2 space-y-0.5 text-xs text-muted-foreground">
+                  <li>重複リソースの統合: -{(state.mergeResult.optimization.deduplicatedBytes / 1024).toFixed(1)} KB</li>
+                  <li>画像の圧縮: -{(state.mergeResult.optimization.downsampledImageBytes / 1024).toFixed(1)} KB</li>
+                  <li>未使用オブジェクトの削除: -{(state.mergeResult.optimization.unusedObjectBytes / 1024).toFixed(1)} KB</li>
+                </ul>
+              )}
             </div>
           )}
         </div>
@@ -195,6 +224,8 @@ export default function PDFMergePage() {
             disabled={state.isProcessing}
             mergeStatus={mergeStatus}
             fileCount={state.files.length}
+            firstFilename={state.files[0]?.name}
+            totalPages={state.files.reduce((sum, file) => sum + (file.pages ?? 0), 0)}
           />
         </Suspense>
       </div>
@@ -11,7 +11,8 @@ import { PageGrid } from '@/components/pdf-pages/page-grid'
 import { PageViewer } from '@/components/pdf-pages/page-viewer'
 import { Toolbar } from '@/components/pdf-pages/toolbar'
 import { ExportPanel } from '@/components/pdf-pages/export-panel'
-import { DEFAULT_PDF_PAGE_MANAGE_OPTIONS } from '@/types'
+import { PasswordPrompt } from '@/components/pdf-merge/password-prompt'
+import { DEFAULT_PDF_PAGE_MANAGE_OPTIONS, type PdfProtectionOptions } from '@/types'
 
 /**
  * PDFページ管理ページ
@@ -20,6 +21,7 @@ import { DEFAULT_PDF_PAGE_MANAGE_OPTIONS } from '@/types'
 export default function PdfPagesPage() {
   const [state, actions] = usePdfPages()
   const [keepFilename, setKeepFilename] = useState(DEFAULT_PDF_PAGE_MANAGE_OPTIONS.keepFilename)
+  const [protection, setProtection] = useState<PdfProtectionOptions | undefined>(undefined)
   const [, { addActivity }] = useDashboardData()
   const [, { show }] = useNotifications()
 
@@ -51,8 +53,8 @@ export default function PdfPagesPage() {
 
   // エクスポートオプション
   const exportOptions = useMemo(
-    () => ({ ...DEFAULT_PDF_PAGE_MANAGE_OPTIONS, keepFilename }),
-    [keepFilename]
+    () => ({ ...DEFAULT_PDF_PAGE_MANAGE_OPTIONS, keepFilename, protection }),
+    [keepFilename, protection]
   )
 
   return (
@@ -84,6 +86,17 @@ export default function PdfPagesPage() {
             </div>
           )}
 
+          {/* パスワード入力 */}
+          {state.passwordRequest && (
+            <PasswordPrompt
+              key={state.passwordRequest.fileName}
+              request={state.passwordRequest}
+              onSubmit={actions.submitPassword}
+              onCancel={actions.cancelPassword}
+              disabled={state.isProcessing}
+            />
+          )}
+
           {/* PDFアップローダー/ファイル情報 */}
           <PageViewer
             onLoad={actions.loadPdf}
@@ -153,6 +166,7 @@ export default function PdfPagesPage() {
         onDownload={actions.download}
         onClearResult={actions.clearResult}
         onToggleKeepFilename={() => setKeepFilename(!keepFilename)}
+        onProtectionChange={setProtection}
       />
     </div>
   )
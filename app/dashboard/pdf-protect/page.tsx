@@ -0,0 +1,228 @@
+'use client'
+
+import { useState, Suspense, useEffect } from 'react'
+import { usePdfProtect } from '@/hooks/use-pdf-protect'
+import { useDashboardData } from '@/hooks/use-dashboard-data'
+import { useNotifications } from '@/hooks/use-notifications'
+import dynamic from 'next/dynamic'
+import { DEFAULT_PDF_PROTECTION_OPTIONS, type PdfProtectionOptions } from '@/types'
+import AlertCircle from 'lucide-react/dist/esm/icons/alert-circle'
+import X from 'lucide-react/dist/esm/icons/x'
+import Lock from 'lucide-react/dist/esm/icons/lock'
+import { Button } from '@/components/ui/button'
+
+// Dynamic imports for better bundle splitting
+const UploadArea = dynamic(
+  () => import('@/components/pdf-merge/upload-area').then(mod => ({ default: mod.UploadArea })),
+  {
+    loading: () => (
+      <div className="rounded-lg border-2 border-dashed border-border bg-card p-12 animate-pulse">
+        <div className="flex flex-col items-center justify-center">
+          <div className="h-12 w-12 bg-muted/50 rounded-full mb-4" />
+          <div className="h-4 bg-muted/50 rounded w-48 mb-2" />
+          <div className="h-3 bg-muted/50 rounded w-32" />
+        </div>
+      </div>
+    ),
+    ssr: false
+  }
+)
+
+const PasswordPrompt = dynamic(
+  () => import('@/components/pdf-merge/password-prompt').then(mod => ({ default: mod.PasswordPrompt })),
+  {
+    loading: () => <div className="h-32 bg-muted/50 rounded-lg animate-pulse" />,
+    ssr: false
+  }
+)
+
+const ProtectionProgress = dynamic(
+  () => import('@/components/pdf-merge/merge-progress').then(mod => ({ default: mod.MergeProgress })),
+  {
+    loading: () => <div className="h-12 bg-muted/50 rounded animate-pulse" />,
+    ssr: false
+  }
+)
+
+const ProtectionOptions = dynamic(
+  () => import('@/components/pdf-protect/protection-options').then(mod => ({ default: mod.ProtectionOptions })),
+  {
+    loading: () => <div className="w-80 h-full bg-muted/30 animate-pulse" />,
+    ssr: false
+  }
+)
+
+/**
+ * PDF保護ページ
+ * ファイルアップロード、パスワード・権限の設定、暗号化を統合
+ */
+export default function PDFProtectPage() {
+  const [state, actions] = usePdfProtect()
+  const [options, setOptions] = useState<PdfProtectionOptions>(DEFAULT_PDF_PROTECTION_OPTIONS)
+  const [, { addActivity }] = useDashboardData()
+  const [, { show }] = useNotifications()
+
+  // Track protection completion and errors (unified effect to prevent double renders)
+  useEffect(() => {
+    const fileName = state.file?.name || 'PDFファイル'
+    // Success case
+    if (state.protectionResult) {
+      addActivity('protect', state.protectionResult.filename, 'completed', {
+        fileSize: state.protectionResult.size,
+        pageCount: state.protectionResult.pages,
+      })
+      show('success', 'PDFの保護が完了しました', 'パスワードで暗号化したPDFを作成しました')
+      return
+    }
+    // Error case
+    if (state.error) {
+      addActivity('protect', fileName, 'failed', {
+        errorMessage: state.error,
+      })
+      show('error', '保護に失敗しました', state.error)
+      return
+    }
+  }, [state.protectionResult, state.error, state.file, addActivity, show])
+
+  // 保護実行ハンドラ
+  const handleProtect = async () => {
+    await actions.protect(options)
+  }
+
+  // ダウンロードハンドラ
+  const handleDownload = () => {
+    actions.download()
+  }
+
+  // ファイル選択ハンドラ
+  const handleFilesSelected = (files: File[]) => {
+    if (files.length > 0) {
+      actions.setFile(files[0])
+    }
+  }
+
+  return (
+    <div className="flex h-[calc(100vh-4rem)]">
+      {/* Main Content */}
+      <div className="flex-1 overflow-auto p-6">
+        <div className="mx-auto max-w-3xl space-y-6">
+          {/* Page Title */}
+          <div>
+            <div className="flex items-center gap-2">
+              <Lock className="h-6 w-6 text-primary" />
+              <h2 className="text-lg font-bold text-foreground">
+                PDFファイルの保護
+              </h2>
+            </div>
+            <p className="mt-1 text-sm text-muted-foreground">
+              PDFにパスワードを設定し、印刷やコピーなどの操作を制限できます（最大50MB）
+            </p>
+          </div>
+
+          {/* Error Display */}
+          {state.error && (
+            <div className="flex items-center gap-3 rounded-lg border border-destructive/50 bg-destructive/10 p-4 text-destructive">
+              <AlertCircle className="h-5 w-5 shrink-0" />
+              <p className="text-sm flex-1">{state.error}</p>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={actions.clearError}
+                className="h-8 w-8 p-0 shrink-0"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
+
+          {/* Password Prompt */}
+          {state.passwordRequest && (
+            <PasswordPrompt
+              key={state.passwordRequest.fileName}
+              request={state.passwordRequest}
+              onSubmit={actions.submitPassword}
+              onCancel={actions.cancelPassword}
+              disabled={state.isProcessing}
+            />
+          )}
+
+          {/* Progress Display */}
+          <Suspense fallback={<div className="h-12 bg-muted/50 rounded animate-pulse" />}>
+            <ProtectionProgress progress={state.progress} />
+          </Suspense>
+
+          {/* Upload Area or File Info */}
+          {state.file ? (
+            <div className="rounded-lg border border-border bg-card p-6">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-4">
+                  <div className="flex h-12 w-12 items-center justify-center rounded-lg bg-primary/10">
+                    <Lock className="h-6 w-6 text-primary" />
+                  </div>
+                  <div>
+                    <p className="text-sm font-medium text-foreground">{state.file.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {state.file.size} • {state.totalPages} ページ
+                    </p>
+                  </div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={actions.removeFile}
+                  disabled={state.isProcessing}
+                >
+                  クリア
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <Suspense fallback={
+              <div className="rounded-lg border-2 border-dashed border-border bg-card p-12 animate-pulse">
+                <div className="flex flex-col items-center justify-center">
+                  <div className="h-12 w-12 bg-muted/50 rounded-full mb-4" />
+                  <div className="h-4 bg-muted/50 rounded w-48 mb-2" />
+                  <div className="h-3 bg-muted/50 rounded w-32" />
+                </div>
+              </div>
+            }>
+              <UploadArea
+                onFilesSelected={handleFilesSelected}
+                disabled={state.isProcessing}
+                accept="application/pdf,.docx,application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+                hint="PDF・Wordファイル（.docx、最大50MB）"
+              />
+            </Suspense>
+          )}
+
+          {/* Completion Message */}
+          {state.protectionResult && (
+            <div className="rounded-lg border border-success/50 bg-success-bg p-4">
+              <p className="text-sm font-medium text-success-text">
+                保護が完了しました！
+              </p>
+              <p className="mt-1 text-xs text-muted-foreground">
+                {state.protectionResult.filename} ({(state.protectionResult.size / 1024 / 1024).toFixed(2)} MB, {state.protectionResult.pages} ページ)
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Right Panel - Protection Options */}
+      <div className="hidden w-80 border-l border-border xl:block">
+        <Suspense fallback={<div className="w-80 h-full bg-muted/30 animate-pulse" />}>
+          <ProtectionOptions
+            options={options}
+            onOptionsChange={setOptions}
+            onProtect={handleProtect}
+            onDownload={state.protectionResult ? handleDownload : undefined}
+            disabled={state.isProcessing || !state.file}
+            isProcessing={state.isProcessing}
+            protectionResult={state.protectionResult}
+          />
+        </Suspense>
+      </div>
+    </div>
+  )
+}
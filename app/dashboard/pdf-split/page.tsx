@@ -1,7 +1,7 @@
 'use client'
 
 import { useState, Suspense, useEffect } from 'react'
-import { usePdfSplit } from '@/hooks/use-pdf-split'
+import { usePdfSplit, usePdfSplitBatch } from '@/hooks/use-pdf-split'
 import { useDashboardData } from '@/hooks/use-dashboard-data'
 import { useNotifications } from '@/hooks/use-notifications'
 import { DEFAULT_PDF_SPLIT_OPTIONS, type PdfSplitOptions } from '@/types'
@@ -13,6 +13,8 @@ import Trash2 from 'lucide-react/dist/esm/icons/trash-2'
 import { Button } from '@/components/ui/button'
 import dynamic from 'next/dynamic'
 import { SplitOptions } from '@/components/pdf-split/split-options'
+import { BatchModeToggle } from '@/components/pdf-batch/batch-mode-toggle'
+import { BatchFileList } from '@/components/pdf-batch/batch-file-list'
 
 // Dynamic imports for better bundle splitting
 const UploadArea = dynamic(
@@ -31,6 +33,14 @@ const UploadArea = dynamic(
   }
 )
 
+const PasswordPrompt = dynamic(
+  () => import('@/components/pdf-merge/password-prompt').then(mod => ({ default: mod.PasswordPrompt })),
+  {
+    loading: () => <div className="h-32 bg-muted/50 rounded-lg animate-pulse" />,
+    ssr: false
+  }
+)
+
 const MergeProgress = dynamic(
   () => import('@/components/pdf-merge/merge-progress').then(mod => ({ default: mod.MergeProgress })),
   {
@@ -44,6 +54,8 @@ const MergeProgress = dynamic(
  */
 export default function PDFSplitPage() {
   const [state, actions] = usePdfSplit()
+  const [batchState, batchActions] = usePdfSplitBatch()
+  const [batchMode, setBatchMode] = useState(false)
   const [options, setOptions] = useState<PdfSplitOptions>(DEFAULT_PDF_SPLIT_OPTIONS)
   const [, { addActivity }] = useDashboardData()
   const [, { show }] = useNotifications()
@@ -69,6 +81,23 @@ export default function PDFSplitPage() {
     }
   }, [state.splitResult, state.error, state.file, addActivity, show])
 
+  // 一括処理の完了を通知
+  useEffect(() => {
+    if (!batchState.result) return
+    const { completed, failed } = batchState.result
+    addActivity('split', `${completed + failed}件のPDF`, completed > 0 ? 'completed' : 'failed')
+    if (failed > 0) {
+      show('warning', '一部のファイルを分割できませんでした', `${completed}件成功、${failed}件失敗`)
+    } else if (completed > 0) {
+      show('success', 'PDFの一括分割が完了しました', `${completed}件のPDFを分割しました`)
+    }
+  }, [batchState.result, addActivity, show])
+
+  const isProcessing = batchMode ? batchState.isProcessing : state.isProcessing
+  const error = batchMode ? batchState.error : state.error
+  // 一括処理では最もページ数の多いファイルに合わせる
+  const batchTotalPages = batchState.items.reduce((max, item) => Math.max(max, item.file.pages ?? 0), 0)
+
   // 分割ステータスの判定
   const splitStatus: 'idle' | 'processing' | 'completed' | 'error' = state.isProcessing
     ? 'processing'
@@ -83,6 +112,11 @@ export default function PDFSplitPage() {
     await actions.split(options)
   }
 
+  // 一括分割実行ハンドラ
+  const handleBatchSplit = async () => {
+    await batchActions.run(options)
+  }
+
   // ファイル選択ハンドラ（単一ファイルのみ）
   const handleFileSelected = (files: File[]) => {
     if (files.length > 0) {
@@ -101,19 +135,25 @@ export default function PDFSplitPage() {
               PDFファイルの分割
             </h2>
             <p className="mt-1 text-sm text-muted-foreground">
-              PDFファイルを指定したページで分割できます
+              PDFファイル（Word文書も可）を指定したページで分割できます
             </p>
           </div>
 
+          <BatchModeToggle
+            batchMode={batchMode}
+            onChange={setBatchMode}
+            disabled={isProcessing || batchState.isCreatingZip || state.isCreatingZip}
+          />
+
           {/* Error Display */}
-          {state.error && (
+          {error && (
             <div className="flex items-center gap-3 rounded-lg border border-destructive/50 bg-destructive/10 p-4 text-destructive">
               <AlertCircle className="h-5 w-5 shrink-0" />
-              <p className="text-sm flex-1">{state.error}</p>
+              <p className="text-sm flex-1">{error}</p>
               <Button
                 variant="ghost"
                 size="sm"
-                onClick={actions.clearError}
+                onClick={batchMode ? batchActions.clearError : actions.clearError}
                 className="h-8 w-8 p-0 shrink-0"
               >
                 <X className="h-4 w-4" />
@@ -121,13 +161,46 @@ export default function PDFSplitPage() {
             </div>
           )}
 
+          {/* Password Prompt */}
+          {!batchMode && state.passwordRequest && (
+            <PasswordPrompt
+              key={state.passwordRequest.fileName}
+              request={state.passwordRequest}
+              onSubmit={actions.submitPassword}
+              onCancel={actions.cancelPassword}
+              disabled={state.isProcessing}
+            />
+          )}
+
           {/* Progress Display */}
           <Suspense fallback={<div className="h-12 bg-muted/50 rounded animate-pulse" />}>
-            <MergeProgress progress={state.progress} />
+            <MergeProgress progress={batchMode ? batchState.progress : state.progress} />
           </Suspense>
 
+          {/* Batch Mode */}
+          {batchMode && (
+            <>
+              <UploadArea
+                onFilesSelected={batchActions.addFiles}
+                disabled={batchState.isProcessing || batchState.isCreatingZip}
+                accept="application/pdf,.docx,application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+                hint="PDF・Wordファイル（.docx、最大50MB）"
+              />
+              <BatchFileList
+                items={batchState.items}
+                onRemove={batchActions.removeFile}
+                onClear={batchActions.clearFiles}
+                onCancel={batchActions.cancel}
+                onDownload={batchActions.download}
+                isProcessing={batchState.isProcessing}
+                isCreatingZip={batchState.isCreatingZip}
+                result={batchState.result}
+              />
+            </>
+          )}
+
           {/* Upload Area */}
-          {!state.file && (
+          {!batchMode && !state.file && (
             <Suspense fallback={
               <div className="rounded-lg border-2 border-dashed border-border bg-card p-12 animate-pulse">
                 <div className="flex flex-col items-center justify-center">
@@ -140,12 +213,14 @@ export default function PDFSplitPage() {
               <UploadArea
                 onFilesSelected={handleFileSelected}
                 disabled={state.isProcessing}
+                accept="application/pdf,.docx,application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+                hint="PDF・Wordファイル（.docx、最大50MB）"
               />
             </Suspense>
           )}
 
           {/* File Display */}
-          {state.file && (
+          {!batchMode && state.file && (
             <div className="rounded-lg border border-border bg-card p-4 shadow-sm">
               <div className="flex items-center justify-between">
                 <div className="flex items-center gap-3">
@@ -176,7 +251,7 @@ export default function PDFSplitPage() {
           )}
 
           {/* Split Results */}
-          {state.splitResult && (
+          {!batchMode && state.splitResult && (
             <div className="space-y-4">
               <div className="rounded-lg border border-success/50 bg-success-bg p-4">
                 <p className="text-sm font-medium text-success-text">
@@ -244,13 +319,21 @@ export default function PDFSplitPage() {
           <SplitOptions
             options={options}
             onOptionsChange={setOptions}
-            onSplit={handleSplit}
-            onDownloadAll={actions.downloadAll}
-            disabled={state.isProcessing || !state.file}
-            isProcessing={state.isProcessing}
-            splitResult={state.splitResult}
-            totalPages={state.totalPages}
-            splitStatus={splitStatus}
+            onSplit={batchMode ? handleBatchSplit : handleSplit}
+            onDownloadAll={batchMode ? undefined : actions.downloadAll}
+            onCancelDownload={actions.cancelDownload}
+            isCreatingZip={!batchMode && state.isCreatingZip}
+            disabled={batchMode ? isProcessing || batchState.items.length === 0 : isProcessing || !state.file}
+            isProcessing={isProcessing}
+            splitResult={batchMode ? null : state.splitResult}
+            totalPages={batchMode ? batchTotalPages : state.totalPages}
+            filename={batchMode ? batchState.items[0]?.file.name : state.file?.name}
+            outline={state.outline}
+            inkCoverage={state.inkCoverage}
+            isDetectingBlankPages={state.isDetectingBlankPages}
+            onDetectBlankPages={actions.detectBlankPages}
+            splitStatus={batchMode ? (isProcessing ? 'processing' : 'idle') : splitStatus}
+            batchMode={batchMode}
           />
         </Suspense>
       </div>
@@ -6,7 +6,10 @@ import Sparkles from 'lucide-react/dist/esm/icons/sparkles'
 import Files from 'lucide-react/dist/esm/icons/files'
 import Scissors from 'lucide-react/dist/esm/icons/scissors'
 import Type from 'lucide-react/dist/esm/icons/type'
+import PanelTop from 'lucide-react/dist/esm/icons/panel-top'
+import Stamp from 'lucide-react/dist/esm/icons/stamp'
 import Archive from 'lucide-react/dist/esm/icons/archive'
+import Lock from 'lucide-react/dist/esm/icons/lock'
 import Edit3 from 'lucide-react/dist/esm/icons/edit-3'
 import Users from 'lucide-react/dist/esm/icons/users'
 import Mic from 'lucide-react/dist/esm/icons/mic'
@@ -27,7 +30,10 @@ const navItems: NavItem[] = [
   { label: "PDF分割", href: "/dashboard/pdf-split", icon: "scissors" },
   { label: "PDFページ管理", href: "/dashboard/pdf-pages", icon: "edit3" },
   { label: "ページ番号挿入", href: "/dashboard/page-numbers", icon: "type" },
+  { label: "ヘッダー・フッター", href: "/dashboard/header-footer", icon: "panelTop" },
+  { label: "透かし", href: "/dashboard/watermark", icon: "stamp" },
   { label: "圧縮・軽量化", href: "/dashboard/pdf-compress", icon: "archive" },
+  { label: "PDF保護", href: "/dashboard/pdf-protect", icon: "lock" },
 ]
 
 const iconMap: Record<string, React.ComponentType<{ className?: string }>> = {
@@ -38,7 +44,10 @@ const iconMap: Record<string, React.ComponentType<{ className?: string }>> = {
   scissors: Scissors,
   edit3: Edit3,
   type: Type,
+  panelTop: PanelTop,
+  stamp: Stamp,
   archive: Archive,
+  lock: Lock,
 }
 
 interface SidebarProps {
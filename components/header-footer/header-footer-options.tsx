@@ -0,0 +1,304 @@
+/**
+ * ヘッダー・フッターオプションパネル
+ * 規則（配置・テキスト・対象ページ・文字の設定）、フォント、余白、出力ファイル名の設定UI
+ */
+
+'use client'
+
+import { useCallback, useMemo } from 'react'
+import {
+  DEFAULT_HEADER_FOOTER_RULE,
+  type HeaderFooterRule,
+  type PdfHeaderFooterOptions,
+} from '@/types'
+import { FilenameTemplateInput } from '@/components/pdf-split/filename-template-input'
+import { FontSelector } from '@/components/page-numbers/font-selector'
+import { RuleEditor } from '@/components/header-footer/rule-editor'
+import { HEADER_FOOTER_FILENAME_TEMPLATE } from '@/lib/pdf-header-footer'
+import { removeExtension } from '@/lib/filename-template'
+import {
+  HEADER_FOOTER_TOKENS,
+  hasHeaderFooterText,
+  requiresJapaneseFont,
+} from '@/lib/header-footer-text'
+import {
+  validateFilenameTemplate,
+  validateFontFile,
+  validateHeaderFooterText,
+} from '@/lib/pdf-validation'
+import { parsePageRanges } from '@/lib/pdf-splitter'
+import { PDF_HEADER_FOOTER_CONSTANTS } from '@/lib/constants'
+import FileText from 'lucide-react/dist/esm/icons/file-text'
+import Plus from 'lucide-react/dist/esm/icons/plus'
+import Download from 'lucide-react/dist/esm/icons/download'
+import Loader2 from 'lucide-react/dist/esm/icons/loader-2'
+
+interface HeaderFooterOptionsProps {
+  options: PdfHeaderFooterOptions
+  onOptionsChange: (options: PdfHeaderFooterOptions) => void
+  onExecute: () => void
+  onDownload?: () => void
+  disabled?: boolean
+  isProcessing: boolean
+  hasResult: boolean
+  totalPages: number
+  /** 処理するファイル名（出力ファイル名の例と日本語の判定に使用） */
+  filename?: string
+}
+
+/** ヘッダー・フッター挿入時に表示するトークン */
+const HEADER_FOOTER_FILENAME_TOKENS = ['{base}', '{pages}', '{date}']
+
+/**
+ * 規則が有効かを判定（テキストのトークンと対象ページ）
+ */
+function isRuleValid(rule: HeaderFooterRule, totalPages: number): boolean {
+  if (!Object.values(rule.slots).every((text) => validateHeaderFooterText(text).success)) {
+    return false
+  }
+  return rule.pageRange.trim() === '' || totalPages === 0 || parsePageRanges(rule.pageRange, totalPages).isValid
+}
+
+/**
+ * メインのオプションパネルコンポーネント
+ */
+export function HeaderFooterOptions({
+  options,
+  onOptionsChange,
+  onExecute,
+  onDownload,
+  disabled,
+  isProcessing,
+  hasResult,
+  totalPages,
+  filename,
+}: HeaderFooterOptionsProps) {
+  const selectedFont = options.font ?? 'helvetica'
+  const canAddRule = options.rules.length < PDF_HEADER_FOOTER_CONSTANTS.MAX_RULES
+
+  /**
+   * オプションを更新（部分更新用）
+   */
+  const updateOption = useCallback(
+    <K extends keyof PdfHeaderFooterOptions>(key: K, value: PdfHeaderFooterOptions[K]) => {
+      onOptionsChange({ ...options, [key]: value })
+    },
+    [options, onOptionsChange]
+  )
+
+  /**
+   * 規則を更新
+   */
+  const updateRule = useCallback((rule: HeaderFooterRule) => {
+    onOptionsChange({
+      ...options,
+      rules: options.rules.map((current) => (current.id === rule.id ? rule : current)),
+    })
+  }, [options, onOptionsChange])
+
+  /**
+   * 規則を追加
+   */
+  const addRule = useCallback(() => {
+    const id = `rule-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`
+    onOptionsChange({ ...options, rules: [...options.rules, { ...DEFAULT_HEADER_FOOTER_RULE, id }] })
+  }, [options, onOptionsChange])
+
+  /**
+   * 規則を削除
+   */
+  const removeRule = useCallback((id: string) => {
+    onOptionsChange({ ...options, rules: options.rules.filter((rule) => rule.id !== id) })
+  }, [options, onOptionsChange])
+
+  const filenameSample = useMemo(
+    () => ({ base: filename ? removeExtension(filename) : 'document', pages: totalPages }),
+    [filename, totalPages]
+  )
+  const isFilenameTemplateValid = validateFilenameTemplate(options.filenameTemplate).success
+  const isFontValid = selectedFont !== 'custom' || validateFontFile(options.customFont).success
+  const hasText = options.rules.some(hasHeaderFooterText)
+  const areRulesValid = options.rules.every((rule) => isRuleValid(rule, totalPages))
+  const isFontUnsupported =
+    selectedFont === 'helvetica' &&
+    requiresJapaneseFont(options.rules, { filename: filename ?? '', text: options.customText })
+
+  // ボタンの共通クラス
+  const buttonClass =
+    'flex w-full items-center justify-center gap-2 rounded-lg bg-primary px-4 py-3 font-medium text-primary-foreground transition-colors hover:bg-primary/90 disabled:cursor-not-allowed disabled:opacity-50'
+
+  return (
+    <div className="flex h-full flex-col border-l border-border bg-card">
+      <div className="flex-1 overflow-auto p-6">
+        <h3 className="mb-6 text-lg font-bold text-foreground">ヘッダー・フッター設定</h3>
+
+        <div className="space-y-6">
+          {/* 規則 */}
+          <section className="space-y-4">
+            <h4 className="text-sm font-semibold text-foreground">テキストと対象ページ</h4>
+
+            {options.rules.map((rule, index) => (
+              <RuleEditor
+                key={rule.id}
+                rule={rule}
+                index={index + 1}
+                onChange={updateRule}
+                onRemove={() => removeRule(rule.id)}
+                canRemove={options.rules.length > 1}
+                totalPages={totalPages}
+                disabled={disabled}
+              />
+            ))}
+
+            <button
+              type="button"
+              onClick={addRule}
+              disabled={disabled || !canAddRule}
+              className="flex w-full items-center justify-center gap-2 rounded-md border border-dashed border-input px-3 py-2 text-sm text-muted-foreground transition-colors hover:bg-muted hover:text-foreground disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              <Plus className="h-4 w-4" />
+              規則を追加
+            </button>
+
+            <ul className="space-y-0.5 text-xs text-muted-foreground">
+              {HEADER_FOOTER_TOKENS.map(({ token, description }) => (
+                <li key={token}>
+                  <span className="font-mono text-foreground">{token}</span> {description}
+                </li>
+              ))}
+            </ul>
+          </section>
+
+          {/* 任意のテキスト */}
+          <section className="space-y-2">
+            <label htmlFor="header-footer-custom-text" className="text-sm font-semibold text-foreground">
+              任意のテキスト
+            </label>
+            <input
+              id="header-footer-custom-text"
+              type="text"
+              value={options.customText}
+              onChange={(e) => updateOption('customText', e.target.value)}
+              placeholder="例: Confidential"
+              disabled={disabled}
+              className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-ring disabled:cursor-not-allowed disabled:opacity-50"
+            />
+            <p className="text-xs text-muted-foreground">
+              テキスト中の {'{text}'} がこの内容に置き換わります
+            </p>
+          </section>
+
+          {/* フォント設定 */}
+          <section className="space-y-4">
+            <h4 className="text-sm font-semibold text-foreground">フォント設定</h4>
+            <FontSelector
+              font={options.font}
+              customFont={options.customFont}
+              onChange={(value) => onOptionsChange({ ...options, ...value })}
+              disabled={disabled}
+            />
+            {isFontUnsupported && (
+              <p className="text-xs text-destructive">
+                Helveticaでは日本語を表示できません。Noto Sans JPなどを選択してください
+              </p>
+            )}
+          </section>
+
+          {/* 余白設定 */}
+          <section className="space-y-4">
+            <h4 className="text-sm font-semibold text-foreground">余白設定</h4>
+
+            <div className="space-y-2">
+              <label htmlFor="header-footer-margin-x" className="text-sm text-muted-foreground">
+                水平余白: {options.marginX}
+              </label>
+              <input
+                id="header-footer-margin-x"
+                type="range"
+                min={0}
+                max={200}
+                value={options.marginX}
+                onChange={(e) => updateOption('marginX', parseInt(e.target.value))}
+                disabled={disabled}
+                className="w-full accent-primary"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <label htmlFor="header-footer-margin-y" className="text-sm text-muted-foreground">
+                垂直余白: {options.marginY}
+              </label>
+              <input
+                id="header-footer-margin-y"
+                type="range"
+                min={0}
+                max={200}
+                value={options.marginY}
+                onChange={(e) => updateOption('marginY', parseInt(e.target.value))}
+                disabled={disabled}
+                className="w-full accent-primary"
+              />
+            </div>
+          </section>
+
+          {/* 出力ファイル名 */}
+          <section>
+            <FilenameTemplateInput
+              value={options.filenameTemplate}
+              onChange={(filenameTemplate) => updateOption('filenameTemplate', filenameTemplate)}
+              defaultTemplate={HEADER_FOOTER_FILENAME_TEMPLATE}
+              sampleValues={filenameSample}
+              tokens={HEADER_FOOTER_FILENAME_TOKENS}
+              disabled={disabled}
+              idPrefix="header-footer-filename"
+            />
+          </section>
+        </div>
+      </div>
+
+      {/* アクションボタン */}
+      <div className="border-t border-border bg-muted/30 p-6">
+        {hasResult ? (
+          // 完了後：ダウンロードボタン
+          <button
+            type="button"
+            onClick={onDownload}
+            disabled={isProcessing}
+            className={buttonClass}
+          >
+            <Download className="h-5 w-5" />
+            ダウンロード
+          </button>
+        ) : (
+          // 実行前：ヘッダー・フッター追加ボタン
+          <button
+            type="button"
+            onClick={onExecute}
+            disabled={
+              disabled ||
+              isProcessing ||
+              !hasText ||
+              !areRulesValid ||
+              !isFilenameTemplateValid ||
+              !isFontValid ||
+              isFontUnsupported
+            }
+            className={buttonClass}
+          >
+            {isProcessing ? (
+              <>
+                <Loader2 className="h-5 w-5 animate-spin" />
+                処理中...
+              </>
+            ) : (
+              <>
+                <FileText className="h-5 w-5" />
+                ヘッダー・フッターを追加
+              </>
+            )}
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
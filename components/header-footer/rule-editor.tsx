@@ -0,0 +1,247 @@
+/**
+ * ヘッダー・フッター規則の編集コンポーネント
+ * 配置（ヘッダー・フッター）、左・中央・右のテキスト、対象ページ、文字の大きさ・色・不透明度の設定UI
+ */
+
+'use client'
+
+import { memo, useCallback, useMemo } from 'react'
+import type { HeaderFooterRule, HeaderFooterSlot } from '@/types'
+import { parsePageRanges } from '@/lib/pdf-splitter'
+import { validateHeaderFooterText } from '@/lib/pdf-validation'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import Trash2 from 'lucide-react/dist/esm/icons/trash-2'
+
+interface RuleEditorProps {
+  rule: HeaderFooterRule
+  /** 規則の番号（1始まり、見出しに使用） */
+  index: number
+  onChange: (rule: HeaderFooterRule) => void
+  onRemove: () => void
+  /** 削除できるかどうか（最後の1件は削除できない） */
+  canRemove: boolean
+  totalPages: number
+  disabled?: boolean
+}
+
+/** 配置の表示名 */
+const SLOT_LABELS: Record<HeaderFooterSlot, string> = {
+  left: '左',
+  center: '中央',
+  right: '右',
+}
+
+/** 対象ページの入力例 */
+const PAGE_RANGE_EXAMPLES = [
+  { value: '', label: '全ページ' },
+  { value: '!1', label: '表紙以外' },
+  { value: 'odd', label: '奇数' },
+  { value: 'even', label: '偶数' },
+] as const
+
+export const RuleEditor = memo(function RuleEditor({
+  rule,
+  index,
+  onChange,
+  onRemove,
+  canRemove,
+  totalPages,
+  disabled = false,
+}: RuleEditorProps) {
+  const idPrefix = `header-footer-rule-${rule.id}`
+
+  /**
+   * 規則を更新（部分更新用）
+   */
+  const updateRule = useCallback(
+    <K extends keyof HeaderFooterRule>(key: K, value: HeaderFooterRule[K]) => {
+      onChange({ ...rule, [key]: value })
+    },
+    [rule, onChange]
+  )
+
+  /**
+   * テキストを更新
+   */
+  const updateSlot = useCallback((slot: HeaderFooterSlot, text: string) => {
+    onChange({ ...rule, slots: { ...rule.slots, [slot]: text } })
+  }, [rule, onChange])
+
+  // テキストと対象ページの検証
+  const textError = useMemo(() => {
+    for (const text of Object.values(rule.slots)) {
+      const result = validateHeaderFooterText(text)
+      if (!result.success) return result.message
+    }
+    return null
+  }, [rule.slots])
+  const rangeError = useMemo(() => {
+    if (rule.pageRange.trim() === '' || totalPages === 0) return null
+    const result = parsePageRanges(rule.pageRange, totalPages)
+    return result.isValid ? null : result.errors[0]?.message ?? '有効なページ範囲を指定してください'
+  }, [rule.pageRange, totalPages])
+
+  const inputClass =
+    'w-full rounded-md border bg-background px-3 py-2 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-ring disabled:cursor-not-allowed disabled:opacity-50'
+
+  return (
+    <div className="space-y-4 rounded-lg border border-border p-4">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm font-medium text-foreground">規則{index}</p>
+        <div className="flex items-center gap-1">
+          {(['header', 'footer'] as const).map((placement) => (
+            <button
+              key={placement}
+              type="button"
+              onClick={() => updateRule('placement', placement)}
+              disabled={disabled}
+              aria-pressed={rule.placement === placement}
+              className={`
+                text-xs px-3 py-1 rounded-full transition-colors
+                ${
+                  rule.placement === placement
+                    ? 'bg-primary text-primary-foreground'
+                    : 'bg-muted text-muted-foreground hover:bg-muted/70'
+                }
+                ${disabled ? 'cursor-not-allowed opacity-50' : 'cursor-pointer'}
+              `}
+            >
+              {placement === 'header' ? 'ヘッダー' : 'フッター'}
+            </button>
+          ))}
+          {canRemove && (
+            <button
+              type="button"
+              onClick={onRemove}
+              disabled={disabled}
+              className="rounded p-1 text-muted-foreground hover:bg-muted hover:text-foreground disabled:cursor-not-allowed disabled:opacity-50"
+              aria-label={`規則${index}を削除`}
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* 左・中央・右のテキスト */}
+      <div className="space-y-2">
+        {(Object.keys(SLOT_LABELS) as HeaderFooterSlot[]).map((slot) => (
+          <div key={slot} className="flex items-center gap-2">
+            <label htmlFor={`${idPrefix}-${slot}`} className="w-8 shrink-0 text-xs text-muted-foreground">
+              {SLOT_LABELS[slot]}
+            </label>
+            <input
+              id={`${idPrefix}-${slot}`}
+              type="text"
+              value={rule.slots[slot]}
+              onChange={(e) => updateSlot(slot, e.target.value)}
+              disabled={disabled}
+              className={`${inputClass} font-mono border-input`}
+            />
+          </div>
+        ))}
+        {textError && <p className="text-xs text-destructive">{textError}</p>}
+      </div>
+
+      {/* 対象ページ */}
+      <div className="space-y-2">
+        <label htmlFor={`${idPrefix}-range`} className="text-sm text-muted-foreground">
+          対象ページ
+        </label>
+        <input
+          id={`${idPrefix}-range`}
+          type="text"
+          value={rule.pageRange}
+          onChange={(e) => updateRule('pageRange', e.target.value)}
+          placeholder="全ページ（例: !1 で表紙以外、2-end）"
+          disabled={disabled}
+          aria-invalid={!!rangeError}
+          className={`${inputClass} font-mono ${rangeError ? 'border-destructive' : 'border-input'}`}
+        />
+        <div className="flex flex-wrap gap-1">
+          {PAGE_RANGE_EXAMPLES.map(({ value, label }) => (
+            <button
+              key={label}
+              type="button"
+              onClick={() => updateRule('pageRange', value)}
+              disabled={disabled}
+              className={`
+                rounded-full px-2 py-0.5 text-xs transition-colors
+                ${
+                  rule.pageRange.trim() === value
+                    ? 'bg-primary text-primary-foreground'
+                    : 'bg-muted text-muted-foreground hover:bg-muted/70'
+                }
+                ${disabled ? 'cursor-not-allowed opacity-50' : 'cursor-pointer'}
+              `}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        {rangeError && <p className="text-xs text-destructive">{rangeError}</p>}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Checkbox
+          id={`${idPrefix}-mirror`}
+          checked={rule.mirrorOnEvenPages}
+          onClick={() => updateRule('mirrorOnEvenPages', !rule.mirrorOnEvenPages)}
+          disabled={disabled}
+        />
+        <Label htmlFor={`${idPrefix}-mirror`} className="text-sm text-foreground cursor-pointer">
+          偶数ページで左右を入れ替える
+        </Label>
+      </div>
+
+      {/* 文字の大きさ・色・不透明度 */}
+      <div className="space-y-2">
+        <label htmlFor={`${idPrefix}-font-size`} className="text-sm text-muted-foreground">
+          フォントサイズ: {rule.fontSize}pt
+        </label>
+        <input
+          id={`${idPrefix}-font-size`}
+          type="range"
+          min={6}
+          max={72}
+          value={rule.fontSize}
+          onChange={(e) => updateRule('fontSize', parseInt(e.target.value))}
+          disabled={disabled}
+          className="w-full accent-primary"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <label htmlFor={`${idPrefix}-opacity`} className="text-sm text-muted-foreground">
+          不透明度: {Math.round(rule.opacity * 100)}%
+        </label>
+        <input
+          id={`${idPrefix}-opacity`}
+          type="range"
+          min={10}
+          max={100}
+          step={5}
+          value={Math.round(rule.opacity * 100)}
+          onChange={(e) => updateRule('opacity', parseInt(e.target.value) / 100)}
+          disabled={disabled}
+          className="w-full accent-primary"
+        />
+      </div>
+
+      <div className="flex items-center gap-3">
+        <input
+          id={`${idPrefix}-color`}
+          type="color"
+          value={rule.fontColor}
+          onChange={(e) => updateRule('fontColor', e.target.value)}
+          disabled={disabled}
+          className="h-10 w-14 rounded cursor-pointer border-0 bg-transparent"
+        />
+        <label htmlFor={`${idPrefix}-color`} className="text-sm text-muted-foreground">
+          文字色 {rule.fontColor}
+        </label>
+      </div>
+    </div>
+  )
+})
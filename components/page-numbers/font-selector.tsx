@@ -0,0 +1,122 @@
+/**
+ * フォント選択コンポーネント
+ * 標準フォント・日本語フォント・アップロードしたフォントの選択UI（ページ番号・ヘッダー・フッターで共用）
+ */
+
+'use client'
+
+import { memo, useCallback, useRef, useState } from 'react'
+import type { NumberingFont } from '@/types'
+import { validateFontFile } from '@/lib/pdf-validation'
+import { PDF_NUMBERING_CONSTANTS } from '@/lib/constants'
+import Upload from 'lucide-react/dist/esm/icons/upload'
+
+interface FontSelectorProps {
+  /** フォント（未指定の場合は helvetica） */
+  font?: NumberingFont
+  /** アップロードしたフォントファイル */
+  customFont?: File
+  onChange: (value: { font: NumberingFont; customFont?: File }) => void
+  disabled?: boolean
+}
+
+/** 選択できるフォント */
+const FONT_OPTIONS: Array<{ id: NumberingFont; label: string; description: string }> = [
+  { id: 'helvetica', label: 'Helvetica', description: '欧文のみ（数字・英字）' },
+  { id: 'noto-sans-jp', label: 'Noto Sans JP', description: '日本語に対応' },
+  { id: 'custom', label: 'カスタムフォント', description: 'TTF/OTFファイルを使用' },
+]
+
+/** フォントファイル選択で受け付ける拡張子 */
+const FONT_ACCEPT = PDF_NUMBERING_CONSTANTS.FONT_EXTENSIONS.map((ext) => `.${ext}`).join(',')
+
+export const FontSelector = memo(function FontSelector({
+  font,
+  customFont,
+  onChange,
+  disabled = false,
+}: FontSelectorProps) {
+  const fontInputRef = useRef<HTMLInputElement>(null)
+  const [fontError, setFontError] = useState<string | null>(null)
+  const selectedFont = font ?? 'helvetica'
+
+  /**
+   * アップロードしたフォントファイルを設定
+   */
+  const handleFontFileChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    // 同じファイルを選び直せるようにリセット
+    e.target.value = ''
+    if (!file) return
+
+    const validationResult = validateFontFile(file)
+    if (!validationResult.success) {
+      setFontError(validationResult.message)
+      return
+    }
+    setFontError(null)
+    onChange({ font: 'custom', customFont: file })
+  }, [onChange])
+
+  return (
+    <>
+      <div className="space-y-2" role="radiogroup" aria-label="フォント">
+        {FONT_OPTIONS.map((fontOption) => (
+          <button
+            key={fontOption.id}
+            type="button"
+            role="radio"
+            aria-checked={selectedFont === fontOption.id}
+            onClick={() => onChange({ font: fontOption.id, customFont })}
+            disabled={disabled}
+            className={`
+              flex w-full items-center justify-between rounded-md border-2 px-3 py-2 text-left transition-all
+              ${
+                selectedFont === fontOption.id
+                  ? 'border-primary bg-primary/10'
+                  : 'border-border hover:border-muted-foreground/50 hover:bg-muted/50'
+              }
+              ${disabled ? 'cursor-not-allowed opacity-50' : 'cursor-pointer'}
+            `}
+          >
+            <span className="text-sm font-medium text-foreground">{fontOption.label}</span>
+            <span className="text-xs text-muted-foreground">{fontOption.description}</span>
+          </button>
+        ))}
+      </div>
+
+      {selectedFont === 'custom' && (
+        <div className="space-y-2">
+          <input
+            ref={fontInputRef}
+            type="file"
+            accept={FONT_ACCEPT}
+            onChange={handleFontFileChange}
+            className="hidden"
+            aria-label="フォントファイルを選択"
+          />
+          <button
+            type="button"
+            onClick={() => fontInputRef.current?.click()}
+            disabled={disabled}
+            className="flex w-full items-center justify-center gap-2 rounded-md border border-input bg-background px-3 py-2 text-sm text-foreground transition-colors hover:bg-muted disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            <Upload className="h-4 w-4" />
+            {customFont ? 'フォントファイルを変更' : 'フォントファイルを選択'}
+          </button>
+          {customFont && (
+            <p className="truncate text-xs text-muted-foreground" title={customFont.name}>
+              {customFont.name}
+            </p>
+          )}
+          {fontError && (
+            <p className="text-xs text-destructive">{fontError}</p>
+          )}
+          <p className="text-xs text-muted-foreground">
+            使用する文字のみを埋め込むため、出力ファイルのサイズは大きくなりません
+          </p>
+        </div>
+      )}
+    </>
+  )
+})
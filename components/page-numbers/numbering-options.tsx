@@ -5,12 +5,35 @@
 
 'use client'
 
-import { useCallback } from 'react'
+import { useCallback, useMemo } from 'react'
+import { DEFAULT_BATES_OPTIONS } from '@/types'
 import type {
+  BatesOptions,
   PdfNumberingOptions,
   NumberPosition,
+  NumberStyle,
   OddEvenPosition,
 } from '@/types'
+import { FilenameTemplateInput } from '@/components/pdf-split/filename-template-input'
+import { FontSelector } from '@/components/page-numbers/font-selector'
+import { PositionGrid } from '@/components/page-numbers/position-grid'
+import { NUMBERING_FILENAME_TEMPLATE } from '@/lib/pdf-page-numbers'
+import { removeExtension } from '@/lib/filename-template'
+import {
+  DEFAULT_PAGE_NUMBER_FORMAT,
+  NUMBER_STYLE_LABELS,
+  PAGE_NUMBER_FORMAT_PRESETS,
+  PAGE_NUMBER_FORMAT_TOKENS,
+  getPageNumberLabel,
+  requiresJapaneseFont,
+} from '@/lib/page-number-format'
+import {
+  validateBates,
+  validateFilenameTemplate,
+  validateFontFile,
+  validatePageNumberFormat,
+} from '@/lib/pdf-validation'
+import { PDF_NUMBERING_CONSTANTS } from '@/lib/constants'
 import FileText from 'lucide-react/dist/esm/icons/file-text'
 import Download from 'lucide-react/dist/esm/icons/download'
 import Loader2 from 'lucide-react/dist/esm/icons/loader-2'
@@ -24,72 +47,86 @@ interface NumberingOptionsProps {
   isProcessing: boolean
   hasResult: boolean
   totalPages: number
+  /** 処理するファイル名（出力ファイル名の例に使用） */
+  filename?: string
+  /** 複数ファイルを一括処理するかどうか（Bates番号の説明に使用） */
+  batchMode?: boolean
 }
 
-/** 9つの配置位置 */
-const POSITIONS: NumberPosition[] = [
-  'top-left',
-  'top-center',
-  'top-right',
-  'middle-left',
-  'middle-center',
-  'middle-right',
-  'bottom-left',
-  'bottom-center',
-  'bottom-right',
-]
-
-/** 位置の日本語表示名 */
-const POSITION_LABELS: Record<NumberPosition, string> = {
-  'top-left': '左上',
-  'top-center': '中上',
-  'top-right': '右上',
-  'middle-left': '左中',
-  'middle-center': '中央',
-  'middle-right': '右中',
-  'bottom-left': '左下',
-  'bottom-center': '中下',
-  'bottom-right': '右下',
-}
+/** ページ番号挿入時に表示するトークン */
+const NUMBERING_FILENAME_TOKENS = ['{base}', '{pages}', '{date}']
 
 /**
- * 位置選択グリッドコンポーネント
+ * Bates番号の設定欄コンポーネント
  */
-interface PositionGridProps {
-  value: NumberPosition
-  onChange: (position: NumberPosition) => void
+interface BatesFieldsProps {
+  bates: BatesOptions
+  onChange: <K extends keyof BatesOptions>(key: K, value: BatesOptions[K]) => void
   disabled?: boolean
-  label: string
+  batchMode: boolean
 }
 
-function PositionGrid({ value, onChange, disabled, label }: PositionGridProps) {
+function BatesFields({ bates, onChange, disabled, batchMode }: BatesFieldsProps) {
+  const { MAX_BATES_DIGITS, MAX_BATES_AFFIX_LENGTH } = PDF_NUMBERING_CONSTANTS
+  const inputClass =
+    'w-full rounded-md border border-input bg-background px-3 py-2 font-mono text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-ring disabled:cursor-not-allowed disabled:opacity-50'
+
   return (
-    <div className="space-y-2">
-      <p className="text-sm font-medium text-foreground">{label}</p>
-      <div className="grid grid-cols-3 gap-2">
-        {POSITIONS.map((pos) => (
-          <button
-            key={pos}
-            type="button"
-            onClick={() => onChange(pos)}
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-2">
+          <label htmlFor="bates-prefix" className="text-sm text-muted-foreground">
+            接頭辞
+          </label>
+          <input
+            id="bates-prefix"
+            type="text"
+            value={bates.prefix}
+            onChange={(e) => onChange('prefix', e.target.value)}
+            maxLength={MAX_BATES_AFFIX_LENGTH}
+            placeholder="ABC-"
             disabled={disabled}
-            className={`
-              aspect-square rounded-md border-2 transition-all
-              ${
-                value === pos
-                  ? 'border-primary bg-primary/20 text-primary'
-                  : 'border-border hover:border-muted-foreground/50 hover:bg-muted/50'
-              }
-              ${disabled ? 'cursor-not-allowed opacity-50' : 'cursor-pointer'}
-              flex items-center justify-center text-xs
-            `}
-            aria-label={`${POSITION_LABELS[pos]}に配置`}
-            aria-pressed={value === pos}
-          >
-            {POSITION_LABELS[pos]}
-          </button>
-        ))}
+            className={inputClass}
+          />
+        </div>
+        <div className="space-y-2">
+          <label htmlFor="bates-suffix" className="text-sm text-muted-foreground">
+            接尾辞
+          </label>
+          <input
+            id="bates-suffix"
+            type="text"
+            value={bates.suffix}
+            onChange={(e) => onChange('suffix', e.target.value)}
+            maxLength={MAX_BATES_AFFIX_LENGTH}
+            disabled={disabled}
+            className={inputClass}
+          />
+        </div>
       </div>
+      <div className="space-y-2">
+        <label htmlFor="bates-digits" className="text-sm text-muted-foreground">
+          桁数（0埋め）
+        </label>
+        <input
+          id="bates-digits"
+          type="number"
+          min={1}
+          max={MAX_BATES_DIGITS}
+          value={bates.digits}
+          onChange={(e) => {
+            const val = Math.max(1, Math.min(MAX_BATES_DIGITS, parseInt(e.target.value) || 1))
+            onChange('digits', val)
+          }}
+          disabled={disabled}
+          className={inputClass}
+        />
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {batchMode
+          ? '2件目以降のファイルは前のファイルの最後の番号から続けて付けます。処理後に各ファイルの開始・終了番号をCSVで保存できます'
+          : '処理後に開始・終了番号をCSVで保存できます'}
+      </p>
     </div>
   )
 }
@@ -117,10 +154,14 @@ export function NumberingOptions({
   isProcessing,
   hasResult,
   totalPages,
+  filename,
+  batchMode = false,
 }: NumberingOptionsProps) {
   // 奇数・偶数ページで別の位置を使用するか
   const useOddEven = typeof options.position === 'object'
 
+  const selectedFont = options.font ?? 'helvetica'
+
   // 現在の奇数・偶数位置を取得
   const oddPosition = getOddPosition(options.position)
   const evenPosition = getEvenPosition(options.position)
@@ -164,6 +205,24 @@ export function NumberingOptions({
     })
   }, [options, onOptionsChange])
 
+  /**
+   * Bates番号の切り替え
+   */
+  const toggleBates = useCallback(() => {
+    updateOption('bates', options.bates ? undefined : DEFAULT_BATES_OPTIONS)
+  }, [options.bates, updateOption])
+
+  /**
+   * Bates番号の設定を更新
+   */
+  const updateBates = useCallback(
+    <K extends keyof BatesOptions>(key: K, value: BatesOptions[K]) => {
+      if (!options.bates) return
+      updateOption('bates', { ...options.bates, [key]: value })
+    },
+    [options.bates, updateOption]
+  )
+
   /**
    * 奇数・偶数別設定をトグル
    */
@@ -181,6 +240,32 @@ export function NumberingOptions({
     }
   }, [useOddEven, options, oddPosition, onOptionsChange])
 
+  const filenameSample = useMemo(
+    () => ({ base: filename ? removeExtension(filename) : 'document', pages: totalPages }),
+    [filename, totalPages]
+  )
+  const isFilenameTemplateValid = validateFilenameTemplate(options.filenameTemplate).success
+  const isFontValid = selectedFont !== 'custom' || validateFontFile(options.customFont).success
+
+  // 書式の検証と出力例（最初と最後に番号を付けるページ）
+  const formatResult = options.bates
+    ? validateBates(options.bates)
+    : validatePageNumberFormat(options.format)
+  const formatError = formatResult.success ? null : formatResult.message
+  const maxStartNumber = options.bates ? PDF_NUMBERING_CONSTANTS.MAX_BATES_START_NUMBER : 9999
+  const isFontUnsupported = selectedFont === 'helvetica' && requiresJapaneseFont(options)
+  const formatExamples = useMemo(() => {
+    if (formatError) return []
+    const lastPage = Math.max(totalPages, options.startFromPage)
+    const pageNumbers = lastPage > options.startFromPage
+      ? [options.startFromPage, lastPage]
+      : [options.startFromPage]
+    return pageNumbers.map((pageNumber) => ({
+      pageNumber,
+      label: getPageNumberLabel(options, pageNumber, lastPage),
+    }))
+  }, [formatError, options, totalPages])
+
   // ボタンの共通クラス
   const buttonClass =
     'flex w-full items-center justify-center gap-2 rounded-lg bg-primary px-4 py-3 font-medium text-primary-foreground transition-colors hover:bg-primary/90 disabled:cursor-not-allowed disabled:opacity-50'
@@ -269,10 +354,10 @@ export function NumberingOptions({
                 id="start-number"
                 type="number"
                 min={1}
-                max={9999}
+                max={maxStartNumber}
                 value={options.startNumber}
                 onChange={(e) => {
-                  const val = Math.max(1, Math.min(9999, parseInt(e.target.value) || 1))
+                  const val = Math.max(1, Math.min(maxStartNumber, parseInt(e.target.value) || 1))
                   updateOption('startNumber', val)
                 }}
                 disabled={disabled}
@@ -281,10 +366,134 @@ export function NumberingOptions({
             </div>
           </section>
 
+          {/* 番号の書式 */}
+          <section className="space-y-4">
+            <div className="flex items-center justify-between">
+              <h4 className="text-sm font-semibold text-foreground">番号の書式</h4>
+              <button
+                type="button"
+                onClick={toggleBates}
+                disabled={disabled}
+                aria-pressed={!!options.bates}
+                className={`
+                  text-xs px-3 py-1 rounded-full transition-colors
+                  ${
+                    options.bates
+                      ? 'bg-primary text-primary-foreground'
+                      : 'bg-muted text-muted-foreground hover:bg-muted/70'
+                  }
+                  ${disabled ? 'cursor-not-allowed opacity-50' : 'cursor-pointer'}
+                `}
+              >
+                {options.bates ? 'Bates番号' : 'ページ番号'}
+              </button>
+            </div>
+
+            {options.bates ? (
+              <BatesFields
+                bates={options.bates}
+                onChange={updateBates}
+                disabled={disabled}
+                batchMode={batchMode}
+              />
+            ) : (
+              <>
+                <div className="space-y-2">
+                  <label htmlFor="number-format" className="text-sm text-muted-foreground">
+                    書式
+                  </label>
+                  <input
+                    id="number-format"
+                    type="text"
+                    value={options.format ?? ''}
+                    onChange={(e) => updateOption('format', e.target.value === '' ? undefined : e.target.value)}
+                    placeholder={DEFAULT_PAGE_NUMBER_FORMAT}
+                    disabled={disabled}
+                    aria-invalid={!!formatError}
+                    className={`w-full rounded-md border bg-background px-3 py-2 font-mono text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-ring disabled:cursor-not-allowed disabled:opacity-50 ${formatError ? 'border-destructive' : 'border-input'}`}
+                  />
+                  <div className="flex flex-wrap gap-1">
+                    {PAGE_NUMBER_FORMAT_PRESETS.map((preset) => (
+                      <button
+                        key={preset}
+                        type="button"
+                        onClick={() => updateOption('format', preset)}
+                        disabled={disabled}
+                        className={`
+                          rounded-full px-2 py-0.5 font-mono text-xs transition-colors
+                          ${
+                            (options.format ?? DEFAULT_PAGE_NUMBER_FORMAT) === preset
+                              ? 'bg-primary text-primary-foreground'
+                              : 'bg-muted text-muted-foreground hover:bg-muted/70'
+                          }
+                          ${disabled ? 'cursor-not-allowed opacity-50' : 'cursor-pointer'}
+                        `}
+                      >
+                        {preset}
+                      </button>
+                    ))}
+                  </div>
+                  <ul className="space-y-0.5 text-xs text-muted-foreground">
+                    {PAGE_NUMBER_FORMAT_TOKENS.map(({ token, description }) => (
+                      <li key={token}>
+                        <span className="font-mono text-foreground">{token}</span> {description}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+
+                <div className="space-y-2">
+                  <label htmlFor="number-style" className="text-sm text-muted-foreground">
+                    数字の表記
+                  </label>
+                  <select
+                    id="number-style"
+                    value={options.numberStyle ?? 'arabic'}
+                    onChange={(e) => updateOption('numberStyle', e.target.value as NumberStyle)}
+                    disabled={disabled}
+                    className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-ring disabled:cursor-not-allowed disabled:opacity-50"
+                  >
+                    {(Object.keys(NUMBER_STYLE_LABELS) as NumberStyle[]).map((style) => (
+                      <option key={style} value={style}>
+                        {NUMBER_STYLE_LABELS[style]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </>
+            )}
+
+            {/* 出力例 */}
+            {formatError ? (
+              <p className="text-xs text-destructive">{formatError}</p>
+            ) : (
+              <div className="space-y-1 rounded-md bg-muted/50 p-3">
+                {formatExamples.map(({ pageNumber, label }) => (
+                  <p key={pageNumber} className="flex items-baseline justify-between gap-2 text-xs">
+                    <span className="shrink-0 text-muted-foreground">{pageNumber}ページ目</span>
+                    <span className="truncate font-medium text-foreground" title={label}>{label}</span>
+                  </p>
+                ))}
+              </div>
+            )}
+            {isFontUnsupported && (
+              <p className="text-xs text-destructive">
+                Helveticaでは日本語・漢数字・全角数字を表示できません。下のフォント設定でNoto Sans JPなどを選択してください
+              </p>
+            )}
+          </section>
+
           {/* フォント設定 */}
           <section className="space-y-4">
             <h4 className="text-sm font-semibold text-foreground">フォント設定</h4>
 
+            <FontSelector
+              font={options.font}
+              customFont={options.customFont}
+              onChange={(value) => onOptionsChange({ ...options, ...value })}
+              disabled={disabled}
+            />
+
             <div className="space-y-2">
               <div className="flex items-center justify-between">
                 <label htmlFor="font-size" className="text-sm text-muted-foreground">
@@ -366,6 +575,19 @@ export function NumberingOptions({
               </label>
             </div>
           </section>
+
+          {/* 出力ファイル名 */}
+          <section>
+            <FilenameTemplateInput
+              value={options.filenameTemplate}
+              onChange={(filenameTemplate) => updateOption('filenameTemplate', filenameTemplate)}
+              defaultTemplate={NUMBERING_FILENAME_TEMPLATE}
+              sampleValues={filenameSample}
+              tokens={NUMBERING_FILENAME_TOKENS}
+              disabled={disabled}
+              idPrefix="numbering-filename"
+            />
+          </section>
         </div>
       </div>
 
@@ -387,7 +609,14 @@ export function NumberingOptions({
           <button
             type="button"
             onClick={onExecute}
-            disabled={disabled || isProcessing}
+            disabled={
+              disabled ||
+              isProcessing ||
+              !isFilenameTemplateValid ||
+              !isFontValid ||
+              !!formatError ||
+              isFontUnsupported
+            }
             className={buttonClass}
           >
             {isProcessing ? (
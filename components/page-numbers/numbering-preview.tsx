@@ -0,0 +1,181 @@
+/**
+ * ページ番号プレビューコンポーネント
+ * 現在の設定（位置・余白・フォント・色）でページ番号がどう入るかを縮小ページに表示
+ */
+
+'use client'
+
+import { memo } from 'react'
+import type { CSSProperties } from 'react'
+import type { NumberPosition, PdfNumberingOptions } from '@/types'
+import { usePreviewFontFamily } from '@/hooks/use-preview-font'
+import { getPageNumberLabel } from '@/lib/page-number-format'
+import { validatePageNumberFormat } from '@/lib/pdf-validation'
+import { cn } from '@/lib/utils'
+
+interface NumberingPreviewProps {
+  options: PdfNumberingOptions
+  totalPages: number
+  className?: string
+}
+
+/** プレビューのページサイズ（A4縦、pt単位） */
+const PREVIEW_PAGE_WIDTH = 595
+const PREVIEW_PAGE_HEIGHT = 842
+
+/** 縮小ページの表示幅（px） */
+const PREVIEW_WIDTH = 160
+
+/** 縮小ページの倍率 */
+const PREVIEW_SCALE = PREVIEW_WIDTH / PREVIEW_PAGE_WIDTH
+
+/** 縮小ページ上で読める最小の文字サイズ（px） */
+const MIN_PREVIEW_FONT_SIZE = 7
+
+/** 見本の最大文字サイズ（px） */
+const MAX_SAMPLE_FONT_SIZE = 48
+
+/**
+ * 縮小ページ上の番号の配置を計算
+ * lib/pdf-page-numbers の座標計算と同じく、上下は余白＋文字サイズの位置にベースラインを置く
+ */
+function getLabelStyle(
+  position: NumberPosition,
+  options: PdfNumberingOptions
+): CSSProperties {
+  const style: CSSProperties = { position: 'absolute', lineHeight: 1, whiteSpace: 'nowrap' }
+  const marginX = options.marginX * PREVIEW_SCALE
+  const marginY = options.marginY * PREVIEW_SCALE
+  const fontSize = options.fontSize * PREVIEW_SCALE
+
+  if (position.startsWith('top')) {
+    style.top = marginY
+  } else if (position.startsWith('middle')) {
+    style.top = '50%'
+    style.transform = 'translateY(-50%)'
+  } else {
+    style.bottom = marginY + fontSize
+  }
+
+  if (position.endsWith('left')) {
+    style.left = marginX
+  } else if (position.endsWith('center')) {
+    style.left = '50%'
+    style.transform = `${style.transform ?? ''} translateX(-50%)`.trim()
+  } else {
+    style.right = marginX
+  }
+
+  return style
+}
+
+/**
+ * 縮小ページ
+ */
+function PreviewPage({
+  pageNumber,
+  label,
+  position,
+  options,
+  fontFamily,
+}: {
+  pageNumber: number
+  label: string
+  position: NumberPosition
+  options: PdfNumberingOptions
+  fontFamily: string
+}) {
+  return (
+    <figure className="space-y-1">
+      <div
+        className="relative overflow-hidden rounded-sm border border-border bg-white shadow-sm"
+        style={{ width: PREVIEW_WIDTH, height: PREVIEW_PAGE_HEIGHT * PREVIEW_SCALE }}
+      >
+        {/* 本文の代わりの線 */}
+        <div className="absolute inset-x-[15%] top-[15%] space-y-2">
+          {Array.from({ length: 8 }, (_, i) => (
+            <div key={i} className={cn('h-1 rounded bg-muted', i % 3 === 2 && 'w-2/3')} />
+          ))}
+        </div>
+        <span
+          style={{
+            ...getLabelStyle(position, options),
+            fontFamily,
+            fontSize: Math.max(MIN_PREVIEW_FONT_SIZE, options.fontSize * PREVIEW_SCALE),
+            color: options.fontColor,
+          }}
+        >
+          {label}
+        </span>
+      </div>
+      <figcaption className="text-center text-xs text-muted-foreground">
+        {pageNumber}ページ目
+      </figcaption>
+    </figure>
+  )
+}
+
+export const NumberingPreview = memo(function NumberingPreview({
+  options,
+  totalPages,
+  className,
+}: NumberingPreviewProps) {
+  const fontFamily = usePreviewFontFamily(options.font, options.customFont)
+
+  // 番号を入れる最初のページと、奇数・偶数別の場合はその次のページを表示
+  const firstPage = options.startFromPage
+  const previewPages = typeof options.position === 'object' && firstPage < totalPages
+    ? [firstPage, firstPage + 1]
+    : [firstPage]
+
+  // 書式が不正な場合は既定の書式で表示する（エラーはオプションパネルに表示）
+  const labelOptions = validatePageNumberFormat(options.format).success
+    ? options
+    : { ...options, format: undefined }
+  const getLabel = (pageNumber: number) =>
+    getPageNumberLabel(labelOptions, pageNumber, Math.max(totalPages, firstPage))
+
+  const getPosition = (pageNumber: number): NumberPosition => {
+    if (typeof options.position === 'object') {
+      return pageNumber % 2 === 1 ? options.position.odd : options.position.even
+    }
+    return options.position
+  }
+
+  return (
+    <div className={cn('rounded-lg border border-border bg-card p-6', className)}>
+      <h3 className="mb-4 text-sm font-medium text-foreground">プレビュー</h3>
+
+      <div className="flex flex-wrap justify-center gap-6">
+        {previewPages.map((pageNumber) => (
+          <PreviewPage
+            key={pageNumber}
+            pageNumber={pageNumber}
+            label={getLabel(pageNumber)}
+            position={getPosition(pageNumber)}
+            options={options}
+            fontFamily={fontFamily}
+          />
+        ))}
+      </div>
+
+      {/* 実寸の見本 */}
+      <div className="mt-4 border-t border-border pt-4">
+        <p className="mb-2 text-xs text-muted-foreground">
+          実寸（{options.fontSize}pt）
+        </p>
+        <p
+          className="truncate"
+          style={{
+            fontFamily,
+            fontSize: Math.min(MAX_SAMPLE_FONT_SIZE, options.fontSize),
+            color: options.fontColor,
+            lineHeight: 1.2,
+          }}
+        >
+          {getLabel(firstPage)}
+        </p>
+      </div>
+    </div>
+  )
+})
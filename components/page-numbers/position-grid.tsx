@@ -0,0 +1,79 @@
+/**
+ * 位置選択グリッドコンポーネント
+ * 9つの配置位置の選択UI（ページ番号・透かしで共用）
+ */
+
+'use client'
+
+import { memo } from 'react'
+import type { NumberPosition } from '@/types'
+
+/** 9つの配置位置 */
+const POSITIONS: NumberPosition[] = [
+  'top-left',
+  'top-center',
+  'top-right',
+  'middle-left',
+  'middle-center',
+  'middle-right',
+  'bottom-left',
+  'bottom-center',
+  'bottom-right',
+]
+
+/** 位置の日本語表示名 */
+const POSITION_LABELS: Record<NumberPosition, string> = {
+  'top-left': '左上',
+  'top-center': '中上',
+  'top-right': '右上',
+  'middle-left': '左中',
+  'middle-center': '中央',
+  'middle-right': '右中',
+  'bottom-left': '左下',
+  'bottom-center': '中下',
+  'bottom-right': '右下',
+}
+
+interface PositionGridProps {
+  value: NumberPosition
+  onChange: (position: NumberPosition) => void
+  disabled?: boolean
+  label: string
+}
+
+export const PositionGrid = memo(function PositionGrid({
+  value,
+  onChange,
+  disabled,
+  label,
+}: PositionGridProps) {
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium text-foreground">{label}</p>
+      <div className="grid grid-cols-3 gap-2">
+        {POSITIONS.map((pos) => (
+          <button
+            key={pos}
+            type="button"
+            onClick={() => onChange(pos)}
+            disabled={disabled}
+            className={`
+              aspect-square rounded-md border-2 transition-all
+              ${
+                value === pos
+                  ? 'border-primary bg-primary/20 text-primary'
+                  : 'border-border hover:border-muted-foreground/50 hover:bg-muted/50'
+              }
+              ${disabled ? 'cursor-not-allowed opacity-50' : 'cursor-pointer'}
+              flex items-center justify-center text-xs
+            `}
+            aria-label={`${POSITION_LABELS[pos]}に配置`}
+            aria-pressed={value === pos}
+          >
+            {POSITION_LABELS[pos]}
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+})
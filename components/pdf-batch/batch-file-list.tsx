@@ -0,0 +1,204 @@
+/**
+ * 一括処理ファイルリストコンポーネント
+ * 処理待ちのファイルと、ファイルごとの状態・進捗を表示
+ */
+
+'use client'
+
+import { memo } from 'react'
+import type { BatchItem, BatchItemStatus, BatchResult } from '@/types'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { DocxIcon, PdfIcon } from '@/components/pdf-merge/file-icons'
+import { formatFileSize } from '@/lib/file-utils'
+import { cn } from '@/lib/utils'
+import X from 'lucide-react/dist/esm/icons/x'
+import Download from 'lucide-react/dist/esm/icons/download'
+import Loader2 from 'lucide-react/dist/esm/icons/loader-2'
+
+interface BatchFileListProps {
+  items: BatchItem[]
+  onRemove: (id: string) => void
+  onClear: () => void
+  onCancel?: () => void
+  onDownload?: () => void
+  isProcessing: boolean
+  /** ZIPファイルを作成中かどうか */
+  isCreatingZip?: boolean
+  result: BatchResult | null
+  className?: string
+}
+
+/** 状態の表示名とバッジの種類 */
+const STATUS_BADGES: Record<
+  BatchItemStatus,
+  { label: string; variant: 'default' | 'secondary' | 'outline' | 'destructive' }
+> = {
+  pending: { label: '待機中', variant: 'outline' },
+  processing: { label: '処理中', variant: 'secondary' },
+  completed: { label: '完了', variant: 'default' },
+  failed: { label: '失敗', variant: 'destructive' },
+  cancelled: { label: 'キャンセル', variant: 'outline' },
+}
+
+/**
+ * 一括処理の1ファイル分の行
+ */
+const BatchFileRow = memo(function BatchFileRow({
+  item,
+  onRemove,
+  disabled,
+}: {
+  item: BatchItem
+  onRemove: (id: string) => void
+  disabled: boolean
+}) {
+  const { file, status, progress, outputs, error } = item
+  const badge = STATUS_BADGES[status]
+  const outputSize = outputs.reduce((sum, output) => sum + output.blob.size, 0)
+
+  return (
+    <li className="flex items-center gap-3 rounded-lg border border-border bg-card p-3 shadow-sm">
+      {file.type === 'docx' ? <DocxIcon /> : <PdfIcon />}
+
+      <div className="flex-1 min-w-0 space-y-1">
+        <p className="text-sm font-medium text-foreground truncate" title={file.name}>
+          {file.name}
+        </p>
+        <p className="text-xs text-muted-foreground">
+          {file.size}
+          {file.pages ? ` • ${file.pages}ページ` : ''}
+          {status === 'completed' &&
+            ` → ${outputs.length > 1 ? `${outputs.length}ファイル, ` : ''}${formatFileSize(outputSize)}`}
+        </p>
+
+        {status === 'processing' && progress && (
+          <div
+            className="h-1.5 w-full bg-muted rounded-full overflow-hidden"
+            role="progressbar"
+            aria-label={`${file.name}の進捗`}
+            aria-valuenow={progress.percentage}
+            aria-valuemin={0}
+            aria-valuemax={100}
+          >
+            <div
+              className="h-full bg-primary transition-all duration-300 ease-out"
+              style={{ width: `${progress.percentage}%` }}
+            />
+          </div>
+        )}
+
+        {status === 'failed' && error && (
+          <p className="text-xs text-destructive">{error}</p>
+        )}
+      </div>
+
+      <Badge variant={badge.variant} className="shrink-0">
+        {badge.label}
+      </Badge>
+
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8 text-muted-foreground hover:text-destructive"
+        onClick={() => onRemove(file.id)}
+        disabled={disabled}
+        aria-label={`${file.name}を削除`}
+      >
+        <X className="h-4 w-4" />
+      </Button>
+    </li>
+  )
+})
+
+export const BatchFileList = memo(function BatchFileList({
+  items,
+  onRemove,
+  onClear,
+  onCancel,
+  onDownload,
+  isProcessing,
+  isCreatingZip = false,
+  result,
+  className,
+}: BatchFileListProps) {
+  if (items.length === 0) return null
+
+  const isBusy = isProcessing || isCreatingZip
+
+  return (
+    <div className={cn('space-y-3', className)}>
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium text-foreground">
+          {items.length}個のファイル
+        </p>
+        <div className="flex items-center gap-2">
+          {isBusy && onCancel && (
+            <Button variant="outline" size="sm" onClick={onCancel}>
+              キャンセル
+            </Button>
+          )}
+          <Button variant="ghost" size="sm" onClick={onClear} disabled={isBusy}>
+            すべてクリア
+          </Button>
+        </div>
+      </div>
+
+      {result && (
+        <div
+          className={cn(
+            'flex items-center justify-between gap-3 rounded-lg border p-4',
+            result.failed > 0 ? 'border-warning/50 bg-warning-bg' : 'border-success/50 bg-success-bg'
+          )}
+        >
+          <div>
+            <p
+              className={cn(
+                'text-sm font-medium',
+                result.failed > 0 ? 'text-warning-text' : 'text-success-text'
+              )}
+            >
+              {result.completed}件のファイルを処理しました
+            </p>
+            {(result.failed > 0 || result.cancelled > 0) && (
+              <p className="text-xs text-muted-foreground">
+                {[
+                  result.failed > 0 && `${result.failed}件失敗`,
+                  result.cancelled > 0 && `${result.cancelled}件キャンセル`,
+                ]
+                  .filter(Boolean)
+                  .join('、')}
+              </p>
+            )}
+          </div>
+          {result.completed > 0 && onDownload && (
+            <Button size="sm" onClick={onDownload} disabled={isBusy}>
+              {isCreatingZip ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ZIPを作成中...
+                </>
+              ) : (
+                <>
+                  <Download className="h-4 w-4 mr-2" />
+                  ZIPでダウンロード
+                </>
+              )}
+            </Button>
+          )}
+        </div>
+      )}
+
+      <ul className="space-y-2">
+        {items.map((item) => (
+          <BatchFileRow
+            key={item.file.id}
+            item={item}
+            onRemove={onRemove}
+            disabled={isBusy}
+          />
+        ))}
+      </ul>
+    </div>
+  )
+})
@@ -0,0 +1,64 @@
+/**
+ * 一括処理モード切り替えコンポーネント
+ * 1ファイルずつ処理するか、複数ファイルをまとめて処理するかを選択
+ */
+
+'use client'
+
+import { memo } from 'react'
+import { cn } from '@/lib/utils'
+import FileText from 'lucide-react/dist/esm/icons/file-text'
+import Files from 'lucide-react/dist/esm/icons/files'
+
+interface BatchModeToggleProps {
+  batchMode: boolean
+  onChange: (batchMode: boolean) => void
+  disabled?: boolean
+  className?: string
+}
+
+/** 選択肢 */
+const MODES = [
+  { batchMode: false, label: '1ファイル', icon: FileText },
+  { batchMode: true, label: '一括処理', icon: Files },
+] as const
+
+export const BatchModeToggle = memo(function BatchModeToggle({
+  batchMode,
+  onChange,
+  disabled = false,
+  className,
+}: BatchModeToggleProps) {
+  return (
+    <div
+      role="radiogroup"
+      aria-label="処理モード"
+      className={cn('inline-flex rounded-lg border border-border bg-muted/30 p-1', className)}
+    >
+      {MODES.map((mode) => {
+        const Icon = mode.icon
+        const isSelected = mode.batchMode === batchMode
+        return (
+          <button
+            key={mode.label}
+            type="button"
+            role="radio"
+            aria-checked={isSelected}
+            onClick={() => onChange(mode.batchMode)}
+            disabled={disabled}
+            className={cn(
+              'flex items-center gap-1.5 rounded-md px-3 py-1.5 text-sm transition-colors',
+              'disabled:cursor-not-allowed disabled:opacity-50',
+              isSelected
+                ? 'bg-background text-foreground shadow-sm'
+                : 'text-muted-foreground hover:text-foreground'
+            )}
+          >
+            <Icon className="h-4 w-4" />
+            {mode.label}
+          </button>
+        )
+      })}
+    </div>
+  )
+})
@@ -5,10 +5,13 @@
 
 'use client'
 
+import { useState } from 'react'
 import { Switch } from '@/components/ui/switch'
 import { Button } from '@/components/ui/button'
 import { Label } from '@/components/ui/label'
+import { Input } from '@/components/ui/input'
 import { cn } from '@/lib/utils'
+import { formatFileSize } from '@/lib/file-utils'
 import type { PdfCompressionOptions, CompressionResult, CompressionPreset } from '@/types'
 import { COMPRESSION_PRESET_LABELS } from '@/types'
 import Archive from 'lucide-react/dist/esm/icons/archive'
@@ -29,7 +32,10 @@ interface CompressionOptionsProps {
   compressionResult?: CompressionResult | null
 }
 
-type CompressionSwitchOption = 'removeMetadata' | 'removeAnnotations'
+type CompressionSwitchOption = 'removeMetadata' | 'removeAnnotations' | 'convertToGrayscale'
+
+/** 目標サイズを有効にした際の初期値（MB） */
+const DEFAULT_TARGET_SIZE_MB = 2
 
 /** プリセット情報（UI表示用） */
 const PRESET_INFO: Array<{
@@ -39,7 +45,7 @@ const PRESET_INFO: Array<{
 }> = [
   {
     id: 'high',
-    description: '画質を優先、メタデータ削除のみ',
+    description: '画質を優先、特に大きな画像のみ縮小',
     icon: Sparkles,
   },
   {
@@ -73,6 +79,31 @@ export function CompressionOptions({
     onOptionsChange({ ...options, [key]: !options[key] })
   }
 
+  // 目標サイズの入力値（入力途中の値を保持するため文字列で管理）
+  const [targetSizeText, setTargetSizeText] = useState(
+    String(options.targetSize !== null ? options.targetSize / 1024 / 1024 : DEFAULT_TARGET_SIZE_MB)
+  )
+
+  // 目標サイズの指定を切り替え
+  const handleTargetSizeToggle = () => {
+    const megabytes = Number(targetSizeText)
+    onOptionsChange({
+      ...options,
+      targetSize: options.targetSize === null ? Math.round(megabytes * 1024 * 1024) : null,
+    })
+  }
+
+  // 目標サイズを変更
+  const handleTargetSizeChange = (value: string) => {
+    setTargetSizeText(value)
+    onOptionsChange({ ...options, targetSize: Math.round(Number(value) * 1024 * 1024) })
+  }
+
+  // 圧縮方式を切り替え
+  const handleRasterizeChange = () => {
+    onOptionsChange({ ...options, mode: options.mode === 'rasterize' ? 'structural' : 'rasterize' })
+  }
+
   return (
     <div className="flex h-full flex-col">
       {/* ヘッダー */}
@@ -88,6 +119,41 @@ export function CompressionOptions({
 
       {/* オプション内容 */}
       <div className="flex-1 overflow-auto p-4 space-y-6">
+        {/* 目標サイズ */}
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label htmlFor="useTargetSize" className="text-sm font-medium cursor-pointer">
+                目標サイズを指定
+              </Label>
+              <p className="text-xs text-muted-foreground">
+                収まるまで画質と解像度を自動で下げます
+              </p>
+            </div>
+            <Switch
+              id="useTargetSize"
+              checked={options.targetSize !== null}
+              onClick={handleTargetSizeToggle}
+              disabled={disabled}
+            />
+          </div>
+          {options.targetSize !== null && (
+            <div className="flex items-center gap-2">
+              <Input
+                id="targetSize"
+                type="number"
+                min={0.1}
+                step={0.1}
+                value={targetSizeText}
+                onChange={(e) => handleTargetSizeChange(e.target.value)}
+                disabled={disabled}
+                className="h-9"
+              />
+              <span className="text-sm text-muted-foreground">MB以下</span>
+            </div>
+          )}
+        </div>
+
         {/* 圧縮レベル選択 */}
         <div className="space-y-3">
           <Label className="text-sm font-medium">圧縮レベル</Label>
@@ -100,7 +166,7 @@ export function CompressionOptions({
                   key={preset.id}
                   type="button"
                   onClick={() => handlePresetChange(preset.id)}
-                  disabled={disabled}
+                  disabled={disabled || options.targetSize !== null}
                   className={cn(
                     'w-full flex items-center gap-3 rounded-lg border p-3 text-left transition-colors',
                     'hover:bg-accent/50',
@@ -137,6 +203,42 @@ export function CompressionOptions({
         <div className="space-y-4">
           <Label className="text-sm font-medium">詳細オプション</Label>
 
+          {/* ページの画像化 */}
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label htmlFor="rasterize" className="text-sm font-normal cursor-pointer">
+                ページを画像化して圧縮
+              </Label>
+              <p className="text-xs text-muted-foreground">
+                スキャン文書向け。テキストの選択・検索やリンクは使えなくなります
+              </p>
+            </div>
+            <Switch
+              id="rasterize"
+              checked={options.mode === 'rasterize'}
+              onClick={handleRasterizeChange}
+              disabled={disabled}
+            />
+          </div>
+
+          {/* グレースケール変換 */}
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label htmlFor="convertToGrayscale" className="text-sm font-normal cursor-pointer">
+                グレースケールに変換
+              </Label>
+              <p className="text-xs text-muted-foreground">
+                画像と文字・図形の色を白黒に変換
+              </p>
+            </div>
+            <Switch
+              id="convertToGrayscale"
+              checked={options.convertToGrayscale}
+              onClick={handleSwitchChange('convertToGrayscale')}
+              disabled={disabled}
+            />
+          </div>
+
           {/* メタデータ削除 */}
           <div className="flex items-center justify-between">
             <div className="space-y-0.5">
@@ -202,6 +304,21 @@ export function CompressionOptions({
                 </p>
               </div>
             </div>
+
+            {compressionResult.targetSize !== undefined && (
+              <p className="text-xs text-muted-foreground">
+                {compressionResult.targetReached
+                  ? `目標サイズ（${formatFileSize(compressionResult.targetSize)}）に収まりました`
+                  : `目標サイズ（${formatFileSize(compressionResult.targetSize)}）には収まりませんでした。これが最小のサイズです`}
+              </p>
+            )}
+            {compressionResult.grayscaleSavedBytes !== undefined && (
+              <p className="text-xs text-muted-foreground">
+                グレースケール変換による削減: {compressionResult.grayscaleSavedBytes >= 0
+                  ? formatFileSize(compressionResult.grayscaleSavedBytes)
+                  : `-${formatFileSize(-compressionResult.grayscaleSavedBytes)}`}
+              </p>
+            )}
           </div>
         )}
       </div>
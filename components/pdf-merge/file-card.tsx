@@ -1,16 +1,17 @@
 'use client'
 
-import { memo } from 'react'
+import { memo, useMemo } from 'react'
 import { useSortable } from '@dnd-kit/sortable'
 import { CSS } from '@dnd-kit/utilities'
 import X from 'lucide-react/dist/esm/icons/x'
 import MoreHorizontal from 'lucide-react/dist/esm/icons/more-horizontal'
 import GripVertical from 'lucide-react/dist/esm/icons/grip-vertical'
 import { cn } from '@/lib/utils'
+import { parsePageRanges } from '@/lib/pdf-splitter'
 import type { FileUpload } from '@/types'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
-import { PdfIcon, DocxIcon, DefaultFileIcon } from './file-icons'
+import { PdfIcon, DocxIcon, ImageIcon, DefaultFileIcon } from './file-icons'
 
 /**
  * File icon renderer component
@@ -29,19 +30,83 @@ const FileIconRenderer = memo(function FileIconRenderer({ type }: FileIconRender
       return <PdfIcon />
     case 'docx':
       return <DocxIcon />
+    case 'image':
+      return <ImageIcon />
     default:
       return <DefaultFileIcon />
   }
 })
 
+/**
+ * ページ範囲エディタ
+ * 結合に使用するページを入力順で指定（空欄は全ページ）
+ */
+interface PageRangeEditorProps {
+  fileId: string
+  fileName: string
+  value: string
+  totalPages: number
+  onChange: (id: string, pageRange: string) => void
+  disabled?: boolean
+}
+
+const PageRangeEditor = memo(function PageRangeEditor({
+  fileId,
+  fileName,
+  value,
+  totalPages,
+  onChange,
+  disabled = false,
+}: PageRangeEditorProps) {
+  // 入力順を維持してバリデーション
+  const validationResult = useMemo(
+    () => (value.trim() === '' ? null : parsePageRanges(value, totalPages, true)),
+    [value, totalPages]
+  )
+
+  const errorMessage = validationResult?.errors[0]?.message
+
+  return (
+    <div className="mt-1.5 space-y-1">
+      <input
+        type="text"
+        value={value}
+        onChange={(e) => onChange(fileId, e.target.value)}
+        disabled={disabled}
+        placeholder="全ページ（例: 1-3, 5）"
+        aria-label={`${fileName}のページ範囲`}
+        aria-invalid={!!errorMessage}
+        className={cn(
+          'w-full max-w-56 rounded-md border bg-background px-2 py-1 text-xs',
+          'placeholder:text-muted-foreground',
+          'focus:outline-none focus:ring-2 focus:ring-ring',
+          disabled && 'cursor-not-allowed opacity-50',
+          errorMessage ? 'border-destructive' : 'border-input'
+        )}
+      />
+      {errorMessage ? (
+        <p className="text-xs text-destructive">{errorMessage}</p>
+      ) : validationResult?.isValid ? (
+        <p className="text-xs text-muted-foreground">
+          {validationResult.totalPages} / {totalPages}ページを使用
+        </p>
+      ) : null}
+    </div>
+  )
+})
+
 interface FileCardProps {
   file: FileUpload
   onRemove?: (id: string) => void
+  /** ページ範囲の変更 */
+  onPageRangeChange?: (id: string, pageRange: string) => void
   className?: string
   /** DnD用ID */
   id: string
   /** ドラッグ可能かどうか */
   draggable?: boolean
+  /** 編集不可かどうか */
+  disabled?: boolean
 }
 
 /**
@@ -51,9 +116,11 @@ interface FileCardProps {
 export const FileCard = memo(function FileCard({
   file,
   onRemove,
+  onPageRangeChange,
   className,
   id,
   draggable = true,
+  disabled = false,
 }: FileCardProps) {
   const {
     attributes,
@@ -104,6 +171,16 @@ export const FileCard = memo(function FileCard({
           {file.name}
         </p>
         <p className="text-xs text-muted-foreground">{file.size}</p>
+        {onPageRangeChange && file.type === 'pdf' && file.pages ? (
+          <PageRangeEditor
+            fileId={file.id}
+            fileName={file.name}
+            value={file.pageRange ?? ''}
+            totalPages={file.pages}
+            onChange={onPageRangeChange}
+            disabled={disabled}
+          />
+        ) : null}
       </div>
 
       {/* Pages Badge */}
@@ -119,6 +196,11 @@ export const FileCard = memo(function FileCard({
           読み込み中
         </Badge>
       )}
+      {file.status === 'locked' && (
+        <Badge variant="outline" className="shrink-0">
+          パスワード保護
+        </Badge>
+      )}
       {file.status === 'error' && (
         <Badge variant="destructive" className="shrink-0" title={file.error}>
           エラー
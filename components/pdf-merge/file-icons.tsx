@@ -1,6 +1,7 @@
 import { memo } from 'react'
 import FileText from 'lucide-react/dist/esm/icons/file-text'
 import File from 'lucide-react/dist/esm/icons/file'
+import FileImage from 'lucide-react/dist/esm/icons/file-image'
 
 /**
  * Fully static icon components for file types
@@ -18,6 +19,10 @@ export const DocxIcon = memo(function DocxIcon() {
   return <File className="h-5 w-5 text-info" />
 })
 
+export const ImageIcon = memo(function ImageIcon() {
+  return <FileImage className="h-5 w-5 text-success" />
+})
+
 export const DefaultFileIcon = memo(function DefaultFileIcon() {
   return <FileText className="h-5 w-5 text-muted-foreground" />
 })
@@ -17,6 +17,7 @@ interface FileListProps {
   files: FileUpload[]
   onRemove?: (id: string) => void
   onReorder?: (fromIndex: number, toIndex: number) => void
+  onPageRangeChange?: (id: string, pageRange: string) => void
   disabled?: boolean
   className?: string
 }
@@ -29,6 +30,7 @@ export const FileList = memo(function FileList({
   files,
   onRemove,
   onReorder,
+  onPageRangeChange,
   disabled = false,
   className,
 }: FileListProps) {
@@ -78,7 +80,9 @@ export const FileList = memo(function FileList({
                 id={file.id}
                 file={file}
                 onRemove={onRemove}
+                onPageRangeChange={onPageRangeChange}
                 draggable={!disabled}
+                disabled={disabled}
               />
             </div>
           ))}
@@ -1,12 +1,17 @@
 'use client'
 
-import { memo } from 'react'
+import { memo, useMemo } from 'react'
 import { Separator } from '@/components/ui/separator'
 import { Label } from '@/components/ui/label'
 import { Switch } from '@/components/ui/switch'
 import { Button } from '@/components/ui/button'
+import { ProtectionSettings } from '@/components/pdf-protect/protection-settings'
+import { FilenameTemplateInput } from '@/components/pdf-split/filename-template-input'
+import { MERGE_FILENAME_TEMPLATES } from '@/lib/pdf-merger'
+import { removeExtension } from '@/lib/filename-template'
+import { validateFilenameTemplate } from '@/lib/pdf-validation'
 import { cn } from '@/lib/utils'
-import type { PdfMergeOptions, MergeStatus } from '@/types'
+import { DEFAULT_PDF_PROTECTION_OPTIONS, type PdfMergeOptions, type MergeStatus } from '@/types'
 import Loader2 from 'lucide-react/dist/esm/icons/loader-2'
 import Download from 'lucide-react/dist/esm/icons/download'
 
@@ -18,9 +23,16 @@ interface OutputOptionsProps {
   disabled?: boolean
   mergeStatus?: MergeStatus
   fileCount?: number
+  /** 先頭のファイル名（出力ファイル名の例に使用） */
+  firstFilename?: string
+  /** 結合後の総ページ数（出力ファイル名の例に使用） */
+  totalPages?: number
   className?: string
 }
 
+/** 結合時に表示するトークン */
+const MERGE_FILENAME_TOKENS = ['{base}', '{pages}', '{date}']
+
 /**
  * 出力オプションコンポーネント
  * 親コンポーネントから状態を受信
@@ -33,6 +45,8 @@ export const OutputOptions = memo(function OutputOptions({
   disabled = false,
   mergeStatus = 'idle',
   fileCount = 0,
+  firstFilename,
+  totalPages,
   className,
 }: OutputOptionsProps) {
   const updateOption = <K extends keyof PdfMergeOptions>(
@@ -46,6 +60,12 @@ export const OutputOptions = memo(function OutputOptions({
   const isCompleted = mergeStatus === 'completed'
 
   const canMerge = !disabled && !isProcessing && fileCount >= 2
+    && validateFilenameTemplate(options.filenameTemplate).success
+
+  const filenameSample = useMemo(
+    () => ({ base: firstFilename ? removeExtension(firstFilename) : 'merged', pages: totalPages }),
+    [firstFilename, totalPages]
+  )
 
   return (
     <div className={cn('flex h-full flex-col bg-muted/30', className)}>
@@ -107,6 +127,18 @@ export const OutputOptions = memo(function OutputOptions({
           />
         </div>
 
+        <FilenameTemplateInput
+          value={options.filenameTemplate}
+          onChange={(filenameTemplate) => updateOption('filenameTemplate', filenameTemplate)}
+          defaultTemplate={
+            options.keepFilename ? MERGE_FILENAME_TEMPLATES.keepFilename : MERGE_FILENAME_TEMPLATES.default
+          }
+          sampleValues={filenameSample}
+          tokens={MERGE_FILENAME_TOKENS}
+          disabled={disabled || isProcessing}
+          idPrefix="merge-filename"
+        />
+
         {/* しおりオプション */}
         <div className="flex items-center justify-between">
           <div className="space-y-0.5">
@@ -149,6 +181,29 @@ export const OutputOptions = memo(function OutputOptions({
           </select>
         </div>
 
+        {/* 画像のページサイズ */}
+        <div className="space-y-2">
+          <Label htmlFor="image-page-size" className="text-sm text-foreground">
+            画像のページサイズ
+          </Label>
+          <select
+            id="image-page-size"
+            value={options.imagePageSize}
+            onChange={(e) =>
+              updateOption('imagePageSize', e.target.value as PdfMergeOptions['imagePageSize'])
+            }
+            disabled={disabled || isProcessing}
+            className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm text-foreground focus:ring-2 focus:ring-ring focus:ring-offset-2"
+          >
+            <option value="a4">A4に合わせる</option>
+            <option value="letter">レターに合わせる</option>
+            <option value="original">画像の元サイズ</option>
+          </select>
+          <p className="text-xs text-muted-foreground">
+            画像ファイルを結合する際のページサイズです
+          </p>
+        </div>
+
         <Separator />
 
         {/* ファイルサイズ最適化 */}
@@ -168,6 +223,37 @@ export const OutputOptions = memo(function OutputOptions({
             disabled={disabled || isProcessing}
           />
         </div>
+
+        <Separator />
+
+        {/* パスワード保護 */}
+        <div className="flex items-center justify-between">
+          <div className="space-y-0.5">
+            <Label htmlFor="protect" className="text-sm text-foreground">
+              パスワードで保護
+            </Label>
+            <p className="text-xs text-muted-foreground">
+              出力ファイルをAES-256で暗号化します
+            </p>
+          </div>
+          <Switch
+            id="protect"
+            checked={!!options.protection}
+            onClick={() =>
+              updateOption('protection', options.protection ? undefined : DEFAULT_PDF_PROTECTION_OPTIONS)
+            }
+            disabled={disabled || isProcessing}
+          />
+        </div>
+
+        {options.protection && (
+          <ProtectionSettings
+            options={options.protection}
+            onOptionsChange={(protection) => updateOption('protection', protection)}
+            disabled={disabled || isProcessing}
+            idPrefix="merge-protection"
+          />
+        )}
       </div>
 
       <Separator />
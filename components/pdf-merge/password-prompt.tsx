@@ -0,0 +1,103 @@
+/**
+ * パスワード入力コンポーネント
+ * 暗号化されたPDFの解除に使用するパスワードを入力
+ */
+
+'use client'
+
+import { useState, memo, type FormEvent } from 'react'
+import type { PasswordRequest } from '@/types'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import Lock from 'lucide-react/dist/esm/icons/lock'
+import AlertCircle from 'lucide-react/dist/esm/icons/alert-circle'
+
+interface PasswordPromptProps {
+  request: PasswordRequest
+  onSubmit: (password: string) => Promise<void> | void
+  onCancel: () => void
+  disabled?: boolean
+}
+
+export const PasswordPrompt = memo(function PasswordPrompt({
+  request,
+  onSubmit,
+  onCancel,
+  disabled = false,
+}: PasswordPromptProps) {
+  const [password, setPassword] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault()
+    if (!password || isSubmitting) return
+
+    setIsSubmitting(true)
+    try {
+      await onSubmit(password)
+    } finally {
+      setIsSubmitting(false)
+      setPassword('')
+    }
+  }
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="rounded-lg border border-border bg-card p-4 shadow-sm"
+    >
+      <div className="flex items-start gap-3">
+        <div className="flex h-10 w-10 shrink-0 items-center justify-center rounded-lg bg-warning/10">
+          <Lock className="h-5 w-5 text-warning" />
+        </div>
+        <div className="flex-1 space-y-3">
+          <div>
+            <p className="text-sm font-medium text-foreground">
+              パスワードで保護されたPDFです
+            </p>
+            <p className="mt-0.5 truncate text-xs text-muted-foreground">
+              {request.fileName} を開くパスワードを入力してください
+            </p>
+          </div>
+
+          <Input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="パスワード"
+            autoComplete="off"
+            autoFocus
+            disabled={disabled || isSubmitting}
+            aria-invalid={request.error !== null}
+          />
+
+          {request.error && (
+            <p className="flex items-center gap-1.5 text-xs text-destructive">
+              <AlertCircle className="h-3.5 w-3.5 shrink-0" />
+              {request.error}
+            </p>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={onCancel}
+              disabled={isSubmitting}
+            >
+              キャンセル
+            </Button>
+            <Button
+              type="submit"
+              size="sm"
+              disabled={disabled || isSubmitting || !password}
+            >
+              {isSubmitting ? '解除中...' : '解除'}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </form>
+  )
+})
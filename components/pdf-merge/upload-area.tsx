@@ -8,6 +8,10 @@ interface UploadAreaProps {
   onFilesSelected: (files: File[]) => void
   disabled?: boolean
   className?: string
+  /** ファイル選択ダイアログで受け付ける形式 */
+  accept?: string
+  /** 受け付けるファイルの説明 */
+  hint?: string
 }
 
 /**
@@ -18,6 +22,8 @@ export function UploadArea({
   onFilesSelected,
   disabled = false,
   className,
+  accept = 'application/pdf',
+  hint = 'PDFファイル（最大50MB、30ファイルまで）',
 }: UploadAreaProps) {
   const [isDragging, setIsDragging] = useState(false)
   const dragCounterRef = useRef(0)
@@ -66,7 +72,7 @@ export function UploadArea({
 
     const input = document.createElement('input')
     input.type = 'file'
-    input.accept = 'application/pdf'
+    input.accept = accept
     input.multiple = true
     input.onchange = (e) => {
       const target = e.target as HTMLInputElement
@@ -75,7 +81,7 @@ export function UploadArea({
       }
     }
     input.click()
-  }, [disabled, onFilesSelected])
+  }, [accept, disabled, onFilesSelected])
 
   return (
     <div
@@ -110,7 +116,7 @@ export function UploadArea({
         ここにファイルをドラッグ&ドロップ、またはクリックして選択
       </p>
       <p className="mt-1 text-xs text-muted-foreground">
-        PDFファイル（最大50MB、30ファイルまで）
+        {hint}
       </p>
     </div>
   )
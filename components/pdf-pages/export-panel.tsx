@@ -6,7 +6,12 @@ import { Button } from '@/components/ui/button'
 import { Separator } from '@/components/ui/separator'
 import { Switch } from '@/components/ui/switch'
 import { Label } from '@/components/ui/label'
-import type { PdfPageManageOptions } from '@/types'
+import { ProtectionSettings } from '@/components/pdf-protect/protection-settings'
+import {
+  DEFAULT_PDF_PROTECTION_OPTIONS,
+  type PdfPageManageOptions,
+  type PdfProtectionOptions,
+} from '@/types'
 
 interface ExportPanelProps {
   pageCount: number
@@ -18,6 +23,7 @@ interface ExportPanelProps {
   onDownload: () => void
   onClearResult: () => void
   onToggleKeepFilename: () => void
+  onProtectionChange: (protection: PdfProtectionOptions | undefined) => void
 }
 
 /**
@@ -37,9 +43,10 @@ export const ExportPanel = memo(function ExportPanel({
   onDownload,
   onClearResult,
   onToggleKeepFilename,
+  onProtectionChange,
 }: ExportPanelProps) {
   return (
-    <div className="hidden w-80 border-l border-border xl:block">
+    <div className="hidden w-80 overflow-auto border-l border-border xl:block">
       <div className="p-6 space-y-6">
         <div>
           <h3 className="text-lg font-semibold text-foreground">エクスポート</h3>
@@ -58,8 +65,10 @@ export const ExportPanel = memo(function ExportPanel({
         {/* オプション */}
         <OptionsSection
           keepFilename={exportOptions.keepFilename}
+          protection={exportOptions.protection}
           isProcessing={isProcessing}
           onToggleKeepFilename={onToggleKeepFilename}
+          onProtectionChange={onProtectionChange}
         />
 
         <Separator />
@@ -110,12 +119,16 @@ const PageInfoSection = memo(function PageInfoSection({
  */
 const OptionsSection = memo(function OptionsSection({
   keepFilename,
+  protection,
   isProcessing,
   onToggleKeepFilename,
+  onProtectionChange,
 }: {
   keepFilename: boolean
+  protection?: PdfProtectionOptions
   isProcessing: boolean
   onToggleKeepFilename: () => void
+  onProtectionChange: (protection: PdfProtectionOptions | undefined) => void
 }) {
   return (
     <div className="space-y-4">
@@ -135,6 +148,30 @@ const OptionsSection = memo(function OptionsSection({
           disabled={isProcessing}
         />
       </div>
+
+      <div className="flex items-center justify-between">
+        <Label
+          htmlFor="protect"
+          className="text-sm cursor-pointer"
+        >
+          パスワードで保護
+        </Label>
+        <Switch
+          id="protect"
+          checked={!!protection}
+          onClick={() => onProtectionChange(protection ? undefined : DEFAULT_PDF_PROTECTION_OPTIONS)}
+          disabled={isProcessing}
+        />
+      </div>
+
+      {protection && (
+        <ProtectionSettings
+          options={protection}
+          onOptionsChange={onProtectionChange}
+          disabled={isProcessing}
+          idPrefix="export-protection"
+        />
+      )}
     </div>
   )
 })
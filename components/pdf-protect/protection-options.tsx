@@ -0,0 +1,111 @@
+/**
+ * 保護オプションパネルコンポーネント
+ * パスワードと許可する操作を設定するサイドバーUI
+ */
+
+'use client'
+
+import { Button } from '@/components/ui/button'
+import { ProtectionSettings } from './protection-settings'
+import type { PdfProtectionOptions, ProtectionResult } from '@/types'
+import Lock from 'lucide-react/dist/esm/icons/lock'
+import Loader2 from 'lucide-react/dist/esm/icons/loader-2'
+import Download from 'lucide-react/dist/esm/icons/download'
+import FileText from 'lucide-react/dist/esm/icons/file-text'
+
+interface ProtectionOptionsProps {
+  options: PdfProtectionOptions
+  onOptionsChange: (options: PdfProtectionOptions) => void
+  onProtect: () => void
+  onDownload?: () => void
+  disabled?: boolean
+  isProcessing?: boolean
+  protectionResult?: ProtectionResult | null
+}
+
+export function ProtectionOptions({
+  options,
+  onOptionsChange,
+  onProtect,
+  onDownload,
+  disabled = false,
+  isProcessing = false,
+  protectionResult,
+}: ProtectionOptionsProps) {
+  const hasPassword = options.userPassword !== '' || options.ownerPassword !== ''
+
+  return (
+    <div className="flex h-full flex-col">
+      {/* ヘッダー */}
+      <div className="border-b border-border p-4">
+        <div className="flex items-center gap-2">
+          <Lock className="h-5 w-5 text-primary" />
+          <h3 className="font-semibold text-foreground">保護オプション</h3>
+        </div>
+        <p className="text-xs text-muted-foreground mt-1">
+          パスワードと許可する操作を設定（AES-256で暗号化）
+        </p>
+      </div>
+
+      {/* オプション内容 */}
+      <div className="flex-1 overflow-auto p-4 space-y-6">
+        <ProtectionSettings
+          options={options}
+          onOptionsChange={onOptionsChange}
+          disabled={disabled}
+        />
+
+        {/* 保護結果のサマリー */}
+        {protectionResult && (
+          <div className="rounded-lg border border-success/50 bg-success-bg p-4">
+            <div className="flex items-center gap-2 text-sm font-medium text-success-text">
+              <FileText className="h-4 w-4" />
+              保護完了
+            </div>
+            <p className="text-xs text-muted-foreground mt-1">
+              {protectionResult.filename} ({(protectionResult.size / 1024 / 1024).toFixed(2)} MB)
+            </p>
+          </div>
+        )}
+      </div>
+
+      {/* アクションボタン */}
+      <div className="border-t border-border p-4 space-y-2">
+        {protectionResult && onDownload ? (
+          <Button
+            onClick={onDownload}
+            className="w-full"
+            size="default"
+          >
+            <Download className="h-4 w-4 mr-2" />
+            ダウンロード
+          </Button>
+        ) : (
+          <Button
+            onClick={onProtect}
+            disabled={disabled || isProcessing || !hasPassword}
+            className="w-full"
+            size="default"
+          >
+            {isProcessing ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                暗号化中...
+              </>
+            ) : (
+              <>
+                <Lock className="h-4 w-4 mr-2" />
+                保護する
+              </>
+            )}
+          </Button>
+        )}
+        {!hasPassword && !protectionResult && (
+          <p className="text-xs text-muted-foreground text-center">
+            閲覧パスワードまたは権限パスワードを入力してください
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,96 @@
+/**
+ * パスワード保護設定コンポーネント
+ * ユーザー・オーナーパスワードと許可する操作の入力UI（保護ツールと各ツールの出力オプションで共用）
+ */
+
+'use client'
+
+import { memo } from 'react'
+import type { PdfPermissions, PdfProtectionOptions } from '@/types'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
+
+interface ProtectionSettingsProps {
+  options: PdfProtectionOptions
+  onOptionsChange: (options: PdfProtectionOptions) => void
+  disabled?: boolean
+  /** 入力要素のid接頭辞（同じページに複数配置する場合の重複回避） */
+  idPrefix?: string
+}
+
+/** 許可する操作の表示名 */
+const PERMISSION_LABELS: Record<keyof PdfPermissions, string> = {
+  printing: '印刷',
+  copying: 'テキスト・画像のコピー',
+  modifying: '内容の変更',
+  annotating: '注釈の追加・フォーム入力',
+}
+
+export const ProtectionSettings = memo(function ProtectionSettings({
+  options,
+  onOptionsChange,
+  disabled = false,
+  idPrefix = 'protection',
+}: ProtectionSettingsProps) {
+  const togglePermission = (key: keyof PdfPermissions) => {
+    onOptionsChange({
+      ...options,
+      permissions: { ...options.permissions, [key]: !options.permissions[key] },
+    })
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-user-password`} className="text-sm text-foreground">
+          閲覧パスワード
+        </Label>
+        <Input
+          id={`${idPrefix}-user-password`}
+          type="password"
+          value={options.userPassword}
+          onChange={(e) => onOptionsChange({ ...options, userPassword: e.target.value })}
+          placeholder="未入力の場合は誰でも閲覧可能"
+          autoComplete="new-password"
+          disabled={disabled}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-owner-password`} className="text-sm text-foreground">
+          権限パスワード
+        </Label>
+        <Input
+          id={`${idPrefix}-owner-password`}
+          type="password"
+          value={options.ownerPassword}
+          onChange={(e) => onOptionsChange({ ...options, ownerPassword: e.target.value })}
+          placeholder="未入力の場合は閲覧パスワードと同じ"
+          autoComplete="new-password"
+          disabled={disabled}
+        />
+        <p className="text-xs text-muted-foreground">
+          権限パスワードで開くと、下記の制限なしで操作できます
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-sm text-foreground">許可する操作</p>
+        {(Object.keys(PERMISSION_LABELS) as (keyof PdfPermissions)[]).map((key) => (
+          <div key={key} className="flex items-center gap-2">
+            <Checkbox
+              id={`${idPrefix}-${key}`}
+              checked={options.permissions[key]}
+              onClick={() => togglePermission(key)}
+              disabled={disabled}
+            />
+            <Label htmlFor={`${idPrefix}-${key}`} className="text-sm text-foreground cursor-pointer">
+              {PERMISSION_LABELS[key]}
+            </Label>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+})
@@ -0,0 +1,87 @@
+/**
+ * ファイル名テンプレート入力コンポーネント
+ * トークンの一覧と出力例を表示するテンプレート入力UI（分割・結合・ページ番号の出力オプションで共用）
+ */
+
+'use client'
+
+import { memo, useMemo } from 'react'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  FILENAME_TEMPLATE_TOKENS,
+  createFilenameGenerator,
+  validateFilenameTemplate,
+  type FilenameTemplateValues,
+} from '@/lib/filename-template'
+import { cn } from '@/lib/utils'
+
+interface FilenameTemplateInputProps {
+  /** テンプレート（未指定の場合は既定のテンプレートを使う） */
+  value?: string
+  onChange: (value: string | undefined) => void
+  /** 既定のテンプレート（プレースホルダーと未入力時の出力例に使用） */
+  defaultTemplate: string
+  /** 出力例の生成に使う値 */
+  sampleValues: FilenameTemplateValues
+  /** 表示するトークン（未指定の場合はすべて） */
+  tokens?: readonly string[]
+  disabled?: boolean
+  /** 入力要素のid接頭辞（同じページに複数配置する場合の重複回避） */
+  idPrefix?: string
+}
+
+export const FilenameTemplateInput = memo(function FilenameTemplateInput({
+  value,
+  onChange,
+  defaultTemplate,
+  sampleValues,
+  tokens,
+  disabled = false,
+  idPrefix = 'filename-template',
+}: FilenameTemplateInputProps) {
+  const template = value?.trim() || defaultTemplate
+  const error = value?.trim() ? validateFilenameTemplate(value) : null
+
+  const example = useMemo(
+    () => (error ? null : createFilenameGenerator(template)(sampleValues)),
+    [error, template, sampleValues]
+  )
+
+  const visibleTokens = tokens
+    ? FILENAME_TEMPLATE_TOKENS.filter(({ token }) => tokens.includes(token))
+    : FILENAME_TEMPLATE_TOKENS
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={`${idPrefix}-input`} className="text-sm text-foreground">
+        出力ファイル名
+      </Label>
+      <Input
+        id={`${idPrefix}-input`}
+        value={value ?? ''}
+        onChange={(e) => onChange(e.target.value === '' ? undefined : e.target.value)}
+        placeholder={defaultTemplate}
+        disabled={disabled}
+        aria-invalid={!!error}
+        className={cn('font-mono', error && 'border-destructive')}
+      />
+
+      {error ? (
+        <p className="text-xs text-destructive">{error}</p>
+      ) : (
+        <p className="text-xs text-muted-foreground break-all">
+          例: <span className="font-mono text-foreground">{example}</span>
+        </p>
+      )}
+
+      <ul className="space-y-0.5 text-xs text-muted-foreground">
+        {visibleTokens.map(({ token, description }) => (
+          <li key={token}>
+            <code className="font-mono text-foreground">{token}</code> {description}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+})
@@ -1,17 +1,39 @@
 /**
  * ページ範囲入力コンポーネント
- * "1-3, 5, 8-10" 形式の範囲指定とリアルタイムバリデーション
+ * "1-3, 5, 8-10" 形式（odd・end・除外などの拡張書式を含む）の範囲指定とリアルタイムバリデーション
  */
 
 'use client'
 
 import { useState, useMemo, memo } from 'react'
 import { parsePageRanges } from '@/lib/pdf-splitter'
-import type { RangeValidationResult } from '@/types'
+import type { RangeError, RangeValidationResult } from '@/types'
 import AlertCircle from 'lucide-react/dist/esm/icons/alert-circle'
 import Check from 'lucide-react/dist/esm/icons/check'
 import { cn } from '@/lib/utils'
 
+/**
+ * 入力文字列をエラー箇所とそれ以外に分割（エラー箇所の強調表示用）
+ */
+function splitByErrors(value: string, errors: RangeError[]): Array<{ text: string; isError: boolean }> {
+  const parts: Array<{ text: string; isError: boolean }> = []
+  let position = 0
+
+  for (const error of [...errors].sort((a, b) => a.start - b.start)) {
+    if (error.start < position) continue
+    if (error.start > position) {
+      parts.push({ text: value.slice(position, error.start), isError: false })
+    }
+    parts.push({ text: value.slice(error.start, error.end), isError: true })
+    position = error.end
+  }
+  if (position < value.length) {
+    parts.push({ text: value.slice(position), isError: false })
+  }
+
+  return parts
+}
+
 interface PageRangeInputProps {
   value: string
   onChange: (value: string) => void
@@ -45,31 +67,29 @@ export const PageRangeInput = memo(function PageRangeInput({
    * クイック選択: 奇数ページ
    */
   const selectOddPages = () => {
-    const odds: string[] = []
-    for (let i = 1; i <= totalPages; i += 2) {
-      odds.push(i.toString())
-    }
-    onChange(odds.join(','))
+    onChange('odd')
   }
 
   /**
    * クイック選択: 偶数ページ
    */
   const selectEvenPages = () => {
-    const evens: string[] = []
-    for (let i = 2; i <= totalPages; i += 2) {
-      evens.push(i.toString())
-    }
-    onChange(evens.join(','))
+    onChange('even')
   }
 
   /**
    * クイック選択: 全ページ
    */
   const selectAllPages = () => {
-    onChange(`1-${totalPages}`)
+    onChange('1-end')
   }
 
+  // エラー箇所を強調表示するための分割
+  const highlightedParts = useMemo(
+    () => splitByErrors(value, validationResult.errors),
+    [value, validationResult.errors]
+  )
+
   // 範囲サマリーを計算
   const rangeSummary = useMemo(() => {
     if (!isValid || validationResult.ranges.length === 0) {
@@ -94,7 +114,7 @@ export const PageRangeInput = memo(function PageRangeInput({
             onFocus={() => setTouched(false)}
             onBlur={() => setTouched(true)}
             disabled={disabled}
-            placeholder="例: 1-3, 5, 8-10"
+            placeholder="例: 1-3, 5, 8-, odd, !7"
             className={cn(
               'w-full rounded-md border px-3 py-2 text-sm',
               'transition-colors',
@@ -124,6 +144,9 @@ export const PageRangeInput = memo(function PageRangeInput({
         <p className="text-xs text-muted-foreground">
           ページ番号または範囲をカンマ区切りで入力（例: 1-3, 5, 8-10）
         </p>
+        <p className="text-xs text-muted-foreground">
+          end: 最終ページ / 8-: 8ページ以降 / -3: 最後の3ページ / odd・even: 奇数・偶数 / 1-20/2: 1つおき / !7: 除外
+        </p>
       </div>
 
       {/* クイック選択ボタン */}
@@ -156,12 +179,27 @@ export const PageRangeInput = memo(function PageRangeInput({
 
       {/* エラー表示 */}
       {showError && (
-        <div className="rounded-md bg-destructive/10 p-3">
+        <div className="rounded-md bg-destructive/10 p-3 space-y-2">
+          {/* エラー箇所を強調した入力内容 */}
+          <p className="break-all font-mono text-xs text-muted-foreground">
+            {highlightedParts.map((part, index) =>
+              part.isError ? (
+                <mark
+                  key={index}
+                  className="rounded-sm bg-destructive/20 text-destructive underline decoration-wavy"
+                >
+                  {part.text}
+                </mark>
+              ) : (
+                <span key={index}>{part.text}</span>
+              )
+            )}
+          </p>
           <ul className="space-y-1">
             {validationResult.errors.map((error, index) => (
               <li key={index} className="flex items-start gap-2 text-xs text-destructive">
                 <AlertCircle className="h-3.5 w-3.5 shrink-0 mt-0.5" />
-                <span>{error.message}</span>
+                <span>{error.start + 1}文字目: {error.message}</span>
               </li>
             ))}
           </ul>
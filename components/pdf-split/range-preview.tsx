@@ -1,52 +1,72 @@
 /**
  * 範囲プレビューコンポーネント
- * パースされたページ範囲を視覚的に表示
+ * パースされたページ範囲（またはしおり・空白ページから求めた範囲）を視覚的に表示
  */
 
 'use client'
 
 import { useMemo } from 'react'
-import { parsePageRanges } from '@/lib/pdf-splitter'
+import { formatPageList, parsePageRangeGroups } from '@/lib/pdf-splitter'
 import { cn } from '@/lib/utils'
+import type { BookmarkRange, PageRange } from '@/types'
 import FileText from 'lucide-react/dist/esm/icons/file-text'
+import Bookmark from 'lucide-react/dist/esm/icons/bookmark'
+
+/** 分割される1つのPDF */
+type PreviewPart = (PageRange | BookmarkRange) & {
+  /** 含まれるページ番号（連続しない場合がある） */
+  pages: number[]
+}
 
 interface RangePreviewProps {
-  rangesInput: string
+  rangesInput?: string
+  /** しおりから求めた範囲（指定時はrangesInputの代わりに使用） */
+  bookmarkRanges?: BookmarkRange[]
+  /** 空白ページから求めた範囲（指定時はrangesInputの代わりに使用） */
+  pageRanges?: PageRange[]
+  /** 区切りとして検出された空白ページ（ページグリッドで強調表示） */
+  separatorPages?: number[]
   totalPages: number
   disabled?: boolean
 }
 
 export function RangePreview({
-  rangesInput,
+  rangesInput = '',
+  bookmarkRanges,
+  pageRanges,
+  separatorPages,
   totalPages,
   disabled = false,
 }: RangePreviewProps) {
-  // バリデーション結果から範囲情報を取得
+  // バリデーション結果から分割される範囲を取得
   // React Hooksのルールにより、条件分岐やearly returnの前に
   // すべてのフック呼び出しを配置する必要がある
-  const validationResult = useMemo(() => {
+  const parts = useMemo<PreviewPart[]>(() => {
+    const presetRanges = bookmarkRanges ?? pageRanges
+    if (presetRanges) {
+      return presetRanges.map((range) => ({
+        ...range,
+        pages: Array.from({ length: range.end - range.start + 1 }, (_, i) => range.start + i),
+      }))
+    }
     if (!rangesInput || rangesInput.trim() === '') {
-      return { isValid: false, ranges: [], errors: [], totalPages: 0 }
+      return []
     }
-    return parsePageRanges(rangesInput, totalPages)
-  }, [rangesInput, totalPages])
-
-  const { isValid, ranges } = validationResult
+    // カンマ区切りの要素ごとに1つのPDFになる（odd・1-20/2 なども1ファイル）
+    const result = parsePageRangeGroups(rangesInput, totalPages)
+    if (!result.isValid) return []
+    return result.groups.map((pages) => ({ start: pages[0], end: pages[pages.length - 1], pages }))
+  }, [rangesInput, bookmarkRanges, pageRanges, totalPages])
 
   // 選択ページを計算
   // React Hooksのルールにより、条件分岐前にフックを配置する必要がある
-  const selectedPages = useMemo(() => {
-    const pages: number[] = []
-    for (const range of ranges) {
-      for (let i = range.start; i <= range.end; i++) {
-        pages.push(i)
-      }
-    }
-    return pages
-  }, [ranges])
+  const selectedPages = useMemo(
+    () => new Set(parts.flatMap((part) => part.pages)),
+    [parts]
+  )
 
   // 無効な場合は何も表示しない（すべてのフック呼び出しの後）
-  if (!isValid || ranges.length === 0) {
+  if (parts.length === 0) {
     return null
   }
 
@@ -58,22 +78,23 @@ export function RangePreview({
       {/* 範囲バッジ */}
       <div>
         <p className="text-sm font-medium text-foreground mb-2">
-          分割される範囲 ({ranges.length}個)
+          分割される範囲 ({parts.length}個)
         </p>
         <div className="flex flex-wrap gap-2">
-          {ranges.map((range, index) => {
-            const label = range.start === range.end
-              ? `${range.start}`
-              : `${range.start}-${range.end}`
-            const pageCount = range.end - range.start + 1
+          {parts.map((part, index) => {
+            const label = 'title' in part
+              ? part.title || `${part.start}-${part.end}`
+              : formatPageList(part.pages)
+            const pageCount = part.pages.length
+            const Icon = 'title' in part ? Bookmark : FileText
 
             return (
               <div
                 key={index}
                 className="flex items-center gap-1.5 rounded-full bg-primary/10 px-3 py-1.5"
               >
-                <FileText className="h-3.5 w-3.5 text-primary" />
-                <span className="text-sm font-medium text-primary">
+                <Icon className="h-3.5 w-3.5 text-primary" />
+                <span className="max-w-40 truncate text-sm font-medium text-primary">
                   {label}
                 </span>
                 <span className="text-xs text-muted-foreground">
@@ -88,9 +109,14 @@ export function RangePreview({
       {/* サマリー */}
       <div className="rounded-lg bg-muted/50 p-3">
         <p className="text-sm text-foreground">
-          合計 <span className="font-bold">{selectedPages.length}</span> ページを
-          <span className="font-bold"> {ranges.length}</span> 個のPDFに分割します
+          合計 <span className="font-bold">{selectedPages.size}</span> ページを
+          <span className="font-bold"> {parts.length}</span> 個のPDFに分割します
         </p>
+        {separatorPages && separatorPages.length > 0 && (
+          <p className="mt-1 text-xs text-muted-foreground">
+            空白ページ {separatorPages.join(', ')} を区切りとして検出しました
+          </p>
+        )}
       </div>
 
       {/* ページグリッドプレビュー（100ページ以下のみ） */}
@@ -101,7 +127,8 @@ export function RangePreview({
           </p>
           <div className="grid grid-cols-10 gap-1">
             {Array.from({ length: totalPages }, (_, i) => i + 1).map(pageNum => {
-              const isSelected = selectedPages.includes(pageNum)
+              const isSelected = selectedPages.has(pageNum)
+              const isSeparator = separatorPages?.includes(pageNum) ?? false
               return (
                 <div
                   key={pageNum}
@@ -110,9 +137,10 @@ export function RangePreview({
                     'transition-colors',
                     isSelected
                       ? 'bg-primary text-primary-foreground font-medium'
-                      : 'bg-muted text-muted-foreground'
+                      : 'bg-muted text-muted-foreground',
+                    isSeparator && 'ring-2 ring-inset ring-warning line-through'
                   )}
-                  title={`ページ ${pageNum}`}
+                  title={isSeparator ? `ページ ${pageNum}（空白ページ）` : `ページ ${pageNum}`}
                 >
                   {pageNum}
                 </div>
@@ -124,10 +152,19 @@ export function RangePreview({
 
       {/* 詳細情報 */}
       <div className="space-y-1">
-        {ranges.map((range, index) => {
-          const label = range.start === range.end
-            ? `ページ${range.start}`
-            : `ページ${range.start}-${range.end}`
+        {parts.map((part, index) => {
+          const label = `ページ${formatPageList(part.pages)}`
+          if ('title' in part) {
+            return (
+              <p
+                key={index}
+                className="truncate text-xs text-muted-foreground"
+                style={{ paddingLeft: `${(part.level - 1) * 0.75}rem` }}
+              >
+                • <span className="text-foreground">{part.title || '（無題）'}</span> → {label}
+              </p>
+            )
+          }
           return (
             <p key={index} className="text-xs text-muted-foreground">
               • {label} → <span className="text-foreground">part{index + 1}.pdf</span>
@@ -1,17 +1,36 @@
 /**
  * 分割オプションパネルコンポーネント
- * 3つの分割方法を選択できるサイドバーUI
+ * 6つの分割方法を選択できるサイドバーUI
  */
 
 'use client'
 
-import { useMemo } from 'react'
+import { useMemo, useState } from 'react'
 import { PageRangeInput } from './page-range-input'
 import { RangePreview } from './range-preview'
-import { parsePageRanges } from '@/lib/pdf-splitter'
-import type { PdfSplitOptions, SplitMethod, SplitBatchResult } from '@/types'
+import { FilenameTemplateInput } from './filename-template-input'
+import { ProtectionSettings } from '@/components/pdf-protect/protection-settings'
+import {
+  DEFAULT_SPLIT_FILENAME_TEMPLATES,
+  getBookmarkRanges,
+  getOutlineDepth,
+  parsePageRanges,
+} from '@/lib/pdf-splitter'
+import { removeExtension, type FilenameTemplateValues } from '@/lib/filename-template'
+import { validateFilenameTemplate } from '@/lib/pdf-validation'
+import { findBlankPages, getBlankPageRanges } from '@/lib/pdf-blank-pages'
+import type { OutlineNode } from '@/lib/pdf-outline'
+import { PDF_SPLIT_CONSTANTS } from '@/lib/constants'
+import {
+  DEFAULT_PDF_PROTECTION_OPTIONS,
+  type PdfProtectionOptions,
+  type PdfSplitOptions,
+  type SplitMethod,
+  type SplitBatchResult,
+} from '@/types'
 import { Button } from '@/components/ui/button'
 import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
 import { cn } from '@/lib/utils'
 import Scissors from 'lucide-react/dist/esm/icons/scissors'
 import GitBranch from 'lucide-react/dist/esm/icons/git-branch'
@@ -19,17 +38,36 @@ import Hash from 'lucide-react/dist/esm/icons/hash'
 import Loader2 from 'lucide-react/dist/esm/icons/loader-2'
 import Download from 'lucide-react/dist/esm/icons/download'
 import FileText from 'lucide-react/dist/esm/icons/file-text'
+import ListTree from 'lucide-react/dist/esm/icons/list-tree'
+import FileScan from 'lucide-react/dist/esm/icons/file-scan'
+import HardDrive from 'lucide-react/dist/esm/icons/hard-drive'
 
 interface SplitOptionsProps {
   options: PdfSplitOptions
   onOptionsChange: (options: PdfSplitOptions) => void
   onSplit: () => void
   onDownloadAll?: () => void
+  /** ZIPの作成をキャンセル */
+  onCancelDownload?: () => void
+  /** ZIPファイルを作成中かどうか */
+  isCreatingZip?: boolean
   disabled?: boolean
   isProcessing?: boolean
   splitResult?: SplitBatchResult | null
   totalPages: number
+  /** 分割するファイル名（出力ファイル名の例に使用） */
+  filename?: string
+  /** PDFのしおり（しおりで分割する際に使用） */
+  outline?: OutlineNode[]
+  /** ページごとのインク率（空白ページ検出後のみ） */
+  inkCoverage?: number[] | null
+  /** 空白ページを検出中かどうか */
+  isDetectingBlankPages?: boolean
+  /** 空白ページの検出を開始 */
+  onDetectBlankPages?: () => void
   splitStatus?: 'idle' | 'processing' | 'completed' | 'error'
+  /** 一括処理モード（しおり・空白ページはファイルごとに分割時に読み取る） */
+  batchMode?: boolean
 }
 
 const METHODS: Array<{
@@ -56,18 +94,53 @@ const METHODS: Array<{
     description: '指定ページごとに分割',
     icon: Hash,
   },
+  {
+    id: 'bookmarks',
+    label: 'しおりで分割',
+    description: '章・節のしおりごとに分割',
+    icon: ListTree,
+  },
+  {
+    id: 'blankPages',
+    label: '空白ページで分割',
+    description: '区切りの白紙ごとに分割',
+    icon: FileScan,
+  },
+  {
+    id: 'maxSize',
+    label: 'サイズで分割',
+    description: '指定サイズ以下になるように分割',
+    icon: HardDrive,
+  },
 ]
 
+/** 一括処理で指定できるしおりの階層の上限 */
+const MAX_BATCH_BOOKMARK_LEVEL = 9
+
+/** しおり以外で分割する場合に表示するトークン（{title}は元のファイル名になるため除く） */
+const SPLIT_FILENAME_TOKENS = ['{base}', '{index}', '{start}', '{end}', '{range}', '{pages}', '{date}']
+
+/** しおりがない場合の空配列（再レンダリングごとに新しい配列を作らない） */
+const EMPTY_OUTLINE: OutlineNode[] = []
+
 export function SplitOptions({
   options,
   onOptionsChange,
   onSplit,
   onDownloadAll,
+  onCancelDownload,
+  isCreatingZip = false,
   disabled = false,
   isProcessing = false,
   splitResult,
   totalPages,
+  filename,
+  outline = EMPTY_OUTLINE,
+  inkCoverage = null,
+  isDetectingBlankPages = false,
+  onDetectBlankPages,
   splitStatus = 'idle',
+  batchMode = false,
 }: SplitOptionsProps) {
   // optionsから値を取得（propsを直接使用して同期問題を回避）
   // 以前の実装ではuseStateとuseEffectでoptionsの値をローカル状態にコピーしていたが、
@@ -75,6 +148,55 @@ export function SplitOptions({
   // 直接propsを使用することで不整合を回避する
   const partsCount = options.partsCount ?? Math.min(2, totalPages)
   const pagesPerSplit = options.pagesPerSplit ?? 1
+  // 一括処理ではしおりの階層数が分からないため、上限を設けない
+  const outlineDepth = useMemo(
+    () => (batchMode ? MAX_BATCH_BOOKMARK_LEVEL : getOutlineDepth(outline)),
+    [batchMode, outline]
+  )
+  const bookmarkLevel = Math.min(options.bookmarkLevel ?? 1, Math.max(1, outlineDepth))
+
+  // しおりから求めた分割範囲
+  const bookmarkRanges = useMemo(() => {
+    if (options.method !== 'bookmarks' || batchMode) return []
+    return getBookmarkRanges(outline, bookmarkLevel, totalPages)
+  }, [options.method, batchMode, outline, bookmarkLevel, totalPages])
+
+  // 最大サイズの入力値（入力途中の値を保持するため文字列で管理）
+  const [maxFileSizeText, setMaxFileSizeText] = useState(
+    String((options.maxFileSize ?? PDF_SPLIT_CONSTANTS.DEFAULT_MAX_FILE_SIZE) / 1024 / 1024)
+  )
+  const maxFileSize = options.maxFileSize ?? PDF_SPLIT_CONSTANTS.DEFAULT_MAX_FILE_SIZE
+
+  const blankThreshold = options.blankThreshold ?? PDF_SPLIT_CONSTANTS.DEFAULT_BLANK_THRESHOLD
+  const removeBlankPages = options.removeBlankPages ?? true
+
+  // 検出した空白ページと、それを区切りとした分割範囲
+  const blankPages = useMemo(() => {
+    if (options.method !== 'blankPages' || !inkCoverage) return []
+    return findBlankPages(inkCoverage, blankThreshold)
+  }, [options.method, inkCoverage, blankThreshold])
+
+  const blankPageRanges = useMemo(() => {
+    if (blankPages.length === 0) return []
+    return getBlankPageRanges(totalPages, blankPages, removeBlankPages)
+  }, [blankPages, removeBlankPages, totalPages])
+
+  // 出力ファイル名の例に使う値（最初の分割ファイル）
+  const filenameSample = useMemo<FilenameTemplateValues>(() => {
+    const firstRange = bookmarkRanges[0] ?? blankPageRanges[0]
+    const end = firstRange?.end ?? Math.max(1, Math.min(pagesPerSplit, totalPages))
+    return {
+      base: filename ? removeExtension(filename) : 'document',
+      index: 1,
+      total: Math.max(1, totalPages),
+      start: firstRange?.start ?? 1,
+      end,
+      pages: end - (firstRange?.start ?? 1) + 1,
+      title: bookmarkRanges[0]?.title,
+    }
+  }, [filename, bookmarkRanges, blankPageRanges, pagesPerSplit, totalPages])
+
+  const isFilenameTemplateValid = validateFilenameTemplate(options.filenameTemplate).success
 
   // 範囲指定が有効かチェック
   const isRangeValid = useMemo(() => {
@@ -97,7 +219,7 @@ export function SplitOptions({
 
   // 分割ボタンが有効か
   const canSplit = useMemo(() => {
-    if (disabled || isProcessing) return false
+    if (disabled || isProcessing || !isFilenameTemplateValid) return false
     switch (options.method) {
       case 'ranges':
         return isRangeValid
@@ -105,8 +227,28 @@ export function SplitOptions({
         return isPartsCountValid
       case 'equalPages':
         return isPagesPerSplitValid
+      case 'bookmarks':
+        return batchMode || bookmarkRanges.length > 0
+      case 'blankPages':
+        // 検出結果をプレビューで確認してから分割する（一括処理ではファイルごとに分割時に検出）
+        return batchMode || (!isDetectingBlankPages && blankPageRanges.length > 0)
+      case 'maxSize':
+        return maxFileSize > 0
     }
-  }, [disabled, isProcessing, options.method, isRangeValid, isPartsCountValid, isPagesPerSplitValid])
+  }, [
+    disabled,
+    isProcessing,
+    isFilenameTemplateValid,
+    batchMode,
+    options.method,
+    isRangeValid,
+    isPartsCountValid,
+    isPagesPerSplitValid,
+    bookmarkRanges,
+    isDetectingBlankPages,
+    blankPageRanges,
+    maxFileSize,
+  ])
 
   // 分割方法を変更
   const handleMethodChange = (method: SplitMethod) => {
@@ -130,6 +272,46 @@ export function SplitOptions({
     onOptionsChange({ ...options, pagesPerSplit: clampedValue })
   }
 
+  // しおりの階層を変更（上限チェック付き）
+  const handleBookmarkLevelChange = (value: number) => {
+    const clampedValue = Math.min(Math.max(1, outlineDepth), Math.max(1, value))
+    onOptionsChange({ ...options, bookmarkLevel: clampedValue })
+  }
+
+  // 最大サイズを変更
+  const handleMaxFileSizeChange = (value: string) => {
+    setMaxFileSizeText(value)
+    onOptionsChange({ ...options, maxFileSize: Math.round(Number(value) * 1024 * 1024) })
+  }
+
+  // 空白ページのしきい値を変更
+  const handleBlankThresholdChange = (value: number) => {
+    onOptionsChange({ ...options, blankThreshold: value })
+  }
+
+  // 区切りページの除去を切り替え
+  const handleRemoveBlankPagesToggle = () => {
+    onOptionsChange({ ...options, removeBlankPages: !removeBlankPages })
+  }
+
+  // 出力ファイル名のテンプレートを変更
+  const handleFilenameTemplateChange = (filenameTemplate: string | undefined) => {
+    onOptionsChange({ ...options, filenameTemplate })
+  }
+
+  // パスワード保護を切り替え
+  const handleProtectionToggle = () => {
+    onOptionsChange({
+      ...options,
+      protection: options.protection ? undefined : DEFAULT_PDF_PROTECTION_OPTIONS,
+    })
+  }
+
+  // パスワード保護の設定を変更
+  const handleProtectionChange = (protection: PdfProtectionOptions) => {
+    onOptionsChange({ ...options, protection })
+  }
+
   return (
     <div className="flex h-full flex-col">
       {/* ヘッダー */}
@@ -270,6 +452,219 @@ export function SplitOptions({
           </div>
         )}
 
+        {options.method === 'bookmarks' && (
+          <div className="space-y-3">
+            {outlineDepth === 0 ? (
+              <p className="text-xs text-muted-foreground">
+                このPDFにはしおりがありません
+              </p>
+            ) : (
+              <>
+                <Label htmlFor="bookmarkLevel" className="text-sm font-medium">
+                  しおりの階層
+                </Label>
+                <div className="flex items-center gap-3">
+                  <input
+                    id="bookmarkLevel"
+                    type="number"
+                    min={1}
+                    max={outlineDepth}
+                    value={bookmarkLevel}
+                    onChange={e => handleBookmarkLevelChange(parseInt(e.target.value) || 1)}
+                    disabled={disabled}
+                    className={cn(
+                      'w-full rounded-md border px-3 py-2 text-sm',
+                      'focus:outline-none focus:ring-2 focus:ring-ring',
+                      disabled && 'cursor-not-allowed opacity-50'
+                    )}
+                  />
+                  {!batchMode && (
+                    <span className="text-sm text-muted-foreground whitespace-nowrap">
+                      / {outlineDepth}
+                    </span>
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {bookmarkLevel === 1
+                    ? '最上位のしおりごとに分割します'
+                    : `第${bookmarkLevel}階層までのしおりごとに分割します`}
+                </p>
+                {batchMode ? (
+                  <p className="text-xs text-muted-foreground">
+                    ファイルごとに、そのファイルのしおりで分割します
+                  </p>
+                ) : bookmarkRanges.length > 0 ? (
+                  <RangePreview
+                    bookmarkRanges={bookmarkRanges}
+                    totalPages={totalPages}
+                    disabled={disabled}
+                  />
+                ) : (
+                  <p className="text-xs text-muted-foreground">
+                    ページを指すしおりが見つかりません
+                  </p>
+                )}
+              </>
+            )}
+          </div>
+        )}
+
+        {options.method === 'blankPages' && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="blankThreshold" className="text-sm font-medium">
+                  インク率のしきい値: {blankThreshold.toFixed(1)}%
+                </Label>
+              </div>
+              <input
+                id="blankThreshold"
+                type="range"
+                min={0}
+                max={PDF_SPLIT_CONSTANTS.MAX_BLANK_THRESHOLD}
+                step={0.1}
+                value={blankThreshold}
+                onChange={e => handleBlankThresholdChange(parseFloat(e.target.value))}
+                disabled={disabled}
+                className="w-full accent-primary"
+              />
+              <p className="text-xs text-muted-foreground">
+                インク率がこの値以下のページを空白ページとみなします（スキャンのノイズが多い場合は上げてください）
+              </p>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label htmlFor="removeBlankPages" className="text-sm font-medium cursor-pointer">
+                  区切りページを除く
+                </Label>
+                <p className="text-xs text-muted-foreground">
+                  空白ページを分割後のPDFに含めない
+                </p>
+              </div>
+              <Switch
+                id="removeBlankPages"
+                checked={removeBlankPages}
+                onClick={handleRemoveBlankPagesToggle}
+                disabled={disabled}
+              />
+            </div>
+
+            {batchMode ? (
+              <p className="text-xs text-muted-foreground">
+                空白ページはファイルごとに分割時に検出します
+              </p>
+            ) : (
+              <Button
+                variant="outline"
+                onClick={onDetectBlankPages}
+                disabled={disabled || isDetectingBlankPages || !onDetectBlankPages}
+                className="w-full"
+                size="sm"
+              >
+                {isDetectingBlankPages ? (
+                  <>
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    検出中...
+                  </>
+                ) : (
+                  <>
+                    <FileScan className="h-4 w-4 mr-2" />
+                    {inkCoverage ? '空白ページを再検出' : '空白ページを検出'}
+                  </>
+                )}
+              </Button>
+            )}
+
+            {!batchMode && inkCoverage && !isDetectingBlankPages && (
+              blankPageRanges.length > 0 ? (
+                <RangePreview
+                  pageRanges={blankPageRanges}
+                  separatorPages={blankPages}
+                  totalPages={totalPages}
+                  disabled={disabled}
+                />
+              ) : (
+                <p className="text-xs text-muted-foreground">
+                  {blankPages.length === 0
+                    ? '空白ページが見つかりません。しきい値を上げてください'
+                    : 'すべてのページが空白と判定されました。しきい値を下げてください'}
+                </p>
+              )
+            )}
+          </div>
+        )}
+
+        {options.method === 'maxSize' && (
+          <div className="space-y-3">
+            <Label htmlFor="maxFileSize" className="text-sm font-medium">
+              最大サイズ
+            </Label>
+            <div className="flex items-center gap-3">
+              <input
+                id="maxFileSize"
+                type="number"
+                min={0.1}
+                step={0.1}
+                value={maxFileSizeText}
+                onChange={e => handleMaxFileSizeChange(e.target.value)}
+                disabled={disabled}
+                className={cn(
+                  'w-full rounded-md border px-3 py-2 text-sm',
+                  'focus:outline-none focus:ring-2 focus:ring-ring',
+                  disabled && 'cursor-not-allowed opacity-50'
+                )}
+              />
+              <span className="text-sm text-muted-foreground whitespace-nowrap">
+                MB以下
+              </span>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              連続するページを、保存後のサイズが上限に収まるようにまとめます
+            </p>
+          </div>
+        )}
+
+        {/* 出力ファイル名 */}
+        <FilenameTemplateInput
+          value={options.filenameTemplate}
+          onChange={handleFilenameTemplateChange}
+          defaultTemplate={DEFAULT_SPLIT_FILENAME_TEMPLATES[options.method]}
+          sampleValues={filenameSample}
+          tokens={options.method === 'bookmarks' ? undefined : SPLIT_FILENAME_TOKENS}
+          disabled={disabled}
+          idPrefix="split-filename"
+        />
+
+        {/* パスワード保護 */}
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label htmlFor="split-protect" className="text-sm font-medium cursor-pointer">
+                パスワードで保護
+              </Label>
+              <p className="text-xs text-muted-foreground">
+                分割した各PDFをAES-256で暗号化
+              </p>
+            </div>
+            <Switch
+              id="split-protect"
+              checked={!!options.protection}
+              onClick={handleProtectionToggle}
+              disabled={disabled}
+            />
+          </div>
+
+          {options.protection && (
+            <ProtectionSettings
+              options={options.protection}
+              onOptionsChange={handleProtectionChange}
+              disabled={disabled}
+              idPrefix="split-protection"
+            />
+          )}
+        </div>
+
         {/* 分割結果のサマリー */}
         {splitResult && (
           <div className="rounded-lg border border-success/50 bg-success-bg p-4">
@@ -286,7 +681,18 @@ export function SplitOptions({
 
       {/* アクションボタン */}
       <div className="border-t border-border p-4 space-y-2">
-        {splitStatus === 'completed' && onDownloadAll ? (
+        {isCreatingZip ? (
+          <Button
+            onClick={onCancelDownload}
+            disabled={!onCancelDownload}
+            variant="outline"
+            className="w-full"
+            size="default"
+          >
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ZIPを作成中...（キャンセル）
+          </Button>
+        ) : splitStatus === 'completed' && onDownloadAll ? (
           <Button
             onClick={onDownloadAll}
             className="w-full"
@@ -0,0 +1,537 @@
+/**
+ * 透かしオプションパネル
+ * 透かしの種類（テキスト・画像）、文字・画像の設定、不透明度・角度、配置、対象ページ、描画する層、出力ファイル名の設定UI
+ */
+
+'use client'
+
+import { useCallback, useMemo, useRef, useState } from 'react'
+import type { PdfWatermarkOptions, WatermarkLayer, WatermarkLayout, WatermarkType } from '@/types'
+import { FilenameTemplateInput } from '@/components/pdf-split/filename-template-input'
+import { FontSelector } from '@/components/page-numbers/font-selector'
+import { PositionGrid } from '@/components/page-numbers/position-grid'
+import { WATERMARK_FILENAME_TEMPLATE, requiresWatermarkJapaneseFont } from '@/lib/pdf-watermark'
+import { removeExtension } from '@/lib/filename-template'
+import {
+  validateFilenameTemplate,
+  validateFontFile,
+  validateWatermarkImage,
+} from '@/lib/pdf-validation'
+import { parsePageRanges } from '@/lib/pdf-splitter'
+import { PDF_WATERMARK_CONSTANTS } from '@/lib/constants'
+import Stamp from 'lucide-react/dist/esm/icons/stamp'
+import Upload from 'lucide-react/dist/esm/icons/upload'
+import Download from 'lucide-react/dist/esm/icons/download'
+import Loader2 from 'lucide-react/dist/esm/icons/loader-2'
+
+interface WatermarkOptionsProps {
+  options: PdfWatermarkOptions
+  onOptionsChange: (options: PdfWatermarkOptions) => void
+  onExecute: () => void
+  onDownload?: () => void
+  disabled?: boolean
+  isProcessing: boolean
+  hasResult: boolean
+  totalPages: number
+  /** 処理するファイル名（出力ファイル名の例に使用） */
+  filename?: string
+}
+
+/** 透かし挿入時に表示するトークン */
+const WATERMARK_FILENAME_TOKENS = ['{base}', '{pages}', '{date}']
+
+/** 画像ファイル選択で受け付ける形式 */
+const IMAGE_ACCEPT = PDF_WATERMARK_CONSTANTS.IMAGE_TYPES.join(',')
+
+/** 角度のプリセット */
+const ROTATION_PRESETS = [0, 45, 90, -45] as const
+
+/** 選択肢の表示名 */
+const TYPE_LABELS: Record<WatermarkType, string> = { text: 'テキスト', image: '画像' }
+const LAYOUT_LABELS: Record<WatermarkLayout, string> = { single: '1つ配置', tile: '敷き詰め' }
+const LAYER_LABELS: Record<WatermarkLayer, string> = { over: '本文の上', under: '本文の下' }
+
+/** 対象ページの入力例 */
+const PAGE_RANGE_EXAMPLES = [
+  { value: '', label: '全ページ' },
+  { value: '!1', label: '表紙以外' },
+  { value: 'odd', label: '奇数' },
+  { value: 'even', label: '偶数' },
+] as const
+
+/**
+ * 選択肢の切り替えボタン
+ */
+function ChoiceButtons<T extends string>({
+  value,
+  labels,
+  onChange,
+  disabled,
+  label,
+}: {
+  value: T
+  labels: Record<T, string>
+  onChange: (value: T) => void
+  disabled?: boolean
+  label: string
+}) {
+  return (
+    <div className="grid grid-cols-2 gap-2" role="radiogroup" aria-label={label}>
+      {(Object.keys(labels) as T[]).map((key) => (
+        <button
+          key={key}
+          type="button"
+          role="radio"
+          aria-checked={value === key}
+          onClick={() => onChange(key)}
+          disabled={disabled}
+          className={`
+            rounded-md border-2 px-3 py-2 text-sm transition-all
+            ${
+              value === key
+                ? 'border-primary bg-primary/10 font-medium text-foreground'
+                : 'border-border text-muted-foreground hover:border-muted-foreground/50 hover:bg-muted/50'
+            }
+            ${disabled ? 'cursor-not-allowed opacity-50' : 'cursor-pointer'}
+          `}
+        >
+          {labels[key]}
+        </button>
+      ))}
+    </div>
+  )
+}
+
+/**
+ * メインのオプションパネルコンポーネント
+ */
+export function WatermarkOptions({
+  options,
+  onOptionsChange,
+  onExecute,
+  onDownload,
+  disabled,
+  isProcessing,
+  hasResult,
+  totalPages,
+  filename,
+}: WatermarkOptionsProps) {
+  const imageInputRef = useRef<HTMLInputElement>(null)
+  const [imageError, setImageError] = useState<string | null>(null)
+
+  /**
+   * オプションを更新（部分更新用）
+   */
+  const updateOption = useCallback(
+    <K extends keyof PdfWatermarkOptions>(key: K, value: PdfWatermarkOptions[K]) => {
+      onOptionsChange({ ...options, [key]: value })
+    },
+    [options, onOptionsChange]
+  )
+
+  /**
+   * 透かしに使う画像を設定
+   */
+  const handleImageChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    // 同じファイルを選び直せるようにリセット
+    e.target.value = ''
+    if (!file) return
+
+    const validationResult = validateWatermarkImage(file)
+    if (!validationResult.success) {
+      setImageError(validationResult.message)
+      return
+    }
+    setImageError(null)
+    onOptionsChange({ ...options, image: file })
+  }, [options, onOptionsChange])
+
+  const rangeError = useMemo(() => {
+    if (options.pageRange.trim() === '' || totalPages === 0) return null
+    const result = parsePageRanges(options.pageRange, totalPages)
+    return result.isValid ? null : result.errors[0]?.message ?? '有効なページ範囲を指定してください'
+  }, [options.pageRange, totalPages])
+
+  const filenameSample = useMemo(
+    () => ({ base: filename ? removeExtension(filename) : 'document', pages: totalPages }),
+    [filename, totalPages]
+  )
+  const isFilenameTemplateValid = validateFilenameTemplate(options.filenameTemplate).success
+  const isFontUnsupported = requiresWatermarkJapaneseFont(options)
+  const isContentValid = options.type === 'text'
+    ? options.text.trim() !== '' &&
+      !isFontUnsupported &&
+      (options.font !== 'custom' || validateFontFile(options.customFont).success)
+    : validateWatermarkImage(options.image).success
+
+  const inputClass =
+    'w-full rounded-md border bg-background px-3 py-2 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-ring disabled:cursor-not-allowed disabled:opacity-50'
+
+  // ボタンの共通クラス
+  const buttonClass =
+    'flex w-full items-center justify-center gap-2 rounded-lg bg-primary px-4 py-3 font-medium text-primary-foreground transition-colors hover:bg-primary/90 disabled:cursor-not-allowed disabled:opacity-50'
+
+  return (
+    <div className="flex h-full flex-col border-l border-border bg-card">
+      <div className="flex-1 overflow-auto p-6">
+        <h3 className="mb-6 text-lg font-bold text-foreground">透かし設定</h3>
+
+        <div className="space-y-6">
+          {/* 透かしの種類 */}
+          <section className="space-y-4">
+            <h4 className="text-sm font-semibold text-foreground">透かしの種類</h4>
+            <ChoiceButtons
+              value={options.type}
+              labels={TYPE_LABELS}
+              onChange={(type) => updateOption('type', type)}
+              disabled={disabled}
+              label="透かしの種類"
+            />
+
+            {options.type === 'text' ? (
+              <>
+                <div className="space-y-2">
+                  <label htmlFor="watermark-text" className="text-sm text-muted-foreground">
+                    テキスト
+                  </label>
+                  <input
+                    id="watermark-text"
+                    type="text"
+                    value={options.text}
+                    onChange={(e) => updateOption('text', e.target.value)}
+                    placeholder="例: CONFIDENTIAL、社外秘"
+                    disabled={disabled}
+                    className={`${inputClass} border-input`}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <label htmlFor="watermark-font-size" className="text-sm text-muted-foreground">
+                    フォントサイズ: {options.fontSize}pt
+                  </label>
+                  <input
+                    id="watermark-font-size"
+                    type="range"
+                    min={PDF_WATERMARK_CONSTANTS.MIN_FONT_SIZE}
+                    max={PDF_WATERMARK_CONSTANTS.MAX_FONT_SIZE}
+                    value={options.fontSize}
+                    onChange={(e) => updateOption('fontSize', parseInt(e.target.value))}
+                    disabled={disabled}
+                    className="w-full accent-primary"
+                  />
+                </div>
+
+                <div className="flex items-center gap-3">
+                  <input
+                    id="watermark-color"
+                    type="color"
+                    value={options.fontColor}
+                    onChange={(e) => updateOption('fontColor', e.target.value)}
+                    disabled={disabled}
+                    className="h-10 w-14 rounded cursor-pointer border-0 bg-transparent"
+                  />
+                  <label htmlFor="watermark-color" className="text-sm text-muted-foreground">
+                    文字色 {options.fontColor}
+                  </label>
+                </div>
+              </>
+            ) : (
+              <>
+                <div className="space-y-2">
+                  <input
+                    ref={imageInputRef}
+                    type="file"
+                    accept={IMAGE_ACCEPT}
+                    onChange={handleImageChange}
+                    className="hidden"
+                    aria-label="画像ファイルを選択"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => imageInputRef.current?.click()}
+                    disabled={disabled}
+                    className="flex w-full items-center justify-center gap-2 rounded-md border border-input bg-background px-3 py-2 text-sm text-foreground transition-colors hover:bg-muted disabled:cursor-not-allowed disabled:opacity-50"
+                  >
+                    <Upload className="h-4 w-4" />
+                    {options.image ? '画像を変更' : '画像を選択'}
+                  </button>
+                  {options.image && (
+                    <p className="truncate text-xs text-muted-foreground" title={options.image.name}>
+                      {options.image.name}
+                    </p>
+                  )}
+                  {imageError && (
+                    <p className="text-xs text-destructive">{imageError}</p>
+                  )}
+                  <p className="text-xs text-muted-foreground">
+                    PNG・JPEG・WebP形式。PNGの透過部分はそのまま透過します
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <label htmlFor="watermark-image-scale" className="text-sm text-muted-foreground">
+                    画像の幅: ページ幅の{Math.round(options.imageScale * 100)}%
+                  </label>
+                  <input
+                    id="watermark-image-scale"
+                    type="range"
+                    min={PDF_WATERMARK_CONSTANTS.MIN_IMAGE_SCALE * 100}
+                    max={PDF_WATERMARK_CONSTANTS.MAX_IMAGE_SCALE * 100}
+                    value={Math.round(options.imageScale * 100)}
+                    onChange={(e) => updateOption('imageScale', parseInt(e.target.value) / 100)}
+                    disabled={disabled}
+                    className="w-full accent-primary"
+                  />
+                </div>
+              </>
+            )}
+          </section>
+
+          {/* フォント設定 */}
+          {options.type === 'text' && (
+            <section className="space-y-4">
+              <h4 className="text-sm font-semibold text-foreground">フォント設定</h4>
+              <FontSelector
+                font={options.font}
+                customFont={options.customFont}
+                onChange={(value) => onOptionsChange({ ...options, ...value })}
+                disabled={disabled}
+              />
+              {isFontUnsupported && (
+                <p className="text-xs text-destructive">
+                  Helveticaでは日本語を表示できません。Noto Sans JPなどを選択してください
+                </p>
+              )}
+            </section>
+          )}
+
+          {/* 不透明度・角度 */}
+          <section className="space-y-4">
+            <h4 className="text-sm font-semibold text-foreground">不透明度・角度</h4>
+
+            <div className="space-y-2">
+              <label htmlFor="watermark-opacity" className="text-sm text-muted-foreground">
+                不透明度: {Math.round(options.opacity * 100)}%
+              </label>
+              <input
+                id="watermark-opacity"
+                type="range"
+                min={5}
+                max={100}
+                step={5}
+                value={Math.round(options.opacity * 100)}
+                onChange={(e) => updateOption('opacity', parseInt(e.target.value) / 100)}
+                disabled={disabled}
+                className="w-full accent-primary"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <label htmlFor="watermark-rotation" className="text-sm text-muted-foreground">
+                角度: {options.rotation}°
+              </label>
+              <input
+                id="watermark-rotation"
+                type="range"
+                min={-90}
+                max={90}
+                value={options.rotation}
+                onChange={(e) => updateOption('rotation', parseInt(e.target.value))}
+                disabled={disabled}
+                className="w-full accent-primary"
+              />
+              <div className="flex flex-wrap gap-1">
+                {ROTATION_PRESETS.map((rotation) => (
+                  <button
+                    key={rotation}
+                    type="button"
+                    onClick={() => updateOption('rotation', rotation)}
+                    disabled={disabled}
+                    className={`
+                      rounded-full px-2 py-0.5 text-xs transition-colors
+                      ${
+                        options.rotation === rotation
+                          ? 'bg-primary text-primary-foreground'
+                          : 'bg-muted text-muted-foreground hover:bg-muted/70'
+                      }
+                      ${disabled ? 'cursor-not-allowed opacity-50' : 'cursor-pointer'}
+                    `}
+                  >
+                    {rotation}°
+                  </button>
+                ))}
+              </div>
+            </div>
+          </section>
+
+          {/* 配置 */}
+          <section className="space-y-4">
+            <h4 className="text-sm font-semibold text-foreground">配置</h4>
+            <ChoiceButtons
+              value={options.layout}
+              labels={LAYOUT_LABELS}
+              onChange={(layout) => updateOption('layout', layout)}
+              disabled={disabled}
+              label="配置"
+            />
+
+            {options.layout === 'single' ? (
+              <>
+                <PositionGrid
+                  value={options.position}
+                  onChange={(position) => updateOption('position', position)}
+                  disabled={disabled}
+                  label="配置位置"
+                />
+                <div className="space-y-2">
+                  <label htmlFor="watermark-margin" className="text-sm text-muted-foreground">
+                    余白: {options.margin}
+                  </label>
+                  <input
+                    id="watermark-margin"
+                    type="range"
+                    min={0}
+                    max={200}
+                    value={options.margin}
+                    onChange={(e) => updateOption('margin', parseInt(e.target.value))}
+                    disabled={disabled}
+                    className="w-full accent-primary"
+                  />
+                </div>
+              </>
+            ) : (
+              <div className="space-y-2">
+                <label htmlFor="watermark-tile-gap" className="text-sm text-muted-foreground">
+                  間隔: {options.tileGap}
+                </label>
+                <input
+                  id="watermark-tile-gap"
+                  type="range"
+                  min={0}
+                  max={300}
+                  step={5}
+                  value={options.tileGap}
+                  onChange={(e) => updateOption('tileGap', parseInt(e.target.value))}
+                  disabled={disabled}
+                  className="w-full accent-primary"
+                />
+              </div>
+            )}
+          </section>
+
+          {/* 対象ページ・描画する層 */}
+          <section className="space-y-4">
+            <h4 className="text-sm font-semibold text-foreground">対象ページ</h4>
+            <div className="space-y-2">
+              <input
+                id="watermark-page-range"
+                type="text"
+                value={options.pageRange}
+                onChange={(e) => updateOption('pageRange', e.target.value)}
+                placeholder="全ページ（例: !1 で表紙以外、2-end）"
+                disabled={disabled}
+                aria-label="対象ページ"
+                aria-invalid={!!rangeError}
+                className={`${inputClass} font-mono ${rangeError ? 'border-destructive' : 'border-input'}`}
+              />
+              <div className="flex flex-wrap gap-1">
+                {PAGE_RANGE_EXAMPLES.map(({ value, label }) => (
+                  <button
+                    key={label}
+                    type="button"
+                    onClick={() => updateOption('pageRange', value)}
+                    disabled={disabled}
+                    className={`
+                      rounded-full px-2 py-0.5 text-xs transition-colors
+                      ${
+                        options.pageRange.trim() === value
+                          ? 'bg-primary text-primary-foreground'
+                          : 'bg-muted text-muted-foreground hover:bg-muted/70'
+                      }
+                      ${disabled ? 'cursor-not-allowed opacity-50' : 'cursor-pointer'}
+                    `}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              {rangeError && <p className="text-xs text-destructive">{rangeError}</p>}
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">描画する層</p>
+              <ChoiceButtons
+                value={options.layer}
+                labels={LAYER_LABELS}
+                onChange={(layer) => updateOption('layer', layer)}
+                disabled={disabled}
+                label="描画する層"
+              />
+              {options.layer === 'under' && (
+                <p className="text-xs text-muted-foreground">
+                  スキャンしたPDFなど、ページ全体が画像の場合は透かしが隠れます
+                </p>
+              )}
+            </div>
+          </section>
+
+          {/* 出力ファイル名 */}
+          <section>
+            <FilenameTemplateInput
+              value={options.filenameTemplate}
+              onChange={(filenameTemplate) => updateOption('filenameTemplate', filenameTemplate)}
+              defaultTemplate={WATERMARK_FILENAME_TEMPLATE}
+              sampleValues={filenameSample}
+              tokens={WATERMARK_FILENAME_TOKENS}
+              disabled={disabled}
+              idPrefix="watermark-filename"
+            />
+          </section>
+        </div>
+      </div>
+
+      {/* アクションボタン */}
+      <div className="border-t border-border bg-muted/30 p-6">
+        {hasResult ? (
+          // 完了後：ダウンロードボタン
+          <button
+            type="button"
+            onClick={onDownload}
+            disabled={isProcessing}
+            className={buttonClass}
+          >
+            <Download className="h-5 w-5" />
+            ダウンロード
+          </button>
+        ) : (
+          // 実行前：透かし追加ボタン
+          <button
+            type="button"
+            onClick={onExecute}
+            disabled={
+              disabled ||
+              isProcessing ||
+              !isContentValid ||
+              !!rangeError ||
+              !isFilenameTemplateValid
+            }
+            className={buttonClass}
+          >
+            {isProcessing ? (
+              <>
+                <Loader2 className="h-5 w-5 animate-spin" />
+                処理中...
+              </>
+            ) : (
+              <>
+                <Stamp className="h-5 w-5" />
+                透かしを追加
+              </>
+            )}
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
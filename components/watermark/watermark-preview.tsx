@@ -0,0 +1,235 @@
+/**
+ * 透かしプレビューコンポーネント
+ * 現在の設定（配置・角度・不透明度・フォント・画像）で透かしがどう入るかをページのサムネイルに重ねて表示
+ */
+
+'use client'
+
+import { memo, useEffect, useMemo, useState } from 'react'
+import type { CSSProperties } from 'react'
+import Image from 'next/image'
+import type { PdfWatermarkOptions } from '@/types'
+import type { WatermarkPreviewPage } from '@/hooks/use-pdf-watermark'
+import { usePreviewFontFamily } from '@/hooks/use-preview-font'
+import { createCanvas2D } from '@/lib/canvas-utils'
+import { parsePageRanges } from '@/lib/pdf-splitter'
+import { validateWatermarkImage } from '@/lib/pdf-validation'
+import {
+  getImageWatermarkSize,
+  getWatermarkCenters,
+  type WatermarkSize,
+} from '@/lib/watermark-layout'
+import { cn } from '@/lib/utils'
+
+interface WatermarkPreviewProps {
+  options: PdfWatermarkOptions
+  pages: WatermarkPreviewPage[]
+  totalPages: number
+  className?: string
+}
+
+/** 縮小ページの表示幅（px） */
+const PREVIEW_WIDTH = 160
+
+/** 読み込んだ透かし画像 */
+interface LoadedImage {
+  file: File
+  url: string
+  width: number
+  height: number
+}
+
+/**
+ * テキストの透かしの大きさを計測（PDFユニット）
+ * lib/pdf-watermark と同じく、幅は文字列の幅、高さはディセンダーを除いた高さとする
+ */
+function measureTextBox(text: string, fontSize: number, fontFamily: string): WatermarkSize {
+  const { context } = createCanvas2D(1, 1)
+  context.font = `${fontSize}px ${fontFamily}`
+  const metrics = context.measureText(text)
+  return {
+    width: metrics.width,
+    height: metrics.fontBoundingBoxAscent || fontSize * 0.75,
+  }
+}
+
+/**
+ * 透かし画像を読み込み、プレビュー用のURLと元の大きさを返す
+ * 画像を変更・削除した場合はURLを解放する
+ */
+function useWatermarkImage(file?: File): LoadedImage | null {
+  const [loaded, setLoaded] = useState<LoadedImage | null>(null)
+
+  useEffect(() => {
+    if (!file || !validateWatermarkImage(file).success) return
+
+    const url = URL.createObjectURL(file)
+    const image = new window.Image()
+    image.onload = () => {
+      setLoaded({ file, url, width: image.naturalWidth, height: image.naturalHeight })
+    }
+    image.src = url
+
+    return () => {
+      image.onload = null
+      URL.revokeObjectURL(url)
+    }
+  }, [file])
+
+  return loaded?.file === file ? loaded : null
+}
+
+/**
+ * 縮小ページ
+ */
+function PreviewPage({
+  page,
+  options,
+  box,
+  isTarget,
+  children,
+}: {
+  page: WatermarkPreviewPage
+  options: PdfWatermarkOptions
+  box: WatermarkSize | null
+  isTarget: boolean
+  children: (style: CSSProperties, index: number) => React.ReactNode
+}) {
+  const scale = PREVIEW_WIDTH / page.width
+  const height = page.height * scale
+
+  const centers = useMemo(
+    () => (box && isTarget ? getWatermarkCenters(page, box, options) : []),
+    [page, box, isTarget, options]
+  )
+
+  return (
+    <figure className="space-y-1">
+      <div
+        className="relative overflow-hidden rounded-sm border border-border bg-white shadow-sm"
+        style={{ width: PREVIEW_WIDTH, height }}
+      >
+        {page.thumbnail ? (
+          <Image
+            src={page.thumbnail}
+            alt={`${page.pageNumber}ページ目`}
+            width={PREVIEW_WIDTH}
+            height={Math.round(height)}
+            className="absolute inset-0 h-full w-full object-contain"
+            unoptimized
+          />
+        ) : (
+          <div className="absolute inset-0 animate-pulse bg-muted/30" />
+        )}
+        {centers.map((center, index) =>
+          children(
+            {
+              position: 'absolute',
+              left: center.x * scale,
+              top: (page.height - center.y) * scale,
+              transform: `translate(-50%, -50%) rotate(${-options.rotation}deg)`,
+              opacity: options.opacity,
+              // 本文の下に描画する場合は、白い部分にだけ透かしが見えるよう乗算で重ねる
+              mixBlendMode: options.layer === 'under' ? 'multiply' : undefined,
+              pointerEvents: 'none',
+            },
+            index
+          )
+        )}
+      </div>
+      <figcaption className="text-center text-xs text-muted-foreground">
+        {page.pageNumber}ページ目{!isTarget && '（対象外）'}
+      </figcaption>
+    </figure>
+  )
+}
+
+export const WatermarkPreview = memo(function WatermarkPreview({
+  options,
+  pages,
+  totalPages,
+  className,
+}: WatermarkPreviewProps) {
+  const fontFamily = usePreviewFontFamily(options.font, options.customFont)
+  const image = useWatermarkImage(options.type === 'image' ? options.image : undefined)
+
+  const text = options.text.trim()
+  const textBox = useMemo(
+    () => (text === '' ? null : measureTextBox(text, options.fontSize, fontFamily)),
+    [text, options.fontSize, fontFamily]
+  )
+
+  // 対象ページ（範囲が不正な場合は透かしを表示しない。エラーはオプションパネルに表示）
+  const targetPages = useMemo(() => {
+    if (options.pageRange.trim() === '') return null
+    const result = parsePageRanges(options.pageRange, totalPages)
+    if (!result.isValid) return new Set<number>()
+    return new Set(
+      result.ranges.flatMap((range) =>
+        Array.from({ length: range.end - range.start + 1 }, (_, j) => range.start + j)
+      )
+    )
+  }, [options.pageRange, totalPages])
+
+  return (
+    <div className={cn('rounded-lg border border-border bg-card p-6', className)}>
+      <h3 className="mb-4 text-sm font-medium text-foreground">プレビュー</h3>
+
+      <div className="flex flex-wrap justify-center gap-6">
+        {pages.map((page) => {
+          const scale = PREVIEW_WIDTH / page.width
+          const box = options.type === 'text'
+            ? textBox
+            : image && getImageWatermarkSize(page, image, options.imageScale)
+
+          return (
+            <PreviewPage
+              key={page.pageNumber}
+              page={page}
+              options={options}
+              box={box}
+              isTarget={!targetPages || targetPages.has(page.pageNumber)}
+            >
+              {(style, index) =>
+                options.type === 'text' ? (
+                  <span
+                    key={index}
+                    style={{
+                      ...style,
+                      fontFamily,
+                      fontSize: options.fontSize * scale,
+                      color: options.fontColor,
+                      lineHeight: 1,
+                      whiteSpace: 'nowrap',
+                    }}
+                  >
+                    {text}
+                  </span>
+                ) : (
+                  image &&
+                  box && (
+                    <Image
+                      key={index}
+                      src={image.url}
+                      alt=""
+                      width={Math.max(1, Math.round(box.width * scale))}
+                      height={Math.max(1, Math.round(box.height * scale))}
+                      style={{ ...style, maxWidth: 'none' }}
+                      unoptimized
+                    />
+                  )
+                )
+              }
+            </PreviewPage>
+          )
+        })}
+      </div>
+
+      {totalPages > pages.length && (
+        <p className="mt-4 text-center text-xs text-muted-foreground">
+          先頭の{pages.length}ページを表示しています（全{totalPages}ページ）
+        </p>
+      )}
+    </div>
+  )
+})
@@ -0,0 +1,406 @@
+/**
+ * PDF一括処理フック
+ * 複数ファイルを同じ設定で処理するキューの状態管理（分割・圧縮・ページ番号挿入で共用）
+ */
+
+'use client'
+
+import { useState, useCallback, useRef, useEffect } from 'react'
+import type {
+  BatchItem,
+  BatchItemStatus,
+  BatchOutput,
+  BatchResult,
+  FileUpload,
+  ProcessingProgress,
+} from '@/types'
+import { PDF_BATCH_CONSTANTS } from '@/lib/constants'
+import { getBatchZipEntries, runWithConcurrency } from '@/lib/pdf-batch'
+import { getPdfPageCount } from '@/lib/pdf-merger'
+import type { ValidationResult } from '@/lib/pdf-validation'
+import { filesToFileUploads } from '@/lib/file-utils'
+import { downloadBlobsAsZip } from '@/lib/zip-utils'
+
+/** キャンセル時のエラーメッセージ */
+const CANCELLED_ERROR = '処理がキャンセルされました'
+
+/** 一括処理の内容（機能ごとにモジュールの定数として定義する） */
+export interface PdfBatchProcessor<TOptions> {
+  /** ZIPファイル名 */
+  zipFilename: string
+  /** 追加するファイルを検証 */
+  validateFile: (file: File) => ValidationResult
+  /** 処理を始める前にオプションを検証（問題がある場合はエラーメッセージを返す） */
+  validateOptions: (options: TOptions) => string | null
+  /** 前のファイルの結果を次のファイルに引き継ぐかどうか（引き継ぐ場合は1ファイルずつ順に処理する） */
+  carriesOver?: (options: TOptions) => boolean
+  /** 1ファイルを処理して生成したファイルを返す（previousOutputsはそれまでに成功したファイルの出力） */
+  process: (
+    file: FileUpload & { file: File },
+    options: TOptions,
+    onProgress: (progress: ProcessingProgress) => void,
+    signal: AbortSignal,
+    previousOutputs: BatchOutput[]
+  ) => Promise<BatchOutput[]>
+}
+
+/** フックの状態 */
+export interface UsePdfBatchState {
+  /** 処理するファイル */
+  items: BatchItem[]
+  /** 全体の進捗 */
+  progress: ProcessingProgress | null
+  /** 処理中かどうか */
+  isProcessing: boolean
+  /** ZIPファイルを作成中かどうか */
+  isCreatingZip: boolean
+  /** エラーメッセージ */
+  error: string | null
+  /** 一括処理の結果 */
+  result: BatchResult | null
+}
+
+/** フックのアクション */
+export interface UsePdfBatchActions<TOptions> {
+  /** ファイルを追加 */
+  addFiles: (files: File[]) => void
+  /** ファイルを削除 */
+  removeFile: (id: string) => void
+  /** 全ファイルをクリア */
+  clearFiles: () => void
+  /** すべてのファイルを処理 */
+  run: (options: TOptions) => Promise<void>
+  /** 処理またはZIPの作成をキャンセル */
+  cancel: () => void
+  /** 処理済みのファイルをZIPでダウンロード */
+  download: () => Promise<void>
+  /** エラーをクリア */
+  clearError: () => void
+}
+
+/**
+ * PDF一括処理フック
+ *
+ * @param processor - 一括処理の内容（再レンダリングごとに作り直さないこと）
+ * @returns 状態とアクションのタプル
+ */
+export function usePdfBatch<TOptions>(
+  processor: PdfBatchProcessor<TOptions>
+): [UsePdfBatchState, UsePdfBatchActions<TOptions>] {
+  const [items, setItems] = useState<BatchItem[]>([])
+  const [progress, setProgress] = useState<ProcessingProgress | null>(null)
+  const [isProcessing, setIsProcessing] = useState(false)
+  const [isCreatingZip, setIsCreatingZip] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [result, setResult] = useState<BatchResult | null>(null)
+
+  // 処理のキャンセル用
+  const abortControllerRef = useRef<AbortController | null>(null)
+
+  // アンマウント時に処理をキャンセル
+  useEffect(() => {
+    return () => {
+      abortControllerRef.current?.abort()
+    }
+  }, [])
+
+  /**
+   * ファイルの状態を更新
+   */
+  const updateItem = useCallback((id: string, update: Partial<BatchItem>) => {
+    setItems((prev) => prev.map((item) => (item.file.id === id ? { ...item, ...update } : item)))
+  }, [])
+
+  /**
+   * ファイルを追加（検証に失敗したファイルは除いて追加する）
+   */
+  const addFiles = useCallback((newFiles: File[]) => {
+    setError(null)
+
+    if (items.length + newFiles.length > PDF_BATCH_CONSTANTS.MAX_FILES) {
+      setError(`一括処理できるファイルは${PDF_BATCH_CONSTANTS.MAX_FILES}個までです`)
+      return
+    }
+
+    const accepted: File[] = []
+    const rejected: string[] = []
+    for (const file of newFiles) {
+      const validationResult = processor.validateFile(file)
+      if (validationResult.success) {
+        accepted.push(file)
+      } else {
+        rejected.push(`${file.name}: ${validationResult.message}`)
+      }
+    }
+
+    if (rejected.length > 0) {
+      setError(rejected.length === 1 ? rejected[0] : `${rejected[0]}（ほか${rejected.length - 1}件）`)
+    }
+    if (accepted.length === 0) return
+
+    const uploads = filesToFileUploads(accepted)
+    setItems((prev) => [
+      ...prev,
+      ...uploads.map((file) => ({ file, status: 'pending' as const, progress: null, outputs: [] })),
+    ])
+    setResult(null)
+    setProgress(null)
+
+    // 分割範囲の確認用にページ数を取得（Word文書は処理時に変換するため取得しない）
+    uploads.forEach(async (upload) => {
+      if (upload.type !== 'pdf' || !upload.file) return
+      const pages = await getPdfPageCount(upload.file)
+      if (pages > 0) {
+        setItems((prev) =>
+          prev.map((item) =>
+            item.file.id === upload.id ? { ...item, file: { ...item.file, pages } } : item
+          )
+        )
+      }
+    })
+  }, [items.length, processor])
+
+  /**
+   * ファイルを削除
+   */
+  const removeFile = useCallback((id: string) => {
+    setItems((prev) => prev.filter((item) => item.file.id !== id))
+    setResult(null)
+  }, [])
+
+  /**
+   * 全ファイルをクリア
+   */
+  const clearFiles = useCallback(() => {
+    setItems([])
+    setResult(null)
+    setError(null)
+    setProgress(null)
+  }, [])
+
+  /**
+   * すべてのファイルを処理
+   */
+  const run = useCallback(async (options: TOptions) => {
+    if (items.length === 0) {
+      setError('処理するファイルがありません')
+      return
+    }
+
+    const optionsError = processor.validateOptions(options)
+    if (optionsError) {
+      setError(optionsError)
+      return
+    }
+
+    // 既存の処理をキャンセル
+    if (abortControllerRef.current) {
+      abortControllerRef.current.abort()
+    }
+    const controller = new AbortController()
+    abortControllerRef.current = controller
+    const signal = controller.signal
+
+    const targets = items.map((item) => item.file)
+    const statuses: BatchItemStatus[] = targets.map(() => 'pending')
+    const outputs: BatchOutput[][] = targets.map(() => [])
+    const percentages: number[] = targets.map(() => 0)
+    let settledCount = 0
+
+    // 全体の進捗（各ファイルの進捗の平均）
+    const updateOverallProgress = () => {
+      const total = percentages.reduce((sum, value) => sum + value, 0)
+      setProgress({
+        stage: 'processing',
+        percentage: Math.floor(total / targets.length),
+        currentFile: settledCount,
+        totalFiles: targets.length,
+        message: `${settledCount}/${targets.length}ファイルを処理しました`,
+      })
+    }
+
+    setIsProcessing(true)
+    setError(null)
+    setResult(null)
+    setItems((prev) =>
+      prev.map((item) => ({ ...item, status: 'pending', progress: null, outputs: [], error: undefined }))
+    )
+    updateOverallProgress()
+
+    try {
+      await runWithConcurrency(
+        targets.length,
+        processor.carriesOver?.(options) ? 1 : PDF_BATCH_CONSTANTS.CONCURRENCY,
+        async (index) => {
+          const upload = targets[index]
+          statuses[index] = 'processing'
+          updateItem(upload.id, { status: 'processing' })
+
+          try {
+            if (!upload.file) {
+              throw new Error(`ファイル ${upload.name} が見つかりません`)
+            }
+
+            outputs[index] = await processor.process(
+              { ...upload, file: upload.file },
+              options,
+              (progressInfo) => {
+                // キャンセルチェック
+                if (signal.aborted) {
+                  throw new Error(CANCELLED_ERROR)
+                }
+                percentages[index] = progressInfo.percentage
+                updateItem(upload.id, { progress: progressInfo })
+                updateOverallProgress()
+              },
+              signal,
+              outputs.slice(0, index).flat()
+            )
+
+            statuses[index] = 'completed'
+            updateItem(upload.id, {
+              status: 'completed',
+              progress: { stage: 'completed', percentage: 100, message: '完了' },
+              outputs: outputs[index],
+            })
+          } catch (err) {
+            if (signal.aborted) {
+              statuses[index] = 'cancelled'
+              updateItem(upload.id, { status: 'cancelled', progress: null })
+            } else {
+              statuses[index] = 'failed'
+              updateItem(upload.id, {
+                status: 'failed',
+                progress: null,
+                error: err instanceof Error ? err.message : '処理に失敗しました',
+              })
+            }
+            throw err
+          } finally {
+            percentages[index] = 100
+            settledCount++
+            updateOverallProgress()
+          }
+        },
+        signal
+      )
+
+      // キャンセルにより開始しなかったファイル
+      targets.forEach((upload, index) => {
+        if (statuses[index] === 'pending') {
+          statuses[index] = 'cancelled'
+          updateItem(upload.id, { status: 'cancelled' })
+        }
+      })
+
+      const completed = statuses.filter((status) => status === 'completed').length
+      const failed = statuses.filter((status) => status === 'failed').length
+      const cancelled = statuses.filter((status) => status === 'cancelled').length
+
+      setResult({ zipFilename: processor.zipFilename, completed, failed, cancelled })
+      setProgress({
+        stage: 'completed',
+        percentage: 100,
+        message: failed > 0
+          ? `${completed}件のファイルを処理しました（${failed}件失敗）`
+          : `${completed}件のファイルを処理しました`,
+      })
+
+      if (completed === 0 && failed > 0) {
+        setError('すべてのファイルの処理に失敗しました')
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '一括処理に失敗しました')
+      setProgress(null)
+    } finally {
+      setIsProcessing(false)
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null
+      }
+    }
+  }, [items, processor, updateItem])
+
+  /**
+   * 処理をキャンセル
+   */
+  const cancel = useCallback(() => {
+    abortControllerRef.current?.abort()
+  }, [])
+
+  /**
+   * 処理済みのファイルをZIPでダウンロード
+   * ZIPはメモリ上にまとめず、ファイルごとに書き出す
+   */
+  const download = useCallback(async () => {
+    if (!result || result.completed === 0) return
+
+    const entries = getBatchZipEntries(
+      items
+        .filter((item) => item.status === 'completed')
+        .map((item) => ({ sourceName: item.file.name, outputs: item.outputs }))
+    )
+
+    const controller = new AbortController()
+    abortControllerRef.current = controller
+
+    setIsCreatingZip(true)
+    setError(null)
+
+    try {
+      const saved = await downloadBlobsAsZip(
+        entries,
+        result.zipFilename,
+        (progressInfo) => setProgress(progressInfo),
+        controller.signal
+      )
+      if (saved) {
+        setProgress({ stage: 'completed', percentage: 100, message: 'ZIPファイルを保存しました' })
+      }
+    } catch (err) {
+      if (controller.signal.aborted) {
+        setProgress(null)
+        return
+      }
+      console.error('[PDF_BATCH_DOWNLOAD] Failed:', {
+        error: err instanceof Error ? err.message : String(err),
+        filename: result.zipFilename,
+        entries: entries.length,
+      })
+      setError(err instanceof Error ? err.message : 'ファイルのダウンロードに失敗しました')
+      setProgress(null)
+    } finally {
+      setIsCreatingZip(false)
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null
+      }
+    }
+  }, [items, result])
+
+  /**
+   * エラーをクリア
+   */
+  const clearError = useCallback(() => {
+    setError(null)
+  }, [])
+
+  const actions: UsePdfBatchActions<TOptions> = {
+    addFiles,
+    removeFile,
+    clearFiles,
+    run,
+    cancel,
+    download,
+    clearError,
+  }
+
+  const state: UsePdfBatchState = {
+    items,
+    progress,
+    isProcessing,
+    isCreatingZip,
+    error,
+    result,
+  }
+
+  return [state, actions]
+}
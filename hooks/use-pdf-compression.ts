@@ -8,13 +8,27 @@
 import { useState, useCallback, useRef, useEffect } from 'react'
 import type {
   FileUpload,
+  PasswordRequest,
   PdfCompressionOptions,
   ProcessingProgress,
   CompressionResult,
 } from '@/types'
-import { compressPDF, getPdfPageCount } from '@/lib/pdf-compressor'
-import { validateFile, type ValidationResult } from '@/lib/pdf-validation'
+import { getPdfPageCount } from '@/lib/pdf-compressor'
+import { pdfWorker } from '@/lib/pdf-worker-client'
+import {
+  validateFile,
+  validatePdfEncryption,
+  validateTargetSize,
+  type ValidationResult,
+} from '@/lib/pdf-validation'
 import { fileToFileUpload, downloadBlob } from '@/lib/file-utils'
+import { PdfPasswordError, unlockPdfFile } from '@/lib/pdf-encryption'
+import {
+  usePdfBatch,
+  type PdfBatchProcessor,
+  type UsePdfBatchActions,
+  type UsePdfBatchState,
+} from '@/hooks/use-pdf-batch'
 
 /** フックの状態 */
 export interface UsePdfCompressionState {
@@ -28,12 +42,18 @@ export interface UsePdfCompressionState {
   error: string | null
   /** 圧縮結果 */
   compressionResult: CompressionResult | null
+  /** パスワード入力要求（暗号化されたPDFを設定した場合） */
+  passwordRequest: PasswordRequest | null
 }
 
 /** フックのアクション */
 export interface UsePdfCompressionActions {
   /** ファイルを設定 */
   setFile: (file: File) => void
+  /** パスワードを入力して暗号化されたPDFを解除 */
+  submitPassword: (password: string) => Promise<void>
+  /** パスワード入力をキャンセル */
+  cancelPassword: () => void
   /** ファイルをクリア */
   clearFile: () => void
   /** PDFを圧縮 */
@@ -57,10 +77,14 @@ export function usePdfCompression(): [UsePdfCompressionState, UsePdfCompressionA
   const [isProcessing, setIsProcessing] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [compressionResult, setCompressionResult] = useState<CompressionResult | null>(null)
+  const [passwordRequest, setPasswordRequest] = useState<PasswordRequest | null>(null)
 
   // 処理のキャンセル用
   const abortControllerRef = useRef<AbortController | null>(null)
 
+  // パスワード入力待ちのファイル
+  const lockedFileRef = useRef<File | null>(null)
+
   // Blob URLのクリーンアップ
   useEffect(() => {
     return () => {
@@ -103,11 +127,32 @@ export function usePdfCompression(): [UsePdfCompressionState, UsePdfCompressionA
     return '圧縮処理に失敗しました。もう一度お試しください。'
   }, [])
 
+  /**
+   * 復号済みのPDFを読み込んでファイルとして設定
+   */
+  const loadFile = useCallback(async (pdfFile: File) => {
+    // ページ数を取得
+    try {
+      const pages = await getPdfPageCount(pdfFile)
+      const upload = fileToFileUpload(pdfFile, 0)
+      upload.pages = pages
+      setFileState(upload)
+
+      // 結果をクリア
+      setCompressionResult(null)
+      setProgress(null)
+    } catch (err) {
+      setError(getErrorMessage(err))
+    }
+  }, [getErrorMessage])
+
   /**
    * ファイルを設定
    */
   const setFile = useCallback(async (newFile: File) => {
     setError(null)
+    lockedFileRef.current = null
+    setPasswordRequest(null)
 
     // バリデーション
     const validationResult: ValidationResult = validateFile(newFile)
@@ -116,20 +161,56 @@ export function usePdfCompression(): [UsePdfCompressionState, UsePdfCompressionA
       return
     }
 
-    // ページ数を取得
-    try {
-      const pages = await getPdfPageCount(newFile)
-      const upload = fileToFileUpload(newFile, 0)
-      upload.pages = pages
-      setFileState(upload)
+    // 暗号化されたPDFは解除（閲覧制限のみならパスワード不要、それ以外は入力を求める）
+    let pdfFile = newFile
+    const encryptionResult: ValidationResult = await validatePdfEncryption(pdfFile)
+    if (!encryptionResult.success) {
+      try {
+        pdfFile = await unlockPdfFile(pdfFile)
+      } catch (err) {
+        if (err instanceof PdfPasswordError) {
+          lockedFileRef.current = pdfFile
+          setPasswordRequest({ fileName: pdfFile.name, error: null })
+        } else {
+          setError(err instanceof Error ? err.message : encryptionResult.message)
+        }
+        return
+      }
+    }
 
-      // 結果をクリア
-      setCompressionResult(null)
-      setProgress(null)
+    await loadFile(pdfFile)
+  }, [loadFile])
+
+  /**
+   * パスワードを入力して暗号化されたPDFを解除
+   */
+  const submitPassword = useCallback(async (password: string) => {
+    const lockedFile = lockedFileRef.current
+    if (!lockedFile) return
+
+    try {
+      const unlockedFile = await unlockPdfFile(lockedFile, password)
+      lockedFileRef.current = null
+      setPasswordRequest(null)
+      await loadFile(unlockedFile)
     } catch (err) {
-      setError(getErrorMessage(err))
+      if (err instanceof PdfPasswordError) {
+        setPasswordRequest({ fileName: lockedFile.name, error: err.message })
+        return
+      }
+      lockedFileRef.current = null
+      setPasswordRequest(null)
+      setError(err instanceof Error ? err.message : 'PDFの復号に失敗しました')
     }
-  }, [getErrorMessage])
+  }, [loadFile])
+
+  /**
+   * パスワード入力をキャンセル
+   */
+  const cancelPassword = useCallback(() => {
+    lockedFileRef.current = null
+    setPasswordRequest(null)
+  }, [])
 
   /**
    * ファイルをクリア
@@ -150,6 +231,13 @@ export function usePdfCompression(): [UsePdfCompressionState, UsePdfCompressionA
       return
     }
 
+    // バリデーション
+    const validationResult = validateTargetSize(options.targetSize)
+    if (!validationResult.success) {
+      setError(validationResult.message)
+      return
+    }
+
     // 既存の処理をキャンセル
     if (abortControllerRef.current) {
       abortControllerRef.current.abort()
@@ -164,7 +252,7 @@ export function usePdfCompression(): [UsePdfCompressionState, UsePdfCompressionA
       const signal = abortControllerRef.current.signal
 
       // PDF圧縮処理
-      const result = await compressPDF(
+      const result = await pdfWorker.compressPDF(
         file.file,
         options,
         (progressInfo) => {
@@ -228,6 +316,8 @@ export function usePdfCompression(): [UsePdfCompressionState, UsePdfCompressionA
 
   const actions: UsePdfCompressionActions = {
     setFile,
+    submitPassword,
+    cancelPassword,
     clearFile,
     compress,
     download,
@@ -241,7 +331,35 @@ export function usePdfCompression(): [UsePdfCompressionState, UsePdfCompressionA
     isProcessing,
     error,
     compressionResult,
+    passwordRequest,
   }
 
   return [state, actions]
 }
+
+/** 一括圧縮の処理内容 */
+const COMPRESSION_BATCH_PROCESSOR: PdfBatchProcessor<PdfCompressionOptions> = {
+  zipFilename: 'compressed.zip',
+  validateFile,
+  validateOptions: (options) => {
+    const validationResult = validateTargetSize(options.targetSize)
+    return validationResult.success ? null : validationResult.message
+  },
+  process: async ({ file }, options, onProgress, signal) => {
+    const result = await pdfWorker.compressPDF(file, options, onProgress, signal)
+    return [{ blob: result.blob, filename: result.filename }]
+  },
+}
+
+/**
+ * PDF一括圧縮フック
+ * 複数のPDFを同じ設定で圧縮し、結果をZIPにまとめる
+ *
+ * @returns 状態とアクションのタプル
+ */
+export function usePdfCompressionBatch(): [
+  UsePdfBatchState,
+  UsePdfBatchActions<PdfCompressionOptions>
+] {
+  return usePdfBatch(COMPRESSION_BATCH_PROCESSOR)
+}
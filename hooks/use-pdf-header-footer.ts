@@ -0,0 +1,391 @@
+/**
+ * PDFヘッダー・フッター挿入処理フック
+ * ファイル管理、バリデーション、ヘッダー・フッター挿入処理の状態管理を一元化
+ */
+
+'use client'
+
+import { useState, useCallback, useRef, useEffect } from 'react'
+import type {
+  FileUpload,
+  HeaderFooterResult,
+  PasswordRequest,
+  PdfHeaderFooterOptions,
+  ProcessingProgress,
+} from '@/types'
+import { getPdfPageCount } from '@/lib/pdf-page-numbers'
+import { parsePageRanges } from '@/lib/pdf-splitter'
+import { hasHeaderFooterText, requiresJapaneseFont } from '@/lib/header-footer-text'
+import { pdfWorker } from '@/lib/pdf-worker-client'
+import {
+  validateDocumentFile,
+  validateFilenameTemplate,
+  validateFontFile,
+  validateHeaderFooterText,
+  validatePdfEncryption,
+  type ValidationResult,
+} from '@/lib/pdf-validation'
+import { filesToFileUploads, downloadBlob } from '@/lib/file-utils'
+import { ensurePdfFile } from '@/lib/docx-to-pdf'
+import { PdfPasswordError, unlockPdfFile } from '@/lib/pdf-encryption'
+import { PDF_HEADER_FOOTER_CONSTANTS } from '@/lib/constants'
+
+// バリデーション定数
+const MIN_FONT_SIZE = 6
+const MAX_FONT_SIZE = 72
+
+/** 標準フォントで日本語などを使おうとした場合のエラーメッセージ */
+const HELVETICA_UNSUPPORTED_ERROR =
+  'Helveticaでは日本語を表示できません。ファイル名やテキストに日本語を含む場合はNoto Sans JPまたはカスタムフォントを選択してください'
+
+/**
+ * オプションを検証
+ *
+ * @param options - ヘッダー・フッター挿入オプション
+ * @param totalPages - 総ページ数（ページ範囲の検証に使用）
+ * @param filename - 処理するファイル名（日本語を含むかの判定に使用）
+ * @returns エラーメッセージ（問題がない場合はnull）
+ */
+function getOptionsError(
+  options: PdfHeaderFooterOptions,
+  totalPages: number,
+  filename: string
+): string | null {
+  const rules = options.rules.filter(hasHeaderFooterText)
+  if (rules.length === 0) {
+    return 'ヘッダー・フッターのテキストを入力してください'
+  }
+  if (options.rules.length > PDF_HEADER_FOOTER_CONSTANTS.MAX_RULES) {
+    return `規則は${PDF_HEADER_FOOTER_CONSTANTS.MAX_RULES}件まで追加できます`
+  }
+
+  for (const [index, rule] of options.rules.entries()) {
+    const label = `規則${index + 1}`
+    for (const text of Object.values(rule.slots)) {
+      const textResult = validateHeaderFooterText(text)
+      if (!textResult.success) return `${label}: ${textResult.message}`
+    }
+    if (rule.pageRange.trim() !== '') {
+      const rangeResult = parsePageRanges(rule.pageRange, totalPages)
+      if (!rangeResult.isValid) {
+        return `${label}: ${rangeResult.errors[0]?.message ?? '有効なページ範囲を指定してください'}`
+      }
+    }
+    if (rule.fontSize < MIN_FONT_SIZE || rule.fontSize > MAX_FONT_SIZE) {
+      return `${label}: フォントサイズは${MIN_FONT_SIZE}〜${MAX_FONT_SIZE}の範囲で指定してください`
+    }
+    if (rule.opacity <= 0 || rule.opacity > 1) {
+      return `${label}: 不透明度は1〜100%の範囲で指定してください`
+    }
+  }
+
+  if (options.font === 'custom') {
+    const fontResult = validateFontFile(options.customFont)
+    if (!fontResult.success) return fontResult.message
+  }
+  if (
+    (options.font ?? 'helvetica') === 'helvetica' &&
+    requiresJapaneseFont(rules, { filename, text: options.customText })
+  ) {
+    return HELVETICA_UNSUPPORTED_ERROR
+  }
+  const templateResult = validateFilenameTemplate(options.filenameTemplate)
+  return templateResult.success ? null : templateResult.message
+}
+
+/** フックの状態 */
+export interface UsePdfHeaderFooterState {
+  /** アップロード済みファイル */
+  file: FileUpload | null
+  /** 処理進捗 */
+  progress: ProcessingProgress | null
+  /** 処理中かどうか */
+  isProcessing: boolean
+  /** エラーメッセージ */
+  error: string | null
+  /** 結果 */
+  headerFooterResult: HeaderFooterResult | null
+  /** 総ページ数 */
+  totalPages: number
+  /** パスワード入力要求（暗号化されたPDFの場合） */
+  passwordRequest: PasswordRequest | null
+}
+
+/** フックのアクション */
+export interface UsePdfHeaderFooterActions {
+  /** ファイルを設定 */
+  setFile: (file: File | null) => Promise<void>
+  /** パスワードを入力して暗号化されたPDFを解除 */
+  submitPassword: (password: string) => Promise<void>
+  /** パスワード入力をキャンセル */
+  cancelPassword: () => void
+  /** ファイルを削除 */
+  removeFile: () => void
+  /** ヘッダー・フッターを追加 */
+  addHeaderFooter: (options: PdfHeaderFooterOptions) => Promise<void>
+  /** 結果をダウンロード */
+  download: () => void
+  /** エラーをクリア */
+  clearError: () => void
+  /** 結果をクリア */
+  clearResult: () => void
+}
+
+/**
+ * PDFヘッダー・フッター挿入処理フック
+ *
+ * @returns 状態とアクションのタプル
+ */
+export function usePdfHeaderFooter(): [
+  UsePdfHeaderFooterState,
+  UsePdfHeaderFooterActions
+] {
+  const [file, setFile] = useState<FileUpload | null>(null)
+  const [progress, setProgress] = useState<ProcessingProgress | null>(null)
+  const [isProcessing, setIsProcessing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [headerFooterResult, setHeaderFooterResult] = useState<HeaderFooterResult | null>(null)
+  const [totalPages, setTotalPages] = useState(0)
+  const [passwordRequest, setPasswordRequest] = useState<PasswordRequest | null>(null)
+
+  // 処理のキャンセル用
+  const abortControllerRef = useRef<AbortController | null>(null)
+
+  // 実ファイルの参照を保持
+  const actualFileRef = useRef<File | null>(null)
+
+  // パスワード入力待ちのファイル
+  const lockedFileRef = useRef<File | null>(null)
+
+  // クリーンアップ: コンポーネントアンマウント時に処理をキャンセル
+  useEffect(() => {
+    return () => {
+      if (abortControllerRef.current) {
+        abortControllerRef.current.abort()
+      }
+    }
+  }, [])
+
+  /**
+   * 復号済みのPDFを読み込んでファイルとして設定
+   */
+  const loadFile = useCallback(async (pdfFile: File) => {
+    // ページ数を取得
+    try {
+      const pageCount = await getPdfPageCount(pdfFile)
+      setTotalPages(pageCount)
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'PDFファイルの読み込みに失敗しました'
+      setError(message)
+      return
+    }
+
+    // FileUploadに変換して設定
+    const uploads = filesToFileUploads([pdfFile])
+    setFile(uploads[0])
+    actualFileRef.current = pdfFile
+    setHeaderFooterResult(null)
+  }, [])
+
+  /**
+   * ファイルを設定
+   */
+  const setFileInternal = useCallback(async (newFile: File | null) => {
+    lockedFileRef.current = null
+    setPasswordRequest(null)
+
+    if (!newFile) {
+      setFile(null)
+      setTotalPages(0)
+      actualFileRef.current = null
+      return
+    }
+
+    setError(null)
+
+    // バリデーション
+    const validationResult: ValidationResult = validateDocumentFile(newFile)
+    if (!validationResult.success) {
+      setError(validationResult.message)
+      return
+    }
+
+    // Word文書はPDFに変換
+    let pdfFile: File
+    try {
+      pdfFile = await ensurePdfFile(newFile)
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Word文書の変換に失敗しました'
+      setError(message)
+      return
+    }
+
+    // 暗号化されたPDFは解除（閲覧制限のみならパスワード不要、それ以外は入力を求める）
+    const encryptionResult: ValidationResult = await validatePdfEncryption(pdfFile)
+    if (!encryptionResult.success) {
+      try {
+        pdfFile = await unlockPdfFile(pdfFile)
+      } catch (err) {
+        if (err instanceof PdfPasswordError) {
+          lockedFileRef.current = pdfFile
+          setPasswordRequest({ fileName: pdfFile.name, error: null })
+        } else {
+          setError(err instanceof Error ? err.message : encryptionResult.message)
+        }
+        return
+      }
+    }
+
+    await loadFile(pdfFile)
+  }, [loadFile])
+
+  /**
+   * パスワードを入力して暗号化されたPDFを解除
+   */
+  const submitPassword = useCallback(async (password: string) => {
+    const lockedFile = lockedFileRef.current
+    if (!lockedFile) return
+
+    try {
+      const unlockedFile = await unlockPdfFile(lockedFile, password)
+      lockedFileRef.current = null
+      setPasswordRequest(null)
+      await loadFile(unlockedFile)
+    } catch (err) {
+      if (err instanceof PdfPasswordError) {
+        setPasswordRequest({ fileName: lockedFile.name, error: err.message })
+        return
+      }
+      lockedFileRef.current = null
+      setPasswordRequest(null)
+      setError(err instanceof Error ? err.message : 'PDFの復号に失敗しました')
+    }
+  }, [loadFile])
+
+  /**
+   * パスワード入力をキャンセル
+   */
+  const cancelPassword = useCallback(() => {
+    lockedFileRef.current = null
+    setPasswordRequest(null)
+  }, [])
+
+  /**
+   * ファイルを削除
+   */
+  const removeFile = useCallback(() => {
+    setFile(null)
+    setTotalPages(0)
+    actualFileRef.current = null
+    setHeaderFooterResult(null)
+    setError(null)
+  }, [])
+
+  /**
+   * ヘッダー・フッターを追加
+   */
+  const addHeaderFooter = useCallback(async (options: PdfHeaderFooterOptions) => {
+    if (!actualFileRef.current) {
+      setError('ファイルが選択されていません')
+      return
+    }
+
+    // 既存の処理をキャンセル
+    if (abortControllerRef.current) {
+      abortControllerRef.current.abort()
+    }
+    abortControllerRef.current = new AbortController()
+
+    // バリデーション
+    const optionsError = getOptionsError(options, totalPages, actualFileRef.current.name)
+    if (optionsError) {
+      setError(optionsError)
+      return
+    }
+
+    setIsProcessing(true)
+    setError(null)
+    setHeaderFooterResult(null)
+
+    try {
+      const signal = abortControllerRef.current.signal
+
+      // ヘッダー・フッター挿入処理
+      const result = await pdfWorker.addHeaderFooter(
+        actualFileRef.current,
+        options,
+        (progressInfo) => {
+          setProgress(progressInfo)
+        },
+        signal
+      )
+
+      setHeaderFooterResult(result)
+      setProgress({
+        stage: 'completed',
+        percentage: 100,
+        message: 'ヘッダー・フッターの追加が完了しました',
+      })
+    } catch (err) {
+      if (err instanceof Error && err.message === 'Operation cancelled') {
+        // キャンセル時は何もしない
+        return
+      }
+
+      const errorMessage =
+        err instanceof Error ? err.message : 'ヘッダー・フッターの追加に失敗しました'
+      setError(errorMessage)
+      setProgress(null)
+    } finally {
+      setIsProcessing(false)
+      abortControllerRef.current = null
+    }
+  }, [totalPages])
+
+  /**
+   * 結果をダウンロード
+   */
+  const download = useCallback(() => {
+    if (!headerFooterResult) return
+
+    downloadBlob(headerFooterResult.blob, headerFooterResult.filename)
+  }, [headerFooterResult])
+
+  /**
+   * エラーをクリア
+   */
+  const clearError = useCallback(() => {
+    setError(null)
+  }, [])
+
+  /**
+   * 結果をクリア
+   */
+  const clearResult = useCallback(() => {
+    setHeaderFooterResult(null)
+    setProgress(null)
+  }, [])
+
+  const actions: UsePdfHeaderFooterActions = {
+    setFile: setFileInternal,
+    submitPassword,
+    cancelPassword,
+    removeFile,
+    addHeaderFooter,
+    download,
+    clearError,
+    clearResult,
+  }
+
+  const state: UsePdfHeaderFooterState = {
+    file,
+    progress,
+    isProcessing,
+    error,
+    headerFooterResult,
+    totalPages,
+    passwordRequest,
+  }
+
+  return [state, actions]
+}
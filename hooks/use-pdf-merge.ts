@@ -5,19 +5,26 @@
 
 'use client'
 
-import { useState, useCallback, useRef } from 'react'
+import { useState, useCallback, useRef, useMemo } from 'react'
 import type {
   FileUpload,
+  PasswordRequest,
   PdfMergeOptions,
   ProcessingProgress,
   MergeResult,
 } from '@/types'
-import { mergePDFs } from '@/lib/pdf-merger'
+import { getPdfPageCount } from '@/lib/pdf-merger'
+import { pdfWorker } from '@/lib/pdf-worker-client'
 import {
   validateFilesToAdd,
   validateMerge,
+  validateFilenameTemplate,
+  validatePdfEncryption,
+  validateProtection,
 } from '@/lib/pdf-validation'
 import { filesToFileUploads, downloadBlob } from '@/lib/file-utils'
+import { ensurePdfFile } from '@/lib/docx-to-pdf'
+import { PdfPasswordError, unlockPdfFile } from '@/lib/pdf-encryption'
 
 /** フックの状態 */
 export interface UsePdfMergeState {
@@ -31,6 +38,8 @@ export interface UsePdfMergeState {
   error: string | null
   /** 結合結果 */
   mergeResult: MergeResult | null
+  /** パスワード入力要求（パスワード入力待ちのファイルのうち先頭のもの） */
+  passwordRequest: PasswordRequest | null
 }
 
 /** フックのアクション */
@@ -41,6 +50,12 @@ export interface UsePdfMergeActions {
   removeFile: (id: string) => void
   /** ファイルを並べ替え */
   reorderFiles: (fromIndex: number, toIndex: number) => void
+  /** ファイルごとのページ範囲を設定 */
+  setPageRange: (id: string, pageRange: string) => void
+  /** パスワードを入力して暗号化されたPDFを解除 */
+  submitPassword: (password: string) => Promise<void>
+  /** パスワード入力をキャンセル（対象ファイルを削除） */
+  cancelPassword: () => void
   /** 全ファイルをクリア */
   clearFiles: () => void
   /** PDFを結合 */
@@ -82,8 +97,56 @@ export function usePdfMerge(): [UsePdfMergeState, UsePdfMergeActions] {
     }
 
     // FileUpload配列に変換して追加
-    const newUploads = filesToFileUploads(newFiles)
+    const newUploads = filesToFileUploads(newFiles).map((upload) => ({
+      ...upload,
+      status: 'loading' as const,
+    }))
     setFiles((prev) => [...prev, ...newUploads])
+
+    // ページ範囲指定用にページ数を取得（Word文書はPDFに変換、暗号化されたPDFは解除しておく）
+    newUploads.forEach(async (upload) => {
+      let pdfFile = upload.file
+      let pages = 0
+      let loadError = 'ファイルの読み込みに失敗しました'
+
+      if (upload.type === 'image') {
+        // 画像は常に1ページ
+        pages = 1
+      } else if (pdfFile) {
+        try {
+          pdfFile = await ensurePdfFile(pdfFile)
+
+          // 閲覧制限のみのPDFはパスワードなしで解除、それ以外は入力を求める
+          const encryptionResult = await validatePdfEncryption(pdfFile)
+          if (!encryptionResult.success) {
+            pdfFile = await unlockPdfFile(pdfFile)
+          }
+
+          pages = await getPdfPageCount(pdfFile)
+        } catch (err) {
+          if (err instanceof PdfPasswordError) {
+            const lockedFile = pdfFile
+            setFiles((prev) =>
+              prev.map((f) =>
+                f.id === upload.id ? { ...f, file: lockedFile, status: 'locked' } : f
+              )
+            )
+            return
+          }
+          if (err instanceof Error) loadError = err.message
+        }
+      }
+
+      setFiles((prev) =>
+        prev.map((f) =>
+          f.id === upload.id
+            ? pages > 0
+              ? { ...f, file: pdfFile, pages, status: 'ready' }
+              : { ...f, status: 'error', error: loadError }
+            : f
+        )
+      )
+    })
   }, [files.length])
 
   /**
@@ -105,6 +168,57 @@ export function usePdfMerge(): [UsePdfMergeState, UsePdfMergeActions] {
     })
   }, [])
 
+  /**
+   * ファイルごとのページ範囲を設定
+   */
+  const setPageRange = useCallback((id: string, pageRange: string) => {
+    setFiles((prev) =>
+      prev.map((f) => (f.id === id ? { ...f, pageRange } : f))
+    )
+  }, [])
+
+  /**
+   * パスワードを入力して暗号化されたPDFを解除
+   */
+  const submitPassword = useCallback(async (password: string) => {
+    const locked = files.find((f) => f.status === 'locked')
+    if (!locked?.file) return
+
+    try {
+      const unlockedFile = await unlockPdfFile(locked.file, password)
+      const pages = await getPdfPageCount(unlockedFile)
+      setFiles((prev) =>
+        prev.map((f) =>
+          f.id === locked.id
+            ? pages > 0
+              ? { ...f, file: unlockedFile, pages, status: 'ready', error: undefined }
+              : { ...f, status: 'error', error: 'ファイルの読み込みに失敗しました' }
+            : f
+        )
+      )
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'PDFの復号に失敗しました'
+      setFiles((prev) =>
+        prev.map((f) =>
+          f.id === locked.id
+            ? err instanceof PdfPasswordError
+              ? { ...f, error: message }
+              : { ...f, status: 'error', error: message }
+            : f
+        )
+      )
+    }
+  }, [files])
+
+  /**
+   * パスワード入力をキャンセル（解除できないファイルは結合できないため削除）
+   */
+  const cancelPassword = useCallback(() => {
+    const locked = files.find((f) => f.status === 'locked')
+    if (!locked) return
+    setFiles((prev) => prev.filter((f) => f.id !== locked.id))
+  }, [files])
+
   /**
    * 全ファイルをクリア
    */
@@ -131,6 +245,38 @@ export function usePdfMerge(): [UsePdfMergeState, UsePdfMergeActions] {
       return
     }
 
+    if (files.some((f) => f.status === 'locked')) {
+      setError('パスワードで保護されたファイルがあります。パスワードを入力するか、ファイルを削除してください')
+      return
+    }
+
+    // 変換・読み込み中のファイルは完了を待ち、読み込めなかったファイルは結合しない
+    const loadingFile = files.find((f) => f.status === 'loading')
+    if (loadingFile) {
+      setError(`ファイル「${loadingFile.name}」を読み込み中です。完了してから結合してください`)
+      return
+    }
+
+    const errorFile = files.find((f) => f.status === 'error')
+    if (errorFile) {
+      setError(
+        `ファイル「${errorFile.name}」を読み込めませんでした${errorFile.error ? `（${errorFile.error}）` : ''}。ファイルを削除してから結合してください`
+      )
+      return
+    }
+
+    const protectionResult = validateProtection(options.protection)
+    if (!protectionResult.success) {
+      setError(protectionResult.message)
+      return
+    }
+
+    const templateResult = validateFilenameTemplate(options.filenameTemplate)
+    if (!templateResult.success) {
+      setError(templateResult.message)
+      return
+    }
+
     setIsProcessing(true)
     setError(null)
     setMergeResult(null)
@@ -139,7 +285,7 @@ export function usePdfMerge(): [UsePdfMergeState, UsePdfMergeActions] {
       const signal = abortControllerRef.current.signal
 
       // PDF結合処理
-      const result = await mergePDFs(
+      const result = await pdfWorker.mergePDFs(
         files,
         options,
         (progressInfo) => {
@@ -148,7 +294,8 @@ export function usePdfMerge(): [UsePdfMergeState, UsePdfMergeActions] {
             throw new Error('Operation cancelled')
           }
           setProgress(progressInfo)
-        }
+        },
+        signal
       )
 
       setMergeResult(result)
@@ -196,10 +343,19 @@ export function usePdfMerge(): [UsePdfMergeState, UsePdfMergeActions] {
     setProgress(null)
   }, [])
 
+  // パスワード入力待ちのファイル（先頭から順に入力を求める）
+  const passwordRequest = useMemo<PasswordRequest | null>(() => {
+    const locked = files.find((f) => f.status === 'locked')
+    return locked ? { fileName: locked.name, error: locked.error ?? null } : null
+  }, [files])
+
   const actions: UsePdfMergeActions = {
     addFiles,
     removeFile,
     reorderFiles,
+    setPageRange,
+    submitPassword,
+    cancelPassword,
     clearFiles,
     merge,
     download,
@@ -213,6 +369,7 @@ export function usePdfMerge(): [UsePdfMergeState, UsePdfMergeActions] {
     isProcessing,
     error,
     mergeResult,
+    passwordRequest,
   }
 
   return [state, actions]
@@ -8,13 +8,36 @@
 import { useState, useCallback, useRef, useEffect } from 'react'
 import type {
   FileUpload,
+  PasswordRequest,
   PdfNumberingOptions,
   ProcessingProgress,
   NumberingResult,
 } from '@/types'
-import { addPageNumbers, getPdfPageCount } from '@/lib/pdf-page-numbers'
-import { validateFile, type ValidationResult } from '@/lib/pdf-validation'
+import { getPdfPageCount } from '@/lib/pdf-page-numbers'
+import { requiresJapaneseFont } from '@/lib/page-number-format'
+import { pdfWorker } from '@/lib/pdf-worker-client'
+import {
+  validateDocumentFile,
+  validateFilenameTemplate,
+  validateBates,
+  validateFontFile,
+  validatePageNumberFormat,
+  validatePdfEncryption,
+  type ValidationResult,
+} from '@/lib/pdf-validation'
 import { filesToFileUploads, downloadBlob } from '@/lib/file-utils'
+import { removeExtension } from '@/lib/filename-template'
+import { getBatchZipEntries } from '@/lib/pdf-batch'
+import { downloadBatesLog as downloadBatesLogFile } from '@/lib/bates-log'
+import { PDF_NUMBERING_CONSTANTS } from '@/lib/constants'
+import { ensurePdfFile } from '@/lib/docx-to-pdf'
+import { PdfPasswordError, unlockPdfFile } from '@/lib/pdf-encryption'
+import {
+  usePdfBatch,
+  type PdfBatchProcessor,
+  type UsePdfBatchActions,
+  type UsePdfBatchState,
+} from '@/hooks/use-pdf-batch'
 
 // バリデーション定数
 const MIN_FONT_SIZE = 6
@@ -22,6 +45,45 @@ const MAX_FONT_SIZE = 72
 const MIN_START_NUMBER = 1
 const MAX_START_NUMBER = 9999
 
+/** 標準フォントで日本語などを使おうとした場合のエラーメッセージ */
+const HELVETICA_UNSUPPORTED_ERROR =
+  'Helveticaでは日本語・漢数字・全角数字を表示できません。Noto Sans JPまたはカスタムフォントを選択してください'
+
+/**
+ * ファイルによらないオプションを検証
+ *
+ * @returns エラーメッセージ（問題がない場合はnull）
+ */
+function getOptionsError(options: PdfNumberingOptions): string | null {
+  if (options.startFromPage < 1) {
+    return '開始ページは1以上である必要があります'
+  }
+  if (options.fontSize < MIN_FONT_SIZE || options.fontSize > MAX_FONT_SIZE) {
+    return `フォントサイズは${MIN_FONT_SIZE}〜${MAX_FONT_SIZE}の範囲で指定してください`
+  }
+  // Bates番号は複数ファイルにまたがって大きな番号になるため上限を広げる
+  const maxStartNumber = options.bates ? PDF_NUMBERING_CONSTANTS.MAX_BATES_START_NUMBER : MAX_START_NUMBER
+  if (options.startNumber < MIN_START_NUMBER || options.startNumber > maxStartNumber) {
+    return `開始番号は${MIN_START_NUMBER}〜${maxStartNumber}の範囲で指定してください`
+  }
+  const batesResult = validateBates(options.bates)
+  if (!batesResult.success) return batesResult.message
+  if (options.font === 'custom') {
+    const fontResult = validateFontFile(options.customFont)
+    if (!fontResult.success) return fontResult.message
+  }
+  // Bates番号では書式を使わない
+  if (!options.bates) {
+    const formatResult = validatePageNumberFormat(options.format)
+    if (!formatResult.success) return formatResult.message
+  }
+  if ((options.font ?? 'helvetica') === 'helvetica' && requiresJapaneseFont(options)) {
+    return HELVETICA_UNSUPPORTED_ERROR
+  }
+  const templateResult = validateFilenameTemplate(options.filenameTemplate)
+  return templateResult.success ? null : templateResult.message
+}
+
 /** フックの状態 */
 export interface UsePdfPageNumbersState {
   /** アップロード済みファイル */
@@ -36,24 +98,38 @@ export interface UsePdfPageNumbersState {
   numberingResult: NumberingResult | null
   /** 総ページ数 */
   totalPages: number
+  /** パスワード入力要求（暗号化されたPDFの場合） */
+  passwordRequest: PasswordRequest | null
 }
 
 /** フックのアクション */
 export interface UsePdfPageNumbersActions {
   /** ファイルを設定 */
   setFile: (file: File | null) => Promise<void>
+  /** パスワードを入力して暗号化されたPDFを解除 */
+  submitPassword: (password: string) => Promise<void>
+  /** パスワード入力をキャンセル */
+  cancelPassword: () => void
   /** ファイルを削除 */
   removeFile: () => void
   /** ページ番号を追加 */
   addNumbers: (options: PdfNumberingOptions) => Promise<void>
   /** 結果をダウンロード */
   download: () => void
+  /** Bates番号の記録（CSV）をダウンロード */
+  downloadBatesLog: () => void
   /** エラーをクリア */
   clearError: () => void
   /** 結果をクリア */
   clearResult: () => void
 }
 
+/** 一括処理フックのアクション */
+export interface UsePdfPageNumbersBatchActions extends UsePdfBatchActions<PdfNumberingOptions> {
+  /** Bates番号の記録（CSV、ZIP内のファイル名で記録）をダウンロード */
+  downloadBatesLog: () => void
+}
+
 /**
  * PDFページ番号挿入処理フック
  *
@@ -69,6 +145,7 @@ export function usePdfPageNumbers(): [
   const [error, setError] = useState<string | null>(null)
   const [numberingResult, setNumberingResult] = useState<NumberingResult | null>(null)
   const [totalPages, setTotalPages] = useState(0)
+  const [passwordRequest, setPasswordRequest] = useState<PasswordRequest | null>(null)
 
   // 処理のキャンセル用
   const abortControllerRef = useRef<AbortController | null>(null)
@@ -76,6 +153,9 @@ export function usePdfPageNumbers(): [
   // 実ファイルの参照を保持
   const actualFileRef = useRef<File | null>(null)
 
+  // パスワード入力待ちのファイル
+  const lockedFileRef = useRef<File | null>(null)
+
   // クリーンアップ: コンポーネントアンマウント時に処理をキャンセル
   useEffect(() => {
     return () => {
@@ -85,10 +165,34 @@ export function usePdfPageNumbers(): [
     }
   }, [])
 
+  /**
+   * 復号済みのPDFを読み込んでファイルとして設定
+   */
+  const loadFile = useCallback(async (pdfFile: File) => {
+    // ページ数を取得
+    try {
+      const pageCount = await getPdfPageCount(pdfFile)
+      setTotalPages(pageCount)
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'PDFファイルの読み込みに失敗しました'
+      setError(message)
+      return
+    }
+
+    // FileUploadに変換して設定
+    const uploads = filesToFileUploads([pdfFile])
+    setFile(uploads[0])
+    actualFileRef.current = pdfFile
+    setNumberingResult(null)
+  }, [])
+
   /**
    * ファイルを設定
    */
   const setFileInternal = useCallback(async (newFile: File | null) => {
+    lockedFileRef.current = null
+    setPasswordRequest(null)
+
     if (!newFile) {
       setFile(null)
       setTotalPages(0)
@@ -99,27 +203,70 @@ export function usePdfPageNumbers(): [
     setError(null)
 
     // バリデーション
-    const validationResult: ValidationResult = validateFile(newFile)
+    const validationResult: ValidationResult = validateDocumentFile(newFile)
     if (!validationResult.success) {
       setError(validationResult.message)
       return
     }
 
-    // ページ数を取得
+    // Word文書はPDFに変換
+    let pdfFile: File
     try {
-      const pageCount = await getPdfPageCount(newFile)
-      setTotalPages(pageCount)
+      pdfFile = await ensurePdfFile(newFile)
     } catch (err) {
-      const message = err instanceof Error ? err.message : 'PDFファイルの読み込みに失敗しました'
+      const message = err instanceof Error ? err.message : 'Word文書の変換に失敗しました'
       setError(message)
       return
     }
 
-    // FileUploadに変換して設定
-    const uploads = filesToFileUploads([newFile])
-    setFile(uploads[0])
-    actualFileRef.current = newFile
-    setNumberingResult(null)
+    // 暗号化されたPDFは解除（閲覧制限のみならパスワード不要、それ以外は入力を求める）
+    const encryptionResult: ValidationResult = await validatePdfEncryption(pdfFile)
+    if (!encryptionResult.success) {
+      try {
+        pdfFile = await unlockPdfFile(pdfFile)
+      } catch (err) {
+        if (err instanceof PdfPasswordError) {
+          lockedFileRef.current = pdfFile
+          setPasswordRequest({ fileName: pdfFile.name, error: null })
+        } else {
+          setError(err instanceof Error ? err.message : encryptionResult.message)
+        }
+        return
+      }
+    }
+
+    await loadFile(pdfFile)
+  }, [loadFile])
+
+  /**
+   * パスワードを入力して暗号化されたPDFを解除
+   */
+  const submitPassword = useCallback(async (password: string) => {
+    const lockedFile = lockedFileRef.current
+    if (!lockedFile) return
+
+    try {
+      const unlockedFile = await unlockPdfFile(lockedFile, password)
+      lockedFileRef.current = null
+      setPasswordRequest(null)
+      await loadFile(unlockedFile)
+    } catch (err) {
+      if (err instanceof PdfPasswordError) {
+        setPasswordRequest({ fileName: lockedFile.name, error: err.message })
+        return
+      }
+      lockedFileRef.current = null
+      setPasswordRequest(null)
+      setError(err instanceof Error ? err.message : 'PDFの復号に失敗しました')
+    }
+  }, [loadFile])
+
+  /**
+   * パスワード入力をキャンセル
+   */
+  const cancelPassword = useCallback(() => {
+    lockedFileRef.current = null
+    setPasswordRequest(null)
   }, [])
 
   /**
@@ -149,22 +296,15 @@ export function usePdfPageNumbers(): [
     abortControllerRef.current = new AbortController()
 
     // バリデーション
-    if (options.startFromPage < 1) {
-      setError('開始ページは1以上である必要があります')
+    const optionsError = getOptionsError(options)
+    if (optionsError) {
+      setError(optionsError)
       return
     }
     if (options.startFromPage > totalPages) {
       setError(`開始ページは総ページ数(${totalPages})以下である必要があります`)
       return
     }
-    if (options.fontSize < MIN_FONT_SIZE || options.fontSize > MAX_FONT_SIZE) {
-      setError(`フォントサイズは${MIN_FONT_SIZE}〜${MAX_FONT_SIZE}の範囲で指定してください`)
-      return
-    }
-    if (options.startNumber < MIN_START_NUMBER || options.startNumber > MAX_START_NUMBER) {
-      setError(`開始番号は${MIN_START_NUMBER}〜${MAX_START_NUMBER}の範囲で指定してください`)
-      return
-    }
 
     setIsProcessing(true)
     setError(null)
@@ -174,7 +314,7 @@ export function usePdfPageNumbers(): [
       const signal = abortControllerRef.current.signal
 
       // ページ番号挿入処理
-      const result = await addPageNumbers(
+      const result = await pdfWorker.addPageNumbers(
         actualFileRef.current,
         options,
         (progressInfo) => {
@@ -214,6 +354,18 @@ export function usePdfPageNumbers(): [
     downloadBlob(numberingResult.blob, numberingResult.filename)
   }, [numberingResult])
 
+  /**
+   * Bates番号の記録（CSV）をダウンロード
+   */
+  const downloadBatesLog = useCallback(() => {
+    if (!numberingResult) return
+
+    downloadBatesLogFile(
+      [numberingResult],
+      `${removeExtension(numberingResult.filename)}_bates.csv`
+    )
+  }, [numberingResult])
+
   /**
    * エラーをクリア
    */
@@ -231,9 +383,12 @@ export function usePdfPageNumbers(): [
 
   const actions: UsePdfPageNumbersActions = {
     setFile: setFileInternal,
+    submitPassword,
+    cancelPassword,
     removeFile,
     addNumbers,
     download,
+    downloadBatesLog,
     clearError,
     clearResult,
   }
@@ -245,7 +400,57 @@ export function usePdfPageNumbers(): [
     error,
     numberingResult,
     totalPages,
+    passwordRequest,
   }
 
   return [state, actions]
 }
+
+/** 一括ページ番号挿入の処理内容 */
+const NUMBERING_BATCH_PROCESSOR: PdfBatchProcessor<PdfNumberingOptions> = {
+  zipFilename: 'numbered.zip',
+  validateFile: validateDocumentFile,
+  validateOptions: getOptionsError,
+  // Bates番号は前のファイルの最後の番号から続ける
+  carriesOver: (options) => !!options.bates,
+  process: async ({ file }, options, onProgress, signal, previousOutputs) => {
+    const lastRange = previousOutputs.findLast((output) => output.numberedRange)?.numberedRange
+    const fileOptions = options.bates && lastRange
+      ? { ...options, startNumber: lastRange.last + 1 }
+      : options
+    // Word文書の解析（DOMParser）はワーカーで実行できないため、先にPDFに変換する
+    const pdfFile = await ensurePdfFile(file)
+    const result = await pdfWorker.addPageNumbers(pdfFile, fileOptions, onProgress, signal)
+    return [{ blob: result.blob, filename: result.filename, numberedRange: result.numberedRange }]
+  },
+}
+
+/**
+ * PDF一括ページ番号挿入フック
+ * 複数のPDFに同じ設定でページ番号を追加し、結果をZIPにまとめる
+ *
+ * @returns 状態とアクションのタプル
+ */
+export function usePdfPageNumbersBatch(): [
+  UsePdfBatchState,
+  UsePdfPageNumbersBatchActions
+] {
+  const [state, actions] = usePdfBatch(NUMBERING_BATCH_PROCESSOR)
+  const { items } = state
+
+  /**
+   * Bates番号の記録（CSV）をダウンロード
+   */
+  const downloadBatesLog = useCallback(() => {
+    const outputs = getBatchZipEntries(
+      items
+        .filter((item) => item.status === 'completed')
+        .map((item) => ({ sourceName: item.file.name, outputs: item.outputs }))
+    )
+    if (outputs.length === 0) return
+
+    downloadBatesLogFile(outputs)
+  }, [items])
+
+  return [state, { ...actions, downloadBatesLog }]
+}
@@ -12,14 +12,22 @@ import type {
   PdfPageManageResult,
   PdfPageManageOptions,
   HistoryEntry,
+  PasswordRequest,
 } from '@/types'
 import {
   loadPdfPages,
-  exportPdfWithPageOperations,
   getNextRotation,
 } from '@/lib/pdf-page-operations'
+import { pdfWorker } from '@/lib/pdf-worker-client'
 import { downloadBlob } from '@/lib/file-utils'
-import { globalThumbnailCache, revokePagesThumbnails } from '@/lib/thumbnail-cache'
+import { validatePdfEncryption, validateProtection } from '@/lib/pdf-validation'
+import { PdfPasswordError, unlockPdfFile } from '@/lib/pdf-encryption'
+import {
+  globalThumbnailCache,
+  generatePageThumbnails,
+  revokePagesThumbnails,
+  type ThumbnailOptions,
+} from '@/lib/thumbnail-cache'
 import { DEFAULT_PDF_PAGE_MANAGE_OPTIONS } from '@/types'
 
 /** フックの状態 */
@@ -42,12 +50,18 @@ export interface UsePdfPagesState {
   canUndo: boolean
   /** やり直せるか */
   canRedo: boolean
+  /** パスワード入力要求（暗号化されたPDFの場合） */
+  passwordRequest: PasswordRequest | null
 }
 
 /** フックのアクション */
 export interface UsePdfPagesActions {
   /** PDFをロード */
   loadPdf: (file: File) => Promise<void>
+  /** パスワードを入力して暗号化されたPDFを解除 */
+  submitPassword: (password: string) => Promise<void>
+  /** パスワード入力をキャンセル */
+  cancelPassword: () => void
   /** ファイルをクリア */
   clearFile: () => void
   /** ページを回転 */
@@ -83,6 +97,19 @@ export interface UsePdfPagesActions {
 /** 履歴の最大数 */
 const MAX_HISTORY = 20
 
+/** ページ一覧に表示するサムネイルの設定 */
+const THUMBNAIL_OPTIONS: Partial<ThumbnailOptions> = {
+  scale: 0.4,
+  format: 'jpeg',
+}
+
+/**
+ * 元のページ番号が一致するページにサムネイルを設定
+ */
+function applyThumbnail(pages: PdfPage[], pageIndex: number, thumbnail: string): PdfPage[] {
+  return pages.map((p) => (p.originalIndex === pageIndex ? { ...p, thumbnail } : p))
+}
+
 /**
  * PDFページ管理フック
  */
@@ -94,6 +121,7 @@ export function usePdfPages(): [UsePdfPagesState, UsePdfPagesActions] {
   const [isProcessing, setIsProcessing] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [result, setResult] = useState<PdfPageManageResult | null>(null)
+  const [passwordRequest, setPasswordRequest] = useState<PasswordRequest | null>(null)
 
   // 履歴管理
   const [history, setHistory] = useState<HistoryEntry[]>([])
@@ -102,6 +130,12 @@ export function usePdfPages(): [UsePdfPagesState, UsePdfPagesActions] {
   // 処理のキャンセル用
   const abortControllerRef = useRef<AbortController | null>(null)
 
+  // サムネイル生成のキャンセル用（エクスポートなどの処理とは独立して動く）
+  const thumbnailAbortRef = useRef<AbortController | null>(null)
+
+  // パスワード入力待ちのファイル
+  const lockedFileRef = useRef<File | null>(null)
+
   // 履歴の状態を計算
   const canUndo = historyIndex > 0
   const canRedo = historyIndex < history.length - 1
@@ -152,6 +186,7 @@ export function usePdfPages(): [UsePdfPagesState, UsePdfPagesActions] {
       if (abortControllerRef.current) {
         abortControllerRef.current.abort()
       }
+      thumbnailAbortRef.current?.abort()
       // サムネイルURLを解放
       globalThumbnailCache.clear()
       // 履歴内のサムネイルも解放
@@ -162,6 +197,33 @@ export function usePdfPages(): [UsePdfPagesState, UsePdfPagesActions] {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []) // マウント時のみ実行
 
+  /**
+   * サムネイルをバックグラウンドで生成し、ページと履歴に反映
+   */
+  const loadThumbnails = useCallback((pdfFile: File) => {
+    thumbnailAbortRef.current?.abort()
+    const controller = new AbortController()
+    thumbnailAbortRef.current = controller
+
+    pdfFile.arrayBuffer()
+      .then((bytes) => generatePageThumbnails(
+        bytes,
+        (pageIndex, thumbnail) => {
+          setPages((prev) => applyThumbnail(prev, pageIndex, thumbnail))
+          // 元に戻した際もサムネイルが表示されるよう履歴にも反映
+          setHistory((prev) => prev.map((entry) => ({
+            ...entry,
+            pages: applyThumbnail(entry.pages, pageIndex, thumbnail),
+          })))
+        },
+        THUMBNAIL_OPTIONS,
+        controller.signal
+      ))
+      .catch(() => {
+        // サムネイルを生成できない場合はプレースホルダーのまま表示する
+      })
+  }, [])
+
   /**
    * PDFをロード
    */
@@ -178,11 +240,27 @@ export function usePdfPages(): [UsePdfPagesState, UsePdfPagesActions] {
     setSelectedIds(new Set())
     setHistory([])
     setHistoryIndex(-1)
+    lockedFileRef.current = null
+    setPasswordRequest(null)
 
     try {
       const signal = abortControllerRef.current.signal
 
-      const loadedPages = await loadPdfPages(newFile, (progressInfo) => {
+      // 暗号化されたPDFは解除（閲覧制限のみならパスワード不要、それ以外は入力を求める）
+      let pdfFile = newFile
+      const encryptionResult = await validatePdfEncryption(newFile)
+      if (!encryptionResult.success) {
+        try {
+          pdfFile = await unlockPdfFile(newFile)
+        } catch (err) {
+          if (!(err instanceof PdfPasswordError)) throw err
+          lockedFileRef.current = newFile
+          setPasswordRequest({ fileName: newFile.name, error: null })
+          return
+        }
+      }
+
+      const loadedPages = await loadPdfPages(pdfFile, (progressInfo) => {
         if (signal.aborted) {
           throw new Error('Operation cancelled')
         }
@@ -193,7 +271,7 @@ export function usePdfPages(): [UsePdfPagesState, UsePdfPagesActions] {
         return
       }
 
-      setFile(newFile)
+      setFile(pdfFile)
       setPages(loadedPages)
       setProgress(null)
 
@@ -206,6 +284,8 @@ export function usePdfPages(): [UsePdfPagesState, UsePdfPagesActions] {
         },
       ])
       setHistoryIndex(0)
+
+      loadThumbnails(pdfFile)
     } catch (err) {
       if (err instanceof Error && err.message === 'Operation cancelled') {
         return
@@ -217,6 +297,38 @@ export function usePdfPages(): [UsePdfPagesState, UsePdfPagesActions] {
       setIsProcessing(false)
       abortControllerRef.current = null
     }
+  }, [loadThumbnails])
+
+  /**
+   * パスワードを入力して暗号化されたPDFを解除
+   */
+  const submitPassword = useCallback(async (password: string) => {
+    const lockedFile = lockedFileRef.current
+    if (!lockedFile) return
+
+    let unlockedFile: File
+    try {
+      unlockedFile = await unlockPdfFile(lockedFile, password)
+    } catch (err) {
+      if (err instanceof PdfPasswordError) {
+        setPasswordRequest({ fileName: lockedFile.name, error: err.message })
+        return
+      }
+      lockedFileRef.current = null
+      setPasswordRequest(null)
+      setError(err instanceof Error ? err.message : 'PDFの復号に失敗しました')
+      return
+    }
+
+    await loadPdf(unlockedFile)
+  }, [loadPdf])
+
+  /**
+   * パスワード入力をキャンセル
+   */
+  const cancelPassword = useCallback(() => {
+    lockedFileRef.current = null
+    setPasswordRequest(null)
   }, [])
 
   /**
@@ -226,6 +338,7 @@ export function usePdfPages(): [UsePdfPagesState, UsePdfPagesActions] {
     if (abortControllerRef.current) {
       abortControllerRef.current.abort()
     }
+    thumbnailAbortRef.current?.abort()
     // サムネイル解放
     revokePagesThumbnails(pages)
     history.forEach(entry => {
@@ -400,6 +513,12 @@ export function usePdfPages(): [UsePdfPagesState, UsePdfPagesActions] {
       return
     }
 
+    const protectionResult = validateProtection(options.protection)
+    if (!protectionResult.success) {
+      setError(protectionResult.message)
+      return
+    }
+
     // 既存の処理をキャンセル
     if (abortControllerRef.current) {
       abortControllerRef.current.abort()
@@ -413,7 +532,7 @@ export function usePdfPages(): [UsePdfPagesState, UsePdfPagesActions] {
     try {
       const signal = abortControllerRef.current.signal
 
-      const exportResult = await exportPdfWithPageOperations(
+      const exportResult = await pdfWorker.exportPdfWithPageOperations(
         file,
         pages,
         options,
@@ -422,7 +541,8 @@ export function usePdfPages(): [UsePdfPagesState, UsePdfPagesActions] {
             throw new Error('Operation cancelled')
           }
           setProgress(progressInfo)
-        }
+        },
+        signal
       )
 
       setResult(exportResult)
@@ -469,6 +589,8 @@ export function usePdfPages(): [UsePdfPagesState, UsePdfPagesActions] {
 
   const actions: UsePdfPagesActions = {
     loadPdf,
+    submitPassword,
+    cancelPassword,
     clearFile,
     rotatePage,
     rotateSelected,
@@ -496,6 +618,7 @@ export function usePdfPages(): [UsePdfPagesState, UsePdfPagesActions] {
     result,
     canUndo,
     canRedo,
+    passwordRequest,
   }
 
   return [state, actions]
@@ -0,0 +1,314 @@
+/**
+ * PDF保護処理フック
+ * ファイル管理、バリデーション、暗号化処理の状態管理を一元化
+ */
+
+'use client'
+
+import { useState, useCallback, useRef, useEffect } from 'react'
+import type {
+  FileUpload,
+  PasswordRequest,
+  PdfProtectionOptions,
+  ProcessingProgress,
+  ProtectionResult,
+} from '@/types'
+import { protectPDF, getPdfPageCount } from '@/lib/pdf-protector'
+import {
+  validateDocumentFile,
+  validatePdfEncryption,
+  validateProtection,
+  type ValidationResult,
+} from '@/lib/pdf-validation'
+import { filesToFileUploads, downloadBlob } from '@/lib/file-utils'
+import { ensurePdfFile } from '@/lib/docx-to-pdf'
+import { PdfPasswordError, unlockPdfFile } from '@/lib/pdf-encryption'
+
+/** フックの状態 */
+export interface UsePdfProtectState {
+  /** アップロード済みファイル */
+  file: FileUpload | null
+  /** 処理進捗 */
+  progress: ProcessingProgress | null
+  /** 処理中かどうか */
+  isProcessing: boolean
+  /** エラーメッセージ */
+  error: string | null
+  /** 結果 */
+  protectionResult: ProtectionResult | null
+  /** 総ページ数 */
+  totalPages: number
+  /** パスワード入力要求（暗号化されたPDFの場合） */
+  passwordRequest: PasswordRequest | null
+}
+
+/** フックのアクション */
+export interface UsePdfProtectActions {
+  /** ファイルを設定 */
+  setFile: (file: File | null) => Promise<void>
+  /** パスワードを入力して暗号化されたPDFを解除 */
+  submitPassword: (password: string) => Promise<void>
+  /** パスワード入力をキャンセル */
+  cancelPassword: () => void
+  /** ファイルを削除 */
+  removeFile: () => void
+  /** PDFを保護 */
+  protect: (options: PdfProtectionOptions) => Promise<void>
+  /** 結果をダウンロード */
+  download: () => void
+  /** エラーをクリア */
+  clearError: () => void
+  /** 結果をクリア */
+  clearResult: () => void
+}
+
+/**
+ * PDF保護処理フック
+ *
+ * @returns 状態とアクションのタプル
+ */
+export function usePdfProtect(): [UsePdfProtectState, UsePdfProtectActions] {
+  const [file, setFile] = useState<FileUpload | null>(null)
+  const [progress, setProgress] = useState<ProcessingProgress | null>(null)
+  const [isProcessing, setIsProcessing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [protectionResult, setProtectionResult] = useState<ProtectionResult | null>(null)
+  const [totalPages, setTotalPages] = useState(0)
+  const [passwordRequest, setPasswordRequest] = useState<PasswordRequest | null>(null)
+
+  // 処理のキャンセル用
+  const abortControllerRef = useRef<AbortController | null>(null)
+
+  // 実ファイルの参照を保持
+  const actualFileRef = useRef<File | null>(null)
+
+  // パスワード入力待ちのファイル
+  const lockedFileRef = useRef<File | null>(null)
+
+  // クリーンアップ: コンポーネントアンマウント時に処理をキャンセル
+  useEffect(() => {
+    return () => {
+      if (abortControllerRef.current) {
+        abortControllerRef.current.abort()
+      }
+    }
+  }, [])
+
+  /**
+   * 復号済みのPDFを読み込んでファイルとして設定
+   */
+  const loadFile = useCallback(async (pdfFile: File) => {
+    // ページ数を取得
+    try {
+      const pageCount = await getPdfPageCount(pdfFile)
+      setTotalPages(pageCount)
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'PDFファイルの読み込みに失敗しました'
+      setError(message)
+      return
+    }
+
+    // FileUploadに変換して設定
+    const uploads = filesToFileUploads([pdfFile])
+    setFile(uploads[0])
+    actualFileRef.current = pdfFile
+    setProtectionResult(null)
+  }, [])
+
+  /**
+   * ファイルを設定
+   */
+  const setFileInternal = useCallback(async (newFile: File | null) => {
+    lockedFileRef.current = null
+    setPasswordRequest(null)
+
+    if (!newFile) {
+      setFile(null)
+      setTotalPages(0)
+      actualFileRef.current = null
+      return
+    }
+
+    setError(null)
+
+    // バリデーション
+    const validationResult: ValidationResult = validateDocumentFile(newFile)
+    if (!validationResult.success) {
+      setError(validationResult.message)
+      return
+    }
+
+    // Word文書はPDFに変換
+    let pdfFile: File
+    try {
+      pdfFile = await ensurePdfFile(newFile)
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Word文書の変換に失敗しました'
+      setError(message)
+      return
+    }
+
+    // 暗号化されたPDFは解除してから保護し直す（パスワードの変更に使用できる）
+    const encryptionResult: ValidationResult = await validatePdfEncryption(pdfFile)
+    if (!encryptionResult.success) {
+      try {
+        pdfFile = await unlockPdfFile(pdfFile)
+      } catch (err) {
+        if (err instanceof PdfPasswordError) {
+          lockedFileRef.current = pdfFile
+          setPasswordRequest({ fileName: pdfFile.name, error: null })
+        } else {
+          setError(err instanceof Error ? err.message : encryptionResult.message)
+        }
+        return
+      }
+    }
+
+    await loadFile(pdfFile)
+  }, [loadFile])
+
+  /**
+   * パスワードを入力して暗号化されたPDFを解除
+   */
+  const submitPassword = useCallback(async (password: string) => {
+    const lockedFile = lockedFileRef.current
+    if (!lockedFile) return
+
+    try {
+      const unlockedFile = await unlockPdfFile(lockedFile, password)
+      lockedFileRef.current = null
+      setPasswordRequest(null)
+      await loadFile(unlockedFile)
+    } catch (err) {
+      if (err instanceof PdfPasswordError) {
+        setPasswordRequest({ fileName: lockedFile.name, error: err.message })
+        return
+      }
+      lockedFileRef.current = null
+      setPasswordRequest(null)
+      setError(err instanceof Error ? err.message : 'PDFの復号に失敗しました')
+    }
+  }, [loadFile])
+
+  /**
+   * パスワード入力をキャンセル
+   */
+  const cancelPassword = useCallback(() => {
+    lockedFileRef.current = null
+    setPasswordRequest(null)
+  }, [])
+
+  /**
+   * ファイルを削除
+   */
+  const removeFile = useCallback(() => {
+    setFile(null)
+    setTotalPages(0)
+    actualFileRef.current = null
+    setProtectionResult(null)
+    setError(null)
+  }, [])
+
+  /**
+   * PDFを保護
+   */
+  const protect = useCallback(async (options: PdfProtectionOptions) => {
+    if (!actualFileRef.current) {
+      setError('ファイルが選択されていません')
+      return
+    }
+
+    // バリデーション
+    const validationResult = validateProtection(options)
+    if (!validationResult.success) {
+      setError(validationResult.message)
+      return
+    }
+
+    // 既存の処理をキャンセル
+    if (abortControllerRef.current) {
+      abortControllerRef.current.abort()
+    }
+    abortControllerRef.current = new AbortController()
+
+    setIsProcessing(true)
+    setError(null)
+    setProtectionResult(null)
+
+    try {
+      const signal = abortControllerRef.current.signal
+
+      // 暗号化処理
+      const result = await protectPDF(
+        actualFileRef.current,
+        options,
+        (progressInfo) => {
+          setProgress(progressInfo)
+        },
+        signal
+      )
+
+      setProtectionResult(result)
+    } catch (err) {
+      if (err instanceof Error && err.message === 'Operation cancelled') {
+        // キャンセル時は何もしない
+        return
+      }
+
+      const errorMessage =
+        err instanceof Error ? err.message : 'PDFの保護に失敗しました'
+      setError(errorMessage)
+      setProgress(null)
+    } finally {
+      setIsProcessing(false)
+      abortControllerRef.current = null
+    }
+  }, [])
+
+  /**
+   * 結果をダウンロード
+   */
+  const download = useCallback(() => {
+    if (!protectionResult) return
+
+    downloadBlob(protectionResult.blob, protectionResult.filename)
+  }, [protectionResult])
+
+  /**
+   * エラーをクリア
+   */
+  const clearError = useCallback(() => {
+    setError(null)
+  }, [])
+
+  /**
+   * 結果をクリア
+   */
+  const clearResult = useCallback(() => {
+    setProtectionResult(null)
+    setProgress(null)
+  }, [])
+
+  const actions: UsePdfProtectActions = {
+    setFile: setFileInternal,
+    submitPassword,
+    cancelPassword,
+    removeFile,
+    protect,
+    download,
+    clearError,
+    clearResult,
+  }
+
+  const state: UsePdfProtectState = {
+    file,
+    progress,
+    isProcessing,
+    error,
+    protectionResult,
+    totalPages,
+    passwordRequest,
+  }
+
+  return [state, actions]
+}
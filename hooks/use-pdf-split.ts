@@ -8,14 +8,32 @@
 import { useState, useCallback, useRef, useEffect } from 'react'
 import type {
   FileUpload,
+  PasswordRequest,
   PdfSplitOptions,
   ProcessingProgress,
   SplitBatchResult,
 } from '@/types'
-import { splitPDF, getPdfPageCount } from '@/lib/pdf-splitter'
-import { validateFile } from '@/lib/pdf-validation'
+import { getPdfOutline, getPdfPageCount } from '@/lib/pdf-splitter'
+import type { OutlineNode } from '@/lib/pdf-outline'
+import { findBlankPages, measureInkCoverage } from '@/lib/pdf-blank-pages'
+import { PDF_SPLIT_CONSTANTS } from '@/lib/constants'
+import { pdfWorker } from '@/lib/pdf-worker-client'
+import {
+  validateDocumentFile,
+  validateFilenameTemplate,
+  validatePdfEncryption,
+  validateProtection,
+} from '@/lib/pdf-validation'
 import { filesToFileUploads, downloadBlob } from '@/lib/file-utils'
-import { createZipBlob } from '@/lib/zip-utils'
+import { ensurePdfFile } from '@/lib/docx-to-pdf'
+import { PdfPasswordError, unlockPdfFile } from '@/lib/pdf-encryption'
+import { downloadBlobsAsZip } from '@/lib/zip-utils'
+import {
+  usePdfBatch,
+  type PdfBatchProcessor,
+  type UsePdfBatchActions,
+  type UsePdfBatchState,
+} from '@/hooks/use-pdf-batch'
 
 /** フックの状態 */
 export interface UsePdfSplitState {
@@ -25,26 +43,44 @@ export interface UsePdfSplitState {
   progress: ProcessingProgress | null
   /** 処理中かどうか */
   isProcessing: boolean
+  /** ZIPファイルを作成中かどうか */
+  isCreatingZip: boolean
   /** エラーメッセージ */
   error: string | null
   /** 分割結果 */
   splitResult: SplitBatchResult | null
   /** PDFの総ページ数 */
   totalPages: number
+  /** PDFのしおり（しおりで分割する際に使用） */
+  outline: OutlineNode[]
+  /** ページごとのインク率（%、空白ページ検出後のみ） */
+  inkCoverage: number[] | null
+  /** 空白ページを検出中かどうか */
+  isDetectingBlankPages: boolean
+  /** パスワード入力要求（暗号化されたPDFの場合） */
+  passwordRequest: PasswordRequest | null
 }
 
 /** フックのアクション */
 export interface UsePdfSplitActions {
   /** ファイルを設定 */
   setFile: (file: File) => Promise<void>
+  /** パスワードを入力して暗号化されたPDFを解除 */
+  submitPassword: (password: string) => Promise<void>
+  /** パスワード入力をキャンセル */
+  cancelPassword: () => void
   /** ファイルを削除 */
   removeFile: () => void
+  /** 空白ページを検出（インク率を計測） */
+  detectBlankPages: () => Promise<void>
   /** PDFを分割 */
   split: (options: PdfSplitOptions) => Promise<void>
   /** 個別の分割結果をダウンロード */
   downloadSplit: (index: number) => void
   /** すべての分割結果をZIPでダウンロード */
-  downloadAll: () => void
+  downloadAll: () => Promise<void>
+  /** ZIPの作成をキャンセル */
+  cancelDownload: () => void
   /** エラーをクリア */
   clearError: () => void
   /** 結果をクリア */
@@ -63,13 +99,27 @@ export function usePdfSplit(): [UsePdfSplitState, UsePdfSplitActions] {
   const [file, setFileState] = useState<FileUpload | null>(null)
   const [progress, setProgress] = useState<ProcessingProgress | null>(null)
   const [isProcessing, setIsProcessing] = useState(false)
+  const [isCreatingZip, setIsCreatingZip] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [splitResult, setSplitResult] = useState<SplitBatchResult | null>(null)
   const [totalPages, setTotalPages] = useState(0)
+  const [outline, setOutline] = useState<OutlineNode[]>([])
+  const [inkCoverage, setInkCoverage] = useState<number[] | null>(null)
+  const [isDetectingBlankPages, setIsDetectingBlankPages] = useState(false)
+  const [passwordRequest, setPasswordRequest] = useState<PasswordRequest | null>(null)
 
   // 処理のキャンセル用
   const abortControllerRef = useRef<AbortController | null>(null)
 
+  // ZIP作成のキャンセル用
+  const zipAbortRef = useRef<AbortController | null>(null)
+
+  // 空白ページ検出のキャンセル用
+  const detectAbortRef = useRef<AbortController | null>(null)
+
+  // パスワード入力待ちのファイル
+  const lockedFileRef = useRef<File | null>(null)
+
   // メモリリーク対策: コンポーネントアンマウント時にBlob URLを解放
   useEffect(() => {
     return () => {
@@ -77,30 +127,50 @@ export function usePdfSplit(): [UsePdfSplitState, UsePdfSplitActions] {
       if (abortControllerRef.current) {
         abortControllerRef.current.abort()
       }
+      zipAbortRef.current?.abort()
+      detectAbortRef.current?.abort()
     }
   }, [])
 
   /**
-   * Blob URLを解放
+   * 結果をクリア
    */
-  const revokeBlobs = useCallback((result: SplitBatchResult | null) => {
-    if (!result) return
-    // 個別のBlobはdownloadBlob内で解放されるため、ZIPのみ解放
-    if (result.zipBlob) {
-      URL.revokeObjectURL(URL.createObjectURL(result.zipBlob))
-    }
+  const clearResult = useCallback(() => {
+    zipAbortRef.current?.abort()
+    setSplitResult(null)
+    setProgress(null)
   }, [])
 
   /**
-   * 結果をクリア（Blob解放付き）
+   * 復号済みのPDFを読み込んでファイルとして設定
    */
-  const clearResult = useCallback(() => {
-    if (splitResult) {
-      revokeBlobs(splitResult)
+  const loadFile = useCallback(async (pdfFile: File) => {
+    // 前のファイルの空白ページ検出を破棄
+    detectAbortRef.current?.abort()
+    setInkCoverage(null)
+
+    // FileUploadに変換
+    const fileUpload = filesToFileUploads([pdfFile])[0]
+
+    // ページ数を取得
+    try {
+      const pageCount = await getPdfPageCount(pdfFile)
+      setTotalPages(pageCount)
+      fileUpload.pages = pageCount
+    } catch {
+      setError('PDFファイルの読み込みに失敗しました')
+      return
     }
-    setSplitResult(null)
-    setProgress(null)
-  }, [splitResult, revokeBlobs])
+
+    // しおりを取得（読み込めない場合はしおりなしとして扱う）
+    try {
+      setOutline(await getPdfOutline(pdfFile))
+    } catch {
+      setOutline([])
+    }
+
+    setFileState(fileUpload)
+  }, [])
 
   /**
    * ファイルを設定
@@ -110,29 +180,74 @@ export function usePdfSplit(): [UsePdfSplitState, UsePdfSplitActions] {
     clearResult()
 
     setError(null)
+    lockedFileRef.current = null
+    setPasswordRequest(null)
 
     // バリデーション
-    const validationResult = validateFile(newFile)
+    const validationResult = validateDocumentFile(newFile)
     if (!validationResult.success) {
       setError(validationResult.message)
       return
     }
 
-    // FileUploadに変換
-    const fileUpload = filesToFileUploads([newFile])[0]
-
-    // ページ数を取得
+    // Word文書はPDFに変換
+    let pdfFile: File
     try {
-      const pageCount = await getPdfPageCount(newFile)
-      setTotalPages(pageCount)
-      fileUpload.pages = pageCount
-    } catch {
-      setError('PDFファイルの読み込みに失敗しました')
+      pdfFile = await ensurePdfFile(newFile)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Word文書の変換に失敗しました')
       return
     }
 
-    setFileState(fileUpload)
-  }, [clearResult])
+    // 暗号化されたPDFは解除（閲覧制限のみならパスワード不要、それ以外は入力を求める）
+    const encryptionResult = await validatePdfEncryption(pdfFile)
+    if (!encryptionResult.success) {
+      try {
+        pdfFile = await unlockPdfFile(pdfFile)
+      } catch (err) {
+        if (err instanceof PdfPasswordError) {
+          lockedFileRef.current = pdfFile
+          setPasswordRequest({ fileName: pdfFile.name, error: null })
+        } else {
+          setError(err instanceof Error ? err.message : encryptionResult.message)
+        }
+        return
+      }
+    }
+
+    await loadFile(pdfFile)
+  }, [clearResult, loadFile])
+
+  /**
+   * パスワードを入力して暗号化されたPDFを解除
+   */
+  const submitPassword = useCallback(async (password: string) => {
+    const lockedFile = lockedFileRef.current
+    if (!lockedFile) return
+
+    try {
+      const unlockedFile = await unlockPdfFile(lockedFile, password)
+      lockedFileRef.current = null
+      setPasswordRequest(null)
+      await loadFile(unlockedFile)
+    } catch (err) {
+      if (err instanceof PdfPasswordError) {
+        setPasswordRequest({ fileName: lockedFile.name, error: err.message })
+        return
+      }
+      lockedFileRef.current = null
+      setPasswordRequest(null)
+      setError(err instanceof Error ? err.message : 'PDFの復号に失敗しました')
+    }
+  }, [loadFile])
+
+  /**
+   * パスワード入力をキャンセル
+   */
+  const cancelPassword = useCallback(() => {
+    lockedFileRef.current = null
+    setPasswordRequest(null)
+  }, [])
 
   /**
    * ファイルを削除
@@ -141,9 +256,47 @@ export function usePdfSplit(): [UsePdfSplitState, UsePdfSplitActions] {
     clearResult()
     setFileState(null)
     setTotalPages(0)
+    setOutline([])
+    detectAbortRef.current?.abort()
+    setInkCoverage(null)
     setError(null)
   }, [clearResult])
 
+  /**
+   * 空白ページを検出（インク率を計測）
+   * pdf.jsのレンダリングを使うためメインスレッドで実行し、結果は分割時に使い回す
+   */
+  const detectBlankPages = useCallback(async () => {
+    if (!file?.file) return
+
+    detectAbortRef.current?.abort()
+    const controller = new AbortController()
+    detectAbortRef.current = controller
+
+    setIsDetectingBlankPages(true)
+    setError(null)
+
+    try {
+      const coverage = await measureInkCoverage(
+        await file.file.arrayBuffer(),
+        (progressInfo) => setProgress(progressInfo),
+        controller.signal
+      )
+      setInkCoverage(coverage)
+    } catch (err) {
+      if (err instanceof Error && err.message === CANCELLED_ERROR) {
+        return
+      }
+      setError(err instanceof Error ? err.message : '空白ページの検出に失敗しました')
+    } finally {
+      if (detectAbortRef.current === controller) {
+        detectAbortRef.current = null
+        setIsDetectingBlankPages(false)
+        setProgress(null)
+      }
+    }
+  }, [file])
+
   /**
    * PDFを分割
    */
@@ -153,6 +306,18 @@ export function usePdfSplit(): [UsePdfSplitState, UsePdfSplitActions] {
       return
     }
 
+    const protectionResult = validateProtection(options.protection)
+    if (!protectionResult.success) {
+      setError(protectionResult.message)
+      return
+    }
+
+    const templateResult = validateFilenameTemplate(options.filenameTemplate)
+    if (!templateResult.success) {
+      setError(templateResult.message)
+      return
+    }
+
     // 既存の処理をキャンセル
     if (abortControllerRef.current) {
       abortControllerRef.current.abort()
@@ -166,10 +331,17 @@ export function usePdfSplit(): [UsePdfSplitState, UsePdfSplitActions] {
     try {
       const signal = abortControllerRef.current.signal
 
+      // 検出済みの空白ページを使う（未検出の場合は分割時に検出）
+      let splitOptions = options
+      if (options.method === 'blankPages' && inkCoverage && !options.blankPages) {
+        const threshold = options.blankThreshold ?? PDF_SPLIT_CONSTANTS.DEFAULT_BLANK_THRESHOLD
+        splitOptions = { ...options, blankPages: findBlankPages(inkCoverage, threshold) }
+      }
+
       // PDF分割処理
-      const result = await splitPDF(
+      const result = await pdfWorker.splitPDF(
         file,
-        options,
+        splitOptions,
         (progressInfo) => {
           // キャンセルチェック
           if (signal.aborted) {
@@ -180,12 +352,6 @@ export function usePdfSplit(): [UsePdfSplitState, UsePdfSplitActions] {
         signal
       )
 
-      // ZIPを生成
-      const zipBlob = await createZipBlob(
-        result.splits.map(s => ({ blob: s.blob, filename: s.filename }))
-      )
-      result.zipBlob = zipBlob
-
       setSplitResult(result)
       setProgress({
         stage: 'completed',
@@ -204,7 +370,7 @@ export function usePdfSplit(): [UsePdfSplitState, UsePdfSplitActions] {
       setIsProcessing(false)
       abortControllerRef.current = null
     }
-  }, [file, clearResult])
+  }, [file, inkCoverage, clearResult])
 
   /**
    * 個別の分割結果をダウンロード
@@ -220,17 +386,55 @@ export function usePdfSplit(): [UsePdfSplitState, UsePdfSplitActions] {
 
   /**
    * すべての分割結果をZIPでダウンロード
+   * ZIPはメモリ上にまとめず、分割したファイルごとに書き出す
    */
-  const downloadAll = useCallback(() => {
-    if (!splitResult || !splitResult.zipBlob) {
+  const downloadAll = useCallback(async () => {
+    if (!splitResult) {
       return
     }
 
     const baseName = file?.name.replace(/\.pdf$/i, '') || 'split'
     const zipFilename = `${baseName}_all.zip`
-    downloadBlob(splitResult.zipBlob, zipFilename)
+
+    zipAbortRef.current?.abort()
+    const controller = new AbortController()
+    zipAbortRef.current = controller
+
+    setIsCreatingZip(true)
+    setError(null)
+
+    try {
+      const saved = await downloadBlobsAsZip(
+        splitResult.splits.map(s => ({ blob: s.blob, filename: s.filename })),
+        zipFilename,
+        (progressInfo) => setProgress(progressInfo),
+        controller.signal
+      )
+      if (saved) {
+        setProgress({ stage: 'completed', percentage: 100, message: 'ZIPファイルを保存しました' })
+      }
+    } catch (err) {
+      if (controller.signal.aborted) {
+        setProgress(null)
+        return
+      }
+      setError(err instanceof Error ? err.message : 'ZIPファイルの作成に失敗しました')
+      setProgress(null)
+    } finally {
+      if (zipAbortRef.current === controller) {
+        zipAbortRef.current = null
+        setIsCreatingZip(false)
+      }
+    }
   }, [splitResult, file])
 
+  /**
+   * ZIPの作成をキャンセル
+   */
+  const cancelDownload = useCallback(() => {
+    zipAbortRef.current?.abort()
+  }, [])
+
   /**
    * エラーをクリア
    */
@@ -240,10 +444,14 @@ export function usePdfSplit(): [UsePdfSplitState, UsePdfSplitActions] {
 
   const actions: UsePdfSplitActions = {
     setFile,
+    submitPassword,
+    cancelPassword,
     removeFile,
+    detectBlankPages,
     split,
     downloadSplit,
     downloadAll,
+    cancelDownload,
     clearError,
     clearResult,
   }
@@ -252,10 +460,50 @@ export function usePdfSplit(): [UsePdfSplitState, UsePdfSplitActions] {
     file,
     progress,
     isProcessing,
+    isCreatingZip,
     error,
     splitResult,
     totalPages,
+    outline,
+    inkCoverage,
+    isDetectingBlankPages,
+    passwordRequest,
   }
 
   return [state, actions]
 }
+
+/** 一括分割の処理内容 */
+const SPLIT_BATCH_PROCESSOR: PdfBatchProcessor<PdfSplitOptions> = {
+  zipFilename: 'split.zip',
+  validateFile: validateDocumentFile,
+  validateOptions: (options) => {
+    const protectionResult = validateProtection(options.protection)
+    if (!protectionResult.success) return protectionResult.message
+    const templateResult = validateFilenameTemplate(options.filenameTemplate)
+    return templateResult.success ? null : templateResult.message
+  },
+  process: async (file, options, onProgress, signal) => {
+    // Word文書の解析（DOMParser）はワーカーで実行できないため、先にPDFに変換する
+    const pdfFile = await ensurePdfFile(file.file)
+
+    // 空白ページはファイルごとに分割時に検出する
+    const result = await pdfWorker.splitPDF(
+      { ...file, file: pdfFile },
+      { ...options, blankPages: undefined },
+      onProgress,
+      signal
+    )
+    return result.splits.map(({ blob, filename }) => ({ blob, filename }))
+  },
+}
+
+/**
+ * PDF一括分割フック
+ * 複数のPDFを同じ設定で分割し、ファイルごとのフォルダに分けてZIPにまとめる
+ *
+ * @returns 状態とアクションのタプル
+ */
+export function usePdfSplitBatch(): [UsePdfBatchState, UsePdfBatchActions<PdfSplitOptions>] {
+  return usePdfBatch(SPLIT_BATCH_PROCESSOR)
+}
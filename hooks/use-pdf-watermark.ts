@@ -0,0 +1,444 @@
+/**
+ * PDF透かし挿入処理フック
+ * ファイル管理、プレビュー用のサムネイル、バリデーション、透かし挿入処理の状態管理を一元化
+ */
+
+'use client'
+
+import { useState, useCallback, useRef, useEffect } from 'react'
+import type {
+  FileUpload,
+  PasswordRequest,
+  PdfWatermarkOptions,
+  ProcessingProgress,
+  WatermarkResult,
+} from '@/types'
+import { getPdfPageSizes, requiresWatermarkJapaneseFont } from '@/lib/pdf-watermark'
+import { parsePageRanges } from '@/lib/pdf-splitter'
+import { generatePageThumbnails } from '@/lib/thumbnail-cache'
+import { pdfWorker } from '@/lib/pdf-worker-client'
+import {
+  validateDocumentFile,
+  validateFilenameTemplate,
+  validateFontFile,
+  validatePdfEncryption,
+  validateWatermarkImage,
+  type ValidationResult,
+} from '@/lib/pdf-validation'
+import { filesToFileUploads, downloadBlob } from '@/lib/file-utils'
+import { ensurePdfFile } from '@/lib/docx-to-pdf'
+import { PdfPasswordError, unlockPdfFile } from '@/lib/pdf-encryption'
+import { PDF_WATERMARK_CONSTANTS } from '@/lib/constants'
+
+/** プレビューのサムネイルの倍率 */
+const PREVIEW_THUMBNAIL_OPTIONS = { scale: 0.3 }
+
+/** 標準フォントで日本語などを使おうとした場合のエラーメッセージ */
+const HELVETICA_UNSUPPORTED_ERROR =
+  'Helveticaでは日本語を表示できません。Noto Sans JPまたはカスタムフォントを選択してください'
+
+/**
+ * オプションを検証
+ *
+ * @param options - 透かし挿入オプション
+ * @param totalPages - 総ページ数（ページ範囲の検証に使用）
+ * @returns エラーメッセージ（問題がない場合はnull）
+ */
+function getOptionsError(
+  options: PdfWatermarkOptions,
+  totalPages: number
+): string | null {
+  if (options.type === 'text') {
+    if (options.text.trim() === '') {
+      return '透かしのテキストを入力してください'
+    }
+    const { MIN_FONT_SIZE, MAX_FONT_SIZE } = PDF_WATERMARK_CONSTANTS
+    if (options.fontSize < MIN_FONT_SIZE || options.fontSize > MAX_FONT_SIZE) {
+      return `フォントサイズは${MIN_FONT_SIZE}〜${MAX_FONT_SIZE}の範囲で指定してください`
+    }
+    if (options.font === 'custom') {
+      const fontResult = validateFontFile(options.customFont)
+      if (!fontResult.success) return fontResult.message
+    }
+    if (requiresWatermarkJapaneseFont(options)) {
+      return HELVETICA_UNSUPPORTED_ERROR
+    }
+  } else {
+    const imageResult = validateWatermarkImage(options.image)
+    if (!imageResult.success) return imageResult.message
+    const { MIN_IMAGE_SCALE, MAX_IMAGE_SCALE } = PDF_WATERMARK_CONSTANTS
+    if (options.imageScale < MIN_IMAGE_SCALE || options.imageScale > MAX_IMAGE_SCALE) {
+      return `画像の幅はページ幅の${MIN_IMAGE_SCALE * 100}〜${MAX_IMAGE_SCALE * 100}%の範囲で指定してください`
+    }
+  }
+
+  if (options.opacity <= 0 || options.opacity > 1) {
+    return '不透明度は1〜100%の範囲で指定してください'
+  }
+  if (options.pageRange.trim() !== '' && totalPages > 0) {
+    const rangeResult = parsePageRanges(options.pageRange, totalPages)
+    if (!rangeResult.isValid) {
+      return rangeResult.errors[0]?.message ?? '有効なページ範囲を指定してください'
+    }
+  }
+  const templateResult = validateFilenameTemplate(options.filenameTemplate)
+  return templateResult.success ? null : templateResult.message
+}
+
+/** プレビューに表示するページ */
+export interface WatermarkPreviewPage {
+  /** ページ番号（1ベース） */
+  pageNumber: number
+  /** サムネイル（生成中はnull） */
+  thumbnail: string | null
+  /** ページの幅（PDFユニット） */
+  width: number
+  /** ページの高さ（PDFユニット） */
+  height: number
+}
+
+/** フックの状態 */
+export interface UsePdfWatermarkState {
+  /** アップロード済みファイル */
+  file: FileUpload | null
+  /** 処理進捗 */
+  progress: ProcessingProgress | null
+  /** 処理中かどうか */
+  isProcessing: boolean
+  /** エラーメッセージ */
+  error: string | null
+  /** 結果 */
+  watermarkResult: WatermarkResult | null
+  /** 総ページ数 */
+  totalPages: number
+  /** プレビューに表示するページ（先頭から上限のページ数まで） */
+  previewPages: WatermarkPreviewPage[]
+  /** パスワード入力要求（暗号化されたPDFの場合） */
+  passwordRequest: PasswordRequest | null
+}
+
+/** フックのアクション */
+export interface UsePdfWatermarkActions {
+  /** ファイルを設定 */
+  setFile: (file: File | null) => Promise<void>
+  /** パスワードを入力して暗号化されたPDFを解除 */
+  submitPassword: (password: string) => Promise<void>
+  /** パスワード入力をキャンセル */
+  cancelPassword: () => void
+  /** ファイルを削除 */
+  removeFile: () => void
+  /** 透かしを追加 */
+  addWatermark: (options: PdfWatermarkOptions) => Promise<void>
+  /** 結果をダウンロード */
+  download: () => void
+  /** エラーをクリア */
+  clearError: () => void
+  /** 結果をクリア */
+  clearResult: () => void
+}
+
+/**
+ * PDF透かし挿入処理フック
+ *
+ * @returns 状態とアクションのタプル
+ */
+export function usePdfWatermark(): [
+  UsePdfWatermarkState,
+  UsePdfWatermarkActions
+] {
+  const [file, setFile] = useState<FileUpload | null>(null)
+  const [progress, setProgress] = useState<ProcessingProgress | null>(null)
+  const [isProcessing, setIsProcessing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [watermarkResult, setWatermarkResult] = useState<WatermarkResult | null>(null)
+  const [totalPages, setTotalPages] = useState(0)
+  const [previewPages, setPreviewPages] = useState<WatermarkPreviewPage[]>([])
+  const [passwordRequest, setPasswordRequest] = useState<PasswordRequest | null>(null)
+
+  // 処理のキャンセル用
+  const abortControllerRef = useRef<AbortController | null>(null)
+
+  // 実ファイルの参照を保持
+  const actualFileRef = useRef<File | null>(null)
+
+  // パスワード入力待ちのファイル
+  const lockedFileRef = useRef<File | null>(null)
+
+  // サムネイル生成のキャンセル用
+  const thumbnailAbortRef = useRef<AbortController | null>(null)
+
+  // クリーンアップ: コンポーネントアンマウント時に処理をキャンセル
+  useEffect(() => {
+    return () => {
+      if (abortControllerRef.current) {
+        abortControllerRef.current.abort()
+      }
+      thumbnailAbortRef.current?.abort()
+    }
+  }, [])
+
+  /**
+   * プレビュー用のサムネイルをバックグラウンドで生成（先頭から上限のページ数まで）
+   */
+  const loadThumbnails = useCallback((pdfFile: File) => {
+    thumbnailAbortRef.current?.abort()
+    const controller = new AbortController()
+    thumbnailAbortRef.current = controller
+
+    pdfFile.arrayBuffer()
+      .then((bytes) => generatePageThumbnails(
+        bytes,
+        (pageIndex, thumbnail) => {
+          setPreviewPages((prev) => prev.map((page, index) =>
+            index === pageIndex ? { ...page, thumbnail } : page
+          ))
+          if (pageIndex + 1 >= PDF_WATERMARK_CONSTANTS.MAX_PREVIEW_PAGES) {
+            controller.abort()
+          }
+        },
+        PREVIEW_THUMBNAIL_OPTIONS,
+        controller.signal
+      ))
+      .catch(() => {
+        // サムネイルを生成できない場合は白紙のページで表示する
+      })
+  }, [])
+
+  /**
+   * 復号済みのPDFを読み込んでファイルとして設定
+   */
+  const loadFile = useCallback(async (pdfFile: File) => {
+    // ページの大きさを取得
+    let pageSizes: { width: number; height: number }[]
+    try {
+      pageSizes = await getPdfPageSizes(pdfFile)
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'PDFファイルの読み込みに失敗しました'
+      setError(message)
+      return
+    }
+
+    setTotalPages(pageSizes.length)
+    setPreviewPages(
+      pageSizes.slice(0, PDF_WATERMARK_CONSTANTS.MAX_PREVIEW_PAGES).map((size, index) => ({
+        pageNumber: index + 1,
+        thumbnail: null,
+        ...size,
+      }))
+    )
+    loadThumbnails(pdfFile)
+
+    // FileUploadに変換して設定
+    const uploads = filesToFileUploads([pdfFile])
+    setFile(uploads[0])
+    actualFileRef.current = pdfFile
+    setWatermarkResult(null)
+  }, [loadThumbnails])
+
+  /**
+   * ファイルを設定
+   */
+  const setFileInternal = useCallback(async (newFile: File | null) => {
+    lockedFileRef.current = null
+    setPasswordRequest(null)
+
+    if (!newFile) {
+      thumbnailAbortRef.current?.abort()
+      setFile(null)
+      setTotalPages(0)
+      setPreviewPages([])
+      actualFileRef.current = null
+      return
+    }
+
+    setError(null)
+
+    // バリデーション
+    const validationResult: ValidationResult = validateDocumentFile(newFile)
+    if (!validationResult.success) {
+      setError(validationResult.message)
+      return
+    }
+
+    // Word文書はPDFに変換
+    let pdfFile: File
+    try {
+      pdfFile = await ensurePdfFile(newFile)
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Word文書の変換に失敗しました'
+      setError(message)
+      return
+    }
+
+    // 暗号化されたPDFは解除（閲覧制限のみならパスワード不要、それ以外は入力を求める）
+    const encryptionResult: ValidationResult = await validatePdfEncryption(pdfFile)
+    if (!encryptionResult.success) {
+      try {
+        pdfFile = await unlockPdfFile(pdfFile)
+      } catch (err) {
+        if (err instanceof PdfPasswordError) {
+          lockedFileRef.current = pdfFile
+          setPasswordRequest({ fileName: pdfFile.name, error: null })
+        } else {
+          setError(err instanceof Error ? err.message : encryptionResult.message)
+        }
+        return
+      }
+    }
+
+    await loadFile(pdfFile)
+  }, [loadFile])
+
+  /**
+   * パスワードを入力して暗号化されたPDFを解除
+   */
+  const submitPassword = useCallback(async (password: string) => {
+    const lockedFile = lockedFileRef.current
+    if (!lockedFile) return
+
+    try {
+      const unlockedFile = await unlockPdfFile(lockedFile, password)
+      lockedFileRef.current = null
+      setPasswordRequest(null)
+      await loadFile(unlockedFile)
+    } catch (err) {
+      if (err instanceof PdfPasswordError) {
+        setPasswordRequest({ fileName: lockedFile.name, error: err.message })
+        return
+      }
+      lockedFileRef.current = null
+      setPasswordRequest(null)
+      setError(err instanceof Error ? err.message : 'PDFの復号に失敗しました')
+    }
+  }, [loadFile])
+
+  /**
+   * パスワード入力をキャンセル
+   */
+  const cancelPassword = useCallback(() => {
+    lockedFileRef.current = null
+    setPasswordRequest(null)
+  }, [])
+
+  /**
+   * ファイルを削除
+   */
+  const removeFile = useCallback(() => {
+    thumbnailAbortRef.current?.abort()
+    setFile(null)
+    setTotalPages(0)
+    setPreviewPages([])
+    actualFileRef.current = null
+    setWatermarkResult(null)
+    setError(null)
+  }, [])
+
+  /**
+   * 透かしを追加
+   */
+  const addWatermark = useCallback(async (options: PdfWatermarkOptions) => {
+    if (!actualFileRef.current) {
+      setError('ファイルが選択されていません')
+      return
+    }
+
+    // 既存の処理をキャンセル
+    if (abortControllerRef.current) {
+      abortControllerRef.current.abort()
+    }
+    abortControllerRef.current = new AbortController()
+
+    // バリデーション
+    const optionsError = getOptionsError(options, totalPages)
+    if (optionsError) {
+      setError(optionsError)
+      return
+    }
+
+    setIsProcessing(true)
+    setError(null)
+    setWatermarkResult(null)
+
+    try {
+      const signal = abortControllerRef.current.signal
+
+      // 透かし挿入処理
+      const result = await pdfWorker.addWatermark(
+        actualFileRef.current,
+        options,
+        (progressInfo) => {
+          setProgress(progressInfo)
+        },
+        signal
+      )
+
+      setWatermarkResult(result)
+      setProgress({
+        stage: 'completed',
+        percentage: 100,
+        message: '透かしの追加が完了しました',
+      })
+    } catch (err) {
+      if (err instanceof Error && err.message === 'Operation cancelled') {
+        // キャンセル時は何もしない
+        return
+      }
+
+      const errorMessage =
+        err instanceof Error ? err.message : '透かしの追加に失敗しました'
+      setError(errorMessage)
+      setProgress(null)
+    } finally {
+      setIsProcessing(false)
+      abortControllerRef.current = null
+    }
+  }, [totalPages])
+
+  /**
+   * 結果をダウンロード
+   */
+  const download = useCallback(() => {
+    if (!watermarkResult) return
+
+    downloadBlob(watermarkResult.blob, watermarkResult.filename)
+  }, [watermarkResult])
+
+  /**
+   * エラーをクリア
+   */
+  const clearError = useCallback(() => {
+    setError(null)
+  }, [])
+
+  /**
+   * 結果をクリア
+   */
+  const clearResult = useCallback(() => {
+    setWatermarkResult(null)
+    setProgress(null)
+  }, [])
+
+  const actions: UsePdfWatermarkActions = {
+    setFile: setFileInternal,
+    submitPassword,
+    cancelPassword,
+    removeFile,
+    addWatermark,
+    download,
+    clearError,
+    clearResult,
+  }
+
+  const state: UsePdfWatermarkState = {
+    file,
+    progress,
+    isProcessing,
+    error,
+    watermarkResult,
+    totalPages,
+    previewPages,
+    passwordRequest,
+  }
+
+  return [state, actions]
+}
@@ -0,0 +1,68 @@
+/**
+ * プレビュー用フォント読み込みフック
+ * PDFに埋め込むフォントをFontFace APIで読み込み、画面上のプレビューにも同じフォントを使う
+ */
+
+'use client'
+
+import { useEffect, useState } from 'react'
+import type { NumberingFont } from '@/types'
+import { JAPANESE_FONT_URL } from '@/lib/pdf-fonts'
+
+/** Helvetica（標準フォント）に相当するフォント指定 */
+const HELVETICA_FONT_FAMILY = 'Helvetica, Arial, sans-serif'
+
+/** 読み込んだフォントのファミリー名の連番 */
+let previewFontCount = 0
+
+/**
+ * プレビュー用のフォントを読み込み、CSSのfont-familyを返す
+ * 読み込み中・読み込みに失敗した場合はHelvetica相当のフォントを返す
+ *
+ * @param font - ページ番号のフォント
+ * @param customFont - アップロードしたフォントファイル（font が custom の場合）
+ * @returns CSSのfont-family
+ */
+export function usePreviewFontFamily(font: NumberingFont = 'helvetica', customFont?: File): string {
+  // 読み込み済みのフォント（読み込み元とファミリー名）
+  const [loaded, setLoaded] = useState<{ source: File | string; family: string } | null>(null)
+
+  const source = font === 'noto-sans-jp'
+    ? JAPANESE_FONT_URL
+    : font === 'custom'
+      ? customFont ?? null
+      : null
+
+  useEffect(() => {
+    if (!source || typeof FontFace === 'undefined') return
+
+    let cancelled = false
+    let face: FontFace | null = null
+    const family = `numbering-preview-${++previewFontCount}`
+
+    const load = async () => {
+      face = new FontFace(
+        family,
+        typeof source === 'string' ? `url(${source})` : await source.arrayBuffer()
+      )
+      await face.load()
+      if (cancelled) return
+      document.fonts.add(face)
+      setLoaded({ source, family })
+    }
+
+    load().catch(() => {
+      // 読み込めないフォントはHelvetica相当で表示する（PDF作成時にエラーを表示）
+    })
+
+    return () => {
+      cancelled = true
+      if (face) document.fonts.delete(face)
+    }
+  }, [source])
+
+  if (!source || loaded?.source !== source) {
+    return HELVETICA_FONT_FAMILY
+  }
+  return `"${loaded.family}", ${HELVETICA_FONT_FAMILY}`
+}
@@ -0,0 +1,42 @@
+/**
+ * Bates番号の記録のテスト
+ */
+
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { createBatesLogCsv } from '@/lib/bates-log'
+
+/** CSVの見出しを除いた行 */
+function getRows(csv: string): string[] {
+  return csv.replace(/^\uFEFF/, '').split('\r\n').slice(1, -1)
+}
+
+describe('createBatesLogCsv', () => {
+  it('番号の範囲とページ数を1行ずつ出力する', () => {
+    const csv = createBatesLogCsv([
+      {
+        filename: 'a.pdf',
+        numberedRange: { first: 1, last: 3, firstLabel: 'ABC000001', lastLabel: 'ABC000003' },
+      },
+      { filename: 'b, c.pdf' },
+    ])
+
+    assert.ok(csv.startsWith('\uFEFFファイル名,開始番号,終了番号,ページ数\r\n'))
+    assert.deepEqual(getRows(csv), ['a.pdf,ABC000001,ABC000003,3', '"b, c.pdf",,,0'])
+  })
+
+  it('数式として解釈される値は先頭に引用符を付ける', () => {
+    const csv = createBatesLogCsv([
+      {
+        filename: '=HYPERLINK("http://example.com"),x.pdf',
+        numberedRange: { first: 1, last: 1, firstLabel: '+001', lastLabel: '-001' },
+      },
+      { filename: '@SUM(A1).pdf' },
+    ])
+
+    assert.deepEqual(getRows(csv), [
+      `"'=HYPERLINK(""http://example.com""),x.pdf",'+001,'-001,1`,
+      `'@SUM(A1).pdf,,,0`,
+    ])
+  })
+})
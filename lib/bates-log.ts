@@ -0,0 +1,60 @@
+/**
+ * Bates番号の記録
+ * 出力ファイルごとに付けた最初と最後のBates番号をCSVに書き出す
+ */
+
+import type { NumberedRange } from '@/types'
+import { downloadBlob } from '@/lib/file-utils'
+
+/** 記録ファイルの既定のファイル名 */
+export const BATES_LOG_FILENAME = 'bates_log.csv'
+
+/** CSVの見出し */
+const BATES_LOG_HEADER = ['ファイル名', '開始番号', '終了番号', 'ページ数']
+
+/** 記録する出力ファイル */
+export interface BatesLogEntry {
+  filename: string
+  /** 番号を付けたページの範囲（番号を付けたページがない場合は未定義） */
+  numberedRange?: NumberedRange
+}
+
+/**
+ * CSVの値をエスケープ（カンマ・引用符・改行を含む場合は引用符で囲む）
+ * 表計算ソフトで数式として解釈されないよう、=+-@で始まる値は先頭に ' を付ける
+ */
+function escapeCsvValue(value: string): string {
+  const text = /^[=+\-@]/.test(value) ? `'${value}` : value
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Bates番号の記録をCSVとして生成
+ * Excelで文字化けしないようBOM付き・CRLF改行で出力する
+ *
+ * @param entries - 出力ファイル（処理した順）
+ * @returns CSVの文字列
+ */
+export function createBatesLogCsv(entries: BatesLogEntry[]): string {
+  const rows = entries.map(({ filename, numberedRange }) => [
+    filename,
+    numberedRange?.firstLabel ?? '',
+    numberedRange?.lastLabel ?? '',
+    numberedRange ? String(numberedRange.last - numberedRange.first + 1) : '0',
+  ])
+
+  return '\uFEFF' + [BATES_LOG_HEADER, ...rows]
+    .map((row) => row.map(escapeCsvValue).join(','))
+    .join('\r\n') + '\r\n'
+}
+
+/**
+ * Bates番号の記録をCSVファイルとしてダウンロード
+ *
+ * @param entries - 出力ファイル（処理した順）
+ * @param filename - CSVファイル名
+ */
+export function downloadBatesLog(entries: BatesLogEntry[], filename = BATES_LOG_FILENAME): void {
+  const blob = new Blob([createBatesLogCsv(entries)], { type: 'text/csv;charset=utf-8' })
+  downloadBlob(blob, filename)
+}
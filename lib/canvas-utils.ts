@@ -0,0 +1,77 @@
+/**
+ * Canvasユーティリティ
+ * メインスレッドではcanvas要素、Web Worker内ではOffscreenCanvasを使い分ける
+ */
+
+/** 2D描画用のCanvas */
+export interface Canvas2D {
+  canvas: HTMLCanvasElement | OffscreenCanvas
+  context: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D
+}
+
+/**
+ * 2D描画用のCanvasを作成
+ *
+ * @param width - 幅（px）
+ * @param height - 高さ（px）
+ * @param settings - コンテキストの設定
+ * @throws コンテキストを取得できない場合
+ */
+export function createCanvas2D(
+  width: number,
+  height: number,
+  settings?: CanvasRenderingContext2DSettings
+): Canvas2D {
+  // Web WorkerにはDOMがないためOffscreenCanvasを使う
+  if (typeof document === 'undefined') {
+    const canvas = new OffscreenCanvas(width, height)
+    const context = canvas.getContext('2d', settings)
+    if (!context) {
+      throw new Error('Canvas contextの取得に失敗しました')
+    }
+    return { canvas, context }
+  }
+
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+
+  const context = canvas.getContext('2d', settings)
+  if (!context) {
+    throw new Error('Canvas contextの取得に失敗しました')
+  }
+  return { canvas, context }
+}
+
+/**
+ * Canvasの内容を画像に変換
+ *
+ * @param canvas - 変換するCanvas
+ * @param type - 画像形式（MIMEタイプ）
+ * @param quality - JPEG品質（0-1）
+ */
+export function canvasToBlob(
+  canvas: HTMLCanvasElement | OffscreenCanvas,
+  type: string,
+  quality?: number
+): Promise<Blob> {
+  if (!('toBlob' in canvas)) {
+    return canvas.convertToBlob({ type, quality })
+  }
+
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      (result) => (result ? resolve(result) : reject(new Error('画像の変換に失敗しました'))),
+      type,
+      quality
+    )
+  })
+}
+
+/**
+ * Canvasのメモリを解放
+ */
+export function releaseCanvas(canvas: HTMLCanvasElement | OffscreenCanvas): void {
+  canvas.width = 0
+  canvas.height = 0
+}
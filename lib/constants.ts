@@ -16,6 +16,105 @@ export const PDF_MERGE_CONSTANTS = {
   MIN_FILE_SIZE: 100,
   /** 許可するMIMEタイプ */
   ALLOWED_TYPES: ['application/pdf'] as const,
+  /** 結合時に許可する画像のMIMEタイプ */
+  ALLOWED_IMAGE_TYPES: [
+    'image/jpeg',
+    'image/png',
+    'image/webp',
+    'image/heic',
+    'image/heif',
+  ] as const,
+  /** 結合時に許可する画像の拡張子（MIMEタイプが空の場合の判定用） */
+  ALLOWED_IMAGE_EXTENSIONS: ['jpg', 'jpeg', 'png', 'webp', 'heic', 'heif'] as const,
+  /** 画像品質ごとのダウンサンプリング設定（highは再圧縮しない） */
+  IMAGE_QUALITY_SETTINGS: {
+    medium: { maxDimension: 2000, jpegQuality: 0.8 },
+    low: { maxDimension: 1200, jpegQuality: 0.6 },
+  },
+  /** ダウンサンプリングの対象とする画像の最小画素数 */
+  MIN_DOWNSAMPLE_PIXELS: 256 * 256,
+} as const
+
+// ============================================================================
+// PDF分割機能の定数
+// ============================================================================
+
+/** PDF分割の設定 */
+export const PDF_SPLIT_CONSTANTS = {
+  /** 最大サイズで分割する際の初期値（バイト） */
+  DEFAULT_MAX_FILE_SIZE: 10 * 1024 * 1024,
+  /** 空白ページとみなすインク率（%）の初期値 */
+  DEFAULT_BLANK_THRESHOLD: 0.3,
+  /** 設定できるインク率（%）の上限 */
+  MAX_BLANK_THRESHOLD: 3,
+  /** 検出時にレンダリングする長辺のピクセル数 */
+  BLANK_DETECTION_SIZE: 400,
+  /** 判定から除外する余白の割合（スキャン時の影・パンチ穴対策） */
+  BLANK_DETECTION_MARGIN: 0.05,
+  /** インクとみなす輝度の上限（0-255） */
+  INK_LUMINANCE: 192,
+} as const
+
+// ============================================================================
+// ページ番号挿入機能の定数
+// ============================================================================
+
+/** ページ番号挿入の設定 */
+export const PDF_NUMBERING_CONSTANTS = {
+  /** アップロードできるフォントファイルの拡張子 */
+  FONT_EXTENSIONS: ['ttf', 'otf'],
+  /** アップロードできるフォントファイルの最大サイズ（バイト） */
+  MAX_FONT_FILE_SIZE: 30 * 1024 * 1024,
+  /** Bates番号の開始番号の上限 */
+  MAX_BATES_START_NUMBER: 999_999_999,
+  /** Bates番号の最大桁数 */
+  MAX_BATES_DIGITS: 12,
+  /** Bates番号の接頭辞・接尾辞の最大文字数 */
+  MAX_BATES_AFFIX_LENGTH: 50,
+} as const
+
+// ============================================================================
+// ヘッダー・フッター機能の定数
+// ============================================================================
+
+/** ヘッダー・フッター挿入の設定 */
+export const PDF_HEADER_FOOTER_CONSTANTS = {
+  /** 追加できる規則の最大数 */
+  MAX_RULES: 10,
+} as const
+
+// ============================================================================
+// 透かし機能の定数
+// ============================================================================
+
+/** 透かし挿入の設定 */
+export const PDF_WATERMARK_CONSTANTS = {
+  /** 透かしに使える画像の形式 */
+  IMAGE_TYPES: ['image/png', 'image/jpeg', 'image/webp'],
+  /** 透かし画像の最大サイズ（バイト） */
+  MAX_IMAGE_FILE_SIZE: 10 * 1024 * 1024,
+  /** フォントサイズの範囲 (pt) */
+  MIN_FONT_SIZE: 8,
+  MAX_FONT_SIZE: 200,
+  /** 画像の幅の範囲（ページ幅に対する割合） */
+  MIN_IMAGE_SCALE: 0.05,
+  MAX_IMAGE_SCALE: 1,
+  /** 1ページに敷き詰める透かしの最大数 */
+  MAX_TILES: 400,
+  /** プレビューに表示する最大ページ数 */
+  MAX_PREVIEW_PAGES: 12,
+} as const
+
+// ============================================================================
+// 一括処理の定数
+// ============================================================================
+
+/** 一括処理の設定 */
+export const PDF_BATCH_CONSTANTS = {
+  /** 一度に登録できる最大ファイル数 */
+  MAX_FILES: 100,
+  /** 同時に処理するファイル数 */
+  CONCURRENCY: 2,
 } as const
 
 // ============================================================================
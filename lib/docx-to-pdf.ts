@@ -0,0 +1,799 @@
+/**
+ * DOCX→PDF変換ライブラリ
+ * JSZipでOOXMLを展開し、段落・見出し・表・画像をpdf-libでレイアウト
+ */
+
+import JSZip from 'jszip'
+import { PDFDocument, rgb, type PDFFont, type PDFImage, type PDFPage, type RGB } from 'pdf-lib'
+import { embedJapaneseFont } from '@/lib/pdf-fonts'
+
+/** DOCXのMIMEタイプ */
+export const DOCX_MIME_TYPE =
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+
+// 単位変換（1pt = 20twip、1pt = 12700EMU）
+const TWIPS_PER_POINT = 20
+const EMU_PER_POINT = 12700
+
+/** ページ設定が無い場合の既定値（A4、余白25.4mm） */
+const DEFAULT_PAGE_WIDTH = 595.28
+const DEFAULT_PAGE_HEIGHT = 841.89
+const DEFAULT_MARGIN = 72
+
+/** 既定の本文フォントサイズ（Word日本語版の既定値） */
+const DEFAULT_FONT_SIZE = 10.5
+/** 見出しレベルごとの既定フォントサイズ（0: 表題、1以降: 見出し1〜） */
+const HEADING_FONT_SIZES = [20, 16, 14, 13, 12, 11]
+/** 行の高さ（フォントサイズに対する倍率） */
+const LINE_HEIGHT_RATIO = 1.5
+/** 行の上端からベースラインまでの距離（フォントサイズに対する倍率） */
+const ASCENT_RATIO = 1.15
+/** 表のセル内余白 */
+const CELL_PADDING = 4
+/** 疑似太字の横ずらし量（フォントサイズに対する比率） */
+const FAUX_BOLD_OFFSET_RATIO = 0.03
+/** タブの幅（全角2文字分） */
+const TAB_WIDTH_EM = 2
+
+/** 文字スタイル */
+interface TextStyle {
+  size: number
+  bold: boolean
+  color: RGB
+}
+
+/** 段落内の要素 */
+type Inline =
+  | { kind: 'text'; text: string; style: TextStyle }
+  | { kind: 'image'; path: string; bytes: Uint8Array; width: number; height: number }
+  | { kind: 'break' }
+
+/** 段落の配置 */
+type Alignment = 'left' | 'center' | 'right'
+
+/** 段落ブロック */
+interface ParagraphBlock {
+  kind: 'paragraph'
+  inlines: Inline[]
+  /** 段落の基本フォントサイズ（空行の高さに使用） */
+  fontSize: number
+  align: Alignment
+  indent: number
+  spaceBefore: number
+  spaceAfter: number
+  pageBreakBefore: boolean
+}
+
+/** 表ブロック */
+interface TableBlock {
+  kind: 'table'
+  /** 列幅（pt） */
+  columnWidths: number[]
+  /** 行 → セル → 段落 */
+  rows: { cells: { span: number; paragraphs: ParagraphBlock[] }[] }[]
+}
+
+type Block = ParagraphBlock | TableBlock | { kind: 'pageBreak' }
+
+/** ページ設定（pt） */
+interface PageSetup {
+  width: number
+  height: number
+  marginTop: number
+  marginRight: number
+  marginBottom: number
+  marginLeft: number
+}
+
+/** スタイル定義（styles.xml） */
+interface StyleDefinition {
+  headingLevel?: number
+  size?: number
+  bold?: boolean
+  color?: RGB
+  align?: Alignment
+  basedOn?: string
+}
+
+/** 解析時のコンテキスト */
+interface ParseContext {
+  zip: JSZip
+  styles: Map<string, StyleDefinition>
+  /** リレーションID → ZIP内パス */
+  relationships: Map<string, string>
+  defaultSize: number
+}
+
+// ============================================================================
+// XMLヘルパー
+// ============================================================================
+
+function childElements(el: Element, tagName?: string): Element[] {
+  return Array.from(el.children).filter((child) => !tagName || child.tagName === tagName)
+}
+
+function firstChild(el: Element | null | undefined, tagName: string): Element | null {
+  if (!el) return null
+  return childElements(el, tagName)[0] ?? null
+}
+
+function attr(el: Element | null | undefined, name: string): string | null {
+  return el?.getAttribute(name) ?? null
+}
+
+function parseXml(text: string): Document {
+  const doc = new DOMParser().parseFromString(text, 'application/xml')
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Word文書の解析に失敗しました')
+  }
+  return doc
+}
+
+/** トグル型プロパティ（w:b など）の判定。val="0"/"false" は無効 */
+function isToggleOn(el: Element | null): boolean | undefined {
+  if (!el) return undefined
+  const val = attr(el, 'w:val')
+  return val !== '0' && val !== 'false' && val !== 'none'
+}
+
+function parseColor(value: string | null): RGB | undefined {
+  if (!value || !/^[0-9A-Fa-f]{6}$/.test(value)) return undefined
+  return rgb(
+    parseInt(value.substring(0, 2), 16) / 255,
+    parseInt(value.substring(2, 4), 16) / 255,
+    parseInt(value.substring(4, 6), 16) / 255
+  )
+}
+
+function parseAlignment(value: string | null): Alignment | undefined {
+  switch (value) {
+    case 'center':
+      return 'center'
+    case 'right':
+    case 'end':
+      return 'right'
+    case 'left':
+    case 'start':
+    case 'both':
+    case 'distribute':
+      return 'left'
+    default:
+      return undefined
+  }
+}
+
+function twipsToPoints(value: string | null): number | undefined {
+  if (value === null) return undefined
+  const n = parseInt(value, 10)
+  return Number.isFinite(n) ? n / TWIPS_PER_POINT : undefined
+}
+
+// ============================================================================
+// 解析
+// ============================================================================
+
+/**
+ * styles.xmlを解析
+ */
+function parseStyles(doc: Document | null): { styles: Map<string, StyleDefinition>; defaultSize: number } {
+  const styles = new Map<string, StyleDefinition>()
+  let defaultSize = DEFAULT_FONT_SIZE
+  if (!doc) return { styles, defaultSize }
+
+  const rPrDefault = doc.getElementsByTagName('w:rPrDefault')[0]
+  const defaultSz = attr(firstChild(firstChild(rPrDefault, 'w:rPr'), 'w:sz'), 'w:val')
+  if (defaultSz) defaultSize = parseInt(defaultSz, 10) / 2
+
+  for (const style of Array.from(doc.getElementsByTagName('w:style'))) {
+    const id = attr(style, 'w:styleId')
+    if (!id) continue
+
+    const name = attr(firstChild(style, 'w:name'), 'w:val')?.toLowerCase() ?? ''
+    const headingMatch = name.match(/^heading (\d)$/)
+    const rPr = firstChild(style, 'w:rPr')
+    const pPr = firstChild(style, 'w:pPr')
+    const sz = attr(firstChild(rPr, 'w:sz'), 'w:val')
+
+    styles.set(id, {
+      headingLevel: headingMatch ? parseInt(headingMatch[1], 10) : name === 'title' ? 0 : undefined,
+      size: sz ? parseInt(sz, 10) / 2 : undefined,
+      bold: isToggleOn(firstChild(rPr, 'w:b')),
+      color: parseColor(attr(firstChild(rPr, 'w:color'), 'w:val')),
+      align: parseAlignment(attr(firstChild(pPr, 'w:jc'), 'w:val')),
+      basedOn: attr(firstChild(style, 'w:basedOn'), 'w:val') ?? undefined,
+    })
+  }
+
+  return { styles, defaultSize }
+}
+
+/**
+ * スタイルを継承元まで辿って解決
+ */
+function resolveStyle(ctx: ParseContext, styleId: string | null): StyleDefinition {
+  const resolved: StyleDefinition = {}
+  const visited = new Set<string>()
+  let id = styleId
+
+  while (id && !visited.has(id)) {
+    visited.add(id)
+    const style = ctx.styles.get(id)
+    if (!style) break
+    resolved.headingLevel ??= style.headingLevel
+    resolved.size ??= style.size
+    resolved.bold ??= style.bold
+    resolved.color ??= style.color
+    resolved.align ??= style.align
+    id = style.basedOn ?? null
+  }
+
+  return resolved
+}
+
+/**
+ * 画像（w:drawing）を解析
+ */
+async function parseDrawing(ctx: ParseContext, drawing: Element): Promise<Inline | null> {
+  const blip = drawing.getElementsByTagName('a:blip')[0]
+  const extent = drawing.getElementsByTagName('wp:extent')[0]
+  const path = ctx.relationships.get(attr(blip, 'r:embed') ?? '')
+  if (!path || !extent) return null
+
+  const entry = ctx.zip.file(path)
+  if (!entry) return null
+
+  const width = parseInt(attr(extent, 'cx') ?? '0', 10) / EMU_PER_POINT
+  const height = parseInt(attr(extent, 'cy') ?? '0', 10) / EMU_PER_POINT
+  if (width <= 0 || height <= 0) return null
+
+  return { kind: 'image', path, bytes: await entry.async('uint8array'), width, height }
+}
+
+/**
+ * 段落内の要素（ラン・ハイパーリンクなど）を再帰的に収集
+ */
+async function collectInlines(
+  ctx: ParseContext,
+  container: Element,
+  baseStyle: TextStyle,
+  inlines: Inline[]
+): Promise<boolean> {
+  let pageBreak = false
+
+  for (const el of childElements(container)) {
+    switch (el.tagName) {
+      case 'w:r': {
+        const rPr = firstChild(el, 'w:rPr')
+        const runStyle = resolveStyle(ctx, attr(firstChild(rPr, 'w:rStyle'), 'w:val'))
+        const sz = attr(firstChild(rPr, 'w:sz'), 'w:val')
+        const style: TextStyle = {
+          size: sz ? parseInt(sz, 10) / 2 : runStyle.size ?? baseStyle.size,
+          bold: isToggleOn(firstChild(rPr, 'w:b')) ?? runStyle.bold ?? baseStyle.bold,
+          color: parseColor(attr(firstChild(rPr, 'w:color'), 'w:val')) ?? runStyle.color ?? baseStyle.color,
+        }
+
+        for (const item of childElements(el)) {
+          if (item.tagName === 'w:t') {
+            inlines.push({ kind: 'text', text: item.textContent ?? '', style })
+          } else if (item.tagName === 'w:tab') {
+            inlines.push({ kind: 'text', text: '\t', style })
+          } else if (item.tagName === 'w:br' || item.tagName === 'w:cr') {
+            if (attr(item, 'w:type') === 'page') {
+              pageBreak = true
+            } else {
+              inlines.push({ kind: 'break' })
+            }
+          } else if (item.tagName === 'w:drawing') {
+            const image = await parseDrawing(ctx, item)
+            if (image) inlines.push(image)
+          }
+        }
+        break
+      }
+      case 'w:hyperlink':
+      case 'w:ins':
+      case 'w:smartTag':
+      case 'w:sdt':
+      case 'w:sdtContent':
+      case 'w:fldSimple':
+        if (await collectInlines(ctx, el, baseStyle, inlines)) pageBreak = true
+        break
+      // 削除履歴（w:del）などは出力しない
+    }
+  }
+
+  return pageBreak
+}
+
+/**
+ * 段落（w:p）を解析
+ * ページ区切りを含む場合は区切り位置で複数ブロックに分ける
+ */
+async function parseParagraph(ctx: ParseContext, p: Element): Promise<Block[]> {
+  const pPr = firstChild(p, 'w:pPr')
+  const style = resolveStyle(ctx, attr(firstChild(pPr, 'w:pStyle'), 'w:val'))
+  const headingLevel = style.headingLevel
+
+  const baseStyle: TextStyle = {
+    size:
+      style.size ??
+      (headingLevel !== undefined ? HEADING_FONT_SIZES[Math.min(headingLevel, 5)] : ctx.defaultSize),
+    bold: style.bold ?? headingLevel !== undefined,
+    color: style.color ?? rgb(0, 0, 0),
+  }
+
+  const spacing = firstChild(pPr, 'w:spacing')
+  const ind = firstChild(pPr, 'w:ind')
+  const paragraph: ParagraphBlock = {
+    kind: 'paragraph',
+    inlines: [],
+    fontSize: baseStyle.size,
+    align: parseAlignment(attr(firstChild(pPr, 'w:jc'), 'w:val')) ?? style.align ?? 'left',
+    indent: twipsToPoints(attr(ind, 'w:left') ?? attr(ind, 'w:start')) ?? 0,
+    spaceBefore: twipsToPoints(attr(spacing, 'w:before')) ?? (headingLevel !== undefined ? baseStyle.size * 0.5 : 0),
+    spaceAfter: twipsToPoints(attr(spacing, 'w:after')) ?? (headingLevel !== undefined ? baseStyle.size * 0.3 : 0),
+    pageBreakBefore: isToggleOn(firstChild(pPr, 'w:pageBreakBefore')) ?? false,
+  }
+
+  // 箇条書き・番号付きリストは行頭記号で表現
+  if (firstChild(pPr, 'w:numPr')) {
+    paragraph.inlines.push({ kind: 'text', text: '・', style: baseStyle })
+    paragraph.indent = Math.max(paragraph.indent, baseStyle.size)
+  }
+
+  const pageBreak = await collectInlines(ctx, p, baseStyle, paragraph.inlines)
+  return pageBreak ? [paragraph, { kind: 'pageBreak' }] : [paragraph]
+}
+
+/**
+ * 表（w:tbl）を解析
+ */
+async function parseTable(ctx: ParseContext, tbl: Element): Promise<TableBlock> {
+  const columnWidths = childElements(firstChild(tbl, 'w:tblGrid') ?? tbl, 'w:gridCol')
+    .map((col) => twipsToPoints(attr(col, 'w:w')) ?? 0)
+
+  const rows: TableBlock['rows'] = []
+  for (const tr of childElements(tbl, 'w:tr')) {
+    const cells: TableBlock['rows'][number]['cells'] = []
+
+    for (const tc of childElements(tr, 'w:tc')) {
+      const tcPr = firstChild(tc, 'w:tcPr')
+      const span = parseInt(attr(firstChild(tcPr, 'w:gridSpan'), 'w:val') ?? '1', 10)
+      const paragraphs: ParagraphBlock[] = []
+
+      for (const p of childElements(tc, 'w:p')) {
+        for (const block of await parseParagraph(ctx, p)) {
+          if (block.kind === 'paragraph') paragraphs.push(block)
+        }
+      }
+
+      cells.push({ span: Math.max(1, span), paragraphs })
+    }
+
+    rows.push({ cells })
+  }
+
+  return { kind: 'table', columnWidths, rows }
+}
+
+/**
+ * 本文要素を解析
+ */
+async function parseBody(ctx: ParseContext, container: Element, blocks: Block[]): Promise<void> {
+  for (const el of childElements(container)) {
+    if (el.tagName === 'w:p') {
+      blocks.push(...(await parseParagraph(ctx, el)))
+    } else if (el.tagName === 'w:tbl') {
+      blocks.push(await parseTable(ctx, el))
+    } else if (el.tagName === 'w:sdt') {
+      const content = firstChild(el, 'w:sdtContent')
+      if (content) await parseBody(ctx, content, blocks)
+    }
+  }
+}
+
+/**
+ * ページ設定（w:sectPr）を解析
+ */
+function parsePageSetup(body: Element): PageSetup {
+  const sectPr = firstChild(body, 'w:sectPr')
+  const pgSz = firstChild(sectPr, 'w:pgSz')
+  const pgMar = firstChild(sectPr, 'w:pgMar')
+
+  return {
+    width: twipsToPoints(attr(pgSz, 'w:w')) ?? DEFAULT_PAGE_WIDTH,
+    height: twipsToPoints(attr(pgSz, 'w:h')) ?? DEFAULT_PAGE_HEIGHT,
+    marginTop: twipsToPoints(attr(pgMar, 'w:top')) ?? DEFAULT_MARGIN,
+    marginRight: twipsToPoints(attr(pgMar, 'w:right')) ?? DEFAULT_MARGIN,
+    marginBottom: twipsToPoints(attr(pgMar, 'w:bottom')) ?? DEFAULT_MARGIN,
+    marginLeft: twipsToPoints(attr(pgMar, 'w:left')) ?? DEFAULT_MARGIN,
+  }
+}
+
+/**
+ * リレーション定義（document.xml.rels）を解析
+ */
+function parseRelationships(doc: Document | null): Map<string, string> {
+  const relationships = new Map<string, string>()
+  if (!doc) return relationships
+
+  for (const rel of Array.from(doc.getElementsByTagName('Relationship'))) {
+    const id = attr(rel, 'Id')
+    const target = attr(rel, 'Target')
+    if (!id || !target || attr(rel, 'TargetMode') === 'External') continue
+    relationships.set(id, target.startsWith('/') ? target.slice(1) : `word/${target}`)
+  }
+
+  return relationships
+}
+
+// ============================================================================
+// レイアウト
+// ============================================================================
+
+/** 行内の配置済み要素 */
+type LineItem =
+  | { kind: 'text'; text: string; style: TextStyle; width: number }
+  | { kind: 'image'; image: PDFImage; width: number; height: number }
+
+/** 1行分のレイアウト */
+interface Line {
+  items: LineItem[]
+  width: number
+  height: number
+  /** ベースライン（行の上端からの距離） */
+  ascent: number
+}
+
+/**
+ * DOCXのレイアウトを行いPDFページを生成するクラス
+ */
+class DocxLayout {
+  private page!: PDFPage
+  private cursorY = 0
+  /** ZIP内パス → 埋め込み済み画像（同じ画像の重複埋め込みを防ぐ） */
+  private imageCache = new Map<string, PDFImage | null>()
+
+  constructor(
+    private readonly pdfDoc: PDFDocument,
+    private readonly font: PDFFont,
+    private readonly setup: PageSetup
+  ) {
+    this.newPage()
+  }
+
+  private get contentWidth(): number {
+    return this.setup.width - this.setup.marginLeft - this.setup.marginRight
+  }
+
+  private get bottom(): number {
+    return this.setup.marginBottom
+  }
+
+  newPage(): void {
+    this.page = this.pdfDoc.addPage([this.setup.width, this.setup.height])
+    this.cursorY = this.setup.height - this.setup.marginTop
+  }
+
+  /** ページ先頭にいるかどうか */
+  private get atPageTop(): boolean {
+    return this.cursorY >= this.setup.height - this.setup.marginTop
+  }
+
+  private async embedImage(path: string, bytes: Uint8Array): Promise<PDFImage | null> {
+    if (this.imageCache.has(path)) return this.imageCache.get(path) ?? null
+
+    let image: PDFImage | null = null
+    try {
+      if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+        image = await this.pdfDoc.embedJpg(bytes)
+      } else if (bytes[0] === 0x89 && bytes[1] === 0x50) {
+        image = await this.pdfDoc.embedPng(bytes)
+      }
+    } catch {
+      // 埋め込めない形式（EMF/WMFなど）は省略
+      image = null
+    }
+
+    this.imageCache.set(path, image)
+    return image
+  }
+
+  /** テキスト幅を計算（計測できない文字は全角幅とみなす） */
+  private measure(text: string, size: number): number {
+    try {
+      return this.font.widthOfTextAtSize(text, size)
+    } catch {
+      return size * text.length
+    }
+  }
+
+  /**
+   * 段落を指定幅で行に分割
+   */
+  async breakLines(paragraph: ParagraphBlock, width: number): Promise<Line[]> {
+    const lines: Line[] = []
+    const available = Math.max(width - paragraph.indent, 1)
+    let current: Line = { items: [], width: 0, height: 0, ascent: 0 }
+
+    const pushLine = () => {
+      if (current.items.length === 0) {
+        // 空行は段落のフォントサイズ分の高さを確保
+        current.height = paragraph.fontSize * LINE_HEIGHT_RATIO
+        current.ascent = paragraph.fontSize * ASCENT_RATIO
+      }
+      lines.push(current)
+      current = { items: [], width: 0, height: 0, ascent: 0 }
+    }
+
+    const addText = (text: string, style: TextStyle) => {
+      const textWidth = this.measure(text, style.size)
+      const last = current.items[current.items.length - 1]
+      if (last?.kind === 'text' && last.style === style) {
+        last.text += text
+        last.width += textWidth
+      } else {
+        current.items.push({ kind: 'text', text, style, width: textWidth })
+      }
+      current.width += textWidth
+      current.height = Math.max(current.height, style.size * LINE_HEIGHT_RATIO)
+      current.ascent = Math.max(current.ascent, style.size * ASCENT_RATIO)
+    }
+
+    for (const inline of paragraph.inlines) {
+      if (inline.kind === 'break') {
+        pushLine()
+        continue
+      }
+
+      if (inline.kind === 'image') {
+        const image = await this.embedImage(inline.path, inline.bytes)
+        if (!image) continue
+
+        // 幅に収まるよう縮小
+        const scale = Math.min(1, available / inline.width)
+        const imageWidth = inline.width * scale
+        const imageHeight = inline.height * scale
+        if (current.width + imageWidth > available && current.items.length > 0) pushLine()
+
+        current.items.push({ kind: 'image', image, width: imageWidth, height: imageHeight })
+        current.width += imageWidth
+        current.height = Math.max(current.height, imageHeight)
+        current.ascent = Math.max(current.ascent, imageHeight)
+        continue
+      }
+
+      // 英単語は単語単位、それ以外（日本語など）は文字単位で折り返す
+      const tokens = inline.text.replace(/\t/g, '　'.repeat(TAB_WIDTH_EM)).match(/[A-Za-z0-9.,'"!?:;()-]+|\s+|./gu) ?? []
+      for (const token of tokens) {
+        const tokenWidth = this.measure(token, inline.style.size)
+
+        if (current.width + tokenWidth <= available) {
+          addText(token, inline.style)
+          continue
+        }
+
+        // 行頭の空白は捨てる
+        if (/^\s+$/.test(token)) {
+          pushLine()
+          continue
+        }
+
+        if (current.items.length > 0) pushLine()
+
+        if (tokenWidth <= available) {
+          addText(token, inline.style)
+          continue
+        }
+
+        // 1行に収まらない長い単語は文字単位で分割
+        for (const char of Array.from(token)) {
+          const charWidth = this.measure(char, inline.style.size)
+          if (current.width + charWidth > available && current.items.length > 0) pushLine()
+          addText(char, inline.style)
+        }
+      }
+    }
+
+    if (current.items.length > 0 || lines.length === 0) pushLine()
+    return lines
+  }
+
+  /**
+   * 行を描画
+   */
+  private drawLine(line: Line, x: number, width: number, topY: number, align: Alignment): void {
+    let cursorX =
+      align === 'center' ? x + (width - line.width) / 2
+        : align === 'right' ? x + width - line.width
+          : x
+    const baseline = topY - line.ascent
+
+    for (const item of line.items) {
+      if (item.kind === 'image') {
+        this.page.drawImage(item.image, { x: cursorX, y: baseline, width: item.width, height: item.height })
+      } else if (item.text.trim() !== '') {
+        const options = { x: cursorX, y: baseline, size: item.style.size, font: this.font, color: item.style.color }
+        this.page.drawText(item.text, options)
+        if (item.style.bold) {
+          // 太字フォントを同梱していないため、わずかにずらして重ね描きする
+          this.page.drawText(item.text, { ...options, x: cursorX + item.style.size * FAUX_BOLD_OFFSET_RATIO })
+        }
+      }
+      cursorX += item.width
+    }
+  }
+
+  /**
+   * 段落を配置
+   */
+  async layoutParagraph(paragraph: ParagraphBlock): Promise<void> {
+    if (paragraph.pageBreakBefore && !this.atPageTop) this.newPage()
+
+    const lines = await this.breakLines(paragraph, this.contentWidth)
+    if (!this.atPageTop) this.cursorY -= paragraph.spaceBefore
+
+    for (const line of lines) {
+      if (this.cursorY - line.height < this.bottom && !this.atPageTop) this.newPage()
+      this.drawLine(
+        line,
+        this.setup.marginLeft + paragraph.indent,
+        this.contentWidth - paragraph.indent,
+        this.cursorY,
+        paragraph.align
+      )
+      this.cursorY -= line.height
+    }
+
+    this.cursorY -= paragraph.spaceAfter
+  }
+
+  /**
+   * 表を配置
+   */
+  async layoutTable(table: TableBlock): Promise<void> {
+    const columnCount = Math.max(
+      table.columnWidths.length,
+      ...table.rows.map((row) => row.cells.reduce((sum, cell) => sum + cell.span, 0))
+    )
+    if (columnCount === 0) return
+
+    // 列幅を本文幅に収まるよう調整
+    const gridTotal = table.columnWidths.reduce((sum, w) => sum + w, 0)
+    const widths = table.columnWidths.length === columnCount && gridTotal > 0
+      ? table.columnWidths.map((w) => w * Math.min(1, this.contentWidth / gridTotal))
+      : Array.from({ length: columnCount }, () => this.contentWidth / columnCount)
+
+    for (const row of table.rows) {
+      // セルごとに行分割して行の高さを決定
+      let column = 0
+      const cells: { x: number; width: number; lines: { line: Line; align: Alignment; indent: number }[] }[] = []
+      for (const cell of row.cells) {
+        const x = this.setup.marginLeft + widths.slice(0, column).reduce((sum, w) => sum + w, 0)
+        const width = widths.slice(column, column + cell.span).reduce((sum, w) => sum + w, 0)
+        const lines: { line: Line; align: Alignment; indent: number }[] = []
+        for (const paragraph of cell.paragraphs) {
+          for (const line of await this.breakLines(paragraph, width - CELL_PADDING * 2)) {
+            lines.push({ line, align: paragraph.align, indent: paragraph.indent })
+          }
+        }
+        cells.push({ x, width, lines })
+        column += cell.span
+      }
+
+      const rowHeight = Math.max(
+        ...cells.map((cell) => cell.lines.reduce((sum, l) => sum + l.line.height, 0) + CELL_PADDING * 2)
+      )
+      if (this.cursorY - rowHeight < this.bottom && !this.atPageTop) this.newPage()
+
+      for (const cell of cells) {
+        this.page.drawRectangle({
+          x: cell.x,
+          y: this.cursorY - rowHeight,
+          width: cell.width,
+          height: rowHeight,
+          borderColor: rgb(0, 0, 0),
+          borderWidth: 0.5,
+        })
+
+        let lineY = this.cursorY - CELL_PADDING
+        for (const { line, align, indent } of cell.lines) {
+          this.drawLine(
+            line,
+            cell.x + CELL_PADDING + indent,
+            cell.width - CELL_PADDING * 2 - indent,
+            lineY,
+            align
+          )
+          lineY -= line.height
+        }
+      }
+
+      this.cursorY -= rowHeight
+    }
+
+    this.cursorY -= DEFAULT_FONT_SIZE / 2
+  }
+}
+
+// ============================================================================
+// 公開API
+// ============================================================================
+
+/**
+ * ファイルがDOCXかどうかを判定
+ */
+export function isDocxFile(file: File): boolean {
+  return file.type === DOCX_MIME_TYPE || /\.docx$/i.test(file.name)
+}
+
+/**
+ * Word文書（.docx）をPDFに変換
+ *
+ * @param file - DOCXファイル
+ * @returns PDFのバイト列
+ */
+export async function convertDocxToPdf(file: File): Promise<Uint8Array> {
+  let zip: JSZip
+  try {
+    zip = await JSZip.loadAsync(await file.arrayBuffer())
+  } catch {
+    throw new Error('Word文書（.docx）として読み込めませんでした')
+  }
+
+  const readXml = async (path: string): Promise<Document | null> => {
+    const entry = zip.file(path)
+    return entry ? parseXml(await entry.async('string')) : null
+  }
+
+  const documentXml = await readXml('word/document.xml')
+  const body = documentXml?.getElementsByTagName('w:body')[0]
+  if (!body) {
+    throw new Error('Word文書の本文が見つかりません')
+  }
+
+  const { styles, defaultSize } = parseStyles(await readXml('word/styles.xml'))
+  const ctx: ParseContext = {
+    zip,
+    styles,
+    relationships: parseRelationships(await readXml('word/_rels/document.xml.rels')),
+    defaultSize,
+  }
+
+  const blocks: Block[] = []
+  await parseBody(ctx, body, blocks)
+
+  const pdfDoc = await PDFDocument.create()
+  const font = await embedJapaneseFont(pdfDoc)
+  const layout = new DocxLayout(pdfDoc, font, parsePageSetup(body))
+
+  for (const block of blocks) {
+    if (block.kind === 'paragraph') {
+      await layout.layoutParagraph(block)
+    } else if (block.kind === 'table') {
+      await layout.layoutTable(block)
+    } else {
+      layout.newPage()
+    }
+  }
+
+  const title = file.name.replace(/\.docx$/i, '')
+  pdfDoc.setTitle(title)
+
+  return pdfDoc.save()
+}
+
+/**
+ * DOCXファイルであればPDFに変換したFileを返す（PDFはそのまま返す）
+ *
+ * @param file - 入力ファイル
+ * @returns PDFファイル
+ */
+export async function ensurePdfFile(file: File): Promise<File> {
+  if (!isDocxFile(file)) return file
+
+  const pdfBytes = await convertDocxToPdf(file)
+  return new File([pdfBytes.buffer as ArrayBuffer], file.name.replace(/\.docx$/i, '.pdf'), {
+    type: 'application/pdf',
+  })
+}
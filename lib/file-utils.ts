@@ -4,6 +4,8 @@
  */
 
 import type { FileUpload } from '@/types'
+import { isImageFile } from '@/lib/image-to-pdf'
+import { isDocxFile } from '@/lib/docx-to-pdf'
 
 /**
  * バイト数を読みやすいファイルサイズに変換
@@ -23,7 +25,7 @@ export function fileToFileUpload(file: File, index: number): FileUpload {
     file,
     name: file.name,
     size: formatFileSize(file.size),
-    type: 'pdf',
+    type: isImageFile(file) ? 'image' : isDocxFile(file) ? 'docx' : 'pdf',
     status: 'pending',
   }
 }
@@ -49,18 +51,3 @@ export function downloadBlob(blob: Blob, filename: string): void {
   // ダウンロード開始を待ってからURLを解放（遅延解放）
   setTimeout(() => URL.revokeObjectURL(url), 1000)
 }
-
-/**
- * タイムスタンプ付きのファイル名を生成
- */
-export function generateMergedFilename(options: {
-  keepFilename?: boolean
-  baseFilename?: string
-}): string {
-  const timestamp = new Date().toISOString().slice(0, 10)
-  if (options.keepFilename && options.baseFilename) {
-    const baseName = options.baseFilename.replace(/\.pdf$/i, '')
-    return `${baseName}_merged_${timestamp}.pdf`
-  }
-  return `merged_${timestamp}.pdf`
-}
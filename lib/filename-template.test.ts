@@ -0,0 +1,30 @@
+/**
+ * ファイル名テンプレートのテスト
+ */
+
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { createFilenameGenerator, sanitizeFilename } from '@/lib/filename-template'
+
+describe('sanitizeFilename', () => {
+  it('予約デバイス名は大文字・小文字や拡張子の有無にかかわらず回避する', () => {
+    assert.equal(sanitizeFilename('CON'), '_CON')
+    assert.equal(sanitizeFilename('CON.txt'), '_CON.txt')
+    assert.equal(sanitizeFilename('nul.pdf'), '_nul.pdf')
+    assert.equal(sanitizeFilename('com1_part01'), '_com1_part01')
+    assert.equal(sanitizeFilename('Lpt9 report'), '_Lpt9 report')
+  })
+
+  it('予約名で始まるだけの名前はそのまま', () => {
+    assert.equal(sanitizeFilename('console'), 'console')
+    assert.equal(sanitizeFilename('auxiliary.v2'), 'auxiliary.v2')
+    assert.equal(sanitizeFilename('com10'), 'com10')
+  })
+})
+
+describe('createFilenameGenerator', () => {
+  it('テンプレートで予約名になるファイル名も回避する', () => {
+    const generate = createFilenameGenerator('{base}_part{index:02}')
+    assert.equal(generate({ base: 'com1', index: 1 }), '_com1_part01.pdf')
+  })
+})
@@ -0,0 +1,218 @@
+/**
+ * 出力ファイル名テンプレート
+ * 分割・結合・ページ番号挿入の出力ファイル名を `{base}_{index:03}.pdf` 形式のテンプレートから生成
+ */
+
+/** テンプレートに埋め込む値 */
+export interface FilenameTemplateValues {
+  /** 元のファイル名（拡張子なし） */
+  base: string
+  /** 連番（1始まり） */
+  index?: number
+  /** 出力するファイルの総数（{index:auto}の桁数に使用） */
+  total?: number
+  /** 開始ページ（1始まり） */
+  start?: number
+  /** 終了ページ（1始まり） */
+  end?: number
+  /** ページ数 */
+  pages?: number
+  /** しおりのタイトル */
+  title?: string
+  /** 日付（未指定の場合は現在日時） */
+  date?: Date
+}
+
+/** テンプレートで使えるトークン（入力欄のヘルプ表示用） */
+export const FILENAME_TEMPLATE_TOKENS = [
+  { token: '{base}', description: '元のファイル名' },
+  { token: '{index}', description: '連番（{index:03} で3桁、{index:auto} でファイル数の桁数に0埋め）' },
+  { token: '{start}', description: '開始ページ' },
+  { token: '{end}', description: '終了ページ' },
+  { token: '{range}', description: 'ページ範囲（例: 1-3）' },
+  { token: '{pages}', description: 'ページ数' },
+  { token: '{title}', description: 'しおりのタイトル（しおりで分割時）' },
+  { token: '{date}', description: '日付（{date:YYYYMMDD} で書式を指定）' },
+] as const
+
+/** トークンの書式（{name} または {name:書式}）。ページ番号・ヘッダー・フッターのテキストと共通 */
+export const TOKEN_PATTERN = /\{(\w+)(?::([^{}]*))?\}/g
+
+/** 認識するトークン名 */
+const TOKEN_NAMES = new Set(['base', 'index', 'start', 'end', 'range', 'pages', 'title', 'date'])
+
+/** ファイル名に使えない文字（Windowsの禁止文字・制御文字・ZIPのパス区切り） */
+const UNSAFE_CHARACTERS = /[\\/:*?"<>|\u0000-\u001f\u007f]/g
+
+/**
+ * Windowsの予約デバイス名
+ * 最初のドットより前が予約名なら拡張子が付いていても開けないため、
+ * 区切り文字が続く名前（CON.txt・com1_part01 など）も対象にする
+ */
+const RESERVED_NAMES = /^(con|prn|aux|nul|com\d|lpt\d)(?=$|[._\-\s])/i
+
+/** 拡張子を除いたファイル名の最大文字数 */
+const MAX_FILENAME_LENGTH = 200
+
+/**
+ * 数値を書式に従って0埋め（書式は桁数。例: "03" → 3桁）
+ */
+function formatNumber(value: number, format: string | undefined): string {
+  const width = format ? parseInt(format, 10) : 0
+  return Number.isNaN(width) ? String(value) : String(value).padStart(width, '0')
+}
+
+/**
+ * 日付を書式に従って整形（YYYY・MM・DD・HH・mm・ssを置換、未指定の場合はYYYY-MM-DD）
+ */
+export function formatDate(date: Date, format: string | undefined): string {
+  const pad = (value: number) => String(value).padStart(2, '0')
+  const parts: Record<string, string> = {
+    YYYY: String(date.getFullYear()),
+    MM: pad(date.getMonth() + 1),
+    DD: pad(date.getDate()),
+    HH: pad(date.getHours()),
+    mm: pad(date.getMinutes()),
+    ss: pad(date.getSeconds()),
+  }
+  return (format || 'YYYY-MM-DD').replace(/YYYY|MM|DD|HH|mm|ss/g, (key) => parts[key])
+}
+
+/**
+ * テンプレートを検証
+ *
+ * @param template - ファイル名テンプレート
+ * @returns エラーメッセージ（問題がない場合はnull）
+ */
+export function validateFilenameTemplate(template: string): string | null {
+  if (template.trim() === '') {
+    return 'ファイル名テンプレートを入力してください'
+  }
+
+  for (const match of template.matchAll(TOKEN_PATTERN)) {
+    if (!TOKEN_NAMES.has(match[1])) {
+      return `不明なトークンです: ${match[0]}`
+    }
+  }
+
+  return null
+}
+
+/**
+ * テンプレートに値を埋め込む（ファイル名として安全かどうかは確認しない）
+ * 値のないトークンは空文字に置き換え、{title}が空の場合は元のファイル名を使う
+ *
+ * @param template - ファイル名テンプレート
+ * @param values - 埋め込む値
+ * @returns 埋め込み後の文字列
+ */
+export function renderFilenameTemplate(template: string, values: FilenameTemplateValues): string {
+  return template.replace(TOKEN_PATTERN, (token, name: string, format: string | undefined) => {
+    switch (name) {
+      case 'base':
+        return values.base
+      case 'index':
+        if (values.index === undefined) return ''
+        return format === 'auto'
+          ? formatNumber(values.index, String(String(values.total ?? values.index).length))
+          : formatNumber(values.index, format)
+      case 'start':
+      case 'end':
+      case 'pages': {
+        const value = values[name]
+        return value === undefined ? '' : formatNumber(value, format)
+      }
+      case 'range':
+        if (values.start === undefined || values.end === undefined) return ''
+        return values.start === values.end
+          ? formatNumber(values.start, format)
+          : `${formatNumber(values.start, format)}-${formatNumber(values.end, format)}`
+      case 'title':
+        return values.title?.trim() || values.base
+      case 'date':
+        return formatDate(values.date ?? new Date(), format)
+      default:
+        return token
+    }
+  })
+}
+
+/**
+ * ファイル名に使えない文字を除去（Windows・ZIPで扱えるようにする）
+ *
+ * @param name - 拡張子を除いたファイル名
+ * @returns 安全なファイル名（空になった場合は "document"）
+ */
+export function sanitizeFilename(name: string): string {
+  let sanitized = name
+    .replace(UNSAFE_CHARACTERS, '_')
+    .replace(/\s+/g, ' ')
+    // Windowsでは末尾のドット・空白が削除されるため、先頭（隠しファイル扱い）とあわせて除く
+    .replace(/^[.\s]+|[.\s]+$/g, '')
+    .slice(0, MAX_FILENAME_LENGTH)
+    .trim()
+
+  if (RESERVED_NAMES.test(sanitized)) {
+    sanitized = `_${sanitized}`
+  }
+  return sanitized || 'document'
+}
+
+/**
+ * テンプレートからファイル名を生成する関数を作成
+ * 生成したファイル名を記録し、同じ名前（大文字・小文字の違いを含む）には末尾に番号を付けて区別する
+ *
+ * @param template - ファイル名テンプレート（拡張子は省略可）
+ * @param extension - 付与する拡張子
+ * @returns 値からファイル名を生成する関数
+ *
+ * @example
+ * const generate = createFilenameGenerator('{base}_{index:03}_{start}-{end}')
+ * generate({ base: 'report', index: 1, start: 1, end: 3 }) // => "report_001_1-3.pdf"
+ */
+export function createFilenameGenerator(
+  template: string,
+  extension: string = '.pdf'
+): (values: FilenameTemplateValues) => string {
+  const usedNames = new Set<string>()
+  const extensionPattern = new RegExp(`${extension.replace('.', '\\.')}$`, 'i')
+
+  return (values) => {
+    const name = sanitizeFilename(renderFilenameTemplate(template, values).replace(extensionPattern, ''))
+
+    let filename = `${name}${extension}`
+    for (let n = 2; usedNames.has(filename.toLowerCase()); n++) {
+      filename = `${name}_${n}${extension}`
+    }
+    usedNames.add(filename.toLowerCase())
+    return filename
+  }
+}
+
+/**
+ * 1つのファイルから1つのPDFを出力する処理の出力ファイル名を生成
+ *
+ * @param originalFilename - 元のファイル名
+ * @param pages - ページ数
+ * @param template - ファイル名テンプレート（未指定の場合は既定値）
+ * @param defaultTemplate - 既定のファイル名テンプレート
+ * @returns 出力ファイル名
+ */
+export function generateOutputFilename(
+  originalFilename: string,
+  pages: number,
+  template: string | undefined,
+  defaultTemplate: string
+): string {
+  return createFilenameGenerator(template?.trim() || defaultTemplate)({
+    base: removeExtension(originalFilename),
+    pages,
+  })
+}
+
+/**
+ * ファイル名から拡張子を除去
+ */
+export function removeExtension(filename: string): string {
+  return filename.replace(/\.[^./]+$/, '')
+}
@@ -0,0 +1,257 @@
+/**
+ * グレースケールJPEGエンコーダー
+ * Canvasはカラー（3成分）のJPEGしか出力できないため、1成分のベースラインJPEGを直接生成する
+ */
+
+/** ジグザグ順に並べた8x8ブロック内の位置 */
+const ZIGZAG = [
+  0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5,
+  12, 19, 26, 33, 40, 48, 41, 34, 27, 20, 13, 6, 7, 14, 21, 28,
+  35, 42, 49, 56, 57, 50, 43, 36, 29, 22, 15, 23, 30, 37, 44, 51,
+  58, 59, 52, 45, 38, 31, 39, 46, 53, 60, 61, 54, 47, 55, 62, 63,
+]
+
+/** 輝度の標準量子化テーブル（JPEG規格 Annex K） */
+const LUMINANCE_QUANTIZATION = [
+  16, 11, 10, 16, 24, 40, 51, 61,
+  12, 12, 14, 19, 26, 58, 60, 55,
+  14, 13, 16, 24, 40, 57, 69, 56,
+  14, 17, 22, 29, 51, 87, 80, 62,
+  18, 22, 37, 56, 68, 109, 103, 77,
+  24, 35, 55, 64, 81, 104, 113, 92,
+  49, 64, 78, 87, 103, 121, 120, 101,
+  72, 92, 95, 98, 112, 100, 103, 99,
+]
+
+/** 輝度DC成分の標準ハフマンテーブル（符号長ごとの個数・値） */
+const DC_LUMINANCE_COUNTS = [0, 1, 5, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0, 0, 0]
+const DC_LUMINANCE_VALUES = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11]
+
+/** 輝度AC成分の標準ハフマンテーブル（符号長ごとの個数・値） */
+const AC_LUMINANCE_COUNTS = [0, 2, 1, 3, 3, 2, 4, 3, 5, 5, 4, 4, 0, 0, 1, 0x7d]
+const AC_LUMINANCE_VALUES = [
+  0x01, 0x02, 0x03, 0x00, 0x04, 0x11, 0x05, 0x12, 0x21, 0x31, 0x41, 0x06, 0x13, 0x51, 0x61, 0x07,
+  0x22, 0x71, 0x14, 0x32, 0x81, 0x91, 0xa1, 0x08, 0x23, 0x42, 0xb1, 0xc1, 0x15, 0x52, 0xd1, 0xf0,
+  0x24, 0x33, 0x62, 0x72, 0x82, 0x09, 0x0a, 0x16, 0x17, 0x18, 0x19, 0x1a, 0x25, 0x26, 0x27, 0x28,
+  0x29, 0x2a, 0x34, 0x35, 0x36, 0x37, 0x38, 0x39, 0x3a, 0x43, 0x44, 0x45, 0x46, 0x47, 0x48, 0x49,
+  0x4a, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59, 0x5a, 0x63, 0x64, 0x65, 0x66, 0x67, 0x68, 0x69,
+  0x6a, 0x73, 0x74, 0x75, 0x76, 0x77, 0x78, 0x79, 0x7a, 0x83, 0x84, 0x85, 0x86, 0x87, 0x88, 0x89,
+  0x8a, 0x92, 0x93, 0x94, 0x95, 0x96, 0x97, 0x98, 0x99, 0x9a, 0xa2, 0xa3, 0xa4, 0xa5, 0xa6, 0xa7,
+  0xa8, 0xa9, 0xaa, 0xb2, 0xb3, 0xb4, 0xb5, 0xb6, 0xb7, 0xb8, 0xb9, 0xba, 0xc2, 0xc3, 0xc4, 0xc5,
+  0xc6, 0xc7, 0xc8, 0xc9, 0xca, 0xd2, 0xd3, 0xd4, 0xd5, 0xd6, 0xd7, 0xd8, 0xd9, 0xda, 0xe1, 0xe2,
+  0xe3, 0xe4, 0xe5, 0xe6, 0xe7, 0xe8, 0xe9, 0xea, 0xf1, 0xf2, 0xf3, 0xf4, 0xf5, 0xf6, 0xf7, 0xf8,
+  0xf9, 0xfa,
+]
+
+/** ハフマン符号（値ごとの符号と符号長） */
+interface HuffmanTable {
+  codes: number[]
+  lengths: number[]
+}
+
+/** DCTの余弦係数（cos((2x+1)uπ/16) に正規化係数を掛けたもの） */
+const DCT_COEFFICIENTS = (() => {
+  const table = new Float64Array(64)
+  for (let u = 0; u < 8; u++) {
+    const scale = u === 0 ? Math.SQRT1_2 / 2 : 0.5
+    for (let x = 0; x < 8; x++) {
+      table[u * 8 + x] = scale * Math.cos(((2 * x + 1) * u * Math.PI) / 16)
+    }
+  }
+  return table
+})()
+
+/**
+ * 符号長ごとの個数から標準的なハフマン符号を生成
+ */
+function buildHuffmanTable(counts: number[], values: number[]): HuffmanTable {
+  const codes: number[] = []
+  const lengths: number[] = []
+  let code = 0
+  let index = 0
+
+  for (let length = 1; length <= 16; length++) {
+    for (let i = 0; i < counts[length - 1]; i++) {
+      codes[values[index]] = code
+      lengths[values[index]] = length
+      code++
+      index++
+    }
+    code <<= 1
+  }
+
+  return { codes, lengths }
+}
+
+const DC_TABLE = buildHuffmanTable(DC_LUMINANCE_COUNTS, DC_LUMINANCE_VALUES)
+const AC_TABLE = buildHuffmanTable(AC_LUMINANCE_COUNTS, AC_LUMINANCE_VALUES)
+
+/**
+ * 品質（0-1）から量子化テーブルを生成（IJGと同じ換算）
+ */
+function buildQuantizationTable(quality: number): number[] {
+  const percent = Math.min(100, Math.max(1, Math.round(quality * 100)))
+  const scale = percent < 50 ? 5000 / percent : 200 - percent * 2
+
+  return LUMINANCE_QUANTIZATION.map((value) =>
+    Math.min(255, Math.max(1, Math.floor((value * scale + 50) / 100)))
+  )
+}
+
+/**
+ * エントロピー符号化データの書き込み（0xFFの後には0x00を挿入する）
+ */
+class BitWriter {
+  private bytes: number[] = []
+  private buffer = 0
+  private bufferLength = 0
+
+  write(code: number, length: number): void {
+    for (let i = length - 1; i >= 0; i--) {
+      this.buffer = (this.buffer << 1) | ((code >> i) & 1)
+      this.bufferLength++
+      if (this.bufferLength === 8) {
+        this.bytes.push(this.buffer)
+        if (this.buffer === 0xff) this.bytes.push(0)
+        this.buffer = 0
+        this.bufferLength = 0
+      }
+    }
+  }
+
+  /** 残りのビットを1で埋めて出力 */
+  finish(): number[] {
+    if (this.bufferLength > 0) {
+      this.write((1 << (8 - this.bufferLength)) - 1, 8 - this.bufferLength)
+    }
+    return this.bytes
+  }
+}
+
+/**
+ * 値を表現するのに必要なビット数（JPEGのカテゴリ）
+ */
+function bitLength(value: number): number {
+  let magnitude = Math.abs(value)
+  let length = 0
+  while (magnitude > 0) {
+    magnitude >>= 1
+    length++
+  }
+  return length
+}
+
+/**
+ * 係数を符号化（負の値は1の補数表現）
+ */
+function writeCoefficient(writer: BitWriter, value: number, length: number): void {
+  if (length === 0) return
+  writer.write(value < 0 ? value + (1 << length) - 1 : value, length)
+}
+
+/**
+ * マーカーセグメントを生成
+ */
+function segment(marker: number, payload: number[]): number[] {
+  const length = payload.length + 2
+  return [0xff, marker, length >> 8, length & 0xff, ...payload]
+}
+
+/**
+ * グレースケールの画素データをベースラインJPEGにエンコード
+ *
+ * @param pixels - 1画素1バイトの輝度データ（幅×高さ）
+ * @param width - 画像の幅
+ * @param height - 画像の高さ
+ * @param quality - 品質（0-1）
+ * @returns JPEGデータ
+ */
+export function encodeGrayscaleJpeg(
+  pixels: Uint8Array,
+  width: number,
+  height: number,
+  quality: number
+): Uint8Array {
+  const quantization = buildQuantizationTable(quality)
+  const writer = new BitWriter()
+  const block = new Float64Array(64)
+  const rows = new Float64Array(64)
+  let previousDc = 0
+
+  for (let blockY = 0; blockY < height; blockY += 8) {
+    for (let blockX = 0; blockX < width; blockX += 8) {
+      // 端のブロックは最終行・最終列を繰り返して埋める
+      for (let y = 0; y < 8; y++) {
+        const rowOffset = Math.min(blockY + y, height - 1) * width
+        for (let x = 0; x < 8; x++) {
+          block[y * 8 + x] = pixels[rowOffset + Math.min(blockX + x, width - 1)] - 128
+        }
+      }
+
+      // 2次元DCT（行方向→列方向）
+      for (let y = 0; y < 8; y++) {
+        for (let u = 0; u < 8; u++) {
+          let sum = 0
+          for (let x = 0; x < 8; x++) sum += DCT_COEFFICIENTS[u * 8 + x] * block[y * 8 + x]
+          rows[y * 8 + u] = sum
+        }
+      }
+
+      // 量子化してジグザグ順に符号化
+      const coefficients = new Array<number>(64)
+      for (let v = 0; v < 8; v++) {
+        for (let u = 0; u < 8; u++) {
+          let sum = 0
+          for (let y = 0; y < 8; y++) sum += DCT_COEFFICIENTS[v * 8 + y] * rows[y * 8 + u]
+          coefficients[v * 8 + u] = Math.round(sum / quantization[v * 8 + u])
+        }
+      }
+
+      const dcDiff = coefficients[0] - previousDc
+      previousDc = coefficients[0]
+      const dcLength = bitLength(dcDiff)
+      writer.write(DC_TABLE.codes[dcLength], DC_TABLE.lengths[dcLength])
+      writeCoefficient(writer, dcDiff, dcLength)
+
+      let zeroRun = 0
+      for (let k = 1; k < 64; k++) {
+        const value = coefficients[ZIGZAG[k]]
+        if (value === 0) {
+          zeroRun++
+          continue
+        }
+        while (zeroRun >= 16) {
+          writer.write(AC_TABLE.codes[0xf0], AC_TABLE.lengths[0xf0])
+          zeroRun -= 16
+        }
+        const length = bitLength(value)
+        const symbol = (zeroRun << 4) | length
+        writer.write(AC_TABLE.codes[symbol], AC_TABLE.lengths[symbol])
+        writeCoefficient(writer, value, length)
+        zeroRun = 0
+      }
+      if (zeroRun > 0) {
+        writer.write(AC_TABLE.codes[0], AC_TABLE.lengths[0])
+      }
+    }
+  }
+
+  const scanData = writer.finish()
+
+  const bytes = [
+    0xff, 0xd8,
+    ...segment(0xdb, [0x00, ...ZIGZAG.map((index) => quantization[index])]),
+    ...segment(0xc0, [8, height >> 8, height & 0xff, width >> 8, width & 0xff, 1, 1, 0x11, 0]),
+    ...segment(0xc4, [
+      0x00, ...DC_LUMINANCE_COUNTS, ...DC_LUMINANCE_VALUES,
+      0x10, ...AC_LUMINANCE_COUNTS, ...AC_LUMINANCE_VALUES,
+    ]),
+    ...segment(0xda, [1, 1, 0x00, 0, 63, 0]),
+  ]
+
+  const result = new Uint8Array(bytes.length + scanData.length + 2)
+  result.set(bytes)
+  result.set(scanData, bytes.length)
+  result.set([0xff, 0xd9], bytes.length + scanData.length)
+  return result
+}
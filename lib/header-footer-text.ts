@@ -0,0 +1,107 @@
+/**
+ * ヘッダー・フッターのテキスト
+ * `{filename}`・`{date}`・`{page}`・`{total}`・`{text}` を含むテキストから各ページに描画する文字列を生成
+ */
+
+import type { HeaderFooterRule } from '@/types'
+import { TOKEN_PATTERN, formatDate, removeExtension } from '@/lib/filename-template'
+import { hasNonWinAnsiText } from '@/lib/pdf-fonts'
+
+/** テキストで使えるトークン（入力欄のヘルプ表示用） */
+export const HEADER_FOOTER_TOKENS = [
+  { token: '{filename}', description: '元のファイル名（拡張子なし）' },
+  { token: '{date}', description: '処理した日付（{date:YYYY/MM/DD} で書式を指定）' },
+  { token: '{page}', description: 'ページ番号（{page:03} で3桁に0埋め）' },
+  { token: '{total}', description: '総ページ数' },
+  { token: '{text}', description: '任意のテキスト（下の「任意のテキスト」欄の内容）' },
+] as const
+
+/** テキストに埋め込む値 */
+export interface HeaderFooterTextValues {
+  /** 元のファイル名 */
+  filename: string
+  /** 日付 */
+  date: Date
+  /** 1ベースのページ番号 */
+  page: number
+  /** 総ページ数 */
+  total: number
+  /** 任意のテキスト */
+  text: string
+}
+
+/** 認識するトークン名 */
+const TOKEN_NAMES = new Set(['filename', 'date', 'page', 'total', 'text'])
+
+/**
+ * テキストを検証
+ *
+ * @param text - ヘッダー・フッターのテキスト
+ * @returns エラーメッセージ（問題がない場合はnull）
+ */
+export function validateHeaderFooterText(text: string): string | null {
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    if (!TOKEN_NAMES.has(match[1])) {
+      return `不明なトークンです: ${match[0]}`
+    }
+    if ((match[1] === 'page' || match[1] === 'total') && match[2] !== undefined && !/^\d{1,2}$/.test(match[2])) {
+      return `桁数は数字で指定してください: ${match[0]}`
+    }
+  }
+
+  return null
+}
+
+/**
+ * テキストに値を埋め込む
+ *
+ * @param text - ヘッダー・フッターのテキスト
+ * @param values - 埋め込む値
+ * @returns 描画する文字列
+ */
+export function renderHeaderFooterText(text: string, values: HeaderFooterTextValues): string {
+  return text.replace(TOKEN_PATTERN, (token, name: string, format: string | undefined) => {
+    switch (name) {
+      case 'filename':
+        return removeExtension(values.filename)
+      case 'date':
+        return formatDate(values.date, format)
+      case 'page':
+      case 'total':
+        return String(values[name]).padStart(format ? parseInt(format, 10) : 0, '0')
+      case 'text':
+        return values.text
+      default:
+        return token
+    }
+  })
+}
+
+/**
+ * 規則に入力されたテキストがあるかを判定
+ *
+ * @param rule - ヘッダー・フッターの規則
+ * @returns いずれかの配置にテキストがある場合はtrue
+ */
+export function hasHeaderFooterText(rule: HeaderFooterRule): boolean {
+  return Object.values(rule.slots).some((text) => text.trim() !== '')
+}
+
+/**
+ * 標準フォント（Helvetica）では描画できない文字を含むかを判定
+ * ファイル名や任意のテキストに日本語などを含む場合は日本語フォントが必要
+ *
+ * @param rules - ヘッダー・フッターの規則
+ * @param values - 埋め込む値（ページ番号によらない値のみ使用）
+ * @returns 日本語に対応したフォントが必要な場合はtrue
+ */
+export function requiresJapaneseFont(
+  rules: HeaderFooterRule[],
+  values: Pick<HeaderFooterTextValues, 'filename' | 'text'>
+): boolean {
+  return rules.some((rule) =>
+    Object.values(rule.slots).some((text) =>
+      hasNonWinAnsiText(renderHeaderFooterText(text, { ...values, date: new Date(), page: 1, total: 1 }))
+    )
+  )
+}
@@ -0,0 +1,191 @@
+/**
+ * 画像→PDF変換ライブラリ
+ * pdf-libを使用してラスター画像を1ページのPDFとして追加
+ */
+
+import { PDFDocument, PageSizes, type PDFImage } from 'pdf-lib'
+import { PDF_MERGE_CONSTANTS } from '@/lib/constants'
+import { canvasToBlob, createCanvas2D, releaseCanvas, type Canvas2D } from '@/lib/canvas-utils'
+import type { ImagePageSize } from '@/types'
+
+/** 用紙サイズに合わせる場合の余白 (PDFユニット) */
+const FIT_PAGE_MARGIN = 24
+
+/** 再エンコード時のJPEG品質 */
+const REENCODE_JPEG_QUALITY = 0.92
+
+/** 用紙サイズ（縦向き、PDFユニット） */
+const PAGE_SIZES: Record<Exclude<ImagePageSize, 'original'>, [number, number]> = {
+  a4: PageSizes.A4,
+  letter: PageSizes.Letter,
+}
+
+/**
+ * ファイルが画像かどうかを判定（MIMEタイプまたは拡張子）
+ */
+export function isImageFile(file: File): boolean {
+  const allowedTypes: readonly string[] = PDF_MERGE_CONSTANTS.ALLOWED_IMAGE_TYPES
+  const allowedExtensions: readonly string[] = PDF_MERGE_CONSTANTS.ALLOWED_IMAGE_EXTENSIONS
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? ''
+  return allowedTypes.includes(file.type) || allowedExtensions.includes(extension)
+}
+
+/**
+ * JPEGのEXIF Orientationタグを読み取る
+ *
+ * @param bytes - JPEGバイト列
+ * @returns Orientation値（1-8、タグがない場合は1）
+ */
+export function readJpegOrientation(bytes: Uint8Array): number {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return 1
+
+  let offset = 2
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset)
+    const segmentLength = view.getUint16(offset + 2)
+
+    // APP1 (Exif)
+    if (marker === 0xffe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+      const tiffStart = offset + 10
+      if (tiffStart + 8 > view.byteLength) return 1
+
+      const littleEndian = view.getUint16(tiffStart) === 0x4949
+      const ifdOffset = view.getUint32(tiffStart + 4, littleEndian)
+      const ifdStart = tiffStart + ifdOffset
+      if (ifdStart + 2 > view.byteLength) return 1
+
+      const entryCount = view.getUint16(ifdStart, littleEndian)
+      for (let i = 0; i < entryCount; i++) {
+        const entry = ifdStart + 2 + i * 12
+        if (entry + 12 > view.byteLength) return 1
+        if (view.getUint16(entry, littleEndian) === 0x0112) {
+          const orientation = view.getUint16(entry + 8, littleEndian)
+          return orientation >= 1 && orientation <= 8 ? orientation : 1
+        }
+      }
+      return 1
+    }
+
+    // SOS以降は画像データのためEXIFは存在しない
+    if (marker === 0xffda || (marker & 0xff00) !== 0xff00) return 1
+    offset += 2 + segmentLength
+  }
+
+  return 1
+}
+
+/**
+ * ブラウザで画像をデコードし、向きを補正した上で再エンコード
+ * EXIFの向き情報はcreateImageBitmapで適用される
+ */
+async function reencodeImage(file: File, format: 'image/jpeg' | 'image/png'): Promise<Uint8Array> {
+  let bitmap: ImageBitmap
+  try {
+    bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' })
+  } catch {
+    const extension = file.name.split('.').pop()?.toUpperCase() ?? ''
+    throw new Error(
+      extension === 'HEIC' || extension === 'HEIF'
+        ? 'このブラウザはHEIC画像の読み込みに対応していません'
+        : '画像の読み込みに失敗しました'
+    )
+  }
+
+  let canvas2D: Canvas2D
+  try {
+    canvas2D = createCanvas2D(bitmap.width, bitmap.height)
+  } catch (error) {
+    bitmap.close()
+    throw error
+  }
+  const { canvas, context } = canvas2D
+
+  if (format === 'image/jpeg') {
+    // JPEGは透過をサポートしないため白背景にする
+    context.fillStyle = '#FFFFFF'
+    context.fillRect(0, 0, canvas.width, canvas.height)
+  }
+  context.drawImage(bitmap, 0, 0)
+  bitmap.close()
+
+  const blob = await canvasToBlob(canvas, format, REENCODE_JPEG_QUALITY)
+
+  // Canvasを解放
+  releaseCanvas(canvas)
+
+  return new Uint8Array(await blob.arrayBuffer())
+}
+
+/**
+ * 画像ファイルをPDFに埋め込む
+ * JPEG（向き補正不要）とPNGはそのまま、それ以外はCanvasで再エンコードして埋め込む
+ */
+export async function embedImageFile(pdfDoc: PDFDocument, file: File): Promise<PDFImage> {
+  const bytes = new Uint8Array(await file.arrayBuffer())
+  const isJpeg = bytes[0] === 0xff && bytes[1] === 0xd8
+  const isPng = bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47
+
+  if (isJpeg) {
+    return readJpegOrientation(bytes) === 1
+      ? pdfDoc.embedJpg(bytes)
+      : pdfDoc.embedJpg(await reencodeImage(file, 'image/jpeg'))
+  }
+  if (isPng) {
+    return pdfDoc.embedPng(bytes)
+  }
+
+  // WebPなどは透過を保持できるPNG、HEICは写真のためJPEGで再エンコード
+  const extension = file.name.split('.').pop()?.toLowerCase()
+  const isHeic = file.type === 'image/heic' || file.type === 'image/heif' ||
+    extension === 'heic' || extension === 'heif'
+
+  return isHeic
+    ? pdfDoc.embedJpg(await reencodeImage(file, 'image/jpeg'))
+    : pdfDoc.embedPng(await reencodeImage(file, 'image/png'))
+}
+
+/**
+ * 画像を1ページとしてPDFに追加
+ *
+ * @param pdfDoc - 追加先のPDFドキュメント
+ * @param file - 画像ファイル
+ * @param pageSize - ページサイズ（用紙に合わせる、または画像の元サイズ）
+ */
+export async function addImagePage(
+  pdfDoc: PDFDocument,
+  file: File,
+  pageSize: ImagePageSize
+): Promise<void> {
+  const image = await embedImageFile(pdfDoc, file)
+
+  // 画像の元サイズ（1px = 1pt）のページ
+  if (pageSize === 'original') {
+    const page = pdfDoc.addPage([image.width, image.height])
+    page.drawImage(image, { x: 0, y: 0, width: image.width, height: image.height })
+    return
+  }
+
+  // 画像の向きに合わせて用紙を縦横切り替え
+  const [shortSide, longSide] = PAGE_SIZES[pageSize]
+  const landscape = image.width > image.height
+  const pageWidth = landscape ? longSide : shortSide
+  const pageHeight = landscape ? shortSide : longSide
+
+  // 余白内に収まるよう縮小（拡大はしない）
+  const scale = Math.min(
+    (pageWidth - FIT_PAGE_MARGIN * 2) / image.width,
+    (pageHeight - FIT_PAGE_MARGIN * 2) / image.height,
+    1
+  )
+  const width = image.width * scale
+  const height = image.height * scale
+
+  const page = pdfDoc.addPage([pageWidth, pageHeight])
+  page.drawImage(image, {
+    x: (pageWidth - width) / 2,
+    y: (pageHeight - height) / 2,
+    width,
+    height,
+  })
+}
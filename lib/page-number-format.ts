@@ -0,0 +1,250 @@
+/**
+ * ページ番号の書式
+ * `- {n} -` や `{n} / {total} ページ` 形式のテンプレートと数字の表記（ローマ数字・漢数字など）からページ番号の文字列を生成
+ */
+
+import type { BatesOptions, NumberStyle, PdfNumberingOptions } from '@/types'
+import { TOKEN_PATTERN } from '@/lib/filename-template'
+import { hasNonWinAnsiText } from '@/lib/pdf-fonts'
+
+/** 既定の書式 */
+export const DEFAULT_PAGE_NUMBER_FORMAT = '{n}'
+
+/** 書式で使えるトークン（入力欄のヘルプ表示用） */
+export const PAGE_NUMBER_FORMAT_TOKENS = [
+  { token: '{n}', description: 'ページ番号（{n:03} で3桁に0埋め）' },
+  { token: '{total}', description: '番号を付けるページの総数' },
+] as const
+
+/** よく使う書式 */
+export const PAGE_NUMBER_FORMAT_PRESETS = [
+  '{n}',
+  '- {n} -',
+  '{n} / {total}',
+  'Page {n} of {total}',
+  '{n} / {total} ページ',
+  '第{n}頁',
+] as const
+
+/** 数字の表記の表示名 */
+export const NUMBER_STYLE_LABELS: Record<NumberStyle, string> = {
+  arabic: '1, 2, 3',
+  'roman-lower': 'i, ii, iii',
+  'roman-upper': 'I, II, III',
+  'alpha-lower': 'a, b, c',
+  'alpha-upper': 'A, B, C',
+  fullwidth: '１, ２, ３',
+  kanji: '一, 二, 三',
+}
+
+/** 認識するトークン名 */
+const TOKEN_NAMES = new Set(['n', 'total'])
+
+/** ローマ数字で表せる最大値 */
+const MAX_ROMAN = 3999
+
+/** ローマ数字の記号と値（大きい順） */
+const ROMAN_NUMERALS: Array<[string, number]> = [
+  ['M', 1000], ['CM', 900], ['D', 500], ['CD', 400],
+  ['C', 100], ['XC', 90], ['L', 50], ['XL', 40],
+  ['X', 10], ['IX', 9], ['V', 5], ['IV', 4], ['I', 1],
+]
+
+/** 漢数字 */
+const KANJI_DIGITS = ['〇', '一', '二', '三', '四', '五', '六', '七', '八', '九']
+const KANJI_UNITS = ['', '十', '百', '千']
+const KANJI_LARGE_UNITS = ['', '万', '億']
+
+/**
+ * ローマ数字に変換（範囲外の場合はアラビア数字）
+ */
+function toRoman(value: number): string {
+  if (value < 1 || value > MAX_ROMAN) return String(value)
+
+  let rest = value
+  let result = ''
+  for (const [symbol, amount] of ROMAN_NUMERALS) {
+    while (rest >= amount) {
+      result += symbol
+      rest -= amount
+    }
+  }
+  return result
+}
+
+/**
+ * アルファベットに変換（a, b, …, z, aa, ab, …、1未満の場合はアラビア数字）
+ */
+function toAlpha(value: number): string {
+  if (value < 1) return String(value)
+
+  let rest = value
+  let result = ''
+  while (rest > 0) {
+    rest -= 1
+    result = String.fromCharCode(97 + (rest % 26)) + result
+    rest = Math.floor(rest / 26)
+  }
+  return result
+}
+
+/**
+ * 漢数字に変換（十・百・千・万・億の位取りを使う。例: 2024 → 二千二十四）
+ */
+function toKanji(value: number): string {
+  if (value === 0) return KANJI_DIGITS[0]
+  if (value < 0) return String(value)
+
+  let rest = value
+  let result = ''
+  for (let group = 0; rest > 0 && group < KANJI_LARGE_UNITS.length; group++) {
+    const groupValue = rest % 10000
+    rest = Math.floor(rest / 10000)
+    if (groupValue === 0) continue
+
+    let groupText = ''
+    for (let position = 3; position >= 0; position--) {
+      const digit = Math.floor(groupValue / 10 ** position) % 10
+      if (digit === 0) continue
+      // 十・百・千の前の「一」は省略する（一万の「一」は残す）
+      groupText += (digit === 1 && position > 0 ? '' : KANJI_DIGITS[digit]) + KANJI_UNITS[position]
+    }
+    result = groupText + KANJI_LARGE_UNITS[group] + result
+  }
+  return result
+}
+
+/**
+ * 数字を全角に変換
+ */
+function toFullwidth(text: string): string {
+  return text.replace(/[0-9-]/g, (char) =>
+    char === '-' ? '－' : String.fromCharCode(char.charCodeAt(0) + 0xfee0)
+  )
+}
+
+/**
+ * 数値を指定した表記に変換
+ *
+ * @param value - 数値
+ * @param style - 数字の表記
+ * @param minDigits - 0埋めする桁数（アラビア数字・全角数字のみ）
+ * @returns 変換後の文字列
+ */
+export function formatNumberStyle(value: number, style: NumberStyle = 'arabic', minDigits = 0): string {
+  switch (style) {
+    case 'roman-lower':
+      return toRoman(value).toLowerCase()
+    case 'roman-upper':
+      return toRoman(value)
+    case 'alpha-lower':
+      return toAlpha(value)
+    case 'alpha-upper':
+      return toAlpha(value).toUpperCase()
+    case 'kanji':
+      return toKanji(value)
+    case 'fullwidth':
+      return toFullwidth(String(value).padStart(minDigits, '0'))
+    default:
+      return String(value).padStart(minDigits, '0')
+  }
+}
+
+/**
+ * Bates番号を生成（接頭辞＋0埋めした番号＋接尾辞）
+ *
+ * @param value - 番号
+ * @param bates - Bates番号の設定
+ * @returns Bates番号（例: ABC-000123）
+ */
+export function formatBatesNumber(value: number, bates: BatesOptions): string {
+  return `${bates.prefix}${String(value).padStart(bates.digits, '0')}${bates.suffix}`
+}
+
+/**
+ * 書式を検証
+ *
+ * @param format - ページ番号の書式
+ * @returns エラーメッセージ（問題がない場合はnull）
+ */
+export function validatePageNumberFormat(format: string): string | null {
+  if (format.trim() === '') {
+    return 'ページ番号の書式を入力してください'
+  }
+
+  for (const match of format.matchAll(TOKEN_PATTERN)) {
+    if (!TOKEN_NAMES.has(match[1])) {
+      return `不明なトークンです: ${match[0]}`
+    }
+    if (match[2] !== undefined && !/^\d{1,2}$/.test(match[2])) {
+      return `桁数は数字で指定してください: ${match[0]}`
+    }
+  }
+
+  return null
+}
+
+/**
+ * 書式に番号を埋め込む
+ *
+ * @param format - ページ番号の書式
+ * @param values - ページ番号と番号を付けるページの総数
+ * @param style - 数字の表記
+ * @returns ページ番号の文字列
+ */
+export function renderPageNumberFormat(
+  format: string,
+  values: { n: number; total: number },
+  style: NumberStyle = 'arabic'
+): string {
+  return format.replace(TOKEN_PATTERN, (token, name: string, digits: string | undefined) => {
+    if (!TOKEN_NAMES.has(name)) return token
+    const minDigits = digits ? parseInt(digits, 10) : 0
+    return formatNumberStyle(name === 'n' ? values.n : values.total, style, minDigits)
+  })
+}
+
+/**
+ * ページに描画するページ番号の文字列を生成
+ * Bates番号を指定した場合はBates番号、それ以外は書式に従う（{total}は番号を付けるページ（開始ページ以降）の数）
+ *
+ * @param options - ページ番号オプション
+ * @param pageNumber - 1ベースのページ番号
+ * @param totalPages - PDFの総ページ数
+ * @returns ページ番号の文字列
+ */
+export function getPageNumberLabel(
+  options: Pick<PdfNumberingOptions, 'startNumber' | 'startFromPage' | 'format' | 'numberStyle' | 'bates'>,
+  pageNumber: number,
+  totalPages: number
+): string {
+  if (options.bates) {
+    return formatBatesNumber(options.startNumber + (pageNumber - options.startFromPage), options.bates)
+  }
+
+  return renderPageNumberFormat(
+    options.format?.trim() || DEFAULT_PAGE_NUMBER_FORMAT,
+    {
+      n: options.startNumber + (pageNumber - options.startFromPage),
+      total: Math.max(0, totalPages - options.startFromPage + 1),
+    },
+    options.numberStyle
+  )
+}
+
+/**
+ * 標準フォント（Helvetica）では描画できない文字を含むかを判定
+ * 漢数字・全角数字の表記や、書式に日本語などを含む場合は日本語フォントが必要
+ *
+ * @param options - ページ番号オプション
+ * @returns 日本語に対応したフォントが必要な場合はtrue
+ */
+export function requiresJapaneseFont(
+  options: Pick<PdfNumberingOptions, 'format' | 'numberStyle' | 'bates'>
+): boolean {
+  if (options.bates) {
+    return hasNonWinAnsiText(options.bates.prefix + options.bates.suffix)
+  }
+  if (options.numberStyle === 'kanji' || options.numberStyle === 'fullwidth') return true
+  return hasNonWinAnsiText(options.format ?? '')
+}
@@ -0,0 +1,65 @@
+/**
+ * 一括処理ライブラリ
+ * 複数ファイルを同時実行数を制限して処理し、出力を1つのZIPにまとめる
+ */
+
+import type { BatchOutput } from '@/types'
+import { createFilenameGenerator, removeExtension } from '@/lib/filename-template'
+
+/**
+ * 同時実行数を制限して処理を実行
+ * 処理が失敗しても残りの項目は続行し、キャンセル後は新しい項目を開始しない
+ * （個々の処理の成否はtask側で記録する）
+ *
+ * @param count - 項目数
+ * @param concurrency - 同時に実行する処理の数
+ * @param task - 各項目の処理（0始まりのインデックスを受け取る）
+ * @param signal - キャンセル用シグナル
+ */
+export async function runWithConcurrency(
+  count: number,
+  concurrency: number,
+  task: (index: number) => Promise<void>,
+  signal?: AbortSignal
+): Promise<void> {
+  let nextIndex = 0
+
+  const runNext = async (): Promise<void> => {
+    while (nextIndex < count && !signal?.aborted) {
+      const index = nextIndex++
+      try {
+        await task(index)
+      } catch {
+        // 失敗した項目はtask側で記録済みのため、次の項目へ進む
+      }
+    }
+  }
+
+  const workerCount = Math.max(1, Math.min(concurrency, count))
+  await Promise.all(Array.from({ length: workerCount }, () => runNext()))
+}
+
+/**
+ * 一括処理の出力をZIPに格納する際のファイル名を決める
+ * 出力が1つのファイルはZIPの直下に、複数ある場合（分割など）は元のファイル名のフォルダに格納する
+ * 同じ名前になったファイル・フォルダには末尾に番号を付けて区別する
+ *
+ * @param entries - 元のファイル名と、そのファイルから生成したファイル
+ * @returns ZIPに格納するファイル（ファイル名をZIP内のパスに置き換えたもの）
+ */
+export function getBatchZipEntries(
+  entries: Array<{ sourceName: string; outputs: BatchOutput[] }>
+): BatchOutput[] {
+  const generateFilename = createFilenameGenerator('{base}')
+  const generateFolderName = createFilenameGenerator('{base}', '')
+
+  return entries.flatMap(({ sourceName, outputs }) => {
+    if (outputs.length === 1) {
+      const [output] = outputs
+      return [{ ...output, filename: generateFilename({ base: removeExtension(output.filename) }) }]
+    }
+
+    const folder = generateFolderName({ base: removeExtension(sourceName) })
+    return outputs.map((output) => ({ ...output, filename: `${folder}/${output.filename}` }))
+  })
+}
@@ -0,0 +1,166 @@
+/**
+ * 空白ページ検出ライブラリ
+ * pdf.jsでページを縮小レンダリングし、インク率（暗い画素の割合）から空白ページ・区切り紙を判定
+ */
+
+import type { PageRange, ProcessingProgress } from '@/types'
+import { PDF_SPLIT_CONSTANTS } from '@/lib/constants'
+import { openPdfJsDocument } from '@/lib/pdfjs-loader'
+
+/**
+ * 画素データのインク率を計算（余白を除いた範囲で、暗い画素が占める割合）
+ *
+ * @param data - RGBAの画素データ
+ * @param width - 幅（px）
+ * @param height - 高さ（px）
+ * @returns インク率（%）
+ */
+function calculateInkCoverage(data: Uint8ClampedArray, width: number, height: number): number {
+  const marginX = Math.floor(width * PDF_SPLIT_CONSTANTS.BLANK_DETECTION_MARGIN)
+  const marginY = Math.floor(height * PDF_SPLIT_CONSTANTS.BLANK_DETECTION_MARGIN)
+  let inkPixels = 0
+  let totalPixels = 0
+
+  for (let y = marginY; y < height - marginY; y++) {
+    for (let x = marginX; x < width - marginX; x++) {
+      const offset = (y * width + x) * 4
+      // ITU-R BT.601の輝度
+      const luminance = 0.299 * data[offset] + 0.587 * data[offset + 1] + 0.114 * data[offset + 2]
+      if (luminance < PDF_SPLIT_CONSTANTS.INK_LUMINANCE) inkPixels++
+      totalPixels++
+    }
+  }
+
+  return totalPixels === 0 ? 0 : (inkPixels / totalPixels) * 100
+}
+
+/**
+ * 各ページのインク率を計測
+ * しきい値を変更しても再レンダリングせずに判定できるよう、判定前の値を返す
+ *
+ * @param pdfBytes - PDFデータ
+ * @param onProgress - 進捗コールバック
+ * @param signal - キャンセル用シグナル
+ * @returns ページごとのインク率（%、ページ順）
+ */
+export async function measureInkCoverage(
+  pdfBytes: ArrayBuffer | Uint8Array,
+  onProgress?: (progress: ProcessingProgress) => void,
+  signal?: AbortSignal
+): Promise<number[]> {
+  const pdfJsDoc = await openPdfJsDocument(pdfBytes)
+  const canvas = document.createElement('canvas')
+
+  try {
+    const context = canvas.getContext('2d', { willReadFrequently: true })
+    if (!context) {
+      throw new Error('Canvas contextの取得に失敗しました')
+    }
+
+    const coverage: number[] = []
+    for (let pageNumber = 1; pageNumber <= pdfJsDoc.numPages; pageNumber++) {
+      // キャンセルチェック
+      if (signal?.aborted) {
+        throw new Error('処理がキャンセルされました')
+      }
+
+      onProgress?.({
+        stage: 'processing',
+        percentage: Math.floor(((pageNumber - 1) / pdfJsDoc.numPages) * 100),
+        message: `空白ページを検出中: ${pageNumber}/${pdfJsDoc.numPages}ページ...`,
+      })
+
+      const page = await pdfJsDoc.getPage(pageNumber)
+      const baseViewport = page.getViewport({ scale: 1 })
+      const scale = PDF_SPLIT_CONSTANTS.BLANK_DETECTION_SIZE / Math.max(baseViewport.width, baseViewport.height)
+      const viewport = page.getViewport({ scale })
+
+      canvas.width = Math.max(1, Math.ceil(viewport.width))
+      canvas.height = Math.max(1, Math.ceil(viewport.height))
+
+      // 透過部分が黒くならないよう白背景にする
+      context.fillStyle = '#FFFFFF'
+      context.fillRect(0, 0, canvas.width, canvas.height)
+
+      await page.render({ canvasContext: context, viewport, canvas }).promise
+      page.cleanup()
+
+      const imageData = context.getImageData(0, 0, canvas.width, canvas.height)
+      coverage.push(calculateInkCoverage(imageData.data, canvas.width, canvas.height))
+    }
+
+    return coverage
+  } finally {
+    // Canvasを解放
+    canvas.width = 0
+    canvas.height = 0
+    await pdfJsDoc.destroy()
+  }
+}
+
+/**
+ * インク率から空白ページを判定
+ *
+ * @param coverage - ページごとのインク率（%）
+ * @param threshold - 空白とみなすインク率の上限（%）
+ * @returns 空白ページのページ番号（1ページ始まり）
+ */
+export function findBlankPages(coverage: number[], threshold: number): number[] {
+  const blankPages: number[] = []
+  coverage.forEach((value, index) => {
+    if (value <= threshold) blankPages.push(index + 1)
+  })
+  return blankPages
+}
+
+/**
+ * 空白ページを区切りとしてページ範囲を作成
+ * 区切りを残す場合は直前の文書の末尾に含める（先頭や連続する空白ページは次の文書の前に付けない）
+ *
+ * @param totalPages - PDFの総ページ数
+ * @param blankPages - 空白ページのページ番号（1ページ始まり）
+ * @param removeBlankPages - trueの場合、区切りのページを出力に含めない
+ * @returns 文書ごとのページ範囲
+ *
+ * @example
+ * getBlankPageRanges(8, [3, 6], true)
+ * // => [{start:1,end:2}, {start:4,end:5}, {start:7,end:8}]
+ * getBlankPageRanges(8, [3, 6], false)
+ * // => [{start:1,end:3}, {start:4,end:6}, {start:7,end:8}]
+ */
+export function getBlankPageRanges(
+  totalPages: number,
+  blankPages: number[],
+  removeBlankPages: boolean
+): PageRange[] {
+  const blankSet = new Set(blankPages)
+  const ranges: PageRange[] = []
+  let start: number | null = null
+  let hasContent = false
+
+  for (let page = 1; page <= totalPages; page++) {
+    const isBlank = blankSet.has(page)
+
+    if (isBlank && removeBlankPages) {
+      // 区切りを除く場合は、空白ページの手前で文書を閉じる
+      if (start !== null) ranges.push({ start, end: page - 1 })
+      start = null
+      hasContent = false
+      continue
+    }
+
+    if (!isBlank && hasContent && start !== null && blankSet.has(page - 1)) {
+      // 区切りの直後から新しい文書を始める
+      ranges.push({ start, end: page - 1 })
+      start = null
+      hasContent = false
+    }
+
+    if (start === null) start = page
+    if (!isBlank) hasContent = true
+  }
+
+  if (start !== null) ranges.push({ start, end: totalPages })
+
+  return ranges
+}
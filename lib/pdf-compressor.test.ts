@@ -0,0 +1,25 @@
+/**
+ * PDF圧縮のテスト
+ */
+
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { PDFDocument } from 'pdf-lib'
+import { DEFAULT_PDF_COMPRESSION_OPTIONS } from '@/types'
+import { compressPDF } from '@/lib/pdf-compressor'
+import { PdfPasswordError, encryptPdf } from '@/lib/pdf-encryption'
+
+describe('compressPDF', () => {
+  it('暗号化されたPDFは圧縮せずに拒否する', async () => {
+    const pdfDoc = await PDFDocument.create()
+    pdfDoc.addPage([200, 200])
+    const encrypted = await encryptPdf(await pdfDoc.save(), {
+      userPassword: 'user-pass',
+      ownerPassword: 'owner-pass',
+      permissions: { printing: true, copying: true, modifying: true, annotating: true },
+    })
+    const file = new File([encrypted.buffer as ArrayBuffer], 'secret.pdf', { type: 'application/pdf' })
+
+    await assert.rejects(compressPDF(file, DEFAULT_PDF_COMPRESSION_OPTIONS), PdfPasswordError)
+  })
+})
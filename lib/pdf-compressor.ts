@@ -4,8 +4,17 @@
  */
 
 import { PDFDocument, PDFName } from 'pdf-lib'
-import type { PdfCompressionOptions, CompressionResult, ProcessingProgress } from '@/types'
+import type {
+  PdfCompressionOptions,
+  CompressionPresetConfig,
+  CompressionResult,
+  ProcessingProgress,
+} from '@/types'
 import { COMPRESSION_PRESET_CONFIGS, COMPRESSION_LOADING_MESSAGES } from '@/types'
+import { downsampleOversizedImages, recompressStreams, removeUnusedObjects } from '@/lib/pdf-optimizer'
+import { convertToGrayscale } from '@/lib/pdf-grayscale'
+import { openPdfJsDocument } from '@/lib/pdfjs-loader'
+import { assertNotEncrypted } from '@/lib/pdf-encryption'
 
 /** カスタムエラークラス */
 class PdfCompressionError extends Error {
@@ -20,24 +29,6 @@ function checkCancelled(signal?: AbortSignal): void {
   if (signal?.aborted) throw new Error('Operation cancelled')
 }
 
-/** pdfjs-distのワーカー初期化状態 */
-let pdfJsWorkerInitialized = false
-
-/**
- * pdfjs-distを動的に初期化
- */
-async function initPdfJs() {
-  if (pdfJsWorkerInitialized) {
-    return await import('pdfjs-dist')
-  }
-
-  const pdfjsLib = await import('pdfjs-dist')
-  pdfjsLib.GlobalWorkerOptions.workerSrc = `//cdnjs.cloudflare.com/ajax/libs/pdf.js/${pdfjsLib.version}/pdf.worker.min.js`
-  pdfJsWorkerInitialized = true
-
-  return pdfjsLib
-}
-
 /**
  * PDFのメタデータを削除
  */
@@ -125,7 +116,7 @@ async function compressImage(
 }
 
 /**
- * pdfjs-distを使用してPDFから画像を抽出・圧縮し、新しいPDFを生成
+ * pdfjs-distで各ページを画像としてレンダリング・圧縮し、新しいPDFを生成（テキストは失われる）
  */
 async function compressPdfImages(
   arrayBuffer: ArrayBuffer,
@@ -135,13 +126,10 @@ async function compressPdfImages(
   onProgress?: (current: number, total: number) => void,
   signal?: AbortSignal
 ): Promise<Uint8Array> {
-  const pdfjsLib = await initPdfJs()
+  // PDFドキュメントを読み込み（元のバッファは目標サイズの再試行で再利用する）
+  const pdfJsDoc = await openPdfJsDocument(arrayBuffer)
   checkCancelled(signal)
 
-  // PDFドキュメントを読み込み
-  const loadingTask = pdfjsLib.getDocument({ data: arrayBuffer })
-  const pdfJsDoc = await loadingTask.promise
-
   const pageCount = pdfJsDoc.numPages
 
   // 新しいPDFを作成
@@ -254,45 +242,53 @@ async function compressPdfImages(
     canvas.height = 0
   }
 
+  // ワーカー側のドキュメントを解放
+  await pdfJsDoc.destroy()
+
   return await newPdfDoc.save()
 }
 
+/** 圧縮の設定（画質と画像の最大サイズ） */
+type CompressionSettings = Pick<CompressionPresetConfig, 'quality' | 'maxWidth' | 'maxHeight'>
+
+/** 1回の圧縮処理の結果 */
+interface CompressionAttempt {
+  bytes: Uint8Array
+  pages: number
+  grayscaleSavedBytes?: number
+}
+
+/** 目標サイズ指定時に試す設定（画質を優先する順） */
+const TARGET_SIZE_LEVELS: CompressionSettings[] = [
+  { quality: 0.85, maxWidth: 2560, maxHeight: 2560 },
+  { quality: 0.75, maxWidth: 2048, maxHeight: 2048 },
+  { quality: 0.7, maxWidth: 1600, maxHeight: 1600 },
+  { quality: 0.6, maxWidth: 1280, maxHeight: 1280 },
+  { quality: 0.5, maxWidth: 1024, maxHeight: 1024 },
+  { quality: 0.4, maxWidth: 800, maxHeight: 800 },
+  { quality: 0.3, maxWidth: 640, maxHeight: 640 },
+  { quality: 0.2, maxWidth: 480, maxHeight: 480 },
+]
+
 /**
- * PDFを圧縮
+ * 指定した設定でPDFを1回圧縮
  *
- * @param file - 圧縮するPDFファイル
+ * @param arrayBuffer - 元のPDFデータ（変更しない）
  * @param options - 圧縮オプション
- * @param onProgress - 進捗コールバック
+ * @param settings - 画質と画像の最大サイズ
+ * @param onProgress - 進捗コールバック（この処理内での割合0-100, メッセージ）
  * @param signal - キャンセルシグナル
- * @returns 圧縮結果
  */
-export async function compressPDF(
-  file: File,
+async function compressWithSettings(
+  arrayBuffer: ArrayBuffer,
   options: PdfCompressionOptions,
-  onProgress?: (progress: ProcessingProgress) => void,
+  settings: CompressionSettings,
+  onProgress: (percentage: number, message: string) => void,
   signal?: AbortSignal
-): Promise<CompressionResult> {
-  const originalSize = file.size
-
-  onProgress?.({
-    stage: 'loading',
-    percentage: 0,
-    message: COMPRESSION_LOADING_MESSAGES.INIT,
-  })
-
-  checkCancelled(signal)
-
-  // PDFを読み込み
-  const arrayBuffer = await file.arrayBuffer()
+): Promise<CompressionAttempt> {
   const pdfDoc = await PDFDocument.load(arrayBuffer, { ignoreEncryption: true })
-
-  const pageCount = pdfDoc.getPageCount()
-
-  onProgress?.({
-    stage: 'processing',
-    percentage: 10,
-    message: COMPRESSION_LOADING_MESSAGES.ANALYZING,
-  })
+  assertNotEncrypted(pdfDoc)
+  const pages = pdfDoc.getPageCount()
 
   checkCancelled(signal)
 
@@ -304,30 +300,23 @@ export async function compressPDF(
 
   checkCancelled(signal)
 
-  // 画像圧縮処理
-  const preset = COMPRESSION_PRESET_CONFIGS[options.preset]
-  let finalPdfBytes: Uint8Array
+  let grayscaleSavedBytes: number | undefined
 
-  if (options.preset !== 'high') {
-    onProgress?.({
-      stage: 'processing',
-      percentage: 20,
-      message: COMPRESSION_LOADING_MESSAGES.COMPRESSING,
-    })
+  if (options.mode === 'rasterize') {
+    onProgress(0, COMPRESSION_LOADING_MESSAGES.COMPRESSING)
 
     try {
-      // pdfjs-distで画像を抽出して圧縮
+      // pdfjs-distで各ページを画像化して圧縮
       const compressedPdfBytes = await compressPdfImages(
         arrayBuffer,
-        preset.quality,
-        preset.maxWidth,
-        preset.maxHeight,
+        settings.quality,
+        settings.maxWidth,
+        settings.maxHeight,
         (current, total) => {
-          onProgress?.({
-            stage: 'processing',
-            percentage: 20 + Math.floor((current / total) * 60),
-            message: `${COMPRESSION_LOADING_MESSAGES.COMPRESSING} (${current}/${total}ページ)...`,
-          })
+          onProgress(
+            Math.floor((current / total) * 85),
+            `${COMPRESSION_LOADING_MESSAGES.COMPRESSING} (${current}/${total}ページ)...`
+          )
         },
         signal
       )
@@ -343,7 +332,12 @@ export async function compressPDF(
         removeAnnotations: options.removeAnnotations,
       })
 
-      finalPdfBytes = await compressedPdf.save()
+      if (options.convertToGrayscale) {
+        onProgress(85, COMPRESSION_LOADING_MESSAGES.GRAYSCALE)
+        grayscaleSavedBytes = await convertToGrayscale(compressedPdf, settings.quality)
+      }
+
+      return { bytes: await compressedPdf.save(), pages, grayscaleSavedBytes }
     } catch (error) {
       // 画像圧縮に失敗した場合はエラーをスロー
       if (error instanceof Error && error.message === 'Operation cancelled') {
@@ -353,9 +347,174 @@ export async function compressPDF(
       const message = error instanceof Error ? error.message : '不明なエラー'
       throw new PdfCompressionError(`画像の圧縮に失敗しました: ${message}`, error instanceof Error ? error : undefined)
     }
+  }
+
+  onProgress(0, COMPRESSION_LOADING_MESSAGES.COMPRESSING)
+
+  try {
+    // 上限を超える画像のみ縮小（テキスト・ベクターはそのまま）
+    await downsampleOversizedImages(pdfDoc, settings, (current, total) => {
+      onProgress(
+        Math.floor((current / total) * 60),
+        `${COMPRESSION_LOADING_MESSAGES.COMPRESSING} (${current}/${total}ページ)...`
+      )
+    })
+
+    checkCancelled(signal)
+
+    // 縮小した画像もグレーにするため、縮小の後に変換する
+    if (options.convertToGrayscale) {
+      grayscaleSavedBytes = await convertToGrayscale(pdfDoc, settings.quality, (current, total) => {
+        onProgress(
+          60 + Math.floor((current / total) * 15),
+          `${COMPRESSION_LOADING_MESSAGES.GRAYSCALE} (${current}/${total}画像)...`
+        )
+      })
+
+      checkCancelled(signal)
+    }
+
+    onProgress(75, COMPRESSION_LOADING_MESSAGES.RECOMPRESSING)
+
+    await removeUnusedObjects(pdfDoc)
+    await recompressStreams(pdfDoc)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '不明なエラー'
+    throw new PdfCompressionError(`PDFの圧縮に失敗しました: ${message}`, error instanceof Error ? error : undefined)
+  }
+
+  checkCancelled(signal)
+
+  return { bytes: await pdfDoc.save(), pages, grayscaleSavedBytes }
+}
+
+/**
+ * 目標サイズに収まる範囲で最も画質の高い設定を探して圧縮
+ * 最高画質で収まらない場合は残りの設定を二分探索する
+ *
+ * @returns 目標サイズに収まった結果（収まらない場合は最も小さくできた結果）と、収まったかどうか
+ */
+async function compressToTargetSize(
+  arrayBuffer: ArrayBuffer,
+  options: PdfCompressionOptions,
+  targetSize: number,
+  onProgress?: (progress: ProcessingProgress) => void,
+  signal?: AbortSignal
+): Promise<CompressionAttempt & { targetReached: boolean }> {
+  const maxAttempts = 1 + Math.ceil(Math.log2(TARGET_SIZE_LEVELS.length))
+  let attemptCount = 0
+  let smallest: CompressionAttempt | undefined
+
+  const attempt = async (level: number): Promise<CompressionAttempt> => {
+    attemptCount++
+    const current = attemptCount
+    const result = await compressWithSettings(
+      arrayBuffer,
+      options,
+      TARGET_SIZE_LEVELS[level],
+      (percentage, message) => {
+        onProgress?.({
+          stage: 'processing',
+          percentage: 10 + Math.floor(((current - 1 + percentage / 100) / maxAttempts) * 80),
+          message: `${COMPRESSION_LOADING_MESSAGES.SEARCHING} (試行${current}回目) - ${message}`,
+        })
+      },
+      signal
+    )
+
+    if (!smallest || result.bytes.length < smallest.bytes.length) {
+      smallest = result
+    }
+    return result
+  }
+
+  // 最高画質で収まればそのまま使う
+  const first = await attempt(0)
+  if (first.bytes.length <= targetSize) {
+    return { ...first, targetReached: true }
+  }
+
+  let low = 1
+  let high = TARGET_SIZE_LEVELS.length - 1
+  let best: CompressionAttempt | undefined
+
+  while (low <= high) {
+    checkCancelled(signal)
+
+    const level = Math.floor((low + high) / 2)
+    const result = await attempt(level)
+
+    if (result.bytes.length <= targetSize) {
+      best = result
+      high = level - 1
+    } else {
+      low = level + 1
+    }
+  }
+
+  return best
+    ? { ...best, targetReached: true }
+    : { ...(smallest ?? first), targetReached: false }
+}
+
+/**
+ * PDFを圧縮
+ * 目標サイズが指定されている場合は、収まるまで画質と解像度を下げて繰り返す
+ *
+ * @param file - 圧縮するPDFファイル
+ * @param options - 圧縮オプション
+ * @param onProgress - 進捗コールバック
+ * @param signal - キャンセルシグナル
+ * @returns 圧縮結果
+ */
+export async function compressPDF(
+  file: File,
+  options: PdfCompressionOptions,
+  onProgress?: (progress: ProcessingProgress) => void,
+  signal?: AbortSignal
+): Promise<CompressionResult> {
+  const originalSize = file.size
+
+  onProgress?.({
+    stage: 'loading',
+    percentage: 0,
+    message: COMPRESSION_LOADING_MESSAGES.INIT,
+  })
+
+  checkCancelled(signal)
+
+  // PDFを読み込み
+  const arrayBuffer = await file.arrayBuffer()
+
+  onProgress?.({
+    stage: 'processing',
+    percentage: 10,
+    message: COMPRESSION_LOADING_MESSAGES.ANALYZING,
+  })
+
+  checkCancelled(signal)
+
+  let result: CompressionAttempt
+  let targetReached: boolean | undefined
+
+  if (options.targetSize !== null) {
+    const searchResult = await compressToTargetSize(arrayBuffer, options, options.targetSize, onProgress, signal)
+    result = searchResult
+    targetReached = searchResult.targetReached
   } else {
-    // 高品質プリセットの場合はメタデータ・注釈削除のみ
-    finalPdfBytes = await pdfDoc.save()
+    result = await compressWithSettings(
+      arrayBuffer,
+      options,
+      COMPRESSION_PRESET_CONFIGS[options.preset],
+      (percentage, message) => {
+        onProgress?.({
+          stage: 'processing',
+          percentage: 10 + Math.floor(percentage * 0.8),
+          message,
+        })
+      },
+      signal
+    )
   }
 
   onProgress?.({
@@ -367,7 +526,7 @@ export async function compressPDF(
   checkCancelled(signal)
 
   // PDFをBlobに変換
-  const blob = new Blob([finalPdfBytes.buffer as ArrayBuffer], { type: 'application/pdf' })
+  const blob = new Blob([result.bytes.buffer as ArrayBuffer], { type: 'application/pdf' })
   const compressedSize = blob.size
 
   onProgress?.({
@@ -382,7 +541,10 @@ export async function compressPDF(
     originalSize,
     compressedSize,
     reductionRate: ((originalSize - compressedSize) / originalSize) * 100,
-    pages: pageCount,
+    pages: result.pages,
+    grayscaleSavedBytes: result.grayscaleSavedBytes,
+    targetSize: options.targetSize ?? undefined,
+    targetReached,
   }
 }
 
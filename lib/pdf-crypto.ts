@@ -0,0 +1,346 @@
+/**
+ * PDF暗号化用の暗号プリミティブ
+ * 標準セキュリティハンドラの復号に必要なMD5・RC4・AES（CBC）の実装
+ * （Web Crypto APIはRC4・MD5・パディングなしのAESに対応していないため自前で実装）
+ */
+
+// ============================================================================
+// MD5
+// ============================================================================
+
+/** MD5の各ラウンドのシフト量 */
+const MD5_SHIFTS = [
+  7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22,
+  5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20,
+  4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23,
+  6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21,
+]
+
+/** MD5の定数表 */
+const MD5_CONSTANTS = Array.from({ length: 64 }, (_, i) =>
+  Math.floor(Math.abs(Math.sin(i + 1)) * 0x100000000) >>> 0
+)
+
+/**
+ * MD5ハッシュを計算
+ *
+ * @param data - 入力バイト列
+ * @returns 16バイトのハッシュ値
+ */
+export function md5(data: Uint8Array): Uint8Array {
+  // パディング（0x80 + 0埋め + ビット長64bit）
+  const paddedLength = (((data.length + 8) >> 6) + 1) << 6
+  const padded = new Uint8Array(paddedLength)
+  padded.set(data)
+  padded[data.length] = 0x80
+  const bitLength = data.length * 8
+  const view = new DataView(padded.buffer)
+  view.setUint32(paddedLength - 8, bitLength >>> 0, true)
+  view.setUint32(paddedLength - 4, Math.floor(bitLength / 0x100000000), true)
+
+  let a0 = 0x67452301
+  let b0 = 0xefcdab89
+  let c0 = 0x98badcfe
+  let d0 = 0x10325476
+  const words = new Uint32Array(16)
+
+  for (let offset = 0; offset < paddedLength; offset += 64) {
+    for (let i = 0; i < 16; i++) words[i] = view.getUint32(offset + i * 4, true)
+
+    let a = a0
+    let b = b0
+    let c = c0
+    let d = d0
+
+    for (let i = 0; i < 64; i++) {
+      let f: number
+      let g: number
+      if (i < 16) {
+        f = (b & c) | (~b & d)
+        g = i
+      } else if (i < 32) {
+        f = (d & b) | (~d & c)
+        g = (5 * i + 1) % 16
+      } else if (i < 48) {
+        f = b ^ c ^ d
+        g = (3 * i + 5) % 16
+      } else {
+        f = c ^ (b | ~d)
+        g = (7 * i) % 16
+      }
+
+      const temp = d
+      d = c
+      c = b
+      const sum = (a + f + MD5_CONSTANTS[i] + words[g]) | 0
+      b = (b + ((sum << MD5_SHIFTS[i]) | (sum >>> (32 - MD5_SHIFTS[i])))) | 0
+      a = temp
+    }
+
+    a0 = (a0 + a) | 0
+    b0 = (b0 + b) | 0
+    c0 = (c0 + c) | 0
+    d0 = (d0 + d) | 0
+  }
+
+  const result = new Uint8Array(16)
+  const resultView = new DataView(result.buffer)
+  resultView.setUint32(0, a0 >>> 0, true)
+  resultView.setUint32(4, b0 >>> 0, true)
+  resultView.setUint32(8, c0 >>> 0, true)
+  resultView.setUint32(12, d0 >>> 0, true)
+  return result
+}
+
+// ============================================================================
+// RC4
+// ============================================================================
+
+/**
+ * RC4で暗号化・復号（同じ処理）
+ *
+ * @param key - 鍵（1-256バイト）
+ * @param data - 入力バイト列
+ * @returns 出力バイト列
+ */
+export function rc4(key: Uint8Array, data: Uint8Array): Uint8Array {
+  const state = new Uint8Array(256)
+  for (let i = 0; i < 256; i++) state[i] = i
+
+  for (let i = 0, j = 0; i < 256; i++) {
+    j = (j + state[i] + key[i % key.length]) & 0xff
+    ;[state[i], state[j]] = [state[j], state[i]]
+  }
+
+  const output = new Uint8Array(data.length)
+  for (let k = 0, i = 0, j = 0; k < data.length; k++) {
+    i = (i + 1) & 0xff
+    j = (j + state[i]) & 0xff
+    ;[state[i], state[j]] = [state[j], state[i]]
+    output[k] = data[k] ^ state[(state[i] + state[j]) & 0xff]
+  }
+  return output
+}
+
+// ============================================================================
+// AES
+// ============================================================================
+
+/** AESのSボックスと逆Sボックス */
+const AES_SBOX = new Uint8Array(256)
+const AES_INV_SBOX = new Uint8Array(256)
+
+/** MixColumns用の乗算表（GF(2^8)上で2, 3, 9, 11, 13, 14倍） */
+const MUL2 = new Uint8Array(256)
+const MUL3 = new Uint8Array(256)
+const MUL9 = new Uint8Array(256)
+const MUL11 = new Uint8Array(256)
+const MUL13 = new Uint8Array(256)
+const MUL14 = new Uint8Array(256)
+
+/** GF(2^8)上の乗算 */
+function gfMultiply(a: number, b: number): number {
+  let result = 0
+  for (let i = 0; i < 8; i++) {
+    if (b & 1) result ^= a
+    const carry = a & 0x80
+    a = (a << 1) & 0xff
+    if (carry) a ^= 0x1b
+    b >>= 1
+  }
+  return result
+}
+
+// Sボックス（乗法逆元 + アフィン変換）と乗算表を生成
+;(() => {
+  const inverses = new Uint8Array(256)
+  for (let i = 1; i < 256; i++) {
+    for (let j = 1; j < 256; j++) {
+      if (gfMultiply(i, j) === 1) {
+        inverses[i] = j
+        break
+      }
+    }
+  }
+
+  for (let i = 0; i < 256; i++) {
+    const inverse = inverses[i]
+    let s = inverse
+    for (let k = 1; k <= 4; k++) s ^= ((inverse << k) | (inverse >> (8 - k))) & 0xff
+    s ^= 0x63
+    AES_SBOX[i] = s
+    AES_INV_SBOX[s] = i
+
+    MUL2[i] = gfMultiply(i, 2)
+    MUL3[i] = gfMultiply(i, 3)
+    MUL9[i] = gfMultiply(i, 9)
+    MUL11[i] = gfMultiply(i, 11)
+    MUL13[i] = gfMultiply(i, 13)
+    MUL14[i] = gfMultiply(i, 14)
+  }
+})()
+
+/**
+ * AESの鍵拡張
+ *
+ * @param key - 16バイト（AES-128）または32バイト（AES-256）の鍵
+ * @returns ラウンド鍵（16バイト × (ラウンド数 + 1)）
+ */
+function expandAesKey(key: Uint8Array): Uint8Array[] {
+  if (key.length !== 16 && key.length !== 32) {
+    throw new Error('AESの鍵長が不正です')
+  }
+
+  const keyWords = key.length / 4
+  const rounds = keyWords + 6
+  const words: number[][] = []
+
+  for (let i = 0; i < keyWords; i++) {
+    words.push([key[i * 4], key[i * 4 + 1], key[i * 4 + 2], key[i * 4 + 3]])
+  }
+
+  let rcon = 1
+  for (let i = keyWords; i < 4 * (rounds + 1); i++) {
+    let temp = [...words[i - 1]]
+    if (i % keyWords === 0) {
+      temp = [temp[1], temp[2], temp[3], temp[0]].map((b) => AES_SBOX[b])
+      temp[0] ^= rcon
+      rcon = MUL2[rcon]
+    } else if (keyWords > 6 && i % keyWords === 4) {
+      temp = temp.map((b) => AES_SBOX[b])
+    }
+    words.push(words[i - keyWords].map((b, j) => b ^ temp[j]))
+  }
+
+  return Array.from({ length: rounds + 1 }, (_, round) =>
+    Uint8Array.from(words.slice(round * 4, round * 4 + 4).flat())
+  )
+}
+
+/**
+ * 1ブロック（16バイト）を暗号化（stateを直接書き換える）
+ */
+function encryptAesBlock(roundKeys: Uint8Array[], state: Uint8Array, temp: Uint8Array): void {
+  const rounds = roundKeys.length - 1
+  for (let i = 0; i < 16; i++) state[i] ^= roundKeys[0][i]
+
+  for (let round = 1; round <= rounds; round++) {
+    // SubBytes + ShiftRows
+    for (let c = 0; c < 4; c++) {
+      for (let r = 0; r < 4; r++) {
+        temp[c * 4 + r] = AES_SBOX[state[((c + r) % 4) * 4 + r]]
+      }
+    }
+
+    // MixColumns（最終ラウンドを除く）
+    if (round < rounds) {
+      for (let c = 0; c < 16; c += 4) {
+        const s0 = temp[c]
+        const s1 = temp[c + 1]
+        const s2 = temp[c + 2]
+        const s3 = temp[c + 3]
+        temp[c] = MUL2[s0] ^ MUL3[s1] ^ s2 ^ s3
+        temp[c + 1] = s0 ^ MUL2[s1] ^ MUL3[s2] ^ s3
+        temp[c + 2] = s0 ^ s1 ^ MUL2[s2] ^ MUL3[s3]
+        temp[c + 3] = MUL3[s0] ^ s1 ^ s2 ^ MUL2[s3]
+      }
+    }
+
+    for (let i = 0; i < 16; i++) state[i] = temp[i] ^ roundKeys[round][i]
+  }
+}
+
+/**
+ * 1ブロック（16バイト）を復号（stateを直接書き換える）
+ */
+function decryptAesBlock(roundKeys: Uint8Array[], state: Uint8Array, temp: Uint8Array): void {
+  const rounds = roundKeys.length - 1
+  for (let i = 0; i < 16; i++) state[i] ^= roundKeys[rounds][i]
+
+  for (let round = rounds - 1; round >= 0; round--) {
+    // InvShiftRows + InvSubBytes
+    for (let c = 0; c < 4; c++) {
+      for (let r = 0; r < 4; r++) {
+        temp[((c + r) % 4) * 4 + r] = AES_INV_SBOX[state[c * 4 + r]]
+      }
+    }
+
+    for (let i = 0; i < 16; i++) state[i] = temp[i] ^ roundKeys[round][i]
+
+    // InvMixColumns（最終ラウンドを除く）
+    if (round > 0) {
+      for (let c = 0; c < 16; c += 4) {
+        const s0 = state[c]
+        const s1 = state[c + 1]
+        const s2 = state[c + 2]
+        const s3 = state[c + 3]
+        state[c] = MUL14[s0] ^ MUL11[s1] ^ MUL13[s2] ^ MUL9[s3]
+        state[c + 1] = MUL9[s0] ^ MUL14[s1] ^ MUL11[s2] ^ MUL13[s3]
+        state[c + 2] = MUL13[s0] ^ MUL9[s1] ^ MUL14[s2] ^ MUL11[s3]
+        state[c + 3] = MUL11[s0] ^ MUL13[s1] ^ MUL9[s2] ^ MUL14[s3]
+      }
+    }
+  }
+}
+
+/**
+ * AES-CBCで暗号化（パディングなし、入力は16バイトの倍数）
+ *
+ * @param key - 16または32バイトの鍵
+ * @param iv - 16バイトの初期化ベクトル
+ * @param data - 入力バイト列
+ * @returns 暗号文
+ */
+export function aesCbcEncrypt(key: Uint8Array, iv: Uint8Array, data: Uint8Array): Uint8Array {
+  const roundKeys = expandAesKey(key)
+  const length = data.length - (data.length % 16)
+  const output = new Uint8Array(length)
+  const state = new Uint8Array(16)
+  const temp = new Uint8Array(16)
+  let previous = iv
+
+  for (let offset = 0; offset < length; offset += 16) {
+    for (let i = 0; i < 16; i++) state[i] = data[offset + i] ^ previous[i]
+    encryptAesBlock(roundKeys, state, temp)
+    output.set(state, offset)
+    previous = output.subarray(offset, offset + 16)
+  }
+  return output
+}
+
+/**
+ * AES-CBCで復号
+ *
+ * @param key - 16または32バイトの鍵
+ * @param iv - 16バイトの初期化ベクトル
+ * @param data - 暗号文（16バイトの倍数）
+ * @param removePadding - PKCS#5パディングを除去するか
+ * @returns 平文
+ */
+export function aesCbcDecrypt(
+  key: Uint8Array,
+  iv: Uint8Array,
+  data: Uint8Array,
+  removePadding = true
+): Uint8Array {
+  const roundKeys = expandAesKey(key)
+  const length = data.length - (data.length % 16)
+  const output = new Uint8Array(length)
+  const state = new Uint8Array(16)
+  const temp = new Uint8Array(16)
+  let previous = iv
+
+  for (let offset = 0; offset < length; offset += 16) {
+    state.set(data.subarray(offset, offset + 16))
+    decryptAesBlock(roundKeys, state, temp)
+    for (let i = 0; i < 16; i++) output[offset + i] = state[i] ^ previous[i]
+    previous = data.subarray(offset, offset + 16)
+  }
+
+  if (!removePadding || length === 0) return output
+
+  // 不正なパディングの場合はそのまま返す（壊れたPDFへの耐性）
+  const padding = output[length - 1]
+  if (padding < 1 || padding > 16) return output
+  return output.subarray(0, length - padding)
+}
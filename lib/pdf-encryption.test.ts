@@ -0,0 +1,131 @@
+/**
+ * PDF暗号化・復号のテスト
+ * AES-256で暗号化したPDFを復号処理に通し、パスワードと権限の扱いを検証
+ */
+
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { PDFDict, PDFDocument, PDFName, PDFNumber, StandardFonts } from 'pdf-lib'
+import type { PdfPermissions, PdfProtectionOptions } from '@/types'
+import {
+  PdfPasswordError,
+  decryptPdf,
+  encryptPdf,
+  isPdfEncrypted,
+  unlockPdfFile,
+} from '@/lib/pdf-encryption'
+
+/** テスト用のパスワード */
+const USER_PASSWORD = 'user-pass'
+const OWNER_PASSWORD = 'owner-pass'
+
+/** /Pの権限ビット（PDF仕様 Table 22） */
+const PERMISSION_BITS: Record<keyof PdfPermissions, number> = {
+  printing: 0x4,
+  modifying: 0x8,
+  copying: 0x10,
+  annotating: 0x20,
+}
+
+/**
+ * 本文とタイトルを持つ2ページのPDFを作成
+ */
+async function createPdfBytes(): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.create()
+  pdfDoc.setTitle('機密資料')
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica)
+  for (let i = 0; i < 2; i++) {
+    pdfDoc.addPage([200, 200]).drawText(`Page ${i + 1}`, { x: 20, y: 100, font })
+  }
+  return pdfDoc.save()
+}
+
+/**
+ * 保護オプションを作成
+ */
+function createOptions(overrides: Partial<PdfProtectionOptions> = {}): PdfProtectionOptions {
+  return {
+    userPassword: USER_PASSWORD,
+    ownerPassword: OWNER_PASSWORD,
+    permissions: { printing: true, copying: false, modifying: false, annotating: false },
+    ...overrides,
+  }
+}
+
+/**
+ * 復号したPDFの内容を検証
+ */
+async function assertDecrypted(bytes: Uint8Array): Promise<void> {
+  assert.equal(isPdfEncrypted(bytes), false)
+  const pdfDoc = await PDFDocument.load(bytes)
+  assert.equal(pdfDoc.getPageCount(), 2)
+  assert.equal(pdfDoc.getTitle(), '機密資料')
+}
+
+/**
+ * 暗号化辞書の/Pの値を取得
+ */
+async function getPermissionFlags(bytes: Uint8Array): Promise<number> {
+  const pdfDoc = await PDFDocument.load(bytes, { ignoreEncryption: true })
+  const encrypt = pdfDoc.context.lookup(pdfDoc.context.trailerInfo.Encrypt, PDFDict)
+  return encrypt.lookup(PDFName.of('P'), PDFNumber).asNumber()
+}
+
+describe('PDFの暗号化と復号', () => {
+  it('ユーザーパスワードで復号できる', async () => {
+    const encrypted = await encryptPdf(await createPdfBytes(), createOptions())
+    assert.equal(isPdfEncrypted(encrypted), true)
+    await assertDecrypted(await decryptPdf(encrypted, USER_PASSWORD))
+  })
+
+  it('オーナーパスワードで復号できる', async () => {
+    const encrypted = await encryptPdf(await createPdfBytes(), createOptions())
+    await assertDecrypted(await decryptPdf(encrypted, OWNER_PASSWORD))
+  })
+
+  it('誤ったパスワードは拒否する', async () => {
+    const encrypted = await encryptPdf(await createPdfBytes(), createOptions())
+
+    await assert.rejects(decryptPdf(encrypted, 'wrong-pass'), (error) => {
+      assert.ok(error instanceof PdfPasswordError)
+      assert.equal(error.reason, 'incorrect')
+      return true
+    })
+    await assert.rejects(decryptPdf(encrypted, ''), PdfPasswordError)
+  })
+
+  it('閲覧制限のないPDFはパスワードなしで解除できる', async () => {
+    const encrypted = await encryptPdf(
+      await createPdfBytes(),
+      createOptions({ userPassword: '' })
+    )
+    const file = new File([encrypted.buffer as ArrayBuffer], 'protected.pdf', { type: 'application/pdf' })
+
+    const unlocked = await unlockPdfFile(file)
+    assert.notEqual(unlocked, file)
+    await assertDecrypted(new Uint8Array(await unlocked.arrayBuffer()))
+  })
+
+  it('/Pの権限ビットが許可する操作と一致する', async () => {
+    const cases: PdfPermissions[] = [
+      { printing: true, copying: false, modifying: false, annotating: false },
+      { printing: false, copying: true, modifying: false, annotating: true },
+      { printing: false, copying: false, modifying: true, annotating: false },
+      { printing: true, copying: true, modifying: true, annotating: true },
+    ]
+
+    for (const permissions of cases) {
+      const encrypted = await encryptPdf(await createPdfBytes(), createOptions({ permissions }))
+      const flags = await getPermissionFlags(encrypted)
+
+      for (const [key, bit] of Object.entries(PERMISSION_BITS) as [keyof PdfPermissions, number][]) {
+        assert.equal((flags & bit) !== 0, permissions[key], `${key}: P=${flags}`)
+      }
+    }
+  })
+
+  it('既に暗号化されたPDFは暗号化しない', async () => {
+    const encrypted = await encryptPdf(await createPdfBytes(), createOptions())
+    await assert.rejects(encryptPdf(encrypted, createOptions()), /既に暗号化されています/)
+  })
+})
@@ -0,0 +1,760 @@
+/**
+ * PDF暗号化ライブラリ
+ * 標準セキュリティハンドラ（RC4 / AES-128 / AES-256）で暗号化されたPDFの検出と復号、
+ * およびAES-256（リビジョン6）による暗号化
+ */
+
+import {
+  PDFArray,
+  PDFBool,
+  PDFDict,
+  PDFHexString,
+  PDFInvalidObject,
+  PDFName,
+  PDFNumber,
+  PDFObjectParser,
+  PDFObjectStreamParser,
+  PDFParser,
+  PDFRawStream,
+  PDFRef,
+  PDFString,
+  PDFWriter,
+  type PDFContext,
+  type PDFDocument,
+  type PDFObject,
+} from 'pdf-lib'
+import type { PdfPermissions, PdfProtectionOptions } from '@/types'
+import { aesCbcDecrypt, aesCbcEncrypt, md5, rc4 } from '@/lib/pdf-crypto'
+
+/** パスワードエラーの種別 */
+export type PdfPasswordErrorReason = 'required' | 'incorrect'
+
+/** パスワードが必要、または誤っている場合のエラー */
+export class PdfPasswordError extends Error {
+  constructor(message: string, public readonly reason: PdfPasswordErrorReason) {
+    super(message)
+    this.name = 'PdfPasswordError'
+  }
+}
+
+/** 暗号化方式（crypt filterのCFM） */
+type CryptMethod = 'none' | 'rc4' | 'aes128' | 'aes256'
+
+/** 復号に必要な情報 */
+interface Decryptor {
+  /** ファイル鍵 */
+  fileKey: Uint8Array
+  /** ストリームの暗号化方式 */
+  streamMethod: CryptMethod
+  /** 文字列の暗号化方式 */
+  stringMethod: CryptMethod
+  /** XMPメタデータが暗号化されているか */
+  encryptMetadata: boolean
+}
+
+/** パスワードのパディング文字列（PDF仕様 Algorithm 2） */
+const PASSWORD_PADDING = new Uint8Array([
+  0x28, 0xbf, 0x4e, 0x5e, 0x4e, 0x75, 0x8a, 0x41, 0x64, 0x00, 0x4e, 0x56, 0xff, 0xfa, 0x01, 0x08,
+  0x2e, 0x2e, 0x00, 0xb6, 0xd0, 0x68, 0x3e, 0x80, 0x2f, 0x0c, 0xa9, 0xfe, 0x64, 0x53, 0x69, 0x7a,
+])
+
+/** /Encrypt キーのバイト列 */
+const ENCRYPT_KEY_BYTES = new TextEncoder().encode('/Encrypt')
+
+/** 復号後のPDFを書き出す際の1ティックあたりのオブジェクト数 */
+const OBJECTS_PER_TICK = 50
+
+/**
+ * バイト列を連結
+ */
+function concatBytes(...parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    result.set(part, offset)
+    offset += part.length
+  }
+  return result
+}
+
+/**
+ * バイト列が等しいかを判定
+ */
+function equalBytes(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((value, i) => value === b[i])
+}
+
+/**
+ * PDFが暗号化されているかを判定（トレーラーの/Encryptの有無を検出）
+ * PDF全体を解析せずにバイト列を走査するため、読み込み前の判定に使用できる
+ *
+ * @param bytes - PDFのバイト列
+ * @returns 暗号化されている場合はtrue
+ */
+export function isPdfEncrypted(bytes: Uint8Array): boolean {
+  const first = ENCRYPT_KEY_BYTES[0]
+  const length = ENCRYPT_KEY_BYTES.length
+
+  for (let i = bytes.indexOf(first); i !== -1; i = bytes.indexOf(first, i + 1)) {
+    let matched = true
+    for (let j = 1; j < length; j++) {
+      if (bytes[i + j] !== ENCRYPT_KEY_BYTES[j]) {
+        matched = false
+        break
+      }
+    }
+    if (!matched) continue
+
+    // /EncryptMetadata などを除外（値は間接参照かディクショナリ）
+    let k = i + length
+    while (k < bytes.length && (bytes[k] === 0x20 || bytes[k] === 0x0a || bytes[k] === 0x0d || bytes[k] === 0x09)) k++
+    const next = bytes[k]
+    if ((next >= 0x30 && next <= 0x39) || next === 0x3c) return true
+  }
+
+  return false
+}
+
+/**
+ * 読み込み済みのPDFが暗号化されていないことを確認
+ * ignoreEncryptionで読み込んだ暗号化PDFをそのまま処理すると内容が壊れるため、事前に復号を求める
+ *
+ * @param pdfDoc - PDFドキュメント
+ * @throws {PdfPasswordError} 暗号化されている場合
+ */
+export function assertNotEncrypted(pdfDoc: PDFDocument): void {
+  if (pdfDoc.isEncrypted) {
+    throw new PdfPasswordError('このPDFは暗号化されています。パスワードを入力して解除してください', 'required')
+  }
+}
+
+/**
+ * 数値をリトルエンディアンのバイト列に変換
+ */
+function toLittleEndian(value: number, byteLength: number): Uint8Array {
+  const bytes = new Uint8Array(byteLength)
+  for (let i = 0; i < byteLength; i++) bytes[i] = (value >>> (i * 8)) & 0xff
+  return bytes
+}
+
+/**
+ * 文字列オブジェクトのバイト列を取得
+ */
+function getStringBytes(obj: PDFObject | undefined): Uint8Array {
+  if (obj instanceof PDFString || obj instanceof PDFHexString) return obj.asBytes()
+  return new Uint8Array(0)
+}
+
+/**
+ * SHA-2ハッシュを計算（Web Crypto API）
+ */
+async function sha(algorithm: 'SHA-256' | 'SHA-384' | 'SHA-512', data: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest(algorithm, data as Uint8Array<ArrayBuffer>))
+}
+
+// ============================================================================
+// リビジョン2-4（RC4 / AES-128）
+// ============================================================================
+
+/**
+ * パスワードをパディングして32バイトにする
+ */
+function padPassword(password: Uint8Array): Uint8Array {
+  return concatBytes(password.subarray(0, 32), PASSWORD_PADDING).subarray(0, 32)
+}
+
+/**
+ * パスワードからファイル鍵を計算（Algorithm 2）
+ */
+function computeLegacyFileKey(
+  password: Uint8Array,
+  encrypt: PDFDict,
+  revision: number,
+  keyLength: number,
+  documentId: Uint8Array,
+  encryptMetadata: boolean
+): Uint8Array {
+  const owner = getStringBytes(encrypt.lookup(PDFName.of('O')))
+  const permissions = encrypt.lookupMaybe(PDFName.of('P'), PDFNumber)?.asNumber() ?? 0
+
+  let hash = md5(concatBytes(
+    padPassword(password),
+    owner.subarray(0, 32),
+    toLittleEndian(permissions, 4),
+    documentId,
+    revision >= 4 && !encryptMetadata ? new Uint8Array([0xff, 0xff, 0xff, 0xff]) : new Uint8Array(0)
+  ))
+
+  if (revision >= 3) {
+    for (let i = 0; i < 50; i++) hash = md5(hash.subarray(0, keyLength))
+  }
+
+  return hash.subarray(0, keyLength)
+}
+
+/**
+ * ファイル鍵がユーザーパスワードから計算した/Uの値と一致するかを検証（Algorithm 4, 5）
+ */
+function verifyLegacyUserKey(
+  fileKey: Uint8Array,
+  encrypt: PDFDict,
+  revision: number,
+  documentId: Uint8Array
+): boolean {
+  const user = getStringBytes(encrypt.lookup(PDFName.of('U')))
+
+  if (revision === 2) {
+    return equalBytes(rc4(fileKey, PASSWORD_PADDING), user.subarray(0, 32))
+  }
+
+  let value = rc4(fileKey, md5(concatBytes(PASSWORD_PADDING, documentId)))
+  for (let i = 1; i <= 19; i++) {
+    value = rc4(fileKey.map((b) => b ^ i), value)
+  }
+  return equalBytes(value, user.subarray(0, 16))
+}
+
+/**
+ * オーナーパスワードからユーザーパスワードを復元（Algorithm 7）
+ */
+function recoverLegacyUserPassword(
+  ownerPassword: Uint8Array,
+  encrypt: PDFDict,
+  revision: number,
+  keyLength: number
+): Uint8Array {
+  let hash = md5(padPassword(ownerPassword))
+  if (revision >= 3) {
+    for (let i = 0; i < 50; i++) hash = md5(hash)
+  }
+  const key = hash.subarray(0, keyLength)
+
+  let userPassword = getStringBytes(encrypt.lookup(PDFName.of('O'))).subarray(0, 32)
+  if (revision === 2) return rc4(key, userPassword)
+
+  for (let i = 19; i >= 0; i--) {
+    userPassword = rc4(key.map((b) => b ^ i), userPassword)
+  }
+  return userPassword
+}
+
+// ============================================================================
+// リビジョン5-6（AES-256）
+// ============================================================================
+
+/**
+ * パスワードのハッシュを計算（R5: SHA-256、R6: Algorithm 2.B）
+ */
+async function computeAes256Hash(
+  password: Uint8Array,
+  salt: Uint8Array,
+  userData: Uint8Array,
+  revision: number
+): Promise<Uint8Array> {
+  let hash = await sha('SHA-256', concatBytes(password, salt, userData))
+  if (revision < 6) return hash
+
+  let lastByte = 0
+  for (let round = 0; round < 64 || lastByte > round - 32; round++) {
+    const block = concatBytes(password, hash, userData)
+    const repeated = new Uint8Array(block.length * 64)
+    for (let i = 0; i < 64; i++) repeated.set(block, i * block.length)
+
+    const encrypted = aesCbcEncrypt(hash.subarray(0, 16), hash.subarray(16, 32), repeated)
+
+    // 先頭16バイトを大きな整数とみなした3の剰余（256 ≡ 1 mod 3 のためバイトの総和で求まる）
+    let sum = 0
+    for (let i = 0; i < 16; i++) sum += encrypted[i]
+    const algorithm = (['SHA-256', 'SHA-384', 'SHA-512'] as const)[sum % 3]
+
+    hash = await sha(algorithm, encrypted)
+    lastByte = encrypted[encrypted.length - 1]
+  }
+
+  return hash.subarray(0, 32)
+}
+
+/**
+ * パスワードからファイル鍵を取得（Algorithm 2.A）
+ *
+ * @returns ファイル鍵（パスワードが一致しない場合はnull）
+ */
+async function computeAes256FileKey(
+  password: Uint8Array,
+  encrypt: PDFDict,
+  revision: number
+): Promise<Uint8Array | null> {
+  const owner = getStringBytes(encrypt.lookup(PDFName.of('O')))
+  const user = getStringBytes(encrypt.lookup(PDFName.of('U')))
+  const ownerKey = getStringBytes(encrypt.lookup(PDFName.of('OE')))
+  const userKey = getStringBytes(encrypt.lookup(PDFName.of('UE')))
+  const iv = new Uint8Array(16)
+
+  // オーナーパスワードとして検証
+  const ownerHash = await computeAes256Hash(password, owner.subarray(32, 40), user.subarray(0, 48), revision)
+  if (equalBytes(ownerHash, owner.subarray(0, 32))) {
+    const key = await computeAes256Hash(password, owner.subarray(40, 48), user.subarray(0, 48), revision)
+    return aesCbcDecrypt(key, iv, ownerKey.subarray(0, 32), false)
+  }
+
+  // ユーザーパスワードとして検証
+  const userHash = await computeAes256Hash(password, user.subarray(32, 40), new Uint8Array(0), revision)
+  if (equalBytes(userHash, user.subarray(0, 32))) {
+    const key = await computeAes256Hash(password, user.subarray(40, 48), new Uint8Array(0), revision)
+    return aesCbcDecrypt(key, iv, userKey.subarray(0, 32), false)
+  }
+
+  return null
+}
+
+// ============================================================================
+// 復号処理
+// ============================================================================
+
+/**
+ * crypt filterの暗号化方式を取得
+ */
+function getCryptMethod(encrypt: PDFDict, filterKey: 'StmF' | 'StrF'): CryptMethod {
+  const filterName = encrypt.lookupMaybe(PDFName.of(filterKey), PDFName)
+  if (!filterName || filterName === PDFName.of('Identity')) return 'none'
+
+  const filter = encrypt
+    .lookupMaybe(PDFName.of('CF'), PDFDict)
+    ?.lookupMaybe(filterName, PDFDict)
+  const method = filter?.lookupMaybe(PDFName.of('CFM'), PDFName)?.decodeText()
+
+  switch (method) {
+    case 'V2':
+      return 'rc4'
+    case 'AESV2':
+      return 'aes128'
+    case 'AESV3':
+      return 'aes256'
+    default:
+      return 'none'
+  }
+}
+
+/**
+ * パスワードを検証して復号情報を作成
+ *
+ * @throws {PdfPasswordError} パスワードが一致しない場合
+ */
+async function createDecryptor(
+  context: PDFContext,
+  encrypt: PDFDict,
+  password: string
+): Promise<Decryptor> {
+  const filter = encrypt.lookupMaybe(PDFName.of('Filter'), PDFName)
+  if (filter !== PDFName.of('Standard')) {
+    throw new Error('この暗号化方式（証明書など）には対応していません')
+  }
+
+  const version = encrypt.lookupMaybe(PDFName.of('V'), PDFNumber)?.asNumber() ?? 0
+  const revision = encrypt.lookupMaybe(PDFName.of('R'), PDFNumber)?.asNumber() ?? 0
+  const encryptMetadata = encrypt.lookupMaybe(PDFName.of('EncryptMetadata'), PDFBool)?.asBoolean() ?? true
+
+  const streamMethod: CryptMethod = version >= 4 ? getCryptMethod(encrypt, 'StmF') : 'rc4'
+  const stringMethod: CryptMethod = version >= 4 ? getCryptMethod(encrypt, 'StrF') : 'rc4'
+
+  const wrongPassword = () =>
+    new PdfPasswordError(
+      password === '' ? 'このPDFはパスワードで保護されています' : 'パスワードが正しくありません',
+      password === '' ? 'required' : 'incorrect'
+    )
+
+  // AES-256（R5はAdobe拡張、R6はPDF 2.0）
+  if (revision >= 5) {
+    const passwordBytes = new TextEncoder().encode(password).subarray(0, 127)
+    const fileKey = await computeAes256FileKey(passwordBytes, encrypt, revision)
+    if (!fileKey) throw wrongPassword()
+    return { fileKey, streamMethod, stringMethod, encryptMetadata }
+  }
+
+  if (revision < 2) {
+    throw new Error('この暗号化方式には対応していません')
+  }
+
+  // RC4 / AES-128（パスワードはPDFDocEncodingとしてLatin-1で扱う）
+  const passwordBytes = Uint8Array.from(password, (char) => char.charCodeAt(0) & 0xff)
+  const lengthBits = encrypt.lookupMaybe(PDFName.of('Length'), PDFNumber)?.asNumber() ?? (version >= 4 ? 128 : 40)
+  const keyLength = revision === 2 ? 5 : Math.min(Math.max(lengthBits / 8, 5), 16)
+  const ids = context.lookupMaybe(context.trailerInfo.ID, PDFArray)
+  const documentId = getStringBytes(ids?.lookup(0))
+
+  for (const userPassword of [
+    passwordBytes,
+    recoverLegacyUserPassword(passwordBytes, encrypt, revision, keyLength),
+  ]) {
+    const fileKey = computeLegacyFileKey(userPassword, encrypt, revision, keyLength, documentId, encryptMetadata)
+    if (verifyLegacyUserKey(fileKey, encrypt, revision, documentId)) {
+      return { fileKey, streamMethod, stringMethod, encryptMetadata }
+    }
+  }
+
+  throw wrongPassword()
+}
+
+/**
+ * オブジェクト単位でデータを復号
+ */
+function decryptData(
+  decryptor: Decryptor,
+  method: CryptMethod,
+  ref: PDFRef,
+  data: Uint8Array
+): Uint8Array {
+  if (method === 'none') return data
+
+  if (method === 'aes256') {
+    if (data.length < 16) return new Uint8Array(0)
+    return aesCbcDecrypt(decryptor.fileKey, data.subarray(0, 16), data.subarray(16))
+  }
+
+  // オブジェクト番号と世代番号から鍵を派生（Algorithm 1）
+  const { fileKey } = decryptor
+  const key = md5(concatBytes(
+    fileKey,
+    toLittleEndian(ref.objectNumber, 3),
+    toLittleEndian(ref.generationNumber, 2),
+    method === 'aes128' ? new Uint8Array([0x73, 0x41, 0x6c, 0x54]) : new Uint8Array(0)
+  )).subarray(0, Math.min(fileKey.length + 5, 16))
+
+  if (method === 'rc4') return rc4(key, data)
+  if (data.length < 16) return new Uint8Array(0)
+  return aesCbcDecrypt(key, data.subarray(0, 16), data.subarray(16))
+}
+
+/**
+ * バイト列を16進文字列オブジェクトに変換
+ */
+function toHexString(bytes: Uint8Array): PDFHexString {
+  let hex = ''
+  for (const byte of bytes) hex += byte.toString(16).padStart(2, '0')
+  return PDFHexString.of(hex)
+}
+
+/**
+ * オブジェクト内の文字列を暗号化・復号（直接オブジェクトは再帰的に処理）
+ */
+function transformStrings(obj: PDFObject, transform: (bytes: Uint8Array) => Uint8Array): PDFObject {
+  if (obj instanceof PDFString || obj instanceof PDFHexString) {
+    return toHexString(transform(obj.asBytes()))
+  }
+
+  if (obj instanceof PDFDict) {
+    // 署名の/Contentsは暗号化されない
+    const isSignature = obj.lookupMaybe(PDFName.of('Type'), PDFName) === PDFName.of('Sig')
+    for (const [key, value] of obj.entries()) {
+      if (isSignature && key === PDFName.of('Contents')) continue
+      obj.set(key, transformStrings(value, transform))
+    }
+  } else if (obj instanceof PDFArray) {
+    for (let i = 0; i < obj.size(); i++) {
+      obj.set(i, transformStrings(obj.get(i), transform))
+    }
+  }
+
+  return obj
+}
+
+/**
+ * 暗号化されたオブジェクトストリームを復号して展開
+ *
+ * 暗号化されたオブジェクトストリームはpdf-libが展開に失敗し、
+ * 不正なオブジェクトとして保持されるため、復号してから改めて展開する
+ *
+ * @returns オブジェクトストリームから展開したオブジェクトの参照
+ */
+async function expandEncryptedObjectStreams(
+  context: PDFContext,
+  decryptor: Decryptor
+): Promise<Set<PDFRef>> {
+  const expandedRefs = new Set<PDFRef>()
+
+  for (const [ref, obj] of context.enumerateIndirectObjects()) {
+    if (!(obj instanceof PDFInvalidObject)) continue
+
+    const bytes = new Uint8Array(obj.sizeInBytes())
+    obj.copyBytesInto(bytes, 0)
+
+    let parsed: PDFObject
+    try {
+      parsed = PDFObjectParser.forBytes(bytes, context).parseObject()
+    } catch {
+      continue
+    }
+    if (
+      !(parsed instanceof PDFRawStream) ||
+      parsed.dict.lookup(PDFName.of('Type')) !== PDFName.of('ObjStm')
+    ) {
+      continue
+    }
+
+    const decrypted = PDFRawStream.of(
+      parsed.dict,
+      decryptData(decryptor, decryptor.streamMethod, ref, parsed.contents)
+    )
+    context.delete(ref)
+
+    const before = new Set(context.enumerateIndirectObjects().map(([existing]) => existing))
+    await PDFObjectStreamParser.forStream(decrypted).parseIntoContext()
+    for (const [added] of context.enumerateIndirectObjects()) {
+      if (!before.has(added)) expandedRefs.add(added)
+    }
+  }
+
+  return expandedRefs
+}
+
+/**
+ * 暗号化されたPDFを復号
+ *
+ * @param bytes - PDFのバイト列
+ * @param password - ユーザーパスワードまたはオーナーパスワード（空文字は閲覧制限のみのPDF用）
+ * @returns 暗号化を解除したPDFのバイト列（暗号化されていない場合は入力をそのまま返す）
+ * @throws {PdfPasswordError} パスワードが必要、または誤っている場合
+ */
+export async function decryptPdf(bytes: Uint8Array, password: string): Promise<Uint8Array> {
+  const context = await PDFParser.forBytesWithOptions(bytes).parseDocument()
+
+  const encryptRef = context.trailerInfo.Encrypt
+  const encrypt = encryptRef instanceof PDFRef ? context.lookup(encryptRef) : encryptRef
+  if (!(encrypt instanceof PDFDict)) return bytes
+
+  const decryptor = await createDecryptor(context, encrypt, password)
+  const expandedRefs = await expandEncryptedObjectStreams(context, decryptor)
+
+  for (const [ref, obj] of context.enumerateIndirectObjects()) {
+    // オブジェクトストリーム内のオブジェクトはストリームごと暗号化されている
+    if (ref === encryptRef || expandedRefs.has(ref)) continue
+
+    const decryptString = (data: Uint8Array) =>
+      decryptData(decryptor, decryptor.stringMethod, ref, data)
+
+    if (obj instanceof PDFRawStream) {
+      transformStrings(obj.dict, decryptString)
+
+      const type = obj.dict.lookup(PDFName.of('Type'))
+      const skipStream =
+        type === PDFName.of('XRef') ||
+        (type === PDFName.of('Metadata') && !decryptor.encryptMetadata)
+
+      if (!skipStream) {
+        context.assign(
+          ref,
+          PDFRawStream.of(obj.dict, decryptData(decryptor, decryptor.streamMethod, ref, obj.contents))
+        )
+      }
+    } else {
+      context.assign(ref, transformStrings(obj, decryptString))
+    }
+  }
+
+  // 暗号化辞書を削除して書き出し
+  if (encryptRef instanceof PDFRef) context.delete(encryptRef)
+  context.trailerInfo.Encrypt = undefined
+
+  return PDFWriter.forContext(context, OBJECTS_PER_TICK).serializeToBuffer()
+}
+
+/**
+ * 暗号化されたPDFファイルを復号したファイルに置き換え
+ *
+ * @param file - PDFファイル
+ * @param password - パスワード（省略時は空文字で閲覧制限のみのPDFを解除）
+ * @returns 復号したファイル（暗号化されていない場合は元のファイル）
+ * @throws {PdfPasswordError} パスワードが必要、または誤っている場合
+ */
+export async function unlockPdfFile(file: File, password = ''): Promise<File> {
+  const bytes = new Uint8Array(await file.arrayBuffer())
+  if (!isPdfEncrypted(bytes)) return file
+
+  const decrypted = await decryptPdf(bytes, password)
+  if (decrypted === bytes) return file
+
+  return new File([decrypted as Uint8Array<ArrayBuffer>], file.name, {
+    type: 'application/pdf',
+    lastModified: file.lastModified,
+  })
+}
+
+// ============================================================================
+// 暗号化処理
+// ============================================================================
+
+/** 暗号化に使用するリビジョン（PDF 2.0のAES-256） */
+const ENCRYPT_REVISION = 6
+
+/** パスワードの最大バイト数（PDF仕様 7.6.4.3.3） */
+const MAX_PASSWORD_BYTES = 127
+
+/**
+ * 暗号学的に安全な乱数バイト列を生成
+ */
+function randomBytes(length: number): Uint8Array {
+  return crypto.getRandomValues(new Uint8Array(length))
+}
+
+/**
+ * PKCS#7パディングを付加
+ */
+function addPadding(data: Uint8Array): Uint8Array {
+  const paddingLength = 16 - (data.length % 16)
+  const padded = new Uint8Array(data.length + paddingLength)
+  padded.set(data)
+  padded.fill(paddingLength, data.length)
+  return padded
+}
+
+/**
+ * 許可する操作から/Pの値を計算（PDF仕様 Table 22）
+ * ビット7-8と13-32は常に1、アクセシビリティ用の抽出（ビット10）は常に許可する
+ */
+function computePermissionFlags(permissions: PdfPermissions): number {
+  let flags = 0xfffff0c0 | 0x200
+  if (permissions.printing) flags |= 0x4 | 0x800
+  if (permissions.modifying) flags |= 0x8 | 0x400
+  if (permissions.copying) flags |= 0x10
+  if (permissions.annotating) flags |= 0x20 | 0x100
+  return flags | 0
+}
+
+/**
+ * 暗号化辞書を作成（Algorithm 8, 9, 10）
+ */
+async function createEncryptDict(
+  context: PDFContext,
+  fileKey: Uint8Array,
+  userPassword: Uint8Array,
+  ownerPassword: Uint8Array,
+  permissionFlags: number
+): Promise<PDFDict> {
+  const iv = new Uint8Array(16)
+  const empty = new Uint8Array(0)
+
+  // ユーザーパスワードの検証値と鍵
+  const userValidationSalt = randomBytes(8)
+  const userKeySalt = randomBytes(8)
+  const user = concatBytes(
+    await computeAes256Hash(userPassword, userValidationSalt, empty, ENCRYPT_REVISION),
+    userValidationSalt,
+    userKeySalt
+  )
+  const userKey = aesCbcEncrypt(
+    await computeAes256Hash(userPassword, userKeySalt, empty, ENCRYPT_REVISION),
+    iv,
+    fileKey
+  )
+
+  // オーナーパスワードの検証値と鍵（/Uの値を含めてハッシュする）
+  const ownerValidationSalt = randomBytes(8)
+  const ownerKeySalt = randomBytes(8)
+  const owner = concatBytes(
+    await computeAes256Hash(ownerPassword, ownerValidationSalt, user, ENCRYPT_REVISION),
+    ownerValidationSalt,
+    ownerKeySalt
+  )
+  const ownerKey = aesCbcEncrypt(
+    await computeAes256Hash(ownerPassword, ownerKeySalt, user, ENCRYPT_REVISION),
+    iv,
+    fileKey
+  )
+
+  // 権限の改ざん検出用（/Pの値、'T'=メタデータも暗号化、'adb'の固定値、乱数）
+  const perms = concatBytes(
+    toLittleEndian(permissionFlags, 4),
+    new Uint8Array([0xff, 0xff, 0xff, 0xff, 0x54, 0x61, 0x64, 0x62]),
+    randomBytes(4)
+  )
+
+  return context.obj({
+    Filter: 'Standard',
+    V: 5,
+    R: ENCRYPT_REVISION,
+    Length: 256,
+    P: permissionFlags,
+    O: toHexString(owner),
+    U: toHexString(user),
+    OE: toHexString(ownerKey),
+    UE: toHexString(userKey),
+    Perms: toHexString(aesCbcEncrypt(fileKey, iv, perms)),
+    CF: { StdCF: { CFM: 'AESV3', AuthEvent: 'DocOpen', Length: 32 } },
+    StmF: 'StdCF',
+    StrF: 'StdCF',
+    EncryptMetadata: true,
+  })
+}
+
+/**
+ * PDFをパスワードで暗号化（AES-256）
+ *
+ * @param bytes - 暗号化されていないPDFのバイト列
+ * @param options - パスワードと許可する操作
+ * @returns 暗号化したPDFのバイト列
+ * @throws {Error} パスワードが指定されていない、または既に暗号化されている場合
+ */
+export async function encryptPdf(bytes: Uint8Array, options: PdfProtectionOptions): Promise<Uint8Array> {
+  const encoder = new TextEncoder()
+  const userPassword = encoder.encode(options.userPassword).subarray(0, MAX_PASSWORD_BYTES)
+  const ownerPassword = options.ownerPassword
+    ? encoder.encode(options.ownerPassword).subarray(0, MAX_PASSWORD_BYTES)
+    : userPassword
+
+  if (ownerPassword.length === 0) {
+    throw new Error('パスワードを入力してください')
+  }
+
+  const context = await PDFParser.forBytesWithOptions(bytes).parseDocument()
+  if (context.trailerInfo.Encrypt) {
+    throw new Error('このPDFは既に暗号化されています。パスワードを解除してから保護してください')
+  }
+
+  const fileKey = randomBytes(32)
+  const encryptData = (data: Uint8Array) => {
+    const iv = randomBytes(16)
+    return concatBytes(iv, aesCbcEncrypt(fileKey, iv, addPadding(data)))
+  }
+
+  for (const [ref, obj] of context.enumerateIndirectObjects()) {
+    if (obj instanceof PDFRawStream) {
+      transformStrings(obj.dict, encryptData)
+      context.assign(ref, PDFRawStream.of(obj.dict, encryptData(obj.contents)))
+    } else {
+      context.assign(ref, transformStrings(obj, encryptData))
+    }
+  }
+
+  const encrypt = await createEncryptDict(
+    context,
+    fileKey,
+    userPassword,
+    ownerPassword,
+    computePermissionFlags(options.permissions)
+  )
+  context.trailerInfo.Encrypt = context.register(encrypt)
+
+  // 暗号化にはファイル識別子が必要（R6では鍵の計算には使わないが仕様上必須）
+  if (!context.trailerInfo.ID) {
+    const id = toHexString(randomBytes(16))
+    context.trailerInfo.ID = context.obj([id, id])
+  }
+
+  return PDFWriter.forContext(context, OBJECTS_PER_TICK).serializeToBuffer()
+}
+
+/**
+ * PDFドキュメントを保存し、保護オプションが指定されていれば暗号化する
+ * 結合・分割・ページ管理の出力で共通に使用する後処理
+ *
+ * @param pdfDoc - 保存するPDFドキュメント
+ * @param protection - パスワード保護オプション（未指定の場合は暗号化しない）
+ * @returns PDFのバイト列
+ */
+export async function savePdf(
+  pdfDoc: PDFDocument,
+  protection?: PdfProtectionOptions
+): Promise<Uint8Array> {
+  const pdfBytes = await pdfDoc.save()
+  return protection ? encryptPdf(pdfBytes, protection) : pdfBytes
+}
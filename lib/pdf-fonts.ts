@@ -0,0 +1,79 @@
+/**
+ * PDFフォントライブラリ
+ * fontkitを使用した日本語フォントのサブセット埋め込み
+ */
+
+import type { PDFDocument, PDFFont } from 'pdf-lib'
+
+/**
+ * 同梱の日本語フォント（Noto Sans JP Regular）のURL
+ * Noto CJK（https://github.com/notofonts/noto-cjk）のバージョン2.004。
+ * SIL Open Font License 1.1のもとで配布しており、ライセンス文は public/fonts/OFL.txt
+ */
+export const JAPANESE_FONT_URL = '/fonts/NotoSansJP-Regular.ttf'
+
+/**
+ * 標準フォント（Helvetica）で描画できない文字を含むかを判定
+ * 標準フォントはWinAnsi（Latin-1相当）の範囲の文字しか表せない
+ *
+ * @param text - 描画するテキスト
+ * @returns 日本語に対応したフォントが必要な場合はtrue
+ */
+export function hasNonWinAnsiText(text: string): boolean {
+  return /[^\u0020-\u00ff]/.test(text)
+}
+
+/** フォントデータのキャッシュ（同一URLの再取得を防ぐ） */
+const fontBytesCache = new Map<string, Promise<ArrayBuffer>>()
+
+/**
+ * フォントファイルを取得
+ *
+ * @param url - フォントファイルのURL
+ * @returns フォントのバイト列
+ */
+export function loadFontBytes(url: string): Promise<ArrayBuffer> {
+  const cached = fontBytesCache.get(url)
+  if (cached) return cached
+
+  const promise = fetch(url).then((response) => {
+    if (!response.ok) {
+      throw new Error(`フォントの読み込みに失敗しました (${response.status})`)
+    }
+    return response.arrayBuffer()
+  })
+
+  // 失敗した場合は次回再取得できるようキャッシュから除外
+  promise.catch(() => fontBytesCache.delete(url))
+  fontBytesCache.set(url, promise)
+
+  return promise
+}
+
+/**
+ * フォントをサブセット埋め込み
+ * 使用した文字のグリフのみを埋め込むため、CJKフォントでも出力サイズを抑えられる
+ *
+ * @param pdfDoc - 埋め込み先のPDFドキュメント
+ * @param fontBytes - TTF/OTFフォントのバイト列
+ * @returns 埋め込んだフォント
+ */
+export async function embedCustomFont(
+  pdfDoc: PDFDocument,
+  fontBytes: ArrayBuffer | Uint8Array
+): Promise<PDFFont> {
+  const { default: fontkit } = await import('@pdf-lib/fontkit')
+  pdfDoc.registerFontkit(fontkit)
+  return pdfDoc.embedFont(fontBytes, { subset: true })
+}
+
+/**
+ * 同梱の日本語フォントを埋め込み
+ *
+ * @param pdfDoc - 埋め込み先のPDFドキュメント
+ * @returns 埋め込んだフォント
+ */
+export async function embedJapaneseFont(pdfDoc: PDFDocument): Promise<PDFFont> {
+  const fontBytes = await loadFontBytes(JAPANESE_FONT_URL)
+  return embedCustomFont(pdfDoc, fontBytes)
+}
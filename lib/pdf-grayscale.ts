@@ -0,0 +1,530 @@
+/**
+ * PDFグレースケール変換ライブラリ
+ * 画像XObjectをDeviceGrayに変換し、コンテンツストリームの色指定をグレーに書き換える（テキストはベクターのまま）
+ */
+
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFNumber,
+  PDFRawStream,
+  PDFRef,
+  PDFStream,
+  PDFString,
+  decodePDFRawStream,
+  type PDFObject,
+} from 'pdf-lib'
+import { encodeGrayscaleJpeg } from '@/lib/grayscale-jpeg'
+import { createCanvas2D, releaseCanvas } from '@/lib/canvas-utils'
+
+/** 色空間の種類 */
+type ColorModel = 'gray' | 'rgb' | 'cmyk'
+
+/** コンテンツストリーム内の現在の色空間（cs/CSで設定されたもの） */
+interface ColorState {
+  fill: ColorModel | undefined
+  stroke: ColorModel | undefined
+}
+
+/** PDFの空白文字 */
+const WHITESPACE = new Set([0x00, 0x09, 0x0a, 0x0c, 0x0d, 0x20])
+
+/** PDFの区切り文字 */
+const DELIMITERS = new Set(['(', ')', '<', '>', '[', ']', '{', '}', '/', '%'].map((c) => c.charCodeAt(0)))
+
+/** 数値トークン */
+const NUMBER_PATTERN = /^[+-]?(\d+\.?\d*|\.\d+)$/
+
+/**
+ * RGB（0-1）を輝度に変換
+ */
+function rgbToGray(r: number, g: number, b: number): number {
+  return 0.299 * r + 0.587 * g + 0.114 * b
+}
+
+/**
+ * CMYK（0-1）を輝度に変換
+ */
+function cmykToGray(c: number, m: number, y: number, k: number): number {
+  return 1 - Math.min(1, 0.3 * c + 0.59 * m + 0.11 * y + k)
+}
+
+/**
+ * 色空間の種類を取得（グレー・RGB・CMYKに相当しない色空間はundefined）
+ */
+function getColorModel(context: PDFDocument['context'], colorSpace: PDFObject | undefined): ColorModel | undefined {
+  const resolved = colorSpace instanceof PDFRef ? context.lookup(colorSpace) : colorSpace
+
+  if (resolved === PDFName.of('DeviceGray')) return 'gray'
+  if (resolved === PDFName.of('DeviceRGB')) return 'rgb'
+  if (resolved === PDFName.of('DeviceCMYK')) return 'cmyk'
+  if (!(resolved instanceof PDFArray)) return undefined
+
+  const family = resolved.lookup(0)
+  if (family === PDFName.of('CalGray')) return 'gray'
+  if (family === PDFName.of('CalRGB')) return 'rgb'
+  if (family === PDFName.of('ICCBased')) {
+    const profile = resolved.lookup(1)
+    const components = profile instanceof PDFStream
+      ? profile.dict.lookupMaybe(PDFName.of('N'), PDFNumber)?.asNumber()
+      : undefined
+    if (components === 1) return 'gray'
+    if (components === 3) return 'rgb'
+    if (components === 4) return 'cmyk'
+  }
+
+  return undefined
+}
+
+/**
+ * 8bitの画素データを輝度に変換
+ */
+function toGrayPixels(pixels: Uint8Array, pixelCount: number, model: 'rgb' | 'cmyk'): Uint8Array {
+  const gray = new Uint8Array(pixelCount)
+
+  if (model === 'rgb') {
+    for (let i = 0, p = 0; i < pixelCount; i++, p += 3) {
+      gray[i] = Math.round(rgbToGray(pixels[p], pixels[p + 1], pixels[p + 2]))
+    }
+  } else {
+    for (let i = 0, p = 0; i < pixelCount; i++, p += 4) {
+      gray[i] = Math.round(
+        255 * cmykToGray(pixels[p] / 255, pixels[p + 1] / 255, pixels[p + 2] / 255, pixels[p + 3] / 255)
+      )
+    }
+  }
+
+  return gray
+}
+
+/**
+ * JPEGをブラウザでデコードして輝度データを取得
+ */
+async function decodeJpegToGray(jpegBytes: Uint8Array, width: number, height: number): Promise<Uint8Array> {
+  const { canvas, context } = createCanvas2D(width, height, { willReadFrequently: true })
+  const bitmap = await createImageBitmap(new Blob([jpegBytes as Uint8Array<ArrayBuffer>], { type: 'image/jpeg' }))
+
+  context.drawImage(bitmap, 0, 0, width, height)
+  bitmap.close()
+
+  const rgba = context.getImageData(0, 0, width, height).data
+
+  // Canvasを解放
+  releaseCanvas(canvas)
+
+  const gray = new Uint8Array(width * height)
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = Math.round(rgbToGray(rgba[i * 4], rgba[i * 4 + 1], rgba[i * 4 + 2]))
+  }
+  return gray
+}
+
+/**
+ * インデックスカラーのパレットをグレーに変換した色空間を生成
+ * 画素データ（パレット番号）はそのまま使える
+ */
+function convertIndexedColorSpace(
+  context: PDFDocument['context'],
+  colorSpace: PDFArray
+): PDFArray | undefined {
+  const model = getColorModel(context, colorSpace.get(1))
+  const highValue = colorSpace.lookupMaybe(2, PDFNumber)?.asNumber()
+  if ((model !== 'rgb' && model !== 'cmyk') || highValue === undefined) return undefined
+
+  const lookup = colorSpace.lookup(3)
+  let palette: Uint8Array
+  if (lookup instanceof PDFString || lookup instanceof PDFHexString) {
+    palette = lookup.asBytes()
+  } else if (lookup instanceof PDFRawStream) {
+    try {
+      palette = decodePDFRawStream(lookup).decode()
+    } catch {
+      return undefined
+    }
+  } else {
+    return undefined
+  }
+
+  const entries = highValue + 1
+  if (palette.length < entries * (model === 'rgb' ? 3 : 4)) return undefined
+
+  const gray = toGrayPixels(palette, entries, model)
+  const hex = Array.from(gray, (value) => value.toString(16).padStart(2, '0')).join('')
+
+  return context.obj([PDFName.of('Indexed'), PDFName.of('DeviceGray'), highValue, PDFHexString.of(hex)])
+}
+
+/**
+ * 画像XObjectをグレースケールに変換
+ * JPEGはグレーのJPEGに、それ以外は可逆圧縮のまま変換する
+ *
+ * @returns 削減したバイト数（変換しなかった場合は0）
+ */
+async function convertImage(
+  pdfDoc: PDFDocument,
+  ref: PDFRef,
+  image: PDFRawStream,
+  quality: number
+): Promise<number> {
+  const context = pdfDoc.context
+  const dict = image.dict
+
+  // マスク画像・Decode配列や色指定のマスク付きは色の再現が難しいため対象外
+  if (
+    dict.has(PDFName.of('ImageMask')) ||
+    dict.has(PDFName.of('Decode')) ||
+    dict.lookup(PDFName.of('Mask')) instanceof PDFArray
+  ) {
+    return 0
+  }
+
+  const colorSpace = dict.lookup(PDFName.of('ColorSpace'))
+
+  // インデックスカラーはパレットのみ変換
+  if (colorSpace instanceof PDFArray && colorSpace.lookup(0) === PDFName.of('Indexed')) {
+    const grayColorSpace = convertIndexedColorSpace(context, colorSpace)
+    if (!grayColorSpace) return 0
+
+    const converted = image.clone(context)
+    converted.dict.set(PDFName.of('ColorSpace'), grayColorSpace)
+    const saved = image.sizeInBytes() + colorSpace.sizeInBytes() - converted.sizeInBytes() - grayColorSpace.sizeInBytes()
+    context.assign(ref, converted)
+    return saved
+  }
+
+  const model = getColorModel(context, colorSpace)
+  const width = dict.lookupMaybe(PDFName.of('Width'), PDFNumber)?.asNumber() ?? 0
+  const height = dict.lookupMaybe(PDFName.of('Height'), PDFNumber)?.asNumber() ?? 0
+  const bitsPerComponent = dict.lookupMaybe(PDFName.of('BitsPerComponent'), PDFNumber)?.asNumber()
+  if ((model !== 'rgb' && model !== 'cmyk') || width <= 0 || height <= 0 || bitsPerComponent !== 8) return 0
+
+  let contents: Uint8Array
+  const filter = dict.lookup(PDFName.of('Filter'))
+  try {
+    if (filter === PDFName.of('DCTDecode')) {
+      // CMYKのJPEGはブラウザでの色の解釈が一定しないため対象外
+      if (model !== 'rgb') return 0
+      const gray = await decodeJpegToGray(image.getContents(), width, height)
+      contents = encodeGrayscaleJpeg(gray, width, height, quality)
+    } else {
+      // 予測子付きの圧縮はpdf-libで展開できない
+      if (dict.has(PDFName.of('DecodeParms'))) return 0
+      const pixels = decodePDFRawStream(image).decode()
+      if (pixels.length < width * height * (model === 'rgb' ? 3 : 4)) return 0
+      contents = context.flateStream(toGrayPixels(pixels, width * height, model)).contents
+    }
+  } catch {
+    // デコードできない画像はそのまま残す
+    return 0
+  }
+
+  const convertedDict = dict.clone(context)
+  convertedDict.set(PDFName.of('ColorSpace'), PDFName.of('DeviceGray'))
+  convertedDict.set(PDFName.of('Filter'), PDFName.of(filter === PDFName.of('DCTDecode') ? 'DCTDecode' : 'FlateDecode'))
+  convertedDict.delete(PDFName.of('DecodeParms'))
+  const converted = PDFRawStream.of(convertedDict, contents)
+
+  const saved = image.sizeInBytes() - converted.sizeInBytes()
+  context.assign(ref, converted)
+  return saved
+}
+
+/**
+ * 数値をコンテンツストリーム用の文字列に変換
+ */
+function formatNumber(value: number): string {
+  return String(Math.round(value * 10000) / 10000)
+}
+
+/**
+ * コンテンツストリームの色指定をグレーに書き換え
+ * rg/RG・k/Kはg/Gに、RGB・CMYKの色空間（cs/CS）はDeviceGrayに置き換え、sc/scnの値も変換する
+ *
+ * @param content - コンテンツストリーム（1バイト1文字の文字列）
+ * @param resolveColorSpace - 名前付き色空間の種類を取得
+ * @param state - 現在の色空間（複数のストリームに分割されたページでは引き継ぐ）
+ * @returns 書き換え後のコンテンツ（変更がない場合はundefined）
+ */
+function rewriteColorOperators(
+  content: string,
+  resolveColorSpace: (name: string) => ColorModel | undefined,
+  state: ColorState
+): string | undefined {
+  const stateStack: ColorState[] = []
+  const operands: { value: string; start: number; isNumber: boolean }[] = []
+  let output = ''
+  let copiedUntil = 0
+  let i = 0
+
+  const replace = (count: number, end: number, replacement: string) => {
+    const start = operands[operands.length - count].start
+    output += content.slice(copiedUntil, start) + replacement
+    copiedUntil = end
+  }
+
+  const numbers = (count: number): number[] | undefined => {
+    if (operands.length < count) return undefined
+    const values = operands.slice(-count)
+    return values.every((operand) => operand.isNumber) ? values.map((operand) => Number(operand.value)) : undefined
+  }
+
+  const toGray = (model: ColorModel | undefined, count: number): number | undefined => {
+    if (model === 'rgb' && count === 3) {
+      const values = numbers(3)
+      return values && rgbToGray(values[0], values[1], values[2])
+    }
+    if (model === 'cmyk' && count === 4) {
+      const values = numbers(4)
+      return values && cmykToGray(values[0], values[1], values[2], values[3])
+    }
+    return undefined
+  }
+
+  while (i < content.length) {
+    const code = content.charCodeAt(i)
+
+    if (WHITESPACE.has(code)) {
+      i++
+      continue
+    }
+
+    const start = i
+    const char = content[i]
+
+    // コメント
+    if (char === '%') {
+      while (i < content.length && content[i] !== '\n' && content[i] !== '\r') i++
+      continue
+    }
+
+    // 文字列（括弧の入れ子とエスケープに対応）
+    if (char === '(') {
+      let depth = 0
+      for (; i < content.length; i++) {
+        if (content[i] === '\\') i++
+        else if (content[i] === '(') depth++
+        else if (content[i] === ')' && --depth === 0) break
+      }
+      i++
+      operands.push({ value: '', start, isNumber: false })
+      continue
+    }
+
+    // 16進文字列・辞書
+    if (char === '<' || char === '>') {
+      if (content[i + 1] === char) {
+        i += 2
+      } else {
+        while (i < content.length && content[i] !== '>') i++
+        i++
+      }
+      operands.push({ value: '', start, isNumber: false })
+      continue
+    }
+
+    if (char === '[' || char === ']' || char === '{' || char === '}') {
+      i++
+      operands.push({ value: '', start, isNumber: false })
+      continue
+    }
+
+    // 名前
+    if (char === '/') {
+      i++
+      while (i < content.length && !WHITESPACE.has(content.charCodeAt(i)) && !DELIMITERS.has(content.charCodeAt(i))) i++
+      operands.push({ value: content.slice(start + 1, i), start, isNumber: false })
+      continue
+    }
+
+    while (i < content.length && !WHITESPACE.has(content.charCodeAt(i)) && !DELIMITERS.has(content.charCodeAt(i))) i++
+    if (i === start) {
+      // 対応しない区切り文字（閉じ括弧の単独出現など）は読み飛ばす
+      i++
+      continue
+    }
+
+    const token = content.slice(start, i)
+    if (NUMBER_PATTERN.test(token) || token === 'true' || token === 'false' || token === 'null') {
+      operands.push({ value: token, start, isNumber: NUMBER_PATTERN.test(token) })
+      continue
+    }
+
+    // 演算子
+    switch (token) {
+      case 'q':
+        stateStack.push({ ...state })
+        break
+      case 'Q': {
+        const restored = stateStack.pop()
+        if (restored) Object.assign(state, restored)
+        break
+      }
+      case 'rg':
+      case 'RG': {
+        const gray = toGray('rgb', 3)
+        if (gray !== undefined) replace(3, i, `${formatNumber(gray)} ${token === 'rg' ? 'g' : 'G'}`)
+        if (token === 'rg') state.fill = 'gray'
+        else state.stroke = 'gray'
+        break
+      }
+      case 'k':
+      case 'K': {
+        const gray = toGray('cmyk', 4)
+        if (gray !== undefined) replace(4, i, `${formatNumber(gray)} ${token === 'k' ? 'g' : 'G'}`)
+        if (token === 'k') state.fill = 'gray'
+        else state.stroke = 'gray'
+        break
+      }
+      case 'g':
+        state.fill = 'gray'
+        break
+      case 'G':
+        state.stroke = 'gray'
+        break
+      case 'cs':
+      case 'CS': {
+        const name = operands[operands.length - 1]?.value
+        const model = name === 'DeviceRGB' ? 'rgb' : name === 'DeviceCMYK' ? 'cmyk' : name ? resolveColorSpace(name) : undefined
+        if (model === 'rgb' || model === 'cmyk') replace(1, i, `/DeviceGray ${token}`)
+        // RGB・CMYKの場合は元の色空間を記録し、後続のsc/scnの値を変換する
+        if (token === 'cs') state.fill = model
+        else state.stroke = model
+        break
+      }
+      case 'sc':
+      case 'scn':
+      case 'SC':
+      case 'SCN': {
+        const model = token === 'sc' || token === 'scn' ? state.fill : state.stroke
+        if (model === 'rgb' || model === 'cmyk') {
+          const gray = toGray(model, model === 'rgb' ? 3 : 4)
+          if (gray !== undefined) replace(model === 'rgb' ? 3 : 4, i, `${formatNumber(gray)} ${token}`)
+        }
+        break
+      }
+      case 'ID': {
+        // インライン画像のデータは読み飛ばす
+        const end = content.slice(i + 1).search(/[\0\t\n\f\r ]EI(?=[\0\t\n\f\r ]|$)/)
+        i = end === -1 ? content.length : i + 1 + end + 3
+        break
+      }
+    }
+
+    operands.length = 0
+  }
+
+  if (copiedUntil === 0) return undefined
+  return output + content.slice(copiedUntil)
+}
+
+/**
+ * ストリームの色指定を書き換えて置き換え
+ *
+ * @returns 削減したバイト数（変更がない場合は0）
+ */
+function rewriteContentStream(
+  context: PDFDocument['context'],
+  ref: PDFRef,
+  resources: PDFDict | undefined,
+  state: ColorState
+): number {
+  const stream = context.lookup(ref)
+  if (!(stream instanceof PDFRawStream)) return 0
+
+  let decoded: Uint8Array
+  try {
+    decoded = decodePDFRawStream(stream).decode()
+  } catch {
+    return 0
+  }
+
+  const colorSpaces = resources?.lookupMaybe(PDFName.of('ColorSpace'), PDFDict)
+  const resolveColorSpace = (name: string) => getColorModel(context, colorSpaces?.get(PDFName.of(name)))
+
+  let content = ''
+  for (let i = 0; i < decoded.length; i += 8192) {
+    content += String.fromCharCode(...decoded.subarray(i, i + 8192))
+  }
+
+  const rewritten = rewriteColorOperators(content, resolveColorSpace, state)
+  if (rewritten === undefined) return 0
+
+  const bytes = new Uint8Array(rewritten.length)
+  for (let i = 0; i < rewritten.length; i++) bytes[i] = rewritten.charCodeAt(i)
+
+  const dict = stream.dict.clone(context)
+  dict.set(PDFName.of('Filter'), PDFName.of('FlateDecode'))
+  dict.delete(PDFName.of('DecodeParms'))
+  const converted = PDFRawStream.of(dict, context.flateStream(bytes).contents)
+
+  const saved = stream.sizeInBytes() - converted.sizeInBytes()
+  context.assign(ref, converted)
+  return saved
+}
+
+/**
+ * PDFをグレースケールに変換
+ * 画像XObjectはDeviceGrayに、ページ・フォームXObject・タイリングパターンの色指定はグレーに書き換える
+ * シェーディング（グラデーション）とインライン画像は変換しない
+ *
+ * @param pdfDoc - PDFドキュメント（変更される）
+ * @param quality - JPEG画像を再エンコードする際の品質（0-1）
+ * @param onProgress - 進捗コールバック（処理済み画像数, 総画像数）
+ * @returns 削減したバイト数（増加した場合は負の値）
+ */
+export async function convertToGrayscale(
+  pdfDoc: PDFDocument,
+  quality: number,
+  onProgress?: (current: number, total: number) => void
+): Promise<number> {
+  await pdfDoc.flush()
+
+  const context = pdfDoc.context
+  let savedBytes = 0
+
+  // ページのコンテンツ（複数のストリームに分割されている場合は色空間の状態を引き継ぐ）
+  for (const page of pdfDoc.getPages()) {
+    const contents = page.node.get(PDFName.of('Contents'))
+    const refs = contents instanceof PDFRef
+      ? [contents]
+      : contents instanceof PDFArray
+        ? contents.asArray().filter((item): item is PDFRef => item instanceof PDFRef)
+        : []
+
+    const state: ColorState = { fill: 'gray', stroke: 'gray' }
+    for (const ref of refs) {
+      savedBytes += rewriteContentStream(context, ref, page.node.Resources(), state)
+    }
+  }
+
+  // フォームXObject（注釈の外観を含む）・タイリングパターン・画像
+  const streams = context
+    .enumerateIndirectObjects()
+    .filter((entry): entry is [PDFRef, PDFRawStream] => entry[1] instanceof PDFRawStream)
+
+  const images: [PDFRef, PDFRawStream][] = []
+  for (const [ref, stream] of streams) {
+    const subtype = stream.dict.lookupMaybe(PDFName.of('Subtype'), PDFName)
+    const patternType = stream.dict.lookupMaybe(PDFName.of('PatternType'), PDFNumber)?.asNumber()
+
+    if (subtype === PDFName.of('Image')) {
+      images.push([ref, stream])
+    } else if (subtype === PDFName.of('Form') || patternType === 1) {
+      const resources = stream.dict.lookupMaybe(PDFName.of('Resources'), PDFDict)
+      savedBytes += rewriteContentStream(context, ref, resources, { fill: 'gray', stroke: 'gray' })
+    }
+  }
+
+  for (let i = 0; i < images.length; i++) {
+    onProgress?.(i, images.length)
+    const [ref, image] = images[i]
+    savedBytes += await convertImage(pdfDoc, ref, image, quality)
+  }
+
+  onProgress?.(images.length, images.length)
+
+  return savedBytes
+}
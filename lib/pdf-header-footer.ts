@@ -0,0 +1,144 @@
+/**
+ * PDFヘッダー・フッター挿入ライブラリ
+ * 規則ごとに対象ページの上端・下端の左・中央・右へテキストを描画
+ * 配置・フォント・読み込みから保存までの処理はページ番号挿入（lib/pdf-page-numbers）と共通
+ */
+
+import { rgb } from 'pdf-lib'
+import type {
+  HeaderFooterResult,
+  HeaderFooterRule,
+  HeaderFooterSlot,
+  NumberPosition,
+  OddEvenPosition,
+  PdfHeaderFooterOptions,
+  ProcessingProgress,
+} from '@/types'
+import { generateOutputFilename } from '@/lib/filename-template'
+import { resolvePageSet } from '@/lib/pdf-splitter'
+import {
+  calculateTextCoordinates,
+  embedTextFont,
+  hexToRgb,
+  measureText,
+  resolvePosition,
+  stampPdfPages,
+} from '@/lib/pdf-page-numbers'
+import { hasHeaderFooterText, renderHeaderFooterText } from '@/lib/header-footer-text'
+
+/** 既定のファイル名テンプレート */
+export const HEADER_FOOTER_FILENAME_TEMPLATE = '{base}_stamped'
+
+/** 配置の一覧（描画順） */
+const SLOTS: HeaderFooterSlot[] = ['left', 'center', 'right']
+
+/** 偶数ページで左右を入れ替えた配置 */
+const MIRRORED_SLOTS: Record<HeaderFooterSlot, HeaderFooterSlot> = {
+  left: 'right',
+  center: 'center',
+  right: 'left',
+}
+
+/**
+ * 規則と配置から描画位置を決定
+ * 左右を入れ替える場合は奇数・偶数ページで別の位置になる
+ * @param rule - ヘッダー・フッターの規則
+ * @param slot - 左・中央・右
+ * @returns 配置位置（単一または奇数・偶数別）
+ */
+function getSlotPosition(
+  rule: HeaderFooterRule,
+  slot: HeaderFooterSlot
+): NumberPosition | OddEvenPosition {
+  const vertical = rule.placement === 'header' ? 'top' : 'bottom'
+  const position: NumberPosition = `${vertical}-${slot}`
+  if (!rule.mirrorOnEvenPages) return position
+
+  return { odd: position, even: `${vertical}-${MIRRORED_SLOTS[slot]}` }
+}
+
+/**
+ * PDFにヘッダー・フッターを挿入
+ *
+ * @param file - 入力PDFファイル
+ * @param options - ヘッダー・フッター挿入オプション
+ * @param onProgress - 進捗コールバック
+ * @param signal - AbortSignal for cancellation
+ * @returns ヘッダー・フッター付きPDF
+ */
+export async function addHeaderFooter(
+  file: File,
+  options: PdfHeaderFooterOptions,
+  onProgress?: (progress: ProcessingProgress) => void,
+  signal?: AbortSignal
+): Promise<HeaderFooterResult> {
+  const { blob, sourceFile, pages } = await stampPdfPages(
+    file,
+    'ヘッダー・フッターを追加中...',
+    async (pdfDoc, sourceFile, totalPages) => {
+      // テキストのない規則は描画しない
+      const rules = options.rules
+        .filter(hasHeaderFooterText)
+        .map((rule) => ({
+          rule,
+          pages: resolvePageSet(rule.pageRange, totalPages),
+          color: hexToRgb(rule.fontColor),
+        }))
+      if (rules.length === 0) {
+        throw new Error('ヘッダー・フッターのテキストを入力してください')
+      }
+
+      // フォントを埋め込み
+      const font = await embedTextFont(pdfDoc, options.font, options.customFont)
+      const date = new Date()
+
+      return (page, pageNumber) => {
+        for (const { rule, pages: rulePages, color } of rules) {
+          if (!rulePages.has(pageNumber)) continue
+
+          for (const slot of SLOTS) {
+            if (rule.slots[slot].trim() === '') continue
+
+            const text = renderHeaderFooterText(rule.slots[slot], {
+              filename: sourceFile.name,
+              date,
+              page: pageNumber,
+              total: totalPages,
+              text: options.customText,
+            })
+            if (text === '') continue
+
+            const position = resolvePosition(getSlotPosition(rule, slot), pageNumber)
+            const textWidth = measureText(font, text, rule.fontSize)
+            const { x, y } = calculateTextCoordinates(
+              page,
+              position,
+              rule.fontSize,
+              options.marginX,
+              options.marginY,
+              textWidth
+            )
+
+            page.drawText(text, {
+              x,
+              y,
+              font,
+              size: rule.fontSize,
+              color: rgb(color.r, color.g, color.b),
+              opacity: rule.opacity,
+            })
+          }
+        }
+      }
+    },
+    onProgress,
+    signal
+  )
+
+  return {
+    blob,
+    filename: generateOutputFilename(sourceFile.name, pages, options.filenameTemplate, HEADER_FOOTER_FILENAME_TEMPLATE),
+    size: blob.size,
+    pages,
+  }
+}
@@ -0,0 +1,214 @@
+/**
+ * PDF内部リンクライブラリ
+ * ページコピー時のリンク注釈・名前付き遷移先の付け替え処理
+ */
+
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFNumber,
+  PDFRef,
+  PDFString,
+  type PDFObject,
+  type PDFPage,
+} from 'pdf-lib'
+import { createPageIndexMap, decodeText, type OutlineDestination } from '@/lib/pdf-outline'
+
+/**
+ * 名前付き遷移先のキー文字列を生成
+ * ASCIIのみの名前はリテラル文字列、それ以外はUTF-16の16進文字列にする
+ */
+function encodeDestinationName(name: string): PDFString | PDFHexString {
+  return /^[\x20-\x7E]*$/.test(name) ? PDFString.of(name) : PDFHexString.fromText(name)
+}
+
+/**
+ * ページのリンク注釈を列挙
+ */
+function getLinkAnnotations(page: PDFPage): PDFDict[] {
+  const annots = page.node.Annots()
+  if (!annots) return []
+
+  const links: PDFDict[] = []
+  for (let i = 0; i < annots.size(); i++) {
+    const annot = annots.lookup(i)
+    if (
+      annot instanceof PDFDict &&
+      annot.lookupMaybe(PDFName.of('Subtype'), PDFName) === PDFName.of('Link')
+    ) {
+      links.push(annot)
+    }
+  }
+  return links
+}
+
+/**
+ * リンク注釈の遷移先を保持しているディクショナリを取得
+ * /Dest を直接持つ場合は注釈自身、GoToアクションの場合はアクション
+ *
+ * @returns 遷移先を保持するディクショナリとキー
+ */
+function getDestinationHolder(link: PDFDict): { holder: PDFDict; key: PDFName } | null {
+  if (link.has(PDFName.of('Dest'))) {
+    return { holder: link, key: PDFName.of('Dest') }
+  }
+
+  const action = link.lookupMaybe(PDFName.of('A'), PDFDict)
+  if (
+    action?.lookupMaybe(PDFName.of('S'), PDFName) === PDFName.of('GoTo') &&
+    action.has(PDFName.of('D'))
+  ) {
+    return { holder: action, key: PDFName.of('D') }
+  }
+
+  return null
+}
+
+/**
+ * コピー前の元PDFからリンク先のページ参照を切り離す
+ *
+ * copyPagesはリンク先のページ参照も辿ってコピーするため、そのままでは
+ * 結合後のPDFに孤立したページの複製が生まれ、リンクもそちらを指してしまう。
+ * 明示的な遷移先のページ参照はページインデックス（数値）に置き換え、
+ * 名前付き遷移先は結合後の名前に付け替える。
+ *
+ * @param pdfDoc - 元のPDFドキュメント（変更される）
+ * @param renames - 名前付き遷移先の変更前→変更後の名前
+ */
+export function detachLinkDestinations(
+  pdfDoc: PDFDocument,
+  renames: Map<string, string>
+): void {
+  const context = pdfDoc.context
+  const pageIndexMap = createPageIndexMap(pdfDoc)
+
+  for (const page of pdfDoc.getPages()) {
+    for (const link of getLinkAnnotations(page)) {
+      // 所属ページへの参照（/P）もページの複製を生むため削除
+      link.delete(PDFName.of('P'))
+
+      const target = getDestinationHolder(link)
+      if (!target) continue
+
+      const rawDest = target.holder.get(target.key)
+      const dest = rawDest instanceof PDFRef ? context.lookup(rawDest) : rawDest
+
+      if (dest instanceof PDFArray) {
+        const pageRef = dest.get(0)
+        if (pageRef instanceof PDFRef) {
+          const pageIndex = pageIndexMap.get(pageRef)
+          if (pageIndex === undefined) {
+            target.holder.delete(target.key)
+          } else {
+            dest.set(0, PDFNumber.of(pageIndex))
+          }
+        }
+        continue
+      }
+
+      const name = dest instanceof PDFName ? dest.decodeText() : decodeText(dest)
+      if (name !== undefined) {
+        target.holder.set(target.key, encodeDestinationName(renames.get(name) ?? name))
+      }
+    }
+  }
+}
+
+/**
+ * コピー後のページにリンク先のページ参照を付け直す
+ * detachLinkDestinationsで数値に置き換えた遷移先を結合後のページ参照に戻す
+ *
+ * @param pdfDoc - コピー先のPDFドキュメント
+ * @param pages - コピー先に追加したページ
+ * @param mapPageIndex - 元PDFのページインデックスからコピー先のページインデックスへの変換
+ *                       （コピー対象外のページはundefinedを返す）
+ */
+export function attachLinkDestinations(
+  pdfDoc: PDFDocument,
+  pages: PDFPage[],
+  mapPageIndex: (pageIndex: number) => number | undefined
+): void {
+  const context = pdfDoc.context
+  const pageRefs = pdfDoc.getPages().map((page) => page.ref)
+
+  for (const page of pages) {
+    const annots = page.node.Annots()
+
+    for (const link of getLinkAnnotations(page)) {
+      link.set(PDFName.of('P'), page.ref)
+
+      const target = getDestinationHolder(link)
+      if (!target) continue
+
+      const rawDest = target.holder.get(target.key)
+      const dest = rawDest instanceof PDFRef ? context.lookup(rawDest) : rawDest
+      if (!(dest instanceof PDFArray)) continue
+
+      const pageIndex = dest.get(0)
+      if (!(pageIndex instanceof PDFNumber)) continue
+
+      const mappedIndex = mapPageIndex(pageIndex.asNumber())
+      const pageRef = mappedIndex !== undefined ? pageRefs[mappedIndex] : undefined
+
+      if (pageRef) {
+        dest.set(0, pageRef)
+      } else if (annots) {
+        // リンク先ページがコピーされていない場合はリンクごと削除
+        const index = annots.asArray().findIndex(
+          (entry) => entry === link || (entry instanceof PDFRef && context.lookup(entry) === link)
+        )
+        if (index !== -1) annots.remove(index)
+      }
+    }
+  }
+}
+
+/**
+ * 名前付き遷移先の名前ツリー（/Names /Dests）を書き込み（既存のものは置き換え）
+ *
+ * @param pdfDoc - 書き込み先のPDFドキュメント
+ * @param destinations - 名前から遷移先への対応表（ページインデックスはこのドキュメント内）
+ */
+export function writeNamedDestinations(
+  pdfDoc: PDFDocument,
+  destinations: Map<string, OutlineDestination>
+): void {
+  if (destinations.size === 0) return
+
+  const context = pdfDoc.context
+  const pageRefs = pdfDoc.getPages().map((page) => page.ref)
+
+  // 名前ツリーのキーはバイト順にソートされている必要がある
+  const entries = [...destinations.entries()]
+    .filter(([, dest]) => pageRefs[dest.pageIndex] !== undefined)
+    .map(([name, dest]) => ({ key: encodeDestinationName(name), dest }))
+    .sort((a, b) => compareBytes(a.key.asBytes(), b.key.asBytes()))
+
+  if (entries.length === 0) return
+
+  const pairs: PDFObject[] = []
+  for (const { key, dest } of entries) {
+    pairs.push(key, context.obj([pageRefs[dest.pageIndex], ...dest.view]))
+  }
+
+  const names =
+    pdfDoc.catalog.lookupMaybe(PDFName.of('Names'), PDFDict) ?? context.obj({})
+  names.set(PDFName.of('Dests'), context.register(context.obj({ Names: pairs })))
+  pdfDoc.catalog.set(PDFName.of('Names'), names)
+  // PDF 1.1形式の/Destsは名前ツリーに統合したため削除
+  pdfDoc.catalog.delete(PDFName.of('Dests'))
+}
+
+/**
+ * バイト列を辞書順に比較
+ */
+function compareBytes(a: Uint8Array, b: Uint8Array): number {
+  const length = Math.min(a.length, b.length)
+  for (let i = 0; i < length; i++) {
+    if (a[i] !== b[i]) return a[i] - b[i]
+  }
+  return a.length - b.length
+}
@@ -0,0 +1,181 @@
+/**
+ * PDF結合のテスト
+ */
+
+import { after, before, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { PDFArray, PDFDict, PDFDocument, PDFName, PDFNumber, PDFRef, PDFStream, PDFString } from 'pdf-lib'
+import type { FileUpload } from '@/types'
+import { DEFAULT_PDF_MERGE_OPTIONS } from '@/types'
+import { mergePDFs } from '@/lib/pdf-merger'
+
+/**
+ * ポップアップ付きのテキスト注釈を持つ1ページのPDFを作成
+ */
+async function createAnnotatedPdfFile(pageRange: string): Promise<FileUpload> {
+  const pdfDoc = await PDFDocument.create()
+  const page = pdfDoc.addPage([200, 200])
+  const context = pdfDoc.context
+
+  const textRef = context.nextRef()
+  const popupRef = context.register(
+    context.obj({ Type: 'Annot', Subtype: 'Popup', Rect: [100, 100, 200, 150], Parent: textRef, P: page.ref })
+  )
+  context.assign(
+    textRef,
+    context.obj({
+      Type: 'Annot',
+      Subtype: 'Text',
+      Rect: [10, 10, 30, 30],
+      Contents: PDFString.of('memo'),
+      Popup: popupRef,
+      P: page.ref,
+    })
+  )
+  page.node.set(PDFName.of('Annots'), context.obj([textRef, popupRef]))
+
+  const bytes = await pdfDoc.save()
+  return {
+    id: 'annotated',
+    file: new File([bytes.buffer as ArrayBuffer], 'annotated.pdf', { type: 'application/pdf' }),
+    name: 'annotated.pdf',
+    size: `${bytes.length} B`,
+    type: 'pdf',
+    pages: 1,
+    pageRange,
+    status: 'ready',
+  }
+}
+
+/**
+ * 透過マスク（DeviceGrayのSMask）付きの画像を配置した1ページのPDFを作成
+ */
+async function createMaskedImagePdfFile(): Promise<FileUpload> {
+  const pdfDoc = await PDFDocument.create()
+  const page = pdfDoc.addPage([200, 200])
+  const context = pdfDoc.context
+  const size = 600
+
+  const softMaskRef = context.register(
+    context.flateStream(new Uint8Array(size * size).fill(128), {
+      Type: 'XObject',
+      Subtype: 'Image',
+      Width: size,
+      Height: size,
+      ColorSpace: 'DeviceGray',
+      BitsPerComponent: 8,
+    })
+  )
+  const imageRef = context.register(
+    context.flateStream(new Uint8Array(size * size * 3).fill(200), {
+      Type: 'XObject',
+      Subtype: 'Image',
+      Width: size,
+      Height: size,
+      ColorSpace: 'DeviceRGB',
+      BitsPerComponent: 8,
+      SMask: softMaskRef,
+    })
+  )
+  page.node.setXObject(PDFName.of('Im1'), imageRef)
+
+  const bytes = await pdfDoc.save()
+  return {
+    id: 'masked',
+    file: new File([bytes.buffer as ArrayBuffer], 'masked.pdf', { type: 'application/pdf' }),
+    name: 'masked.pdf',
+    size: `${bytes.length} B`,
+    type: 'pdf',
+    pages: 1,
+    status: 'ready',
+  }
+}
+
+/**
+ * 画像の再エンコードに使うブラウザのAPIを差し替え（縮小結果は固定の小さなデータ）
+ */
+function installCanvasStubs(): () => void {
+  const globals = globalThis as Record<string, unknown>
+  const originals = ['ImageData', 'OffscreenCanvas', 'createImageBitmap'].map((name) => [name, globals[name]] as const)
+
+  globals.ImageData = class {
+    data: Uint8ClampedArray
+    constructor(public width: number, public height: number) {
+      this.data = new Uint8ClampedArray(width * height * 4)
+    }
+  }
+  globals.OffscreenCanvas = class {
+    constructor(public width: number, public height: number) {}
+    getContext() {
+      return { fillStyle: '', fillRect() {}, drawImage() {} }
+    }
+    async convertToBlob() {
+      return new Blob([new Uint8Array(16)], { type: 'image/jpeg' })
+    }
+  }
+  globals.createImageBitmap = async () => ({ close() {} })
+
+  return () => {
+    for (const [name, value] of originals) globals[name] = value
+  }
+}
+
+/** ページの注釈の参照 */
+function getAnnotRefs(pdfDoc: PDFDocument, pageIndex: number): PDFRef[] {
+  const annots = pdfDoc.getPages()[pageIndex].node.lookup(PDFName.of('Annots'), PDFArray)
+  return annots.asArray() as PDFRef[]
+}
+
+describe('mergePDFs', () => {
+  it('同じページを繰り返す場合は注釈をページごとに複製する', async () => {
+    const file = await createAnnotatedPdfFile('1,1')
+    const result = await mergePDFs([file], { ...DEFAULT_PDF_MERGE_OPTIONS, createBookmarks: false })
+    const merged = await PDFDocument.load(await result.blob.arrayBuffer())
+    const pages = merged.getPages()
+    assert.equal(pages.length, 2)
+
+    const [firstText, firstPopup] = getAnnotRefs(merged, 0)
+    const [secondText, secondPopup] = getAnnotRefs(merged, 1)
+    assert.notEqual(firstText, secondText)
+    assert.notEqual(firstPopup, secondPopup)
+
+    // 所属ページとポップアップの対応はそれぞれのページ内で閉じている
+    pages.forEach((page, i) => {
+      const [textRef, popupRef] = getAnnotRefs(merged, i)
+      const text = merged.context.lookup(textRef, PDFDict)
+      const popup = merged.context.lookup(popupRef, PDFDict)
+      assert.equal(text.get(PDFName.of('P')), page.ref)
+      assert.equal(popup.get(PDFName.of('P')), page.ref)
+      assert.equal(text.get(PDFName.of('Popup')), popupRef)
+      assert.equal(popup.get(PDFName.of('Parent')), textRef)
+    })
+  })
+
+  describe('画像の縮小', () => {
+    let restoreCanvas: () => void
+    before(() => {
+      restoreCanvas = installCanvasStubs()
+    })
+    after(() => restoreCanvas())
+
+    it('透過マスクはDeviceGrayのまま残す', async () => {
+      const file = await createMaskedImagePdfFile()
+      const result = await mergePDFs([file], {
+        ...DEFAULT_PDF_MERGE_OPTIONS,
+        createBookmarks: false,
+        imageQuality: 'low',
+      })
+      const merged = await PDFDocument.load(await result.blob.arrayBuffer())
+
+      const xObjects = merged.getPages()[0].node.Resources()?.lookup(PDFName.of('XObject'), PDFDict)
+      const image = xObjects?.lookup(PDFName.of('Im1'), PDFStream)
+      assert.ok(image)
+      assert.equal(image.dict.lookup(PDFName.of('Filter')), PDFName.of('DCTDecode'))
+
+      const softMask = image.dict.lookup(PDFName.of('SMask'), PDFStream)
+      assert.equal(softMask.dict.lookup(PDFName.of('ColorSpace')), PDFName.of('DeviceGray'))
+      assert.equal(softMask.dict.lookup(PDFName.of('Filter')), PDFName.of('FlateDecode'))
+      assert.equal(softMask.dict.lookup(PDFName.of('Width'), PDFNumber).asNumber(), 600)
+    })
+  })
+})
@@ -3,9 +3,41 @@
  * pdf-libを使用したPDF結合処理
  */
 
-import { PDFDocument } from 'pdf-lib'
-import type { FileUpload, PdfMergeOptions, ProcessingProgress, MergeResult } from '@/types'
-import { generateMergedFilename } from '@/lib/file-utils'
+import { PDFArray, PDFDict, PDFDocument, PDFName, PDFRef, type PDFPage } from 'pdf-lib'
+import type {
+  FileUpload,
+  PdfMergeOptions,
+  ProcessingProgress,
+  MergeResult,
+  OptimizationResult,
+} from '@/types'
+import { createFilenameGenerator, removeExtension } from '@/lib/filename-template'
+import { parsePageRanges } from '@/lib/pdf-splitter'
+import { addImagePage } from '@/lib/image-to-pdf'
+import { ensurePdfFile } from '@/lib/docx-to-pdf'
+import { assertNotEncrypted, savePdf } from '@/lib/pdf-encryption'
+import {
+  readOutline,
+  remapOutline,
+  resolveNamedDestinations,
+  writeOutline,
+  type OutlineDestination,
+  type OutlineNode,
+} from '@/lib/pdf-outline'
+import {
+  attachLinkDestinations,
+  detachLinkDestinations,
+  writeNamedDestinations,
+} from '@/lib/pdf-links'
+import { deduplicateObjects, downsampleImages, removeUnusedObjects } from '@/lib/pdf-optimizer'
+
+/** 既定のファイル名テンプレート */
+export const MERGE_FILENAME_TEMPLATES = {
+  /** 元のファイル名を維持する場合 */
+  keepFilename: '{base}_merged_{date}',
+  /** 元のファイル名を維持しない場合 */
+  default: 'merged_{date}',
+} as const
 
 /**
  * 複数のPDFファイルを結合
@@ -32,6 +64,11 @@ export async function mergePDFs(
   // 新しいPDFドキュメントを作成
   const mergedPdf = await PDFDocument.create()
 
+  // しおり（ファイルごとに1項目、元のしおりはその配下に保持）
+  const bookmarks: OutlineNode[] = []
+  // 結合後の名前付き遷移先（名前の衝突はファイルごとの接頭辞で回避）
+  const namedDestinations = new Map<string, OutlineDestination>()
+
   // 各PDFからページをコピーして結合
   for (let i = 0; i < sortedFiles.length; i++) {
     const file = sortedFiles[i]
@@ -49,19 +86,75 @@ export async function mergePDFs(
     })
 
     try {
-      // ファイルをArrayBufferとして読み込み
-      const arrayBuffer = await file.file.arrayBuffer()
+      // 画像は1ページとして追加
+      if (file.type === 'image') {
+        const pageIndex = mergedPdf.getPageCount()
+        await addImagePage(mergedPdf, file.file, options.imagePageSize)
+
+        if (options.createBookmarks) {
+          bookmarks.push({
+            title: removeExtension(file.name),
+            destination: { pageIndex, view: [PDFName.of('Fit')] },
+            open: false,
+            children: [],
+          })
+        }
+        continue
+      }
+
+      // ファイルをArrayBufferとして読み込み（Word文書はPDFに変換）
+      const sourceFile = await ensurePdfFile(file.file)
+      const arrayBuffer = await sourceFile.arrayBuffer()
 
       // PDFを読み込み（暗号化されたPDFはエラー）
       const pdf = await PDFDocument.load(arrayBuffer, {
         ignoreEncryption: true,
       })
+      assertNotEncrypted(pdf)
+
+      // しおりと名前付き遷移先はコピー前に読み取る
+      const sourceOutline = readOutline(pdf)
+      const sourceDestinations = resolveNamedDestinations(pdf)
+      const renames = renameDestinations(sourceDestinations, namedDestinations, i + 1)
+      detachLinkDestinations(pdf, renames)
+      detachAnnotationPages(pdf)
 
-      // ページをコピー
-      const copiedPages = await mergedPdf.copyPages(pdf, pdf.getPageIndices())
+      // 選択されたページを指定順にコピー
+      const pageIndices = resolvePageIndices(file, pdf.getPageCount())
+      const pageOffset = mergedPdf.getPageCount()
+      const copiedPages = await mergedPdf.copyPages(pdf, pageIndices)
+
+      // 元のページインデックス → 結合後のページインデックス（重複指定時は最初の位置）
+      const mergedIndexMap = new Map<number, number>()
+      pageIndices.forEach((pageIndex, j) => {
+        if (!mergedIndexMap.has(pageIndex)) mergedIndexMap.set(pageIndex, pageOffset + j)
+      })
+      const toMergedIndex = (index: number) => mergedIndexMap.get(index)
 
       // ページを追加
       copiedPages.forEach((page) => mergedPdf.addPage(page))
+      attachAnnotationPages(mergedPdf, copiedPages, pageIndices)
+
+      // 内部リンクを結合後のページに付け替え
+      attachLinkDestinations(mergedPdf, copiedPages, toMergedIndex)
+
+      for (const [name, dest] of sourceDestinations) {
+        const pageIndex = toMergedIndex(dest.pageIndex)
+        if (pageIndex === undefined) continue
+        namedDestinations.set(renames.get(name) ?? name, { ...dest, pageIndex })
+      }
+
+      const outline = remapOutline(sourceOutline, toMergedIndex)
+      if (options.createBookmarks && copiedPages.length > 0) {
+        bookmarks.push({
+          title: removeExtension(file.name),
+          destination: { pageIndex: pageOffset, view: [PDFName.of('Fit')] },
+          open: false,
+          children: outline,
+        })
+      } else {
+        bookmarks.push(...outline)
+      }
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : '不明なエラー'
       throw new Error(`ファイル ${file.name} の読み込みに失敗しました: ${errorMessage}`)
@@ -74,8 +167,15 @@ export async function mergePDFs(
     message: '最終処理中...',
   })
 
-  // PDFを保存
-  const pdfBytes = await mergedPdf.save()
+  // しおりと名前付き遷移先を書き込み
+  writeOutline(mergedPdf, bookmarks)
+  writeNamedDestinations(mergedPdf, namedDestinations)
+
+  // ファイルサイズの最適化・画像のダウンサンプリング
+  const optimization = await optimizeMergedPdf(mergedPdf, options, onProgress)
+
+  // PDFを保存（パスワード保護が指定されていれば暗号化）
+  const pdfBytes = await savePdf(mergedPdf, options.protection)
 
   onProgress?.({
     stage: 'completed',
@@ -85,16 +185,64 @@ export async function mergePDFs(
 
   // 結果を生成
   const blob = new Blob([pdfBytes.buffer as ArrayBuffer], { type: 'application/pdf' })
-  const filename = generateFilename(sortedFiles, options)
+  const filename = generateFilename(sortedFiles, options, mergedPdf.getPageCount())
 
   return {
     blob,
     filename,
     size: blob.size,
     pages: mergedPdf.getPageCount(),
+    optimization,
   }
 }
 
+/**
+ * 結合後のPDFに最適化オプションを適用
+ * 重複リソースの統合 → 画像のダウンサンプリング → 未使用オブジェクトの削除の順に処理する
+ *
+ * @returns 各処理で削減したバイト数（何も適用しない場合はundefined）
+ */
+async function optimizeMergedPdf(
+  pdfDoc: PDFDocument,
+  options: PdfMergeOptions,
+  onProgress?: (progress: ProcessingProgress) => void
+): Promise<OptimizationResult | undefined> {
+  if (!options.optimize && options.imageQuality === 'high') return undefined
+
+  const result: OptimizationResult = {
+    deduplicatedBytes: 0,
+    unusedObjectBytes: 0,
+    downsampledImageBytes: 0,
+  }
+
+  if (options.optimize) {
+    onProgress?.({
+      stage: 'finalizing',
+      percentage: 91,
+      message: '重複したリソースを統合しています...',
+    })
+    result.deduplicatedBytes = await deduplicateObjects(pdfDoc)
+  }
+
+  result.downsampledImageBytes = await downsampleImages(
+    pdfDoc,
+    options.imageQuality,
+    (current, total) => {
+      onProgress?.({
+        stage: 'finalizing',
+        percentage: 92 + Math.floor((current / Math.max(total, 1)) * 6),
+        message: `画像を圧縮しています (${current}/${total})...`,
+      })
+    }
+  )
+
+  if (options.optimize) {
+    result.unusedObjectBytes = await removeUnusedObjects(pdfDoc)
+  }
+
+  return result
+}
+
 /**
  * ファイルをソート
  */
@@ -107,14 +255,170 @@ function sortFiles(files: FileUpload[], order: PdfMergeOptions['order']): FileUp
   return files // 元の順序
 }
 
+/**
+ * ファイルのページ範囲指定からコピーするページインデックスを取得
+ *
+ * @param file - 結合するファイル
+ * @param totalPages - PDFの総ページ数
+ * @returns ページインデックス配列（0ベース、指定順）
+ */
+function resolvePageIndices(file: FileUpload, totalPages: number): number[] {
+  if (!file.pageRange || file.pageRange.trim() === '') {
+    return Array.from({ length: totalPages }, (_, i) => i)
+  }
+
+  const parseResult = parsePageRanges(file.pageRange, totalPages, true)
+  if (!parseResult.isValid || parseResult.ranges.length === 0) {
+    throw new Error(parseResult.errors[0]?.message ?? '有効なページ範囲を指定してください')
+  }
+
+  return parseResult.ranges.flatMap((range) =>
+    Array.from({ length: range.end - range.start + 1 }, (_, j) => range.start - 1 + j)
+  )
+}
+
+/**
+ * コピー前の元PDFから注釈の所属ページ（/P）への参照を切り離す
+ * copyPagesは/Pのページも辿ってコピーするため、そのままでは孤立したページの複製が生まれる
+ *
+ * @param pdfDoc - 元のPDFドキュメント（変更される）
+ */
+function detachAnnotationPages(pdfDoc: PDFDocument): void {
+  for (const page of pdfDoc.getPages()) {
+    const annots = page.node.Annots()
+    if (!annots) continue
+
+    for (let i = 0; i < annots.size(); i++) {
+      const annot = annots.lookup(i)
+      if (annot instanceof PDFDict) annot.delete(PDFName.of('P'))
+    }
+  }
+}
+
+/**
+ * コピー後のページの注釈に所属ページ（/P）を付け直す
+ *
+ * copyPagesは同じページを複数回コピーすると注釈ディクショナリを複製間で
+ * 共有するため、2回目以降のページは注釈を複製してそのページ専用にする。
+ *
+ * @param pdfDoc - コピー先のPDFドキュメント
+ * @param pages - コピーしたページ（pageIndicesと同じ順序）
+ * @param pageIndices - コピー元のページインデックス
+ */
+function attachAnnotationPages(
+  pdfDoc: PDFDocument,
+  pages: PDFPage[],
+  pageIndices: number[]
+): void {
+  const copiedIndices = new Set<number>()
+  pages.forEach((page, j) => {
+    if (copiedIndices.has(pageIndices[j])) {
+      cloneAnnotations(pdfDoc, page)
+      return
+    }
+    copiedIndices.add(pageIndices[j])
+
+    const annots = page.node.Annots()
+    for (let i = 0; annots && i < annots.size(); i++) {
+      const annot = annots.lookup(i)
+      if (annot instanceof PDFDict) annot.set(PDFName.of('P'), page.ref)
+    }
+  })
+}
+
+/**
+ * ページの注釈を複製し、そのページ専用の注釈に置き換え
+ *
+ * @param pdfDoc - ページを含むPDFドキュメント
+ * @param page - 注釈を複製するページ
+ */
+function cloneAnnotations(pdfDoc: PDFDocument, page: PDFPage): void {
+  const context = pdfDoc.context
+  const annots = page.node.Annots()
+  if (!annots) return
+
+  // 元の注釈 → 複製した注釈（ポップアップや返信の参照の付け替えに使用）
+  const clonedRefs = new Map<PDFRef, PDFRef>()
+  const clones: { annot: PDFDict; ref: PDFRef }[] = []
+  const clonedAnnots = PDFArray.withContext(context)
+
+  for (const entry of annots.asArray()) {
+    const annot = entry instanceof PDFRef ? context.lookup(entry) : undefined
+    if (!(entry instanceof PDFRef) || !(annot instanceof PDFDict)) {
+      clonedAnnots.push(entry)
+      continue
+    }
+
+    const clone = annot.clone(context)
+    clone.set(PDFName.of('P'), page.ref)
+    const cloneRef = context.register(clone)
+    clonedRefs.set(entry, cloneRef)
+    clones.push({ annot: clone, ref: cloneRef })
+    clonedAnnots.push(cloneRef)
+  }
+
+  for (const { annot: clone, ref: cloneRef } of clones) {
+    for (const key of ['Popup', 'IRT'].map((name) => PDFName.of(name))) {
+      const ref = clone.get(key)
+      const clonedRef = ref instanceof PDFRef ? clonedRefs.get(ref) : undefined
+      if (clonedRef) clone.set(key, clonedRef)
+    }
+
+    // ポップアップの親は同じページの注釈、ウィジェットの親はフォームのフィールド
+    const parentRef = clone.get(PDFName.of('Parent'))
+    if (!(parentRef instanceof PDFRef)) continue
+    const clonedParentRef = clonedRefs.get(parentRef)
+    if (clonedParentRef) {
+      clone.set(PDFName.of('Parent'), clonedParentRef)
+    } else {
+      context.lookupMaybe(parentRef, PDFDict)?.lookupMaybe(PDFName.of('Kids'), PDFArray)?.push(cloneRef)
+    }
+  }
+
+  page.node.set(PDFName.of('Annots'), clonedAnnots)
+}
+
+/**
+ * 既存の名前と衝突する名前付き遷移先の新しい名前を決定
+ *
+ * @param sourceDestinations - 追加するファイルの名前付き遷移先
+ * @param existing - 結合済みの名前付き遷移先
+ * @param fileNumber - ファイル番号（1始まり、接頭辞に使用）
+ * @returns 変更前→変更後の名前（衝突しない名前は含まない）
+ */
+function renameDestinations(
+  sourceDestinations: Map<string, OutlineDestination>,
+  existing: Map<string, OutlineDestination>,
+  fileNumber: number
+): Map<string, string> {
+  const renames = new Map<string, string>()
+
+  for (const name of sourceDestinations.keys()) {
+    if (!existing.has(name)) continue
+
+    let renamed = `file${fileNumber}_${name}`
+    for (let n = 2; existing.has(renamed) || sourceDestinations.has(renamed); n++) {
+      renamed = `file${fileNumber}_${n}_${name}`
+    }
+    renames.set(name, renamed)
+  }
+
+  return renames
+}
+
 /**
  * 出力ファイル名を生成
- * file-utils.tsのgenerateMergedFilenameを使用
+ * テンプレート未指定の場合は、元のファイル名を維持するかどうかに応じた既定のテンプレートを使う
  */
-function generateFilename(files: FileUpload[], options: PdfMergeOptions): string {
-  return generateMergedFilename({
-    keepFilename: options.keepFilename,
-    baseFilename: files[0]?.name,
+function generateFilename(files: FileUpload[], options: PdfMergeOptions, pages: number): string {
+  const baseFilename = files[0]?.name
+  const keepBase = options.keepFilename && baseFilename !== undefined
+  const template = options.filenameTemplate?.trim()
+    || (keepBase ? MERGE_FILENAME_TEMPLATES.keepFilename : MERGE_FILENAME_TEMPLATES.default)
+
+  return createFilenameGenerator(template)({
+    base: baseFilename ? removeExtension(baseFilename) : 'merged',
+    pages,
   })
 }
 
@@ -0,0 +1,40 @@
+/**
+ * PDF最適化のテスト
+ */
+
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { PDFDocument } from 'pdf-lib'
+import { deduplicateObjects } from '@/lib/pdf-optimizer'
+
+describe('deduplicateObjects', () => {
+  it('同一内容のディクショナリを統合する', async () => {
+    const pdfDoc = await PDFDocument.create()
+    const context = pdfDoc.context
+    const first = context.register(context.obj({ Type: 'ExtGState', CA: 0.5 }))
+    const second = context.register(context.obj({ Type: 'ExtGState', CA: 0.5 }))
+
+    await deduplicateObjects(pdfDoc)
+
+    assert.notEqual(context.lookup(first), undefined)
+    assert.equal(context.lookup(second), undefined)
+  })
+
+  it('構造要素と所属ページを持つディクショナリは統合しない', async () => {
+    const pdfDoc = await PDFDocument.create()
+    const page = pdfDoc.addPage([200, 200])
+    const context = pdfDoc.context
+    const refs = [
+      context.obj({ Type: 'StructElem', S: 'P' }),
+      context.obj({ Type: 'StructElem', S: 'P' }),
+      context.obj({ Subtype: 'Text', Rect: [0, 0, 10, 10], P: page.ref }),
+      context.obj({ Subtype: 'Text', Rect: [0, 0, 10, 10], P: page.ref }),
+    ].map((obj) => context.register(obj))
+
+    await deduplicateObjects(pdfDoc)
+
+    for (const ref of refs) {
+      assert.notEqual(context.lookup(ref), undefined, ref.toString())
+    }
+  })
+})
@@ -0,0 +1,577 @@
+/**
+ * PDF最適化ライブラリ
+ * pdf-libの低レベルオブジェクトを使用した重複リソースの統合・未使用オブジェクトの削除・
+ * 画像のダウンサンプリング・ストリームの再圧縮
+ */
+
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFName,
+  PDFNumber,
+  PDFRawStream,
+  PDFRef,
+  PDFStream,
+  decodePDFRawStream,
+  type PDFObject,
+} from 'pdf-lib'
+import { PDF_MERGE_CONSTANTS } from '@/lib/constants'
+import { canvasToBlob, createCanvas2D, releaseCanvas } from '@/lib/canvas-utils'
+import type { ImageQuality } from '@/types'
+
+/** 重複統合の最大繰り返し回数（統合により親オブジェクトが同一になる場合に繰り返す） */
+const MAX_DEDUPLICATION_PASSES = 8
+
+/** 統合の対象外とするディクショナリの種類（同一内容でも別の実体として扱う必要がある） */
+const UNIQUE_DICT_TYPES = new Set(['Catalog', 'Pages', 'Page', 'Outlines', 'Annot', 'StructElem'])
+
+/**
+ * オブジェクト内の参照を置き換え（直接オブジェクトは再帰的に処理）
+ */
+function replaceReferences(obj: PDFObject, replacements: Map<PDFRef, PDFRef>): void {
+  if (obj instanceof PDFStream) {
+    replaceReferences(obj.dict, replacements)
+  } else if (obj instanceof PDFDict) {
+    for (const [key, value] of obj.entries()) {
+      const replacement = value instanceof PDFRef ? replacements.get(value) : undefined
+      if (replacement) {
+        obj.set(key, replacement)
+      } else {
+        replaceReferences(value, replacements)
+      }
+    }
+  } else if (obj instanceof PDFArray) {
+    for (let i = 0; i < obj.size(); i++) {
+      const value = obj.get(i)
+      const replacement = value instanceof PDFRef ? replacements.get(value) : undefined
+      if (replacement) {
+        obj.set(i, replacement)
+      } else {
+        replaceReferences(value, replacements)
+      }
+    }
+  }
+}
+
+/**
+ * バイト列のハッシュ値を計算（FNV-1a）
+ */
+function hashBytes(bytes: Uint8Array): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < bytes.length; i++) {
+    hash ^= bytes[i]
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+/**
+ * バイト列が等しいかを判定
+ */
+function equalBytes(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return false
+  }
+  return true
+}
+
+/**
+ * 統合判定用のキーを生成（対象外のオブジェクトはundefined）
+ */
+function getDeduplicationKey(obj: PDFObject): string | undefined {
+  if (obj instanceof PDFStream) {
+    const contents = obj.getContents()
+    return `stream:${obj.dict.toString()}:${contents.length}:${hashBytes(contents)}`
+  }
+  if (obj instanceof PDFDict) {
+    const type = obj.lookupMaybe(PDFName.of('Type'), PDFName)
+    if (type && UNIQUE_DICT_TYPES.has(type.decodeText())) return undefined
+    // 親を持つディクショナリ（ページツリー・しおり・フォームフィールド）は位置に意味がある
+    if (obj.has(PDFName.of('Parent'))) return undefined
+    // 所属ページを持つディクショナリ（/Typeのない注釈・構造要素）もページごとの実体
+    if (obj.has(PDFName.of('P'))) return undefined
+    return `dict:${obj.toString()}`
+  }
+  if (obj instanceof PDFArray) {
+    return `array:${obj.toString()}`
+  }
+  return undefined
+}
+
+/**
+ * 同一内容の間接オブジェクトを統合
+ * 複数のファイルに埋め込まれた同じフォント・画像などを1つにまとめ、参照を付け替える
+ *
+ * @param pdfDoc - PDFドキュメント（変更される）
+ * @returns 削減したバイト数（推定値）
+ */
+export async function deduplicateObjects(pdfDoc: PDFDocument): Promise<number> {
+  // 埋め込み待ちのフォント・画像を確定させる
+  await pdfDoc.flush()
+
+  const context = pdfDoc.context
+  const protectedRefs = new Set<PDFObject | undefined>([
+    context.trailerInfo.Root,
+    context.trailerInfo.Info,
+    context.trailerInfo.Encrypt,
+  ])
+  let savedBytes = 0
+
+  for (let pass = 0; pass < MAX_DEDUPLICATION_PASSES; pass++) {
+    const candidates = new Map<string, [PDFRef, PDFObject][]>()
+    const replacements = new Map<PDFRef, PDFRef>()
+
+    for (const [ref, obj] of context.enumerateIndirectObjects()) {
+      if (protectedRefs.has(ref)) continue
+
+      const key = getDeduplicationKey(obj)
+      if (key === undefined) continue
+
+      const group = candidates.get(key) ?? []
+      // ハッシュが衝突した場合に備えてストリームは内容を比較
+      const original = group.find(
+        ([, other]) =>
+          !(obj instanceof PDFStream) ||
+          (other instanceof PDFStream && equalBytes(obj.getContents(), other.getContents()))
+      )
+
+      if (original) {
+        replacements.set(ref, original[0])
+      } else {
+        group.push([ref, obj])
+        candidates.set(key, group)
+      }
+    }
+
+    if (replacements.size === 0) break
+
+    for (const [, obj] of context.enumerateIndirectObjects()) {
+      replaceReferences(obj, replacements)
+    }
+    for (const ref of replacements.keys()) {
+      savedBytes += context.lookup(ref)?.sizeInBytes() ?? 0
+      context.delete(ref)
+    }
+  }
+
+  return savedBytes
+}
+
+/**
+ * どこからも参照されていない間接オブジェクトを削除
+ *
+ * @param pdfDoc - PDFドキュメント（変更される）
+ * @returns 削減したバイト数（推定値）
+ */
+export async function removeUnusedObjects(pdfDoc: PDFDocument): Promise<number> {
+  await pdfDoc.flush()
+
+  const context = pdfDoc.context
+  const reachable = new Set<PDFRef>()
+  const pending: PDFObject[] = [
+    context.trailerInfo.Root,
+    context.trailerInfo.Info,
+    context.trailerInfo.Encrypt,
+  ].filter((obj): obj is PDFObject => obj !== undefined)
+
+  // トレーラーから辿れるオブジェクトを収集
+  while (pending.length > 0) {
+    const obj = pending.pop()!
+
+    if (obj instanceof PDFRef) {
+      if (reachable.has(obj)) continue
+      reachable.add(obj)
+      const target = context.lookup(obj)
+      if (target) pending.push(target)
+    } else if (obj instanceof PDFStream) {
+      pending.push(obj.dict)
+    } else if (obj instanceof PDFDict) {
+      for (const [, value] of obj.entries()) pending.push(value)
+    } else if (obj instanceof PDFArray) {
+      pending.push(...obj.asArray())
+    }
+  }
+
+  let savedBytes = 0
+  for (const [ref, obj] of context.enumerateIndirectObjects()) {
+    if (reachable.has(ref)) continue
+    savedBytes += obj.sizeInBytes()
+    context.delete(ref)
+  }
+
+  return savedBytes
+}
+
+/**
+ * 画像の色成分数を取得（デバイスRGB・グレー相当以外はundefined）
+ */
+function getColorComponents(context: PDFDocument['context'], colorSpace: PDFObject | undefined): number | undefined {
+  const resolved = colorSpace instanceof PDFRef ? context.lookup(colorSpace) : colorSpace
+
+  if (resolved === PDFName.of('DeviceRGB')) return 3
+  if (resolved === PDFName.of('DeviceGray')) return 1
+
+  // ICCプロファイル付きのRGB・グレー
+  if (resolved instanceof PDFArray && resolved.lookup(0) === PDFName.of('ICCBased')) {
+    const profile = resolved.lookup(1)
+    const components = profile instanceof PDFStream
+      ? profile.dict.lookupMaybe(PDFName.of('N'), PDFNumber)?.asNumber()
+      : undefined
+    return components === 1 || components === 3 ? components : undefined
+  }
+
+  return undefined
+}
+
+/**
+ * 画像XObjectをブラウザでデコード可能な形式に変換
+ * JPEG（DCTDecode）はそのまま、可逆圧縮の画素データはImageDataに展開する
+ *
+ * @returns デコード元（対応していない形式の場合はundefined）
+ */
+function getImageSource(
+  pdfDoc: PDFDocument,
+  image: PDFRawStream
+): Blob | ImageData | undefined {
+  const dict = image.dict
+  const width = dict.lookupMaybe(PDFName.of('Width'), PDFNumber)?.asNumber() ?? 0
+  const height = dict.lookupMaybe(PDFName.of('Height'), PDFNumber)?.asNumber() ?? 0
+  const bitsPerComponent = dict.lookupMaybe(PDFName.of('BitsPerComponent'), PDFNumber)?.asNumber()
+
+  // マスク画像・Decode配列付き・8bit以外は色の再現が難しいため対象外
+  if (
+    width <= 0 ||
+    height <= 0 ||
+    bitsPerComponent !== 8 ||
+    dict.has(PDFName.of('ImageMask')) ||
+    dict.has(PDFName.of('Decode'))
+  ) {
+    return undefined
+  }
+
+  const components = getColorComponents(pdfDoc.context, dict.get(PDFName.of('ColorSpace')))
+  if (components === undefined) return undefined
+
+  const filter = dict.lookup(PDFName.of('Filter'))
+  if (filter === PDFName.of('DCTDecode')) {
+    return new Blob([image.getContents() as Uint8Array<ArrayBuffer>], { type: 'image/jpeg' })
+  }
+
+  // 予測子付きのFlate圧縮はpdf-libで展開できない
+  if (dict.has(PDFName.of('DecodeParms'))) return undefined
+
+  let pixels: Uint8Array
+  try {
+    pixels = decodePDFRawStream(image).decode()
+  } catch {
+    return undefined
+  }
+  if (pixels.length < width * height * components) return undefined
+
+  const imageData = new ImageData(width, height)
+  const rgba = imageData.data
+  for (let i = 0, p = 0; i < width * height; i++, p += components) {
+    rgba[i * 4] = pixels[p]
+    rgba[i * 4 + 1] = pixels[components === 3 ? p + 1 : p]
+    rgba[i * 4 + 2] = pixels[components === 3 ? p + 2 : p]
+    rgba[i * 4 + 3] = 255
+  }
+
+  return imageData
+}
+
+/**
+ * 画像を縮小してJPEGに再エンコード
+ */
+async function encodeDownsampledJpeg(
+  source: Blob | ImageData,
+  width: number,
+  height: number,
+  quality: number
+): Promise<Uint8Array> {
+  const { canvas, context } = createCanvas2D(width, height)
+  const bitmap = await createImageBitmap(source, {
+    resizeWidth: width,
+    resizeHeight: height,
+    resizeQuality: 'high',
+  })
+
+  // JPEGは透過をサポートしないため白背景にする（透過はSMaskで保持）
+  context.fillStyle = '#FFFFFF'
+  context.fillRect(0, 0, width, height)
+  context.drawImage(bitmap, 0, 0)
+  bitmap.close()
+
+  const blob = await canvasToBlob(canvas, 'image/jpeg', quality)
+
+  // Canvasを解放
+  releaseCanvas(canvas)
+
+  return new Uint8Array(await blob.arrayBuffer())
+}
+
+/**
+ * 画像XObjectを指定サイズに縮小したJPEGに置き換え
+ *
+ * @returns 削減したバイト数（対応していない形式・小さくならない場合は0）
+ */
+async function replaceWithDownsampledJpeg(
+  pdfDoc: PDFDocument,
+  ref: PDFRef,
+  image: PDFRawStream,
+  targetWidth: number,
+  targetHeight: number,
+  quality: number
+): Promise<number> {
+  const source = getImageSource(pdfDoc, image)
+  if (!source) return 0
+
+  let jpegBytes: Uint8Array
+  try {
+    jpegBytes = await encodeDownsampledJpeg(source, targetWidth, targetHeight, quality)
+  } catch {
+    // デコードできない画像はそのまま残す
+    return 0
+  }
+
+  const context = pdfDoc.context
+  const downsampled = context.stream(jpegBytes, {
+    Type: 'XObject',
+    Subtype: 'Image',
+    Width: targetWidth,
+    Height: targetHeight,
+    ColorSpace: 'DeviceRGB',
+    BitsPerComponent: 8,
+    Filter: 'DCTDecode',
+  })
+
+  // 透過マスクは解像度が異なっても適用されるため引き継ぐ
+  const softMask = image.dict.get(PDFName.of('SMask'))
+  if (softMask) downsampled.dict.set(PDFName.of('SMask'), softMask)
+
+  // 小さくならない場合は元の画像を維持
+  const saved = image.sizeInBytes() - downsampled.sizeInBytes()
+  if (saved <= 0) return 0
+
+  context.assign(ref, downsampled)
+  return saved
+}
+
+/**
+ * 画像の幅と高さを取得
+ */
+function getImageSize(image: PDFRawStream): { width: number; height: number } {
+  return {
+    width: image.dict.lookupMaybe(PDFName.of('Width'), PDFNumber)?.asNumber() ?? 0,
+    height: image.dict.lookupMaybe(PDFName.of('Height'), PDFNumber)?.asNumber() ?? 0,
+  }
+}
+
+/**
+ * 他の画像のマスク（/SMask・/Mask）として使われている画像の参照を収集
+ * ソフトマスクはDeviceGrayである必要があり、RGBのJPEGに置き換えると不正なPDFになる
+ */
+function collectMaskRefs(context: PDFDocument['context']): Set<PDFRef> {
+  const maskRefs = new Set<PDFRef>()
+
+  for (const [, obj] of context.enumerateIndirectObjects()) {
+    if (!(obj instanceof PDFRawStream)) continue
+    for (const key of [PDFName.of('SMask'), PDFName.of('Mask')]) {
+      const mask = obj.dict.get(key)
+      if (mask instanceof PDFRef) maskRefs.add(mask)
+    }
+  }
+
+  return maskRefs
+}
+
+/**
+ * 埋め込み画像をダウンサンプリング
+ * ページはラスタライズせず、画像XObjectのみを縮小・JPEG再圧縮して置き換える
+ *
+ * @param pdfDoc - PDFドキュメント（変更される）
+ * @param imageQuality - 画像品質（highは変更しない）
+ * @param onProgress - 進捗コールバック（処理済み画像数, 総画像数）
+ * @returns 削減したバイト数
+ */
+export async function downsampleImages(
+  pdfDoc: PDFDocument,
+  imageQuality: ImageQuality,
+  onProgress?: (current: number, total: number) => void
+): Promise<number> {
+  if (imageQuality === 'high') return 0
+
+  await pdfDoc.flush()
+
+  const context = pdfDoc.context
+  const { maxDimension, jpegQuality } = PDF_MERGE_CONSTANTS.IMAGE_QUALITY_SETTINGS[imageQuality]
+  const maskRefs = collectMaskRefs(context)
+
+  const images = context
+    .enumerateIndirectObjects()
+    .filter(
+      (entry): entry is [PDFRef, PDFRawStream] =>
+        entry[1] instanceof PDFRawStream &&
+        entry[1].dict.lookupMaybe(PDFName.of('Subtype'), PDFName) === PDFName.of('Image') &&
+        !maskRefs.has(entry[0])
+    )
+
+  let savedBytes = 0
+
+  for (let i = 0; i < images.length; i++) {
+    onProgress?.(i, images.length)
+
+    const [ref, image] = images[i]
+    const { width, height } = getImageSize(image)
+    if (width * height < PDF_MERGE_CONSTANTS.MIN_DOWNSAMPLE_PIXELS) continue
+
+    const scale = Math.min(1, maxDimension / Math.max(width, height))
+    const targetWidth = Math.max(1, Math.round(width * scale))
+    const targetHeight = Math.max(1, Math.round(height * scale))
+
+    savedBytes += await replaceWithDownsampledJpeg(pdfDoc, ref, image, targetWidth, targetHeight, jpegQuality)
+  }
+
+  onProgress?.(images.length, images.length)
+
+  return savedBytes
+}
+
+/**
+ * リソース辞書から画像XObjectを収集（フォームXObjectは再帰的に辿る）
+ */
+function collectImageXObjects(
+  context: PDFDocument['context'],
+  resources: PDFDict | undefined,
+  visited: Set<PDFRef>,
+  images: [PDFRef, PDFRawStream][]
+): void {
+  const xObjects = resources?.lookupMaybe(PDFName.of('XObject'), PDFDict)
+  if (!xObjects) return
+
+  for (const [, value] of xObjects.entries()) {
+    if (!(value instanceof PDFRef) || visited.has(value)) continue
+    visited.add(value)
+
+    const xObject = context.lookup(value)
+    if (!(xObject instanceof PDFRawStream)) continue
+
+    const subtype = xObject.dict.lookupMaybe(PDFName.of('Subtype'), PDFName)
+    if (subtype === PDFName.of('Image')) {
+      images.push([value, xObject])
+    } else if (subtype === PDFName.of('Form')) {
+      collectImageXObjects(context, xObject.dict.lookupMaybe(PDFName.of('Resources'), PDFDict), visited, images)
+    }
+  }
+}
+
+/**
+ * ページに配置された画像のうち、指定サイズを超えるものだけを縮小・JPEG再圧縮
+ * テキスト・ベクター・リンク・フォームはそのまま残る
+ *
+ * @param pdfDoc - PDFドキュメント（変更される）
+ * @param settings - 最大幅・最大高さ・JPEG品質（0-1）
+ * @param onProgress - 進捗コールバック（処理済みページ数, 総ページ数）
+ * @returns 削減したバイト数
+ */
+export async function downsampleOversizedImages(
+  pdfDoc: PDFDocument,
+  settings: { maxWidth: number; maxHeight: number; quality: number },
+  onProgress?: (current: number, total: number) => void
+): Promise<number> {
+  await pdfDoc.flush()
+
+  const context = pdfDoc.context
+  const pages = pdfDoc.getPages()
+  const visited = new Set<PDFRef>()
+  let savedBytes = 0
+
+  for (let i = 0; i < pages.length; i++) {
+    onProgress?.(i, pages.length)
+
+    const images: [PDFRef, PDFRawStream][] = []
+    collectImageXObjects(context, pages[i].node.Resources(), visited, images)
+
+    for (const [ref, image] of images) {
+      const { width, height } = getImageSize(image)
+      if (width <= settings.maxWidth && height <= settings.maxHeight) continue
+
+      const scale = Math.min(settings.maxWidth / width, settings.maxHeight / height)
+      const targetWidth = Math.max(1, Math.round(width * scale))
+      const targetHeight = Math.max(1, Math.round(height * scale))
+
+      savedBytes += await replaceWithDownsampledJpeg(pdfDoc, ref, image, targetWidth, targetHeight, settings.quality)
+    }
+  }
+
+  onProgress?.(pages.length, pages.length)
+
+  return savedBytes
+}
+
+/** pdf-libで展開できるフィルター */
+const DECODABLE_FILTERS = new Set(['FlateDecode', 'LZWDecode', 'ASCII85Decode', 'ASCIIHexDecode', 'RunLengthDecode'])
+
+/**
+ * ストリームを可逆圧縮し直せるかを判定
+ * JPEGなどの画像フィルターや予測子付きのLZWなど、展開すると内容が変わるものは対象外
+ */
+function isRecompressible(stream: PDFRawStream): boolean {
+  const dict = stream.dict
+  const type = dict.lookupMaybe(PDFName.of('Type'), PDFName)
+  // XMPメタデータはPDF非対応のツールでも読めるよう非圧縮のままにする
+  if (type === PDFName.of('Metadata')) return false
+
+  const filter = dict.lookup(PDFName.of('Filter'))
+  if (filter === undefined) return !dict.has(PDFName.of('DecodeParms'))
+  if (filter instanceof PDFName) {
+    if (!DECODABLE_FILTERS.has(filter.decodeText())) return false
+    // 予測子は展開後のデータにそのまま残るため、単一のFlateならDecodeParmsを保持して再圧縮できる
+    return filter === PDFName.of('FlateDecode') || !dict.has(PDFName.of('DecodeParms'))
+  }
+  if (filter instanceof PDFArray) {
+    return !dict.has(PDFName.of('DecodeParms')) && filter.asArray().every(
+      (name) => name instanceof PDFName && DECODABLE_FILTERS.has(name.decodeText())
+    )
+  }
+  return false
+}
+
+/**
+ * 非圧縮・旧方式で圧縮されたストリームをFlateで圧縮し直す
+ * 展開して再圧縮するだけなので内容は変わらない（小さくならない場合は元のまま）
+ *
+ * @param pdfDoc - PDFドキュメント（変更される）
+ * @returns 削減したバイト数
+ */
+export async function recompressStreams(pdfDoc: PDFDocument): Promise<number> {
+  await pdfDoc.flush()
+
+  const context = pdfDoc.context
+  let savedBytes = 0
+
+  for (const [ref, stream] of context.enumerateIndirectObjects()) {
+    if (!(stream instanceof PDFRawStream) || !isRecompressible(stream)) continue
+
+    let decoded: Uint8Array
+    try {
+      decoded = decodePDFRawStream(stream).decode()
+    } catch {
+      continue
+    }
+
+    const dict = stream.dict.clone(context)
+    dict.set(PDFName.of('Filter'), PDFName.of('FlateDecode'))
+    const recompressed = PDFRawStream.of(dict, context.flateStream(decoded).contents)
+
+    const saved = stream.sizeInBytes() - recompressed.sizeInBytes()
+    if (saved <= 0) continue
+
+    context.assign(ref, recompressed)
+    savedBytes += saved
+  }
+
+  return savedBytes
+}
@@ -0,0 +1,135 @@
+/**
+ * PDFしおり（アウトライン）のテスト
+ * しおり付きのPDFを含む結合結果の/Outlinesディクショナリを検証
+ */
+
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { PDFArray, PDFDict, PDFDocument, PDFHexString, PDFName, PDFNumber, PDFRef } from 'pdf-lib'
+import type { FileUpload } from '@/types'
+import { DEFAULT_PDF_MERGE_OPTIONS } from '@/types'
+import { mergePDFs } from '@/lib/pdf-merger'
+import { writeOutline } from '@/lib/pdf-outline'
+
+/**
+ * 指定ページ数のPDFを作成（しおりを指定した場合は書き込む）
+ */
+async function createPdfFile(
+  name: string,
+  pageCount: number,
+  bookmarks: { title: string; pageIndex: number }[] = []
+): Promise<FileUpload> {
+  const pdfDoc = await PDFDocument.create()
+  for (let i = 0; i < pageCount; i++) pdfDoc.addPage([200, 200])
+  writeOutline(
+    pdfDoc,
+    bookmarks.map(({ title, pageIndex }) => ({
+      title,
+      destination: { pageIndex, view: [PDFName.of('Fit')] },
+      open: false,
+      children: [],
+    }))
+  )
+  const bytes = await pdfDoc.save()
+  return {
+    id: name,
+    file: new File([bytes.buffer as ArrayBuffer], name, { type: 'application/pdf' }),
+    name,
+    size: `${bytes.length} B`,
+    type: 'pdf',
+    pages: pageCount,
+    status: 'ready',
+  }
+}
+
+/** しおり項目のタイトル */
+function getTitle(item: PDFDict): string {
+  return item.lookup(PDFName.of('Title'), PDFHexString).decodeText()
+}
+
+/** しおり項目の遷移先ページの参照 */
+function getDestPage(item: PDFDict): PDFRef {
+  return item.lookup(PDFName.of('Dest'), PDFArray).get(0) as PDFRef
+}
+
+describe('結合時のしおり', () => {
+  it('ファイルごとの項目を作成し、元のしおりをその配下に入れる', async () => {
+    const cover = await createPdfFile('cover.pdf', 2)
+    const report = await createPdfFile('report.pdf', 3, [
+      { title: 'Chapter 1', pageIndex: 0 },
+      { title: 'Chapter 2', pageIndex: 2 },
+    ])
+
+    const result = await mergePDFs([cover, report], DEFAULT_PDF_MERGE_OPTIONS)
+    const merged = await PDFDocument.load(await result.blob.arrayBuffer())
+    const pageRefs = merged.getPages().map((page) => page.ref)
+    assert.equal(pageRefs.length, 5)
+
+    const outlinesRef = merged.catalog.get(PDFName.of('Outlines'))
+    assert.ok(outlinesRef instanceof PDFRef)
+    const outlines = merged.context.lookup(outlinesRef, PDFDict)
+    assert.equal(outlines.lookup(PDFName.of('Type')), PDFName.of('Outlines'))
+
+    // 最上位は閉じたファイルごとの2項目
+    const firstRef = outlines.get(PDFName.of('First')) as PDFRef
+    const lastRef = outlines.get(PDFName.of('Last')) as PDFRef
+    assert.notEqual(firstRef, lastRef)
+    assert.equal(outlines.lookup(PDFName.of('Count'), PDFNumber).asNumber(), 2)
+
+    const first = merged.context.lookup(firstRef, PDFDict)
+    const last = merged.context.lookup(lastRef, PDFDict)
+    assert.equal(getTitle(first), 'cover')
+    assert.equal(getTitle(last), 'report')
+
+    // 遷移先は各ファイルの先頭ページ
+    assert.equal(getDestPage(first), pageRefs[0])
+    assert.equal(getDestPage(last), pageRefs[2])
+
+    // 兄弟・親のリンク
+    assert.equal(first.get(PDFName.of('Prev')), undefined)
+    assert.equal(first.get(PDFName.of('Next')), lastRef)
+    assert.equal(last.get(PDFName.of('Prev')), firstRef)
+    assert.equal(last.get(PDFName.of('Next')), undefined)
+    assert.equal(first.get(PDFName.of('Parent')), outlinesRef)
+    assert.equal(last.get(PDFName.of('Parent')), outlinesRef)
+
+    // しおりのないファイルは子項目なし
+    assert.equal(first.get(PDFName.of('First')), undefined)
+    assert.equal(first.get(PDFName.of('Count')), undefined)
+
+    // 元のしおりはファイルの項目の配下（閉じているためCountは負数）
+    assert.equal(last.lookup(PDFName.of('Count'), PDFNumber).asNumber(), -2)
+    const chapter1Ref = last.get(PDFName.of('First')) as PDFRef
+    const chapter2Ref = last.get(PDFName.of('Last')) as PDFRef
+    const chapter1 = merged.context.lookup(chapter1Ref, PDFDict)
+    const chapter2 = merged.context.lookup(chapter2Ref, PDFDict)
+
+    assert.equal(getTitle(chapter1), 'Chapter 1')
+    assert.equal(getTitle(chapter2), 'Chapter 2')
+    assert.equal(getDestPage(chapter1), pageRefs[2])
+    assert.equal(getDestPage(chapter2), pageRefs[4])
+    assert.equal(chapter1.get(PDFName.of('Parent')), lastRef)
+    assert.equal(chapter2.get(PDFName.of('Parent')), lastRef)
+    assert.equal(chapter1.get(PDFName.of('Next')), chapter2Ref)
+    assert.equal(chapter2.get(PDFName.of('Prev')), chapter1Ref)
+    assert.equal(chapter1.get(PDFName.of('Prev')), undefined)
+    assert.equal(chapter2.get(PDFName.of('Next')), undefined)
+  })
+
+  it('しおりを作成しない場合は元のしおりを最上位に並べる', async () => {
+    const cover = await createPdfFile('cover.pdf', 1)
+    const report = await createPdfFile('report.pdf', 2, [{ title: 'Summary', pageIndex: 1 }])
+
+    const result = await mergePDFs([cover, report], {
+      ...DEFAULT_PDF_MERGE_OPTIONS,
+      createBookmarks: false,
+    })
+    const merged = await PDFDocument.load(await result.blob.arrayBuffer())
+    const outlines = merged.catalog.lookup(PDFName.of('Outlines'), PDFDict)
+
+    assert.equal(outlines.lookup(PDFName.of('Count'), PDFNumber).asNumber(), 1)
+    const item = outlines.lookup(PDFName.of('First'), PDFDict)
+    assert.equal(getTitle(item), 'Summary')
+    assert.equal(getDestPage(item), merged.getPages()[2].ref)
+  })
+})
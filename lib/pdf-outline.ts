@@ -0,0 +1,363 @@
+/**
+ * PDFしおり（アウトライン）ライブラリ
+ * pdf-libの低レベルオブジェクトを使用した/Outlinesツリーの読み書き
+ */
+
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFNull,
+  PDFNumber,
+  PDFRef,
+  PDFString,
+  type PDFContext,
+  type PDFObject,
+} from 'pdf-lib'
+
+/** しおりの遷移先 */
+export interface OutlineDestination {
+  /** ページインデックス（0ベース） */
+  pageIndex: number
+  /** 表示方法（/XYZ left top zoom など。ページ参照を除いた部分） */
+  view: PDFObject[]
+}
+
+/** しおりノード */
+export interface OutlineNode {
+  /** 表示タイトル */
+  title: string
+  /** 遷移先（解決できない場合はnull） */
+  destination: OutlineDestination | null
+  /** 子ノードを展開して表示するか */
+  open: boolean
+  /** 子ノード */
+  children: OutlineNode[]
+}
+
+/** 遷移先の表示方法（ページ全体を表示） */
+const FIT_VIEW: PDFObject[] = [PDFName.of('Fit')]
+
+/** 無限ループ防止用のしおり最大数 */
+const MAX_OUTLINE_ITEMS = 10000
+
+/**
+ * テキスト文字列オブジェクトをデコード
+ */
+export function decodeText(obj: PDFObject | undefined): string | undefined {
+  if (obj instanceof PDFString || obj instanceof PDFHexString) {
+    return obj.decodeText()
+  }
+  return undefined
+}
+
+/**
+ * ページ参照からページインデックスへの対応表を作成
+ */
+export function createPageIndexMap(pdfDoc: PDFDocument): Map<PDFRef, number> {
+  const map = new Map<PDFRef, number>()
+  pdfDoc.getPages().forEach((page, index) => map.set(page.ref, index))
+  return map
+}
+
+/**
+ * 名前付き遷移先を収集
+ * PDF 1.1形式の/Destsディクショナリと/Names内の名前ツリーの両方に対応
+ *
+ * @param pdfDoc - PDFドキュメント
+ * @returns 名前から遷移先配列への対応表
+ */
+export function collectNamedDestinations(pdfDoc: PDFDocument): Map<string, PDFArray> {
+  const context = pdfDoc.context
+  const result = new Map<string, PDFArray>()
+
+  const toDestArray = (value: PDFObject | undefined): PDFArray | undefined => {
+    const resolved = value instanceof PDFRef ? context.lookup(value) : value
+    if (resolved instanceof PDFArray) return resolved
+    if (resolved instanceof PDFDict) {
+      return resolved.lookupMaybe(PDFName.of('D'), PDFArray)
+    }
+    return undefined
+  }
+
+  // PDF 1.1形式: /Dests ディクショナリ
+  const destsDict = pdfDoc.catalog.lookupMaybe(PDFName.of('Dests'), PDFDict)
+  if (destsDict) {
+    for (const [key, value] of destsDict.entries()) {
+      const dest = toDestArray(value)
+      if (dest) result.set(key.decodeText(), dest)
+    }
+  }
+
+  // PDF 1.2以降: /Names /Dests 名前ツリー
+  const names = pdfDoc.catalog.lookupMaybe(PDFName.of('Names'), PDFDict)
+  const tree = names?.lookupMaybe(PDFName.of('Dests'), PDFDict)
+  const visited = new Set<PDFDict>()
+
+  const walk = (node: PDFDict) => {
+    if (visited.has(node)) return
+    visited.add(node)
+
+    const pairs = node.lookupMaybe(PDFName.of('Names'), PDFArray)
+    if (pairs) {
+      for (let i = 0; i + 1 < pairs.size(); i += 2) {
+        const key = decodeText(pairs.lookup(i))
+        const dest = toDestArray(pairs.get(i + 1))
+        if (key !== undefined && dest) result.set(key, dest)
+      }
+    }
+
+    const kids = node.lookupMaybe(PDFName.of('Kids'), PDFArray)
+    if (kids) {
+      for (let i = 0; i < kids.size(); i++) {
+        const kid = kids.lookup(i)
+        if (kid instanceof PDFDict) walk(kid)
+      }
+    }
+  }
+
+  if (tree) walk(tree)
+
+  return result
+}
+
+/**
+ * 遷移先オブジェクト（配列・名前・文字列）をページインデックスに解決
+ */
+function resolveDestination(
+  context: PDFContext,
+  dest: PDFObject | undefined,
+  pageIndexMap: Map<PDFRef, number>,
+  namedDests: Map<string, PDFArray>
+): OutlineDestination | null {
+  const resolved = dest instanceof PDFRef ? context.lookup(dest) : dest
+
+  let destArray: PDFArray | undefined
+  if (resolved instanceof PDFArray) {
+    destArray = resolved
+  } else if (resolved instanceof PDFName) {
+    destArray = namedDests.get(resolved.decodeText())
+  } else {
+    const name = decodeText(resolved)
+    if (name !== undefined) destArray = namedDests.get(name)
+  }
+
+  if (!destArray || destArray.size() === 0) return null
+
+  const target = destArray.get(0)
+  let pageIndex: number | undefined
+  if (target instanceof PDFRef) {
+    pageIndex = pageIndexMap.get(target)
+  } else if (target instanceof PDFNumber) {
+    // リモート遷移先形式（ページ番号）で記述されている場合
+    pageIndex = target.asNumber()
+  }
+
+  if (pageIndex === undefined || pageIndex < 0 || pageIndex >= pageIndexMap.size) {
+    return null
+  }
+
+  // 表示方法はドキュメントに依存しない値（名前・数値・null）のみ引き継ぐ
+  const view: PDFObject[] = []
+  for (let i = 1; i < destArray.size(); i++) {
+    const value = destArray.lookup(i)
+    if (value instanceof PDFName || value instanceof PDFNumber || value === PDFNull) {
+      view.push(value)
+    }
+  }
+
+  return { pageIndex, view: view.length > 0 ? view : FIT_VIEW }
+}
+
+/**
+ * 名前付き遷移先をページインデックスに解決
+ *
+ * @param pdfDoc - PDFドキュメント
+ * @returns 名前から遷移先への対応表（解決できない名前は含まない）
+ */
+export function resolveNamedDestinations(pdfDoc: PDFDocument): Map<string, OutlineDestination> {
+  const pageIndexMap = createPageIndexMap(pdfDoc)
+  const result = new Map<string, OutlineDestination>()
+
+  for (const [name, dest] of collectNamedDestinations(pdfDoc)) {
+    const resolved = resolveDestination(pdfDoc.context, dest, pageIndexMap, new Map())
+    if (resolved) result.set(name, resolved)
+  }
+
+  return result
+}
+
+/**
+ * しおり項目の遷移先を取得（/Dest または GoToアクションの /D）
+ */
+function getItemDestination(item: PDFDict): PDFObject | undefined {
+  const dest = item.get(PDFName.of('Dest'))
+  if (dest) return dest
+
+  const action = item.lookupMaybe(PDFName.of('A'), PDFDict)
+  if (action?.lookupMaybe(PDFName.of('S'), PDFName) === PDFName.of('GoTo')) {
+    return action.get(PDFName.of('D'))
+  }
+  return undefined
+}
+
+/**
+ * PDFのしおりツリーを読み込み
+ *
+ * @param pdfDoc - PDFドキュメント
+ * @returns しおりノード配列（遷移先はこのドキュメント内のページインデックス）
+ */
+export function readOutline(pdfDoc: PDFDocument): OutlineNode[] {
+  const context = pdfDoc.context
+  const outlines = pdfDoc.catalog.lookupMaybe(PDFName.of('Outlines'), PDFDict)
+  if (!outlines) return []
+
+  const pageIndexMap = createPageIndexMap(pdfDoc)
+  const namedDests = collectNamedDestinations(pdfDoc)
+  const visited = new Set<PDFDict>()
+
+  const readSiblings = (parent: PDFDict): OutlineNode[] => {
+    const nodes: OutlineNode[] = []
+    let item = parent.lookupMaybe(PDFName.of('First'), PDFDict)
+
+    while (item && !visited.has(item) && visited.size < MAX_OUTLINE_ITEMS) {
+      visited.add(item)
+
+      const count = item.lookupMaybe(PDFName.of('Count'), PDFNumber)
+      nodes.push({
+        title: decodeText(item.lookup(PDFName.of('Title'))) ?? '',
+        destination: resolveDestination(
+          context,
+          getItemDestination(item),
+          pageIndexMap,
+          namedDests
+        ),
+        open: count !== undefined && count.asNumber() > 0,
+        children: readSiblings(item),
+      })
+
+      item = item.lookupMaybe(PDFName.of('Next'), PDFDict)
+    }
+
+    return nodes
+  }
+
+  return readSiblings(outlines)
+}
+
+/**
+ * しおりノードのページインデックスを変換
+ * 対応先のないページを指すノードは遷移先をnullにする（子ノードは維持）
+ *
+ * @param nodes - しおりノード配列
+ * @param mapPageIndex - 変換関数（対応先がない場合はundefinedを返す）
+ * @returns 変換後のしおりノード配列
+ */
+export function remapOutline(
+  nodes: OutlineNode[],
+  mapPageIndex: (pageIndex: number) => number | undefined
+): OutlineNode[] {
+  return nodes.map((node) => {
+    const pageIndex = node.destination
+      ? mapPageIndex(node.destination.pageIndex)
+      : undefined
+
+    return {
+      ...node,
+      destination:
+        node.destination && pageIndex !== undefined
+          ? { ...node.destination, pageIndex }
+          : null,
+      children: remapOutline(node.children, mapPageIndex),
+    }
+  })
+}
+
+/**
+ * 展開時に表示される子孫ノード数を計算
+ */
+function countVisibleDescendants(node: OutlineNode): number {
+  return node.children.reduce(
+    (sum, child) => sum + 1 + (child.open ? countVisibleDescendants(child) : 0),
+    0
+  )
+}
+
+/**
+ * 兄弟ノード列をしおり項目ディクショナリとして書き込み
+ *
+ * @returns 先頭・末尾項目の参照
+ */
+function writeSiblings(
+  context: PDFContext,
+  nodes: OutlineNode[],
+  parentRef: PDFRef,
+  pageRefs: PDFRef[]
+): { first: PDFRef; last: PDFRef } {
+  // Prev/Nextで相互参照するため先に参照を確保
+  const refs = nodes.map(() => context.nextRef())
+
+  nodes.forEach((node, i) => {
+    const item = context.obj({
+      Title: PDFHexString.fromText(node.title),
+      Parent: parentRef,
+    })
+
+    if (i > 0) item.set(PDFName.of('Prev'), refs[i - 1])
+    if (i < nodes.length - 1) item.set(PDFName.of('Next'), refs[i + 1])
+
+    const pageRef = node.destination ? pageRefs[node.destination.pageIndex] : undefined
+    if (node.destination && pageRef) {
+      item.set(PDFName.of('Dest'), context.obj([pageRef, ...node.destination.view]))
+    }
+
+    if (node.children.length > 0) {
+      const children = writeSiblings(context, node.children, refs[i], pageRefs)
+      const visible = countVisibleDescendants(node)
+      item.set(PDFName.of('First'), children.first)
+      item.set(PDFName.of('Last'), children.last)
+      // 閉じた項目は負数で表す
+      item.set(PDFName.of('Count'), PDFNumber.of(node.open ? visible : -visible))
+    }
+
+    context.assign(refs[i], item)
+  })
+
+  return { first: refs[0], last: refs[refs.length - 1] }
+}
+
+/**
+ * PDFにしおりツリーを書き込み（既存のしおりは置き換え）
+ *
+ * @param pdfDoc - 書き込み先のPDFドキュメント
+ * @param nodes - しおりノード配列（遷移先はこのドキュメント内のページインデックス）
+ */
+export function writeOutline(pdfDoc: PDFDocument, nodes: OutlineNode[]): void {
+  if (nodes.length === 0) return
+
+  const context = pdfDoc.context
+  const pageRefs = pdfDoc.getPages().map((page) => page.ref)
+  const rootRef = context.nextRef()
+  const { first, last } = writeSiblings(context, nodes, rootRef, pageRefs)
+
+  const visible = nodes.reduce(
+    (sum, node) => sum + 1 + (node.open ? countVisibleDescendants(node) : 0),
+    0
+  )
+
+  context.assign(
+    rootRef,
+    context.obj({
+      Type: 'Outlines',
+      First: first,
+      Last: last,
+      Count: visible,
+    })
+  )
+
+  pdfDoc.catalog.set(PDFName.of('Outlines'), rootRef)
+  // 開いたときにしおりパネルを表示
+  pdfDoc.catalog.set(PDFName.of('PageMode'), PDFName.of('UseOutlines'))
+}
@@ -0,0 +1,97 @@
+/**
+ * ページへの描画（ページ番号・ヘッダー・フッター・透かし）のテスト
+ */
+
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { PDFArray, PDFDocument, PDFName } from 'pdf-lib'
+import type { ProcessingProgress } from '@/types'
+import {
+  DEFAULT_PDF_HEADER_FOOTER_OPTIONS,
+  DEFAULT_PDF_NUMBERING_OPTIONS,
+  DEFAULT_PDF_WATERMARK_OPTIONS,
+} from '@/types'
+import { addPageNumbers } from '@/lib/pdf-page-numbers'
+import { addHeaderFooter } from '@/lib/pdf-header-footer'
+import { addWatermark } from '@/lib/pdf-watermark'
+
+/**
+ * 指定ページ数の空白PDFを作成
+ */
+async function createPdfFile(name: string, pageCount: number): Promise<File> {
+  const pdfDoc = await PDFDocument.create()
+  for (let i = 0; i < pageCount; i++) pdfDoc.addPage([300, 300])
+  const bytes = await pdfDoc.save()
+  return new File([bytes.buffer as ArrayBuffer], name, { type: 'application/pdf' })
+}
+
+/**
+ * 描画したページ（コンテンツストリームを持つページ）の番号を取得
+ */
+async function getDrawnPages(blob: Blob): Promise<number[]> {
+  const pdfDoc = await PDFDocument.load(await blob.arrayBuffer())
+  return pdfDoc
+    .getPages()
+    .map((page, i) => {
+      const contents = page.node.get(PDFName.of('Contents'))
+      const drawn = contents !== undefined && !(contents instanceof PDFArray && contents.size() === 0)
+      return drawn ? i + 1 : 0
+    })
+    .filter((pageNumber) => pageNumber > 0)
+}
+
+describe('addPageNumbers', () => {
+  it('開始ページ以降に番号を付け、進捗とファイル名を返す', async () => {
+    const progress: ProcessingProgress[] = []
+    const result = await addPageNumbers(
+      await createPdfFile('report.pdf', 3),
+      { ...DEFAULT_PDF_NUMBERING_OPTIONS, startFromPage: 2 },
+      (info) => progress.push(info)
+    )
+
+    assert.equal(result.pages, 3)
+    assert.equal(result.filename, 'report_numbered.pdf')
+    assert.deepEqual(result.numberedRange, { first: 1, last: 2, firstLabel: '1', lastLabel: '2' })
+    assert.deepEqual(await getDrawnPages(result.blob), [2, 3])
+
+    const percentages = progress.map((info) => info.percentage)
+    assert.deepEqual(percentages, [...percentages].sort((a, b) => a - b))
+    assert.equal(progress.at(-1)?.stage, 'completed')
+  })
+})
+
+describe('addHeaderFooter', () => {
+  it('規則のページ範囲のページにだけ描画する', async () => {
+    const [rule] = DEFAULT_PDF_HEADER_FOOTER_OPTIONS.rules
+    const result = await addHeaderFooter(await createPdfFile('report.pdf', 4), {
+      ...DEFAULT_PDF_HEADER_FOOTER_OPTIONS,
+      rules: [{ ...rule, pageRange: 'even' }],
+      filenameTemplate: '{base}_{pages}p',
+    })
+
+    assert.equal(result.filename, 'report_4p.pdf')
+    assert.deepEqual(await getDrawnPages(result.blob), [2, 4])
+  })
+
+  it('不正なページ範囲はエラーにする', async () => {
+    const [rule] = DEFAULT_PDF_HEADER_FOOTER_OPTIONS.rules
+    await assert.rejects(
+      addHeaderFooter(await createPdfFile('report.pdf', 2), {
+        ...DEFAULT_PDF_HEADER_FOOTER_OPTIONS,
+        rules: [{ ...rule, pageRange: '5' }],
+      })
+    )
+  })
+})
+
+describe('addWatermark', () => {
+  it('指定したページにだけ透かしを入れる', async () => {
+    const result = await addWatermark(await createPdfFile('report.pdf', 3), {
+      ...DEFAULT_PDF_WATERMARK_OPTIONS,
+      pageRange: '1, 3',
+    })
+
+    assert.equal(result.filename, 'report_watermarked.pdf')
+    assert.deepEqual(await getDrawnPages(result.blob), [1, 3])
+  })
+})
@@ -1,15 +1,24 @@
 /**
  * PDFページ番号挿入ライブラリ
  * pdf-libを使用してPDFにページ番号を追加
+ * 配置・フォント・読み込みから保存までの処理はヘッダー・フッター（lib/pdf-header-footer）・透かし（lib/pdf-watermark）と共通
  */
 
-import { PDFDocument, StandardFonts, rgb, type PDFPage } from 'pdf-lib'
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage } from 'pdf-lib'
 import type {
   PdfNumberingOptions,
+  NumberingFont,
+  NumberedRange,
   NumberingResult,
   NumberPosition,
+  OddEvenPosition,
   ProcessingProgress,
 } from '@/types'
+import { ensurePdfFile } from '@/lib/docx-to-pdf'
+import { assertNotEncrypted } from '@/lib/pdf-encryption'
+import { generateOutputFilename } from '@/lib/filename-template'
+import { embedCustomFont, embedJapaneseFont } from '@/lib/pdf-fonts'
+import { getPageNumberLabel } from '@/lib/page-number-format'
 
 // 進捗計算用の定数
 const PROGRESS_LOADING = 10
@@ -17,12 +26,15 @@ const PROGRESS_PROCESSING_START = 10
 const PROGRESS_PROCESSING_RANGE = 80
 const PROGRESS_FINALIZING = 90
 
+/** 既定のファイル名テンプレート */
+export const NUMBERING_FILENAME_TEMPLATE = '{base}_numbered'
+
 /**
  * カラーコードをRGB値に変換
  * @param hexColor - #RRGGBB形式のカラーコード
  * @returns rgb()関数で使用する{r, g, b}オブジェクト
  */
-function hexToRgb(hexColor: string): { r: number; g: number; b: number } {
+export function hexToRgb(hexColor: string): { r: number; g: number; b: number } {
   // バリデーション
   if (!/^#[0-9A-Fa-f]{6}$/.test(hexColor)) {
     throw new Error('無効なカラーコードです')
@@ -46,7 +58,7 @@ function hexToRgb(hexColor: string): { r: number; g: number; b: number } {
  * @param textWidth - テキストの幅
  * @returns { x, y } 座標
  */
-function calculateTextCoordinates(
+export function calculateTextCoordinates(
   page: PDFPage,
   position: NumberPosition,
   fontSize: number,
@@ -84,52 +96,118 @@ function calculateTextCoordinates(
 /**
  * 現在のページの位置設定を解決
  * 奇数・偶数で別の位置を使用する場合の判定
- * @param options - ページ番号オプション
+ * @param position - 配置位置（単一または奇数・偶数別）
  * @param pageNumber - 1ベースのページ番号
  * @returns このページで使用する位置
  */
-function resolvePosition(
-  options: PdfNumberingOptions,
+export function resolvePosition(
+  position: NumberPosition | OddEvenPosition,
   pageNumber: number
 ): NumberPosition {
-  if (typeof options.position === 'object') {
+  if (typeof position === 'object') {
     // OddEvenPositionの場合
-    return pageNumber % 2 === 1 ? options.position.odd : options.position.even
+    return pageNumber % 2 === 1 ? position.odd : position.even
   }
   // 単一のNumberPositionの場合
-  return options.position
+  return position
 }
 
 /**
- * 出力ファイル名を生成
- * @param originalFilename - 元のファイル名
- * @returns 出力ファイル名
+ * 描画に使うフォントを埋め込み
+ * 日本語フォント・アップロードしたフォントは使用した文字のみサブセット埋め込みする
+ * @param pdfDoc - 埋め込み先のPDFドキュメント
+ * @param font - フォント（未指定の場合は helvetica）
+ * @param customFont - アップロードしたフォントファイル（font が custom の場合）
+ * @returns 埋め込んだフォント
  */
-function generateOutputFilename(originalFilename: string): string {
-  const lastDotIndex = originalFilename.lastIndexOf('.')
-  if (lastDotIndex > 0) {
-    const name = originalFilename.substring(0, lastDotIndex)
-    const ext = originalFilename.substring(lastDotIndex)
-    return `${name}_numbered${ext}`
+export async function embedTextFont(
+  pdfDoc: PDFDocument,
+  font: NumberingFont | undefined,
+  customFont: File | undefined
+): Promise<PDFFont> {
+  switch (font) {
+    case 'noto-sans-jp':
+      return embedJapaneseFont(pdfDoc)
+    case 'custom': {
+      if (!customFont) {
+        throw new Error('フォントファイルが選択されていません')
+      }
+      try {
+        return await embedCustomFont(pdfDoc, await customFont.arrayBuffer())
+      } catch {
+        throw new Error(`フォント「${customFont.name}」を読み込めませんでした。TTFまたはOTF形式のファイルを選択してください`)
+      }
+    }
+    default:
+      return pdfDoc.embedFont(StandardFonts.Helvetica)
   }
-  return `${originalFilename}_numbered.pdf`
 }
 
 /**
- * PDFにページ番号を挿入
- *
- * @param file - 入力PDFファイル
+ * テキストの幅を計算
+ * @param font - 埋め込んだフォント
+ * @param text - テキスト
+ * @param fontSize - フォントサイズ
+ * @returns テキストの幅
+ * @throws フォントで表せない文字を含む場合
+ */
+export function measureText(font: PDFFont, text: string, fontSize: number): number {
+  try {
+    return font.widthOfTextAtSize(text, fontSize)
+  } catch {
+    // 標準フォントで表せない文字（日本語など）を含む場合
+    throw new Error(`「${text}」を選択したフォントで表示できません。日本語を含む場合はNoto Sans JPなどのフォントを選択してください`)
+  }
+}
+
+/**
+ * 番号を付けたページの範囲を取得
  * @param options - ページ番号オプション
+ * @param totalPages - 総ページ数
+ * @returns 最初と最後のページに付けた番号（番号を付けたページがない場合はundefined）
+ */
+function getNumberedRange(options: PdfNumberingOptions, totalPages: number): NumberedRange | undefined {
+  if (options.startFromPage > totalPages) return undefined
+
+  return {
+    first: options.startNumber,
+    last: options.startNumber + (totalPages - options.startFromPage),
+    firstLabel: getPageNumberLabel(options, options.startFromPage, totalPages),
+    lastLabel: getPageNumberLabel(options, totalPages, totalPages),
+  }
+}
+
+/** ページごとの描画処理（pageNumberは1ベース） */
+export type PageDrawer = (page: PDFPage, pageNumber: number) => void
+
+/** 各ページに描画したPDF */
+export interface StampedPdf {
+  /** 描画後のPDF */
+  blob: Blob
+  /** 読み込んだPDF（Word文書の場合は変換後） */
+  sourceFile: File
+  /** 総ページ数 */
+  pages: number
+}
+
+/**
+ * PDFを読み込み、各ページに描画して保存
+ * ページ番号・ヘッダー・フッター・透かしの挿入で共通の読み込み・進捗・キャンセル・保存の処理
+ *
+ * @param file - 入力PDFファイル（Word文書はPDFに変換）
+ * @param message - 描画中に表示するメッセージ
+ * @param prepare - フォントなどを埋め込み、ページごとの描画処理を返す
  * @param onProgress - 進捗コールバック
  * @param signal - AbortSignal for cancellation
- * @returns ページ番号付きPDF
+ * @returns 描画後のPDF
  */
-export async function addPageNumbers(
+export async function stampPdfPages(
   file: File,
-  options: PdfNumberingOptions,
+  message: string,
+  prepare: (pdfDoc: PDFDocument, sourceFile: File, totalPages: number) => Promise<PageDrawer>,
   onProgress?: (progress: ProcessingProgress) => void,
   signal?: AbortSignal
-): Promise<NumberingResult> {
+): Promise<StampedPdf> {
   onProgress?.({
     stage: 'loading',
     percentage: 0,
@@ -141,11 +219,13 @@ export async function addPageNumbers(
     throw new Error('Operation cancelled')
   }
 
-  // PDFを読み込み
-  const arrayBuffer = await file.arrayBuffer()
+  // PDFを読み込み（Word文書はPDFに変換）
+  const sourceFile = await ensurePdfFile(file)
+  const arrayBuffer = await sourceFile.arrayBuffer()
   const pdfDoc = await PDFDocument.load(arrayBuffer, {
     ignoreEncryption: true,
   })
+  assertNotEncrypted(pdfDoc)
 
   const pages = pdfDoc.getPages()
   const totalPages = pages.length
@@ -155,17 +235,14 @@ export async function addPageNumbers(
     throw new Error('PDFファイルにページが含まれていません')
   }
 
-  // フォントを埋め込み
-  const font = await pdfDoc.embedFont(StandardFonts.Helvetica)
-  const color = hexToRgb(options.fontColor)
+  const drawPage = await prepare(pdfDoc, sourceFile, totalPages)
 
   onProgress?.({
     stage: 'processing',
     percentage: PROGRESS_LOADING,
-    message: 'ページ番号を追加中...',
+    message,
   })
 
-  // 各ページに番号を追加
   for (let i = 0; i < totalPages; i++) {
     // キャンセルチェック
     if (signal?.aborted) {
@@ -173,38 +250,7 @@ export async function addPageNumbers(
     }
 
     const pageNumber = i + 1 // 1ベースのページ番号
-
-    // 開始ページより前の場合はスキップ
-    if (pageNumber < options.startFromPage) {
-      continue
-    }
-
-    // 実際に表示する番号を計算
-    const actualNumber = options.startNumber + (pageNumber - options.startFromPage)
-    const text = String(actualNumber)
-
-    const page = pages[i]
-    const position = resolvePosition(options, pageNumber)
-    const textWidth = font.widthOfTextAtSize(text, options.fontSize)
-
-    // 座標を計算
-    const { x, y } = calculateTextCoordinates(
-      page,
-      position,
-      options.fontSize,
-      options.marginX,
-      options.marginY,
-      textWidth
-    )
-
-    // テキストを描画
-    page.drawText(text, {
-      x,
-      y,
-      font,
-      size: options.fontSize,
-      color: rgb(color.r, color.g, color.b),
-    })
+    drawPage(pages[i], pageNumber)
 
     // 進捗を更新
     const percentage =
@@ -237,17 +283,75 @@ export async function addPageNumbers(
     message: '完了',
   })
 
-  // 結果を生成
   const blob = new Blob([pdfBytes.buffer as ArrayBuffer], {
     type: 'application/pdf',
   })
-  const filename = generateOutputFilename(file.name)
+
+  return { blob, sourceFile, pages: totalPages }
+}
+
+/**
+ * PDFにページ番号を挿入
+ *
+ * @param file - 入力PDFファイル
+ * @param options - ページ番号オプション
+ * @param onProgress - 進捗コールバック
+ * @param signal - AbortSignal for cancellation
+ * @returns ページ番号付きPDF
+ */
+export async function addPageNumbers(
+  file: File,
+  options: PdfNumberingOptions,
+  onProgress?: (progress: ProcessingProgress) => void,
+  signal?: AbortSignal
+): Promise<NumberingResult> {
+  const { blob, sourceFile, pages } = await stampPdfPages(
+    file,
+    'ページ番号を追加中...',
+    async (pdfDoc, _sourceFile, totalPages) => {
+      // フォントを埋め込み
+      const font = await embedTextFont(pdfDoc, options.font, options.customFont)
+      const color = hexToRgb(options.fontColor)
+
+      return (page, pageNumber) => {
+        // 開始ページより前の場合はスキップ
+        if (pageNumber < options.startFromPage) return
+
+        // 実際に表示する番号を書式に従って生成
+        const text = getPageNumberLabel(options, pageNumber, totalPages)
+        const position = resolvePosition(options.position, pageNumber)
+        const textWidth = measureText(font, text, options.fontSize)
+
+        // 座標を計算
+        const { x, y } = calculateTextCoordinates(
+          page,
+          position,
+          options.fontSize,
+          options.marginX,
+          options.marginY,
+          textWidth
+        )
+
+        // テキストを描画
+        page.drawText(text, {
+          x,
+          y,
+          font,
+          size: options.fontSize,
+          color: rgb(color.r, color.g, color.b),
+        })
+      }
+    },
+    onProgress,
+    signal
+  )
 
   return {
     blob,
-    filename,
+    filename: generateOutputFilename(sourceFile.name, pages, options.filenameTemplate, NUMBERING_FILENAME_TEMPLATE),
     size: blob.size,
-    pages: totalPages,
+    pages,
+    numberedRange: getNumberedRange(options, pages),
   }
 }
 
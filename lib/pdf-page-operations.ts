@@ -11,6 +11,7 @@ import type {
   ProcessingProgress,
   RotationDegrees,
 } from '@/types'
+import { assertNotEncrypted, savePdf } from '@/lib/pdf-encryption'
 
 /**
  * 単一PDFファイルからページ数を取得（pdf-merger.tsから再エクスポート）
@@ -36,6 +37,7 @@ export async function loadPdfPages(
 
   const arrayBuffer = await file.arrayBuffer()
   const pdf = await PDFDocument.load(arrayBuffer, { ignoreEncryption: true })
+  assertNotEncrypted(pdf)
   const totalPages = pdf.getPageCount()
 
   onProgress?.({
@@ -98,6 +100,7 @@ export async function exportPdfWithPageOperations(
   // 元のPDFを読み込み
   const arrayBuffer = await originalFile.arrayBuffer()
   const sourcePdf = await PDFDocument.load(arrayBuffer, { ignoreEncryption: true })
+  assertNotEncrypted(sourcePdf)
 
   onProgress?.({
     stage: 'processing',
@@ -139,8 +142,8 @@ export async function exportPdfWithPageOperations(
     message: 'PDFを生成しています...',
   })
 
-  // PDFを保存
-  const pdfBytes = await newPdf.save()
+  // PDFを保存（パスワード保護が指定されていれば暗号化）
+  const pdfBytes = await savePdf(newPdf, options.protection)
   const blob = new Blob([pdfBytes.buffer as ArrayBuffer], { type: 'application/pdf' })
 
   onProgress?.({
@@ -0,0 +1,109 @@
+/**
+ * PDF保護ライブラリ
+ * パスワードと操作の許可設定によるPDFの暗号化（AES-256）
+ */
+
+import { PDFDocument } from 'pdf-lib'
+import type { PdfProtectionOptions, ProcessingProgress, ProtectionResult } from '@/types'
+import { ensurePdfFile } from '@/lib/docx-to-pdf'
+import { assertNotEncrypted, encryptPdf } from '@/lib/pdf-encryption'
+
+/**
+ * 出力ファイル名を生成
+ * @param originalFilename - 元のファイル名
+ * @returns 出力ファイル名
+ */
+function generateOutputFilename(originalFilename: string): string {
+  const lastDotIndex = originalFilename.lastIndexOf('.')
+  if (lastDotIndex > 0) {
+    const name = originalFilename.substring(0, lastDotIndex)
+    return `${name}_protected.pdf`
+  }
+  return `${originalFilename}_protected.pdf`
+}
+
+/**
+ * PDFをパスワードで保護
+ *
+ * @param file - 入力PDFファイル（暗号化済みのPDFは事前に解除しておく）
+ * @param options - 保護オプション
+ * @param onProgress - 進捗コールバック
+ * @param signal - AbortSignal for cancellation
+ * @returns 暗号化したPDF
+ */
+export async function protectPDF(
+  file: File,
+  options: PdfProtectionOptions,
+  onProgress?: (progress: ProcessingProgress) => void,
+  signal?: AbortSignal
+): Promise<ProtectionResult> {
+  onProgress?.({
+    stage: 'loading',
+    percentage: 0,
+    message: 'PDFファイルを読み込んでいます...',
+  })
+
+  // PDFを読み込み（Word文書はPDFに変換）
+  const sourceFile = await ensurePdfFile(file)
+  const arrayBuffer = await sourceFile.arrayBuffer()
+  const pdfDoc = await PDFDocument.load(arrayBuffer, {
+    ignoreEncryption: true,
+  })
+  assertNotEncrypted(pdfDoc)
+
+  // キャンセルチェック
+  if (signal?.aborted) {
+    throw new Error('Operation cancelled')
+  }
+
+  onProgress?.({
+    stage: 'processing',
+    percentage: 30,
+    message: 'PDFを暗号化しています...',
+  })
+
+  const pdfBytes = await encryptPdf(await pdfDoc.save(), options)
+
+  // キャンセルチェック
+  if (signal?.aborted) {
+    throw new Error('Operation cancelled')
+  }
+
+  onProgress?.({
+    stage: 'completed',
+    percentage: 100,
+    message: '完了',
+  })
+
+  // 結果を生成
+  const blob = new Blob([pdfBytes.buffer as ArrayBuffer], {
+    type: 'application/pdf',
+  })
+
+  return {
+    blob,
+    filename: generateOutputFilename(sourceFile.name),
+    size: blob.size,
+    pages: pdfDoc.getPageCount(),
+  }
+}
+
+/**
+ * PDFファイルからページ数を取得
+ * @param file - PDFファイル
+ * @returns ページ数
+ * @throws PDFファイルの読み込みに失敗した場合
+ */
+export async function getPdfPageCount(file: File): Promise<number> {
+  try {
+    const arrayBuffer = await file.arrayBuffer()
+    const pdfDoc = await PDFDocument.load(arrayBuffer, {
+      ignoreEncryption: true,
+    })
+    return pdfDoc.getPageCount()
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : 'PDFファイルの読み込みに失敗しました'
+    throw new Error(message)
+  }
+}
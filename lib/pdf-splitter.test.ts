@@ -0,0 +1,110 @@
+/**
+ * ページ範囲パーサーのテスト
+ */
+
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { PDFDocument } from 'pdf-lib'
+import {
+  formatPageList,
+  parsePageRangeGroups,
+  parsePageRanges,
+  resolvePageSet,
+  splitPDF,
+} from '@/lib/pdf-splitter'
+
+describe('parsePageRanges', () => {
+  it('範囲・除外を組み合わせて解釈する', () => {
+    const result = parsePageRanges('1-10, !4-5', 20)
+    assert.equal(result.isValid, true)
+    assert.deepEqual(result.ranges, [{ start: 1, end: 3 }, { start: 6, end: 10 }])
+    assert.equal(result.totalPages, 8)
+  })
+
+  it('除外のみの場合は全ページから除く', () => {
+    const result = parsePageRanges('!1', 5)
+    assert.equal(result.isValid, true)
+    assert.deepEqual(result.ranges, [{ start: 2, end: 5 }])
+  })
+
+  it('カンマと空白のみの入力は空の範囲としてエラーにする', () => {
+    for (const input of [',', ' , ', ',,, ,']) {
+      const result = parsePageRanges(input, 5)
+      assert.equal(result.isValid, false, JSON.stringify(input))
+      assert.deepEqual(result.ranges, [])
+      assert.equal(result.errors.length, 1)
+      assert.match(result.errors[0].message, /ページ範囲が空です/)
+    }
+  })
+
+  it('すべて除外した場合はエラーにする', () => {
+    const result = parsePageRanges('1-3, !1-3', 5)
+    assert.equal(result.isValid, false)
+    assert.match(result.errors[0].message, /すべて除外されています/)
+  })
+})
+
+describe('parsePageRangeGroups', () => {
+  it('連続しないページもカンマ区切りの要素ごとに1つのグループにする', () => {
+    const result = parsePageRangeGroups('odd, 2-10/4, 7-8', 10)
+    assert.equal(result.isValid, true)
+    assert.deepEqual(result.groups, [[1, 3, 5, 7, 9], [2, 6, 10], [7, 8]])
+  })
+
+  it('除外はすべての要素に適用し、ページが残らない要素は除く', () => {
+    const result = parsePageRangeGroups('1-3, 5, !2, !5', 10)
+    assert.equal(result.isValid, true)
+    assert.deepEqual(result.groups, [[1, 3]])
+  })
+
+  it('除外のみの場合は残りのページを1つのグループにする', () => {
+    const result = parsePageRangeGroups('!1, !end', 5)
+    assert.deepEqual(result.groups, [[2, 3, 4]])
+  })
+
+  it('カンマのみの入力はエラーにする', () => {
+    const result = parsePageRangeGroups(' , ', 5)
+    assert.equal(result.isValid, false)
+    assert.deepEqual(result.groups, [])
+  })
+})
+
+describe('resolvePageSet', () => {
+  it('空の場合は全ページ、それ以外は指定したページを返す', () => {
+    assert.deepEqual([...resolvePageSet('', 3)], [1, 2, 3])
+    assert.deepEqual([...resolvePageSet(' odd, !5 ', 6)], [1, 3])
+  })
+
+  it('不正な範囲はエラーにする', () => {
+    assert.throws(() => resolvePageSet('2-9', 5))
+    assert.throws(() => resolvePageSet(' , ', 5), /ページ範囲が空です/)
+  })
+})
+
+describe('formatPageList', () => {
+  it('連続するページを範囲にまとめる', () => {
+    assert.equal(formatPageList([1, 2, 3, 7, 9, 10]), '1-3, 7, 9-10')
+  })
+})
+
+describe('splitPDF（範囲指定）', () => {
+  it('連続しない要素も1つのPDFとして出力する', async () => {
+    const pdfDoc = await PDFDocument.create()
+    for (let i = 0; i < 6; i++) pdfDoc.addPage([200, 200])
+    const bytes = await pdfDoc.save()
+    const file = new File([bytes.buffer as ArrayBuffer], 'doc.pdf', { type: 'application/pdf' })
+
+    const result = await splitPDF(
+      { id: 'doc', file, name: file.name, size: '', type: 'pdf', pages: 6 },
+      { method: 'ranges', ranges: 'odd, 2-6/2' }
+    )
+
+    assert.equal(result.totalSplits, 2)
+    assert.deepEqual(result.splits.map((split) => split.pageNumbers), [[1, 3, 5], [2, 4, 6]])
+    assert.deepEqual(result.splits.map((split) => split.pageRange), ['1, 3, 5', '2, 4, 6'])
+    for (const split of result.splits) {
+      const part = await PDFDocument.load(await split.blob.arrayBuffer())
+      assert.equal(part.getPageCount(), 3)
+    }
+  })
+})
@@ -5,150 +5,343 @@
 
 import { PDFDocument } from 'pdf-lib'
 import type {
+  BookmarkRange,
   FileUpload,
   PdfSplitOptions,
+  SplitMethod,
   ProcessingProgress,
   SplitResult,
   SplitBatchResult,
   PageRange,
+  PdfProtectionOptions,
+  PageGroupValidationResult,
   RangeValidationResult,
   RangeError,
 } from '@/types'
+import { ensurePdfFile } from '@/lib/docx-to-pdf'
+import { assertNotEncrypted, savePdf } from '@/lib/pdf-encryption'
+import { readOutline, type OutlineNode } from '@/lib/pdf-outline'
+import { findBlankPages, getBlankPageRanges, measureInkCoverage } from '@/lib/pdf-blank-pages'
+import { PDF_SPLIT_CONSTANTS } from '@/lib/constants'
+import { formatFileSize } from '@/lib/file-utils'
+import { createFilenameGenerator, removeExtension } from '@/lib/filename-template'
+
+/** 分割方法ごとの既定のファイル名テンプレート */
+export const DEFAULT_SPLIT_FILENAME_TEMPLATES: Record<SplitMethod, string> = {
+  ranges: '{base}_{range}',
+  equalParts: '{base}_part{index}',
+  equalPages: '{base}_{start}-{end}',
+  bookmarks: '{index:auto}_{title}',
+  blankPages: '{base}_part{index}',
+  maxSize: '{base}_part{index}',
+}
+
+/** ファイル名を付ける前の分割結果 */
+type SplitPart = Omit<SplitResult, 'filename'> & {
+  /** しおりのタイトル（しおりで分割した場合） */
+  title?: string
+}
 
 /**
  * 指定されたページインデックスからPDFを作成
  *
  * @param sourcePdf - 元のPDFドキュメント
  * @param pageIndices - コピーするページインデックス（0ベース）
+ * @param protection - パスワード保護オプション（未指定の場合は暗号化しない）
  * @returns PDF Blob
  */
 async function createPdfFromPages(
   sourcePdf: PDFDocument,
-  pageIndices: number[]
+  pageIndices: number[],
+  protection?: PdfProtectionOptions
 ): Promise<Blob> {
   const newPdf = await PDFDocument.create()
   const copiedPages = await newPdf.copyPages(sourcePdf, pageIndices)
   copiedPages.forEach(page => newPdf.addPage(page))
-  const pdfBytes = await newPdf.save()
+  const pdfBytes = await savePdf(newPdf, protection)
   return new Blob([pdfBytes.buffer as ArrayBuffer], { type: 'application/pdf' })
 }
 
+/** ページ範囲の1要素（カンマ区切りの各部分）の書式 */
+const RANGE_SEGMENT_PATTERN = /^(\d+|end|z)?\s*(?:([-~])\s*(\d+|end|z)?)?\s*(?:\/\s*(\d+))?$/
+
+/** 書式エラー時の入力例 */
+const RANGE_FORMAT_EXAMPLE = '例: 1-3, 5, 8-, -3, odd, 1-20/2, !7'
+
+/**
+ * ページ指定（数値または最終ページを表すend・z）をページ番号に変換
+ */
+function resolvePageRef(ref: string, totalPages: number): number {
+  return ref === 'end' || ref === 'z' ? totalPages : parseInt(ref, 10)
+}
+
 /**
- * ページ範囲文字列をパースしてバリデーション
+ * ページ範囲の1要素を解析してページ番号の配列に変換
  *
- * @param input - "1-3, 5, 8-10" 形式の文字列
+ * @param segment - 要素の文字列（前後の空白・除外記号「!」を除いたもの）
  * @param totalPages - PDFの総ページ数
- * @returns バリデーション結果
- *
- * @example
- * parsePageRanges("1-3, 5, 8-10", 20)
- * // => { isValid: true, ranges: [{start:1,end:3}, {start:5,end:5}, {start:8,end:10}], errors: [], totalPages: 6 }
+ * @returns ページ番号の配列、またはエラーメッセージ
  */
-export function parsePageRanges(
-  input: string,
+function parseRangeSegment(
+  segment: string,
   totalPages: number
-): RangeValidationResult {
-  const ranges: PageRange[] = []
-  const errors: RangeError[] = []
-
-  if (!input || input.trim() === '') {
-    return { isValid: false, ranges: [], errors: [], totalPages: 0 }
+): { pages: number[] } | { error: string } {
+  const normalized = segment.toLowerCase()
+
+  // 奇数・偶数ページ
+  if (normalized === 'odd' || normalized === 'even') {
+    const pages: number[] = []
+    for (let page = normalized === 'odd' ? 1 : 2; page <= totalPages; page += 2) {
+      pages.push(page)
+    }
+    return { pages }
   }
 
-  // カンマで分割して各セグメントを処理
-  const segments = input.split(',').map(s => s.trim()).filter(s => s !== '')
+  const match = normalized.match(RANGE_SEGMENT_PATTERN)
+  if (!match || (!match[1] && !match[2])) {
+    return { error: `無効な形式です: "${segment}"（${RANGE_FORMAT_EXAMPLE}）` }
+  }
 
-  for (const segment of segments) {
-    // 範囲（1-3）または単一ページ（5）をマッチ
-    const match = segment.match(/^(\d+)(?:[-~](\d+))?$/)
+  const [, startRef, dash, endRef, stepText] = match
 
-    if (!match) {
-      errors.push({
-        input: segment,
-        message: `無効な形式です: "${segment}"（例: 1-3, 5）`,
-      })
-      continue
+  // 末尾からのページ数（-3 = 最後の3ページ）
+  if (!startRef) {
+    if (!endRef || endRef === 'end' || endRef === 'z' || stepText) {
+      return { error: `無効な形式です: "${segment}"（${RANGE_FORMAT_EXAMPLE}）` }
+    }
+    const count = parseInt(endRef, 10)
+    if (count < 1) {
+      return { error: `末尾からのページ数は1以上である必要があります: "${segment}"` }
+    }
+    if (count > totalPages) {
+      return { error: `末尾からのページ数がPDFのページ数（${totalPages}ページ）を超えています: "${segment}"` }
     }
+    return { pages: Array.from({ length: count }, (_, i) => totalPages - count + 1 + i) }
+  }
 
-    const start = parseInt(match[1], 10)
-    const end = match[2] ? parseInt(match[2], 10) : start
+  if (stepText && !dash) {
+    return { error: `間隔は範囲と組み合わせて指定してください: "${segment}"（例: 1-20/2）` }
+  }
 
-    // バリデーション
-    if (start < 1) {
-      errors.push({
-        input: segment,
-        message: `ページ番号は1以上である必要があります: "${segment}"`,
-      })
-      continue
-    }
+  const start = resolvePageRef(startRef, totalPages)
+  // 終了ページ省略（5-）は最終ページまで
+  const end = dash ? resolvePageRef(endRef ?? 'end', totalPages) : start
+  const step = stepText ? parseInt(stepText, 10) : 1
 
-    if (end < start) {
-      errors.push({
-        input: segment,
-        message: `終了ページは開始ページ以上である必要があります: "${segment}"`,
-      })
-      continue
+  if (start < 1) {
+    return { error: `ページ番号は1以上である必要があります: "${segment}"` }
+  }
+  if (end < start) {
+    return { error: `終了ページは開始ページ以上である必要があります: "${segment}"` }
+  }
+  if (start > totalPages) {
+    return { error: `ページ${start}はPDFのページ数（${totalPages}ページ）を超えています` }
+  }
+  if (end > totalPages) {
+    return { error: `ページ${end}はPDFのページ数（${totalPages}ページ）を超えています` }
+  }
+  if (step < 1) {
+    return { error: `間隔は1以上である必要があります: "${segment}"` }
+  }
+
+  const pages: number[] = []
+  for (let page = start; page <= end; page += step) {
+    pages.push(page)
+  }
+  return { pages }
+}
+
+/**
+ * ページ番号の並びを連続する範囲にまとめる
+ */
+function compressPagesToRanges(pages: number[]): PageRange[] {
+  const ranges: PageRange[] = []
+  for (const page of pages) {
+    const last = ranges[ranges.length - 1]
+    if (last && page === last.end + 1) {
+      last.end = page
+    } else {
+      ranges.push({ start: page, end: page })
     }
+  }
+  return ranges
+}
 
-    if (start > totalPages) {
-      errors.push({
-        input: segment,
-        message: `ページ${start}はPDFのページ数（${totalPages}ページ）を超えています`,
-      })
+/**
+ * ページ範囲文字列をカンマ区切りの要素ごとにパース
+ * 除外は全要素に適用し、除外のみの場合は全ページを1つの要素として扱う
+ *
+ * @param input - ページ範囲文字列（空でないこと）
+ * @param totalPages - PDFの総ページ数
+ * @returns 要素ごとのページ番号（ページが残らない要素は含まない）とエラー
+ */
+function parseRangeSegments(
+  input: string,
+  totalPages: number
+): { groups: number[][]; errors: RangeError[] } {
+  const errors: RangeError[] = []
+  const includedGroups: number[][] = []
+  const excludedPages = new Set<number>()
+  let hasInclusion = false
+  let hasExclusion = false
+
+  // カンマで分割して各要素を処理（エラー位置を返すため入力内の位置を保持）
+  for (const match of input.matchAll(/[^,]+/g)) {
+    const raw = match[0]
+    const segment = raw.trim()
+    if (segment === '') continue
+
+    const start = (match.index ?? 0) + raw.indexOf(segment)
+    const end = start + segment.length
+    const isExclusion = segment.startsWith('!')
+    const body = isExclusion ? segment.slice(1).trim() : segment
+    // エラーの要素も含めて、除外以外の指定があれば全ページを対象にしない
+    if (!isExclusion) hasInclusion = true
+
+    const result = parseRangeSegment(body, totalPages)
+    if ('error' in result) {
+      errors.push({ input: segment, message: result.error, start, end })
       continue
     }
 
-    if (end > totalPages) {
-      errors.push({
-        input: segment,
-        message: `ページ${end}はPDFのページ数（${totalPages}ページ）を超えています`,
-      })
-      continue
+    if (isExclusion) {
+      hasExclusion = true
+      result.pages.forEach(page => excludedPages.add(page))
+    } else {
+      includedGroups.push(result.pages)
     }
+  }
 
-    ranges.push({ start, end })
+  // 除外のみの場合は全ページを対象にする（カンマ・空白のみの入力は対象なし）
+  const baseGroups = hasInclusion || !hasExclusion
+    ? includedGroups
+    : [Array.from({ length: totalPages }, (_, i) => i + 1)]
+  const groups = baseGroups
+    .map(pages => pages.filter(page => !excludedPages.has(page)))
+    .filter(pages => pages.length > 0)
+
+  if (errors.length === 0 && groups.length === 0) {
+    errors.push({
+      input: input.trim(),
+      message: hasInclusion || hasExclusion
+        ? '選択されたページがありません（すべて除外されています）'
+        : 'ページ範囲が空です（例: 1-3, 5）',
+      start: 0,
+      end: input.length,
+    })
   }
 
-  // 重複チェックとソート
-  const mergedRanges = mergeOverlappingRanges(ranges)
+  return { groups, errors }
+}
 
-  const totalPageCount = mergedRanges.reduce(
-    (sum, range) => sum + (range.end - range.start + 1),
-    0
-  )
+/**
+ * ページ範囲文字列をパースしてバリデーション
+ *
+ * カンマ区切りで次の書式を組み合わせられる
+ * - `5` 単一ページ、`1-3`（`1~3`）範囲
+ * - `end`・`z` 最終ページ（例: `10-end`）
+ * - `8-` 指定ページから最終ページまで、`-3` 最後の3ページ
+ * - `odd`・`even` 奇数・偶数ページ
+ * - `1-20/2` 間隔を指定した範囲（1, 3, 5, ..., 19）
+ * - `!7`・`!10-12` 除外（他の要素の位置に関係なく全体から除く。除外のみの場合は全ページから除く）
+ *
+ * @param input - "1-3, 5, 8-10" 形式の文字列
+ * @param totalPages - PDFの総ページ数
+ * @param preserveOrder - trueの場合、範囲をソート・統合せず入力順のまま返す
+ * @returns バリデーション結果（エラーには入力文字列内の位置を含む）
+ *
+ * @example
+ * parsePageRanges("1-3, 5, 8-10", 20)
+ * // => { isValid: true, ranges: [{start:1,end:3}, {start:5,end:5}, {start:8,end:10}], errors: [], totalPages: 6 }
+ * parsePageRanges("1-10, !4-5", 20)
+ * // => { isValid: true, ranges: [{start:1,end:3}, {start:6,end:10}], errors: [], totalPages: 8 }
+ */
+export function parsePageRanges(
+  input: string,
+  totalPages: number,
+  preserveOrder: boolean = false
+): RangeValidationResult {
+  if (!input || input.trim() === '') {
+    return { isValid: false, ranges: [], errors: [], totalPages: 0 }
+  }
+
+  const { groups, errors } = parseRangeSegments(input, totalPages)
+  const pages = groups.flat()
+
+  // 重複を除いて昇順に並べる（入力順を維持する場合はそのまま）
+  const orderedPages = preserveOrder
+    ? pages
+    : [...new Set(pages)].sort((a, b) => a - b)
 
   return {
     isValid: errors.length === 0,
-    ranges: mergedRanges,
+    ranges: compressPagesToRanges(orderedPages),
     errors,
-    totalPages: totalPageCount,
+    totalPages: orderedPages.length,
   }
 }
 
 /**
- * 重複する範囲をマージ
+ * ページ範囲文字列から対象ページの集合を取得（空文字の場合は全ページ）
+ * ページ番号・ヘッダー・フッター・透かしの対象ページの指定に使用
+ *
+ * @param input - "1-3, 5, !2" 形式の文字列
+ * @param totalPages - PDFの総ページ数
+ * @returns 対象ページ（1ベース）
+ * @throws ページ範囲が不正な場合
  */
-function mergeOverlappingRanges(ranges: PageRange[]): PageRange[] {
-  if (ranges.length === 0) return []
+export function resolvePageSet(input: string, totalPages: number): Set<number> {
+  if (input.trim() === '') {
+    return new Set(Array.from({ length: totalPages }, (_, i) => i + 1))
+  }
 
-  // 開始ページでソート
-  const sorted = [...ranges].sort((a, b) => a.start - b.start)
+  const parseResult = parsePageRanges(input, totalPages)
+  if (!parseResult.isValid) {
+    throw new Error(parseResult.errors[0]?.message ?? '有効なページ範囲を指定してください')
+  }
 
-  const merged: PageRange[] = [sorted[0]]
+  return new Set(
+    parseResult.ranges.flatMap((range) =>
+      Array.from({ length: range.end - range.start + 1 }, (_, j) => range.start + j)
+    )
+  )
+}
 
-  for (let i = 1; i < sorted.length; i++) {
-    const current = sorted[i]
-    const last = merged[merged.length - 1]
+/**
+ * ページ範囲文字列をカンマ区切りの要素ごとのページに分けてパース（範囲指定での分割用）
+ * `odd`・`1-20/2` のように連続しないページも、1つの要素は1つのグループにまとめる
+ *
+ * @param input - "1-3, odd, !2" 形式の文字列
+ * @param totalPages - PDFの総ページ数
+ * @returns バリデーション結果（グループごとのページ番号は昇順）
+ *
+ * @example
+ * parsePageRangeGroups("1-3, 5-9/2, !2", 20)
+ * // => { isValid: true, groups: [[1, 3], [5, 7, 9]], errors: [] }
+ */
+export function parsePageRangeGroups(input: string, totalPages: number): PageGroupValidationResult {
+  if (!input || input.trim() === '') {
+    return { isValid: false, groups: [], errors: [] }
+  }
 
-    // 重複または連続している場合はマージ
-    if (current.start <= last.end + 1) {
-      last.end = Math.max(last.end, current.end)
-    } else {
-      merged.push(current)
-    }
+  const { groups, errors } = parseRangeSegments(input, totalPages)
+  return {
+    isValid: errors.length === 0,
+    groups: groups.map(pages => [...new Set(pages)].sort((a, b) => a - b)),
+    errors,
   }
+}
 
-  return merged
+/**
+ * ページ番号の並びを表示用の文字列にする
+ *
+ * @example
+ * formatPageList([1, 2, 3, 7]) // => "1-3, 7"
+ */
+export function formatPageList(pages: number[]): string {
+  return compressPagesToRanges(pages)
+    .map(range => (range.start === range.end ? `${range.start}` : `${range.start}-${range.end}`))
+    .join(', ')
 }
 
 /**
@@ -176,11 +369,13 @@ export async function splitPDF(
     message: 'PDFファイルを読み込んでいます...',
   })
 
-  // PDFを読み込み
-  const arrayBuffer = await file.file.arrayBuffer()
+  // PDFを読み込み（Word文書はPDFに変換）
+  const sourceFile = await ensurePdfFile(file.file)
+  const arrayBuffer = await sourceFile.arrayBuffer()
   const sourcePdf = await PDFDocument.load(arrayBuffer, {
     ignoreEncryption: true,
   })
+  assertNotEncrypted(sourcePdf)
   const totalPages = sourcePdf.getPageCount()
 
   onProgress?.({
@@ -189,29 +384,66 @@ export async function splitPDF(
     message: '分割範囲を計算しています...',
   })
 
-  let splits: SplitResult[] = []
+  let parts: SplitPart[] = []
 
   // 分割方法に応じて処理
   switch (options.method) {
     case 'ranges':
-      splits = await splitByRanges(sourcePdf, options.ranges, totalPages, file.name, onProgress, signal)
+      parts = await splitByRanges(sourcePdf, options.ranges, totalPages, options.protection, onProgress, signal)
       break
     case 'equalParts':
-      splits = await splitByEqualParts(
+      parts = await splitByEqualParts(
         sourcePdf,
         options.partsCount || 2,
         totalPages,
-        file.name,
+        options.protection,
         onProgress,
         signal
       )
       break
     case 'equalPages':
-      splits = await splitByEqualPages(
+      parts = await splitByEqualPages(
         sourcePdf,
         options.pagesPerSplit || 1,
         totalPages,
-        file.name,
+        options.protection,
+        onProgress,
+        signal
+      )
+      break
+    case 'bookmarks':
+      parts = await splitByBookmarks(
+        sourcePdf,
+        options.bookmarkLevel || 1,
+        totalPages,
+        options.protection,
+        onProgress,
+        signal
+      )
+      break
+    case 'blankPages': {
+      // 検出済みでない場合はここで検出（pdf.jsのレンダリングを使うためメインスレッドのみ）
+      const blankPages = options.blankPages ?? findBlankPages(
+        await measureInkCoverage(arrayBuffer, undefined, signal),
+        options.blankThreshold ?? PDF_SPLIT_CONSTANTS.DEFAULT_BLANK_THRESHOLD
+      )
+      parts = await splitByBlankPages(
+        sourcePdf,
+        blankPages,
+        options.removeBlankPages ?? true,
+        totalPages,
+        options.protection,
+        onProgress,
+        signal
+      )
+      break
+    }
+    case 'maxSize':
+      parts = await splitByMaxSize(
+        sourcePdf,
+        options.maxFileSize ?? PDF_SPLIT_CONSTANTS.DEFAULT_MAX_FILE_SIZE,
+        totalPages,
+        options.protection,
         onProgress,
         signal
       )
@@ -224,6 +456,24 @@ export async function splitPDF(
     message: 'PDFを生成しています...',
   })
 
+  // テンプレートからファイル名を付ける（同じ名前は末尾に番号を付けて区別）
+  const generateFilename = createFilenameGenerator(
+    options.filenameTemplate?.trim() || DEFAULT_SPLIT_FILENAME_TEMPLATES[options.method]
+  )
+  const baseName = removeExtension(sourceFile.name)
+  const splits: SplitResult[] = parts.map(({ title, ...part }, i) => ({
+    ...part,
+    filename: generateFilename({
+      base: baseName,
+      index: i + 1,
+      total: parts.length,
+      start: part.pageNumbers[0],
+      end: part.pageNumbers[part.pageNumbers.length - 1],
+      pages: part.pages,
+      title,
+    }),
+  }))
+
   const totalSplits = splits.length
 
   onProgress?.({
@@ -246,54 +496,47 @@ async function splitByRanges(
   sourcePdf: PDFDocument,
   rangesInput: string,
   totalPages: number,
-  baseFilename: string,
+  protection: PdfProtectionOptions | undefined,
   onProgress?: (progress: ProcessingProgress) => void,
   signal?: AbortSignal
-): Promise<SplitResult[]> {
-  const parseResult = parsePageRanges(rangesInput, totalPages)
+): Promise<SplitPart[]> {
+  const parseResult = parsePageRangeGroups(rangesInput, totalPages)
 
-  if (!parseResult.isValid || parseResult.ranges.length === 0) {
+  if (!parseResult.isValid || parseResult.groups.length === 0) {
     if (parseResult.errors.length > 0) {
       throw new Error(parseResult.errors[0].message)
     }
     throw new Error('有効なページ範囲を指定してください')
   }
 
-  const results: SplitResult[] = []
-  const ranges = parseResult.ranges
+  const results: SplitPart[] = []
+  const groups = parseResult.groups
 
-  for (let i = 0; i < ranges.length; i++) {
+  // カンマ区切りの要素ごとに1つのPDFにする（odd・1-20/2 なども1ファイル）
+  for (let i = 0; i < groups.length; i++) {
     // キャンセルチェック
     if (signal?.aborted) {
       throw new Error('処理がキャンセルされました')
     }
 
-    const range = ranges[i]
+    const pageNumbers = groups[i]
+    const pageRangeLabel = formatPageList(pageNumbers)
 
     onProgress?.({
       stage: 'processing',
-      percentage: 10 + Math.floor((i / ranges.length) * 70),
-      message: `分割中: ${range.start}-${range.end}ページ...`,
+      percentage: 10 + Math.floor((i / groups.length) * 70),
+      message: `分割中: ${pageRangeLabel}ページ...`,
     })
 
-    const pageIndices = Array.from(
-      { length: range.end - range.start + 1 },
-      (_, j) => range.start - 1 + j
-    )
-
-    const blob = await createPdfFromPages(sourcePdf, pageIndices)
-
-    const pageRangeLabel = range.start === range.end
-      ? `${range.start}`
-      : `${range.start}-${range.end}`
+    const pageIndices = pageNumbers.map(p => p - 1)
+    const blob = await createPdfFromPages(sourcePdf, pageIndices, protection)
 
     results.push({
       blob,
-      filename: generateSplitFilename(baseFilename, pageRangeLabel, i + 1),
       size: blob.size,
       pages: pageIndices.length,
       pageRange: pageRangeLabel,
-      pageNumbers: pageIndices.map(p => p + 1),
+      pageNumbers,
     })
   }
 
@@ -307,10 +550,10 @@ async function splitByEqualParts(
   sourcePdf: PDFDocument,
   partsCount: number,
   totalPages: number,
-  baseFilename: string,
+  protection: PdfProtectionOptions | undefined,
   onProgress?: (progress: ProcessingProgress) => void,
   signal?: AbortSignal
-): Promise<SplitResult[]> {
+): Promise<SplitPart[]> {
   if (partsCount < 2) {
     throw new Error('分割数は2以上である必要があります')
   }
@@ -319,7 +562,7 @@ async function splitByEqualParts(
   }
 
   const pagesPerPart = Math.ceil(totalPages / partsCount)
-  const results: SplitResult[] = []
+  const results: SplitPart[] = []
 
   for (let i = 0; i < partsCount; i++) {
     // キャンセルチェック
@@ -343,7 +586,7 @@ async function splitByEqualParts(
       (_, j) => startPage + j
     )
 
-    const blob = await createPdfFromPages(sourcePdf, pageIndices)
+    const blob = await createPdfFromPages(sourcePdf, pageIndices, protection)
 
     const startPageNum = startPage + 1
     const endPageNum = endPage
@@ -351,7 +594,6 @@ async function splitByEqualParts(
 
     results.push({
       blob,
-      filename: generateSplitFilename(baseFilename, `part${i + 1}`, i + 1),
       size: blob.size,
       pages: pageIndices.length,
       pageRange: pageRangeLabel,
@@ -369,10 +611,10 @@ async function splitByEqualPages(
   sourcePdf: PDFDocument,
   pagesPerSplit: number,
   totalPages: number,
-  baseFilename: string,
+  protection: PdfProtectionOptions | undefined,
   onProgress?: (progress: ProcessingProgress) => void,
   signal?: AbortSignal
-): Promise<SplitResult[]> {
+): Promise<SplitPart[]> {
   if (pagesPerSplit < 1) {
     throw new Error('ページ数は1以上である必要があります')
   }
@@ -380,7 +622,7 @@ async function splitByEqualPages(
     throw new Error(`ページ数はPDFのページ数（${totalPages}）以下である必要があります`)
   }
 
-  const results: SplitResult[] = []
+  const results: SplitPart[] = []
   const totalParts = Math.ceil(totalPages / pagesPerSplit)
   let partIndex = 0
 
@@ -403,7 +645,7 @@ async function splitByEqualPages(
       (_, j) => startPage + j
     )
 
-    const blob = await createPdfFromPages(sourcePdf, pageIndices)
+    const blob = await createPdfFromPages(sourcePdf, pageIndices, protection)
 
     const startPageNum = startPage + 1
     const endPageNum = endPage
@@ -411,7 +653,6 @@ async function splitByEqualPages(
 
     results.push({
       blob,
-      filename: generateSplitFilename(baseFilename, pageRangeLabel, partIndex + 1),
       size: blob.size,
       pages: pageIndices.length,
       pageRange: pageRangeLabel,
@@ -425,21 +666,291 @@ async function splitByEqualPages(
 }
 
 /**
- * 分割後のファイル名を生成
+ * しおりで分割
+ */
+async function splitByBookmarks(
+  sourcePdf: PDFDocument,
+  level: number,
+  totalPages: number,
+  protection: PdfProtectionOptions | undefined,
+  onProgress?: (progress: ProcessingProgress) => void,
+  signal?: AbortSignal
+): Promise<SplitPart[]> {
+  const ranges = getBookmarkRanges(readOutline(sourcePdf), level, totalPages)
+  if (ranges.length === 0) {
+    throw new Error('ページを指すしおりが見つかりません')
+  }
+
+  const results: SplitPart[] = []
+
+  for (let i = 0; i < ranges.length; i++) {
+    // キャンセルチェック
+    if (signal?.aborted) {
+      throw new Error('処理がキャンセルされました')
+    }
+
+    const range = ranges[i]
+
+    onProgress?.({
+      stage: 'processing',
+      percentage: 10 + Math.floor((i / ranges.length) * 70),
+      message: `分割中: ${range.title || `${range.start}-${range.end}ページ`}...`,
+    })
+
+    const pageIndices = Array.from(
+      { length: range.end - range.start + 1 },
+      (_, j) => range.start - 1 + j
+    )
+
+    const blob = await createPdfFromPages(sourcePdf, pageIndices, protection)
+
+    const pageRangeLabel = range.start === range.end
+      ? `${range.start}`
+      : `${range.start}-${range.end}`
+
+    results.push({
+      blob,
+      size: blob.size,
+      pages: pageIndices.length,
+      pageRange: pageRangeLabel,
+      pageNumbers: pageIndices.map(p => p + 1),
+      title: range.title,
+    })
+  }
+
+  return results
+}
+
+/**
+ * 空白ページ（区切り紙）で分割
+ */
+async function splitByBlankPages(
+  sourcePdf: PDFDocument,
+  blankPages: number[],
+  removeBlankPages: boolean,
+  totalPages: number,
+  protection: PdfProtectionOptions | undefined,
+  onProgress?: (progress: ProcessingProgress) => void,
+  signal?: AbortSignal
+): Promise<SplitPart[]> {
+  if (blankPages.length === 0) {
+    throw new Error('空白ページが見つかりません。しきい値を上げてください')
+  }
+
+  const ranges = getBlankPageRanges(totalPages, blankPages, removeBlankPages)
+  if (ranges.length === 0) {
+    throw new Error('すべてのページが空白と判定されました。しきい値を下げてください')
+  }
+
+  const results: SplitPart[] = []
+
+  for (let i = 0; i < ranges.length; i++) {
+    // キャンセルチェック
+    if (signal?.aborted) {
+      throw new Error('処理がキャンセルされました')
+    }
+
+    const range = ranges[i]
+
+    onProgress?.({
+      stage: 'processing',
+      percentage: 10 + Math.floor((i / ranges.length) * 70),
+      message: `分割中: ${range.start}-${range.end}ページ...`,
+    })
+
+    const pageIndices = Array.from(
+      { length: range.end - range.start + 1 },
+      (_, j) => range.start - 1 + j
+    )
+
+    const blob = await createPdfFromPages(sourcePdf, pageIndices, protection)
+
+    const pageRangeLabel = range.start === range.end
+      ? `${range.start}`
+      : `${range.start}-${range.end}`
+
+    results.push({
+      blob,
+      size: blob.size,
+      pages: pageIndices.length,
+      pageRange: pageRangeLabel,
+      pageNumbers: pageIndices.map(p => p + 1),
+    })
+  }
+
+  return results
+}
+
+/**
+ * 最大ファイルサイズで分割
+ * 保存後のサイズはページ数に比例しない（共有フォント・画像など）ため、実際に生成して計測しながら
+ * 上限に収まる最大の連続ページ数を求める（倍々に増やしてから二分探索）
+ */
+async function splitByMaxSize(
+  sourcePdf: PDFDocument,
+  maxFileSize: number,
+  totalPages: number,
+  protection: PdfProtectionOptions | undefined,
+  onProgress?: (progress: ProcessingProgress) => void,
+  signal?: AbortSignal
+): Promise<SplitPart[]> {
+  if (!(maxFileSize > 0)) {
+    throw new Error('最大サイズには0より大きい値を指定してください')
+  }
+
+  const results: SplitPart[] = []
+  let startPage = 0
+  // 前回のファイルのページ数（次のファイルの最初の試行に使う）
+  let previousCount = 1
+
+  // startPageからcount枚のPDFを生成
+  const createChunk = async (count: number) => {
+    // キャンセルチェック
+    if (signal?.aborted) {
+      throw new Error('処理がキャンセルされました')
+    }
+
+    onProgress?.({
+      stage: 'processing',
+      percentage: 10 + Math.floor((startPage / totalPages) * 70),
+      message: `サイズを計測中: ${startPage + 1}-${startPage + count}ページ...`,
+    })
+
+    const pageIndices = Array.from({ length: count }, (_, j) => startPage + j)
+    return { count, pageIndices, blob: await createPdfFromPages(sourcePdf, pageIndices, protection) }
+  }
+
+  while (startPage < totalPages) {
+    const remaining = totalPages - startPage
+
+    // 1ページだけで上限を超える場合は分割できない
+    let fit = await createChunk(1)
+    if (fit.blob.size > maxFileSize) {
+      throw new Error(
+        `ページ${startPage + 1}は1ページだけで${formatFileSize(fit.blob.size)}あり、` +
+        `最大サイズ（${formatFileSize(maxFileSize)}）を超えています。圧縮してから分割してください`
+      )
+    }
+
+    // 上限に収まらないページ数が見つかるまで増やす
+    let overflowCount: number | null = null
+    let nextCount = Math.min(Math.max(previousCount, 2), remaining)
+    while (overflowCount === null && fit.count < remaining) {
+      const chunk = await createChunk(nextCount)
+      if (chunk.blob.size <= maxFileSize) {
+        fit = chunk
+        nextCount = Math.min(nextCount * 2, remaining)
+      } else {
+        overflowCount = nextCount
+      }
+    }
+
+    // 収まるページ数と収まらないページ数の間を二分探索
+    while (overflowCount !== null && overflowCount - fit.count > 1) {
+      const chunk = await createChunk(Math.floor((fit.count + overflowCount) / 2))
+      if (chunk.blob.size <= maxFileSize) {
+        fit = chunk
+      } else {
+        overflowCount = chunk.count
+      }
+    }
+
+    const startPageNum = startPage + 1
+    const endPageNum = startPage + fit.count
+    const pageRangeLabel = startPageNum === endPageNum
+      ? `${startPageNum}`
+      : `${startPageNum}-${endPageNum}`
+
+    results.push({
+      blob: fit.blob,
+      size: fit.blob.size,
+      pages: fit.count,
+      pageRange: pageRangeLabel,
+      pageNumbers: fit.pageIndices.map(p => p + 1),
+    })
+
+    startPage += fit.count
+    previousCount = fit.count
+  }
+
+  return results
+}
+
+/**
+ * しおりツリーの階層数を取得
+ *
+ * @param outline - しおりノード配列
+ * @returns 最も深いしおりの階層（しおりがない場合は0）
+ */
+export function getOutlineDepth(outline: OutlineNode[]): number {
+  return outline.reduce(
+    (depth, node) => Math.max(depth, 1 + getOutlineDepth(node.children)),
+    0
+  )
+}
+
+/**
+ * しおりからページ範囲を作成
+ * 指定した階層までのしおりを開始ページ順に並べ、次のしおりの直前までを1つの範囲とする
+ * 最初のしおりより前のページ（表紙・目次など）は最初の範囲に含める
+ *
+ * @param outline - しおりノード配列
+ * @param level - 使用する階層（1 = 最上位のみ）
+ * @param totalPages - PDFの総ページ数
+ * @returns しおりごとのページ範囲（ページ順）
+ *
+ * @example
+ * // 第1章(p.1) > 1.1節(p.1), 1.2節(p.4) / 第2章(p.8) の10ページのPDF
+ * getBookmarkRanges(outline, 1, 10)
+ * // => [{title:'第1章',start:1,end:7}, {title:'第2章',start:8,end:10}]
+ * getBookmarkRanges(outline, 2, 10)
+ * // => [{title:'1.1節',start:1,end:3}, {title:'1.2節',start:4,end:7}, {title:'第2章',start:8,end:10}]
+ */
+export function getBookmarkRanges(
+  outline: OutlineNode[],
+  level: number,
+  totalPages: number
+): BookmarkRange[] {
+  const entries: Array<{ title: string; level: number; start: number }> = []
+
+  const collect = (nodes: OutlineNode[], depth: number) => {
+    for (const node of nodes) {
+      const pageIndex = node.destination?.pageIndex
+      if (pageIndex !== undefined && pageIndex >= 0 && pageIndex < totalPages) {
+        entries.push({ title: node.title.trim(), level: depth, start: pageIndex + 1 })
+      }
+      if (depth < level) {
+        collect(node.children, depth + 1)
+      }
+    }
+  }
+  collect(outline, 1)
+
+  // 開始ページ順に並べ（同じページはツリー順を維持）、同じページから始まるしおりは
+  // 最後のもの（より深い階層の見出し）を採用する
+  const sorted = entries
+    .map((entry, order) => ({ ...entry, order }))
+    .sort((a, b) => a.start - b.start || a.order - b.order)
+  const starts = sorted.filter((entry, i) => sorted[i + 1]?.start !== entry.start)
+
+  return starts.map((entry, i) => ({
+    title: entry.title,
+    level: entry.level,
+    start: i === 0 ? 1 : entry.start,
+    end: i + 1 < starts.length ? starts[i + 1].start - 1 : totalPages,
+  }))
+}
+
+/**
+ * PDFファイルのしおりを読み込み
  *
- * @param baseFilename - 元のファイル名
- * @param rangeLabel - 範囲ラベル（例: "1-3", "part1"）
- * @param index - 分割インデックス
- * @returns 生成されたファイル名
+ * @param file - PDFファイル
+ * @returns しおりノード配列（しおりがない場合は空配列）
  */
-export function generateSplitFilename(
-  baseFilename: string,
-  rangeLabel: string,
-  _index: number
-): string {
-  // 拡張子を除去
-  const baseName = baseFilename.replace(/\.pdf$/i, '')
-  return `${baseName}_${rangeLabel}.pdf`
+export async function getPdfOutline(file: File): Promise<OutlineNode[]> {
+  const arrayBuffer = await file.arrayBuffer()
+  const pdfDoc = await PDFDocument.load(arrayBuffer, { ignoreEncryption: true })
+  return readOutline(pdfDoc)
 }
 
 /**
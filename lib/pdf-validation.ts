@@ -3,12 +3,44 @@
  * ファイルの検証ルールとエラーメッセージ管理
  */
 
-import { PDF_MERGE_CONSTANTS } from '@/lib/constants'
-import type { ValidationError, ValidationResult } from '@/types'
+import { PDF_MERGE_CONSTANTS, PDF_NUMBERING_CONSTANTS, PDF_WATERMARK_CONSTANTS } from '@/lib/constants'
+import { isImageFile } from '@/lib/image-to-pdf'
+import { isDocxFile } from '@/lib/docx-to-pdf'
+import { isPdfEncrypted } from '@/lib/pdf-encryption'
+import { validateFilenameTemplate as getFilenameTemplateError } from '@/lib/filename-template'
+import { validatePageNumberFormat as getPageNumberFormatError } from '@/lib/page-number-format'
+import { validateHeaderFooterText as getHeaderFooterTextError } from '@/lib/header-footer-text'
+import type { BatesOptions, PdfProtectionOptions, ValidationError, ValidationResult } from '@/types'
 
 // 型を再エクスポート
 export type { ValidationError, ValidationResult }
 
+/**
+ * ファイルサイズを検証
+ */
+function validateFileSize(file: File): ValidationResult {
+  // サイズチェック（上限）
+  if (file.size > PDF_MERGE_CONSTANTS.MAX_FILE_SIZE) {
+    const maxSizeMB = (PDF_MERGE_CONSTANTS.MAX_FILE_SIZE / (1024 * 1024)).toFixed(0)
+    return {
+      success: false,
+      error: 'FILE_TOO_LARGE',
+      message: `ファイルサイズは${maxSizeMB}MB以下にしてください`,
+    }
+  }
+
+  // サイズチェック（下限）
+  if (file.size < PDF_MERGE_CONSTANTS.MIN_FILE_SIZE) {
+    return {
+      success: false,
+      error: 'FILE_TOO_SMALL',
+      message: 'ファイルサイズが小さすぎます',
+    }
+  }
+
+  return { success: true }
+}
+
 /**
  * 単一ファイルを検証
  */
@@ -32,22 +64,228 @@ export function validateFile(file: File): ValidationResult {
     }
   }
 
-  // サイズチェック（上限）
-  if (file.size > PDF_MERGE_CONSTANTS.MAX_FILE_SIZE) {
-    const maxSizeMB = (PDF_MERGE_CONSTANTS.MAX_FILE_SIZE / (1024 * 1024)).toFixed(0)
+  return validateFileSize(file)
+}
+
+/**
+ * 文書ファイルを検証（PDFまたはWord文書）
+ */
+export function validateDocumentFile(file: File): ValidationResult {
+  if (isDocxFile(file)) {
+    return validateFileSize(file)
+  }
+
+  const result = validateFile(file)
+  if (!result.success && result.error === 'INVALID_TYPE') {
+    return {
+      success: false,
+      error: 'INVALID_TYPE',
+      message: 'PDFまたはWordファイル（.docx）のみアップロード可能です',
+    }
+  }
+  return result
+}
+
+/**
+ * 結合用の単一ファイルを検証（PDF、Word文書または画像）
+ */
+export function validateMergeFile(file: File): ValidationResult {
+  if (isImageFile(file)) {
+    return validateFileSize(file)
+  }
+
+  const result = validateDocumentFile(file)
+  if (!result.success && result.error === 'INVALID_TYPE') {
+    return {
+      success: false,
+      error: 'INVALID_TYPE',
+      message: 'PDF・Word（.docx）・画像ファイル（JPEG/PNG/WebP/HEIC）のみアップロード可能です',
+    }
+  }
+  return result
+}
+
+/**
+ * PDFが暗号化されていないかを検証
+ * 暗号化されている場合は処理前にunlockPdfFileで復号する必要がある
+ */
+export async function validatePdfEncryption(file: File): Promise<ValidationResult> {
+  try {
+    const bytes = new Uint8Array(await file.arrayBuffer())
+    if (isPdfEncrypted(bytes)) {
+      return {
+        success: false,
+        error: 'ENCRYPTED',
+        message: 'このPDFはパスワードで保護されています',
+      }
+    }
+    return { success: true }
+  } catch {
+    return {
+      success: false,
+      error: 'UNKNOWN_ERROR',
+      message: 'ファイルの読み込みに失敗しました',
+    }
+  }
+}
+
+/**
+ * パスワード保護オプションを検証
+ * ユーザーパスワードとオーナーパスワードのどちらかが必要（保護しない場合は常に成功）
+ */
+export function validateProtection(protection?: PdfProtectionOptions): ValidationResult {
+  if (protection && !protection.userPassword && !protection.ownerPassword) {
+    return {
+      success: false,
+      error: 'NO_PASSWORD',
+      message: 'パスワードを入力してください',
+    }
+  }
+  return { success: true }
+}
+
+/**
+ * 目標ファイルサイズを検証（指定しない場合は常に成功）
+ */
+export function validateTargetSize(targetSize: number | null): ValidationResult {
+  if (targetSize !== null && !(targetSize > 0)) {
+    return {
+      success: false,
+      error: 'INVALID_TARGET_SIZE',
+      message: '目標サイズには0より大きい値を入力してください',
+    }
+  }
+  return { success: true }
+}
+
+/**
+ * 出力ファイル名のテンプレートを検証（未指定・空欄の場合は既定のテンプレートを使うため常に成功）
+ */
+export function validateFilenameTemplate(template?: string): ValidationResult {
+  const message = template?.trim() ? getFilenameTemplateError(template) : null
+  if (message) {
+    return {
+      success: false,
+      error: 'INVALID_FILENAME_TEMPLATE',
+      message,
+    }
+  }
+  return { success: true }
+}
+
+/**
+ * ページ番号の書式を検証（未指定・空欄の場合は既定の書式を使うため常に成功）
+ */
+export function validatePageNumberFormat(format?: string): ValidationResult {
+  const message = format?.trim() ? getPageNumberFormatError(format) : null
+  if (message) {
+    return {
+      success: false,
+      error: 'INVALID_NUMBER_FORMAT',
+      message,
+    }
+  }
+  return { success: true }
+}
+
+/**
+ * ヘッダー・フッターのテキストを検証（空欄の場合は配置しないため常に成功）
+ */
+export function validateHeaderFooterText(text: string): ValidationResult {
+  const message = getHeaderFooterTextError(text)
+  if (message) {
+    return {
+      success: false,
+      error: 'INVALID_HEADER_FOOTER',
+      message,
+    }
+  }
+  return { success: true }
+}
+
+/**
+ * Bates番号の設定を検証（指定しない場合は常に成功）
+ */
+export function validateBates(bates?: BatesOptions): ValidationResult {
+  if (!bates) return { success: true }
+
+  const { MAX_BATES_DIGITS, MAX_BATES_AFFIX_LENGTH } = PDF_NUMBERING_CONSTANTS
+  if (!Number.isInteger(bates.digits) || bates.digits < 1 || bates.digits > MAX_BATES_DIGITS) {
+    return {
+      success: false,
+      error: 'INVALID_BATES',
+      message: `Bates番号の桁数は1〜${MAX_BATES_DIGITS}の範囲で指定してください`,
+    }
+  }
+  if (bates.prefix.length > MAX_BATES_AFFIX_LENGTH || bates.suffix.length > MAX_BATES_AFFIX_LENGTH) {
+    return {
+      success: false,
+      error: 'INVALID_BATES',
+      message: `Bates番号の接頭辞・接尾辞は${MAX_BATES_AFFIX_LENGTH}文字以内にしてください`,
+    }
+  }
+  return { success: true }
+}
+
+/**
+ * アップロードしたフォントファイルを検証（TTF/OTF）
+ */
+export function validateFontFile(file?: File): ValidationResult {
+  if (!file) {
+    return {
+      success: false,
+      error: 'INVALID_FONT',
+      message: 'フォントファイルを選択してください',
+    }
+  }
+
+  const extension = file.name.split('.').pop()?.toLowerCase()
+  if (!PDF_NUMBERING_CONSTANTS.FONT_EXTENSIONS.includes(extension as typeof PDF_NUMBERING_CONSTANTS.FONT_EXTENSIONS[number])) {
+    return {
+      success: false,
+      error: 'INVALID_FONT',
+      message: 'TTFまたはOTF形式のフォントファイルを選択してください',
+    }
+  }
+
+  if (file.size > PDF_NUMBERING_CONSTANTS.MAX_FONT_FILE_SIZE) {
+    const maxSizeMB = (PDF_NUMBERING_CONSTANTS.MAX_FONT_FILE_SIZE / (1024 * 1024)).toFixed(0)
     return {
       success: false,
       error: 'FILE_TOO_LARGE',
-      message: `ファイルサイズは${maxSizeMB}MB以下にしてください`,
+      message: `フォントファイルは${maxSizeMB}MB以下にしてください`,
     }
   }
 
-  // サイズチェック（下限）
-  if (file.size < PDF_MERGE_CONSTANTS.MIN_FILE_SIZE) {
+  return { success: true }
+}
+
+/**
+ * 透かしに使う画像ファイルを検証（PNG/JPEG/WebP）
+ */
+export function validateWatermarkImage(file?: File): ValidationResult {
+  if (!file) {
     return {
       success: false,
-      error: 'FILE_TOO_SMALL',
-      message: 'ファイルサイズが小さすぎます',
+      error: 'INVALID_WATERMARK',
+      message: '透かしに使う画像を選択してください',
+    }
+  }
+
+  if (!PDF_WATERMARK_CONSTANTS.IMAGE_TYPES.includes(file.type as typeof PDF_WATERMARK_CONSTANTS.IMAGE_TYPES[number])) {
+    return {
+      success: false,
+      error: 'INVALID_WATERMARK',
+      message: 'PNG・JPEG・WebP形式の画像を選択してください',
+    }
+  }
+
+  if (file.size > PDF_WATERMARK_CONSTANTS.MAX_IMAGE_FILE_SIZE) {
+    const maxSizeMB = (PDF_WATERMARK_CONSTANTS.MAX_IMAGE_FILE_SIZE / (1024 * 1024)).toFixed(0)
+    return {
+      success: false,
+      error: 'FILE_TOO_LARGE',
+      message: `透かしの画像は${maxSizeMB}MB以下にしてください`,
     }
   }
 
@@ -71,7 +309,7 @@ export function validateFilesToAdd(
 
   // 各ファイルの検証
   for (const file of newFiles) {
-    const result = validateFile(file)
+    const result = validateMergeFile(file)
     if (!result.success) return result
   }
 
@@ -0,0 +1,201 @@
+/**
+ * PDF透かし挿入ライブラリ
+ * 対象ページにテキストまたは画像の透かしを、回転・不透明度・敷き詰めを指定して描画
+ * 本文の下に描画する場合は、透かしのコンテンツストリームをページの先頭に移動する
+ */
+
+import { PDFArray, PDFDocument, degrees, rgb, type PDFFont, type PDFImage, type PDFPage } from 'pdf-lib'
+import type { PdfWatermarkOptions, ProcessingProgress, WatermarkResult } from '@/types'
+import { generateOutputFilename } from '@/lib/filename-template'
+import { resolvePageSet } from '@/lib/pdf-splitter'
+import { embedImageFile } from '@/lib/image-to-pdf'
+import { hasNonWinAnsiText } from '@/lib/pdf-fonts'
+import { embedTextFont, hexToRgb, measureText, stampPdfPages } from '@/lib/pdf-page-numbers'
+import {
+  getImageWatermarkSize,
+  getRotatedOrigin,
+  getWatermarkCenters,
+  type WatermarkSize,
+} from '@/lib/watermark-layout'
+
+/** 既定のファイル名テンプレート */
+export const WATERMARK_FILENAME_TEMPLATE = '{base}_watermarked'
+
+/**
+ * 標準フォント（Helvetica）では描画できないテキストの透かしかを判定
+ *
+ * @param options - 透かし挿入オプション
+ * @returns 日本語に対応したフォントが必要な場合はtrue
+ */
+export function requiresWatermarkJapaneseFont(
+  options: Pick<PdfWatermarkOptions, 'type' | 'text' | 'font'>
+): boolean {
+  return (
+    options.type === 'text' &&
+    (options.font ?? 'helvetica') === 'helvetica' &&
+    hasNonWinAnsiText(options.text)
+  )
+}
+
+/** 埋め込んだ透かし */
+type EmbeddedWatermark =
+  | { type: 'text'; text: string; font: PDFFont; box: WatermarkSize }
+  | { type: 'image'; image: PDFImage }
+
+/**
+ * 透かしのテキストまたは画像を埋め込み
+ * @param pdfDoc - 埋め込み先のPDFドキュメント
+ * @param options - 透かし挿入オプション
+ * @returns 埋め込んだ透かし
+ */
+async function embedWatermark(
+  pdfDoc: PDFDocument,
+  options: PdfWatermarkOptions
+): Promise<EmbeddedWatermark> {
+  if (options.type === 'image') {
+    if (!options.image) {
+      throw new Error('透かしに使う画像が選択されていません')
+    }
+    try {
+      return { type: 'image', image: await embedImageFile(pdfDoc, options.image) }
+    } catch {
+      throw new Error(`画像「${options.image.name}」を読み込めませんでした`)
+    }
+  }
+
+  const text = options.text.trim()
+  if (text === '') {
+    throw new Error('透かしのテキストを入力してください')
+  }
+  const font = await embedTextFont(pdfDoc, options.font, options.customFont)
+  return {
+    type: 'text',
+    text,
+    font,
+    box: {
+      width: measureText(font, text, options.fontSize),
+      height: font.heightAtSize(options.fontSize, { descender: false }),
+    },
+  }
+}
+
+/**
+ * 1ページに透かしを描画
+ * @param page - 描画先のページ
+ * @param watermark - 埋め込んだ透かし
+ * @param options - 透かし挿入オプション
+ */
+function drawWatermark(
+  page: PDFPage,
+  watermark: EmbeddedWatermark,
+  options: PdfWatermarkOptions
+): void {
+  const pageSize = page.getSize()
+  const rotate = degrees(options.rotation)
+
+  if (watermark.type === 'image') {
+    const box = getImageWatermarkSize(pageSize, watermark.image, options.imageScale)
+    for (const center of getWatermarkCenters(pageSize, box, options)) {
+      const { x, y } = getRotatedOrigin(center, box, options.rotation)
+      page.drawImage(watermark.image, {
+        x,
+        y,
+        width: box.width,
+        height: box.height,
+        rotate,
+        opacity: options.opacity,
+      })
+    }
+    return
+  }
+
+  const color = hexToRgb(options.fontColor)
+  for (const center of getWatermarkCenters(pageSize, watermark.box, options)) {
+    const { x, y } = getRotatedOrigin(center, watermark.box, options.rotation)
+    page.drawText(watermark.text, {
+      x,
+      y,
+      font: watermark.font,
+      size: options.fontSize,
+      color: rgb(color.r, color.g, color.b),
+      rotate,
+      opacity: options.opacity,
+    })
+  }
+}
+
+/**
+ * 最後に追加したコンテンツストリーム（透かし）をページの先頭に移動し、本文の下に描画されるようにする
+ * 本文に白い背景がある場合（スキャンしたPDFなど）は透かしが隠れる
+ * @param page - 透かしを描画したページ
+ */
+function moveLastContentStreamToBack(page: PDFPage): void {
+  const contents = page.node.Contents()
+  if (!(contents instanceof PDFArray) || contents.size() < 2) return
+
+  const lastIndex = contents.size() - 1
+  const watermarkRef = contents.get(lastIndex)
+  contents.remove(lastIndex)
+  contents.insert(0, watermarkRef)
+}
+
+/**
+ * PDFに透かしを挿入
+ *
+ * @param file - 入力PDFファイル
+ * @param options - 透かし挿入オプション
+ * @param onProgress - 進捗コールバック
+ * @param signal - AbortSignal for cancellation
+ * @returns 透かし入りPDF
+ */
+export async function addWatermark(
+  file: File,
+  options: PdfWatermarkOptions,
+  onProgress?: (progress: ProcessingProgress) => void,
+  signal?: AbortSignal
+): Promise<WatermarkResult> {
+  const { blob, sourceFile, pages } = await stampPdfPages(
+    file,
+    '透かしを追加中...',
+    async (pdfDoc, _sourceFile, totalPages) => {
+      const targetPages = resolvePageSet(options.pageRange, totalPages)
+      const watermark = await embedWatermark(pdfDoc, options)
+
+      return (page, pageNumber) => {
+        if (!targetPages.has(pageNumber)) return
+
+        drawWatermark(page, watermark, options)
+        if (options.layer === 'under') {
+          moveLastContentStreamToBack(page)
+        }
+      }
+    },
+    onProgress,
+    signal
+  )
+
+  return {
+    blob,
+    filename: generateOutputFilename(sourceFile.name, pages, options.filenameTemplate, WATERMARK_FILENAME_TEMPLATE),
+    size: blob.size,
+    pages,
+  }
+}
+
+/**
+ * PDFの各ページの大きさを取得（プレビューの縮尺計算用）
+ * @param file - PDFファイル
+ * @returns 各ページの大きさ（PDFユニット）
+ * @throws PDFファイルの読み込みに失敗した場合
+ */
+export async function getPdfPageSizes(file: File): Promise<WatermarkSize[]> {
+  const arrayBuffer = await file.arrayBuffer()
+  const pdfDoc = await PDFDocument.load(arrayBuffer, {
+    ignoreEncryption: true,
+  })
+  const sizes = pdfDoc.getPages().map((page) => page.getSize())
+  if (sizes.length === 0) {
+    throw new Error('PDFファイルにページが含まれていません')
+  }
+  return sizes
+}
@@ -0,0 +1,215 @@
+/**
+ * PDFワーカークライアント
+ * PDF処理をWeb Workerで実行し、進捗・キャンセル・結果をメインスレッドへ中継する
+ * ワーカーを使えない環境やDOMが必要な処理はメインスレッドで実行する
+ */
+
+import type { ProcessingProgress } from '@/types'
+import {
+  decodeTransferable,
+  encodeTransferable,
+  requiresMainThread,
+  runPdfTask,
+  type PdfWorkerRequest,
+  type PdfWorkerResponse,
+  type PdfWorkerTaskName,
+  type PdfWorkerTasks,
+} from '@/lib/pdf-worker-tasks'
+
+/** 実行中の処理 */
+interface PendingTask {
+  resolve: (result: unknown) => void
+  reject: (error: Error) => void
+  onProgress?: (progress: ProcessingProgress) => void
+}
+
+/** 共有ワーカー（最初の処理で起動） */
+let worker: Worker | null = null
+
+/** 実行中の処理（リクエストIDごと） */
+const pendingTasks = new Map<number, PendingTask>()
+
+/** 次に発行するリクエストID */
+let nextRequestId = 1
+
+/**
+ * ワーカーへメッセージを送信
+ */
+function post(target: Worker, message: PdfWorkerRequest, transfer: Transferable[] = []): void {
+  target.postMessage(message, transfer)
+}
+
+/**
+ * 処理を終了し、実行中の一覧から外す
+ */
+function settle(id: number): PendingTask | undefined {
+  const task = pendingTasks.get(id)
+  pendingTasks.delete(id)
+  return task
+}
+
+/**
+ * ワーカーからのメッセージを処理
+ */
+function handleMessage(event: MessageEvent<PdfWorkerResponse>): void {
+  const message = event.data
+
+  if (message.type === 'progress') {
+    const task = pendingTasks.get(message.id)
+    try {
+      task?.onProgress?.(message.progress)
+    } catch (error) {
+      // 進捗コールバックでの例外は、直接呼び出した場合と同様に処理を中断する
+      if (worker) post(worker, { type: 'abort', id: message.id })
+      settle(message.id)?.reject(error instanceof Error ? error : new Error(String(error)))
+    }
+    return
+  }
+
+  const task = settle(message.id)
+  if (!task) return
+
+  if (message.type === 'result') {
+    task.resolve(decodeTransferable(message.result))
+  } else {
+    task.reject(new Error(message.message))
+  }
+}
+
+/**
+ * ワーカーの異常終了時に、実行中の処理をすべて失敗させる（次回の処理で再起動）
+ */
+function handleError(): void {
+  worker?.terminate()
+  worker = null
+
+  const tasks = [...pendingTasks.values()]
+  pendingTasks.clear()
+  for (const task of tasks) {
+    task.reject(new Error('PDF処理ワーカーでエラーが発生しました'))
+  }
+}
+
+/**
+ * 共有ワーカーを取得（未起動の場合は起動）
+ */
+function getWorker(): Worker {
+  if (!worker) {
+    // バンドラーがワーカーを別チャンクとして出力する
+    worker = new Worker(new URL('./pdf-worker.ts', import.meta.url), { type: 'module' })
+    worker.addEventListener('message', handleMessage)
+    worker.addEventListener('error', handleError)
+  }
+  return worker
+}
+
+/**
+ * 処理を実行
+ *
+ * @param task - 処理の名前
+ * @param args - 処理の引数
+ * @param onProgress - 進捗コールバック
+ * @param signal - キャンセル用のシグナル
+ * @returns 処理結果
+ */
+async function runTask<T extends PdfWorkerTaskName>(
+  task: T,
+  args: PdfWorkerTasks[T]['args'],
+  onProgress?: (progress: ProcessingProgress) => void,
+  signal?: AbortSignal
+): Promise<PdfWorkerTasks[T]['result']> {
+  if (typeof Worker === 'undefined' || requiresMainThread(task, args)) {
+    return runPdfTask(task, args, (progress) => onProgress?.(progress), signal ?? new AbortController().signal)
+  }
+
+  const transfer: Transferable[] = []
+  const encodedArgs = await encodeTransferable(args, transfer)
+
+  const target = getWorker()
+  const id = nextRequestId++
+
+  return new Promise<PdfWorkerTasks[T]['result']>((resolve, reject) => {
+    // 中断の結果（キャンセル時のエラー）は、直接呼び出した場合と同じくワーカーの処理から返る
+    const handleAbort = () => post(target, { type: 'abort', id })
+
+    pendingTasks.set(id, {
+      resolve: (result) => {
+        signal?.removeEventListener('abort', handleAbort)
+        resolve(result as PdfWorkerTasks[T]['result'])
+      },
+      reject: (error) => {
+        signal?.removeEventListener('abort', handleAbort)
+        reject(error)
+      },
+      onProgress,
+    })
+    signal?.addEventListener('abort', handleAbort, { once: true })
+
+    post(target, { type: 'run', id, task, args: encodedArgs }, transfer)
+    // 引数の変換中にキャンセルされた場合
+    if (signal?.aborted) handleAbort()
+  })
+}
+
+/**
+ * ワーカーで実行するPDF処理
+ * 各関数は元の処理と同じ引数を受け取り、最後の引数でキャンセル用のシグナルを受け取る
+ */
+export const pdfWorker = {
+  mergePDFs: (
+    files: PdfWorkerTasks['mergePDFs']['args'][0],
+    options: PdfWorkerTasks['mergePDFs']['args'][1],
+    onProgress?: (progress: ProcessingProgress) => void,
+    signal?: AbortSignal
+  ) => runTask('mergePDFs', [files, options], onProgress, signal),
+
+  splitPDF: (
+    file: PdfWorkerTasks['splitPDF']['args'][0],
+    options: PdfWorkerTasks['splitPDF']['args'][1],
+    onProgress?: (progress: ProcessingProgress) => void,
+    signal?: AbortSignal
+  ) => runTask('splitPDF', [file, options], onProgress, signal),
+
+  compressPDF: (
+    file: PdfWorkerTasks['compressPDF']['args'][0],
+    options: PdfWorkerTasks['compressPDF']['args'][1],
+    onProgress?: (progress: ProcessingProgress) => void,
+    signal?: AbortSignal
+  ) => runTask('compressPDF', [file, options], onProgress, signal),
+
+  addPageNumbers: (
+    file: PdfWorkerTasks['addPageNumbers']['args'][0],
+    options: PdfWorkerTasks['addPageNumbers']['args'][1],
+    onProgress?: (progress: ProcessingProgress) => void,
+    signal?: AbortSignal
+  ) => runTask('addPageNumbers', [file, options], onProgress, signal),
+
+  addHeaderFooter: (
+    file: PdfWorkerTasks['addHeaderFooter']['args'][0],
+    options: PdfWorkerTasks['addHeaderFooter']['args'][1],
+    onProgress?: (progress: ProcessingProgress) => void,
+    signal?: AbortSignal
+  ) => runTask('addHeaderFooter', [file, options], onProgress, signal),
+
+  addWatermark: (
+    file: PdfWorkerTasks['addWatermark']['args'][0],
+    options: PdfWorkerTasks['addWatermark']['args'][1],
+    onProgress?: (progress: ProcessingProgress) => void,
+    signal?: AbortSignal
+  ) => runTask('addWatermark', [file, options], onProgress, signal),
+
+  exportPdfWithPageOperations: (
+    file: PdfWorkerTasks['exportPdfWithPageOperations']['args'][0],
+    pages: PdfWorkerTasks['exportPdfWithPageOperations']['args'][1],
+    options: PdfWorkerTasks['exportPdfWithPageOperations']['args'][2],
+    onProgress?: (progress: ProcessingProgress) => void,
+    signal?: AbortSignal
+  ) =>
+    runTask(
+      'exportPdfWithPageOperations',
+      // サムネイル（Data URL）は処理に不要なため送信しない
+      [file, pages.map((page) => ({ ...page, thumbnail: null })), options],
+      onProgress,
+      signal
+    ),
+}
@@ -0,0 +1,195 @@
+/**
+ * PDFワーカー処理定義
+ * Web Workerで実行する処理の一覧と、ワーカーとの間でやり取りするメッセージ・データ変換を定義
+ */
+
+import type {
+  CompressionResult,
+  FileUpload,
+  HeaderFooterResult,
+  MergeResult,
+  NumberingResult,
+  PdfCompressionOptions,
+  PdfHeaderFooterOptions,
+  PdfMergeOptions,
+  PdfNumberingOptions,
+  PdfPage,
+  PdfPageManageOptions,
+  PdfPageManageResult,
+  PdfSplitOptions,
+  PdfWatermarkOptions,
+  ProcessingProgress,
+  SplitBatchResult,
+  WatermarkResult,
+} from '@/types'
+import { mergePDFs } from '@/lib/pdf-merger'
+import { splitPDF } from '@/lib/pdf-splitter'
+import { compressPDF } from '@/lib/pdf-compressor'
+import { addPageNumbers } from '@/lib/pdf-page-numbers'
+import { addHeaderFooter } from '@/lib/pdf-header-footer'
+import { addWatermark } from '@/lib/pdf-watermark'
+import { exportPdfWithPageOperations } from '@/lib/pdf-page-operations'
+import { isDocxFile } from '@/lib/docx-to-pdf'
+
+/** 処理ごとの引数（進捗コールバックとキャンセルシグナルを除く）と結果 */
+export interface PdfWorkerTasks {
+  mergePDFs: { args: [files: FileUpload[], options: PdfMergeOptions]; result: MergeResult }
+  splitPDF: { args: [file: FileUpload, options: PdfSplitOptions]; result: SplitBatchResult }
+  compressPDF: { args: [file: File, options: PdfCompressionOptions]; result: CompressionResult }
+  addPageNumbers: { args: [file: File, options: PdfNumberingOptions]; result: NumberingResult }
+  addHeaderFooter: { args: [file: File, options: PdfHeaderFooterOptions]; result: HeaderFooterResult }
+  addWatermark: { args: [file: File, options: PdfWatermarkOptions]; result: WatermarkResult }
+  exportPdfWithPageOperations: {
+    args: [file: File, pages: PdfPage[], options: PdfPageManageOptions]
+    result: PdfPageManageResult
+  }
+}
+
+/** ワーカーで実行できる処理の名前 */
+export type PdfWorkerTaskName = keyof PdfWorkerTasks
+
+/** メインスレッドからワーカーへのメッセージ */
+export type PdfWorkerRequest =
+  | { type: 'run'; id: number; task: PdfWorkerTaskName; args: unknown }
+  | { type: 'abort'; id: number }
+
+/** ワーカーからメインスレッドへのメッセージ */
+export type PdfWorkerResponse =
+  | { type: 'progress'; id: number; progress: ProcessingProgress }
+  | { type: 'result'; id: number; result: unknown }
+  | { type: 'error'; id: number; message: string }
+
+/** 処理の実装 */
+type PdfWorkerTaskHandler<T extends PdfWorkerTaskName> = (
+  args: PdfWorkerTasks[T]['args'],
+  onProgress: (progress: ProcessingProgress) => void,
+  signal: AbortSignal
+) => Promise<PdfWorkerTasks[T]['result']>
+
+/**
+ * 処理の一覧
+ * キャンセルシグナルを受け取らない処理は、進捗コールバックで例外を投げることで中断する
+ */
+const TASK_HANDLERS: { [T in PdfWorkerTaskName]: PdfWorkerTaskHandler<T> } = {
+  mergePDFs: ([files, options], onProgress) => mergePDFs(files, options, onProgress),
+  splitPDF: ([file, options], onProgress, signal) => splitPDF(file, options, onProgress, signal),
+  compressPDF: ([file, options], onProgress, signal) => compressPDF(file, options, onProgress, signal),
+  addPageNumbers: ([file, options], onProgress, signal) => addPageNumbers(file, options, onProgress, signal),
+  addHeaderFooter: ([file, options], onProgress, signal) => addHeaderFooter(file, options, onProgress, signal),
+  addWatermark: ([file, options], onProgress, signal) => addWatermark(file, options, onProgress, signal),
+  exportPdfWithPageOperations: ([file, pages, options], onProgress) =>
+    exportPdfWithPageOperations(file, pages, options, onProgress),
+}
+
+/**
+ * 処理を実行（ワーカー内、またはワーカーを使えない場合はメインスレッドで呼び出す）
+ */
+export function runPdfTask<T extends PdfWorkerTaskName>(
+  task: T,
+  args: PdfWorkerTasks[T]['args'],
+  onProgress: (progress: ProcessingProgress) => void,
+  signal: AbortSignal
+): Promise<PdfWorkerTasks[T]['result']> {
+  const handler = TASK_HANDLERS[task] as PdfWorkerTaskHandler<T>
+  return handler(args, onProgress, signal)
+}
+
+/**
+ * メインスレッドで実行する必要がある処理かを判定
+ * Word文書の解析（DOMParser）とpdf.jsのレンダリング（ページの画像化・空白ページの検出）は
+ * DOMを使うため、ワーカーでは実行できない
+ */
+export function requiresMainThread<T extends PdfWorkerTaskName>(task: T, args: PdfWorkerTasks[T]['args']): boolean {
+  if (task === 'mergePDFs') {
+    const [files] = args as PdfWorkerTasks['mergePDFs']['args']
+    return files.some((file) => file.file !== undefined && isDocxFile(file.file))
+  }
+  if (task === 'splitPDF') {
+    const [, options] = args as PdfWorkerTasks['splitPDF']['args']
+    return options.method === 'blankPages' && !options.blankPages
+  }
+  if (task === 'compressPDF') {
+    const [, options] = args as PdfWorkerTasks['compressPDF']['args']
+    return options.mode === 'rasterize'
+  }
+  return false
+}
+
+/** 転送用に変換したFile */
+interface EncodedFile {
+  __pdfWorkerFile: { name: string; type: string; lastModified: number; buffer: ArrayBuffer }
+}
+
+/** 転送用に変換したBlob */
+interface EncodedBlob {
+  __pdfWorkerBlob: { type: string; buffer: ArrayBuffer }
+}
+
+/**
+ * 通常のオブジェクト（クラスのインスタンスではない）かを判定
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) return false
+  const prototype = Object.getPrototypeOf(value)
+  return prototype === Object.prototype || prototype === null
+}
+
+/**
+ * FileとBlobをArrayBufferに展開し、転送リストに追加
+ * 構造化複製によるコピーを避け、バッファの所有権をそのまま移す
+ *
+ * @param value - 変換する値（配列・オブジェクトは再帰的に処理）
+ * @param transfer - 転送するArrayBufferの追加先
+ * @returns postMessageで送信できる値
+ */
+export async function encodeTransferable(value: unknown, transfer: Transferable[]): Promise<unknown> {
+  if (value instanceof Blob) {
+    // Blob.arrayBuffer()は新しいバッファを返すため、転送しても元のFile・Blobは使える
+    const buffer = await value.arrayBuffer()
+    transfer.push(buffer)
+    if (value instanceof File) {
+      const encoded: EncodedFile = {
+        __pdfWorkerFile: { name: value.name, type: value.type, lastModified: value.lastModified, buffer },
+      }
+      return encoded
+    }
+    const encoded: EncodedBlob = { __pdfWorkerBlob: { type: value.type, buffer } }
+    return encoded
+  }
+
+  if (Array.isArray(value)) {
+    return Promise.all(value.map((item) => encodeTransferable(item, transfer)))
+  }
+
+  if (isPlainObject(value)) {
+    const entries = await Promise.all(
+      Object.entries(value).map(async ([key, item]) => [key, await encodeTransferable(item, transfer)] as const)
+    )
+    return Object.fromEntries(entries)
+  }
+
+  return value
+}
+
+/**
+ * encodeTransferableで変換した値をFile・Blobに戻す
+ */
+export function decodeTransferable(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(decodeTransferable)
+  }
+
+  if (isPlainObject(value)) {
+    if ('__pdfWorkerFile' in value) {
+      const { name, type, lastModified, buffer } = (value as unknown as EncodedFile).__pdfWorkerFile
+      return new File([buffer], name, { type, lastModified })
+    }
+    if ('__pdfWorkerBlob' in value) {
+      const { type, buffer } = (value as unknown as EncodedBlob).__pdfWorkerBlob
+      return new Blob([buffer], { type })
+    }
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, decodeTransferable(item)]))
+  }
+
+  return value
+}
@@ -0,0 +1,72 @@
+/**
+ * PDF処理ワーカー
+ * 重いPDF処理をメインスレッドから切り離して実行し、進捗と結果をメッセージで返す
+ */
+
+import {
+  decodeTransferable,
+  encodeTransferable,
+  runPdfTask,
+  type PdfWorkerRequest,
+  type PdfWorkerResponse,
+  type PdfWorkerTasks,
+} from '@/lib/pdf-worker-tasks'
+
+/** 実行中の処理のキャンセル用コントローラー */
+const controllers = new Map<number, AbortController>()
+
+/**
+ * メインスレッドへメッセージを送信
+ */
+function respond(message: PdfWorkerResponse, transfer: Transferable[] = []): void {
+  self.postMessage(message, { transfer })
+}
+
+/**
+ * 処理を実行して結果を返す
+ */
+async function run(request: Extract<PdfWorkerRequest, { type: 'run' }>): Promise<void> {
+  const { id, task } = request
+  const controller = new AbortController()
+  controllers.set(id, controller)
+
+  try {
+    const args = decodeTransferable(request.args) as PdfWorkerTasks[typeof task]['args']
+    const result = await runPdfTask(
+      task,
+      args,
+      (progress) => {
+        respond({ type: 'progress', id, progress })
+        // キャンセルシグナルを受け取らない処理も、進捗通知の時点で中断させる
+        // （呼び出し元には先に届いた進捗通知から、各フックのキャンセル時のエラーが返る）
+        if (controller.signal.aborted) {
+          throw new Error('Operation cancelled')
+        }
+      },
+      controller.signal
+    )
+
+    const transfer: Transferable[] = []
+    const encoded = await encodeTransferable(result, transfer)
+    respond({ type: 'result', id, result: encoded }, transfer)
+  } catch (error) {
+    respond({
+      type: 'error',
+      id,
+      message: error instanceof Error ? error.message : String(error),
+    })
+  } finally {
+    controllers.delete(id)
+  }
+}
+
+self.addEventListener('message', (event: MessageEvent<PdfWorkerRequest>) => {
+  const request = event.data
+
+  if (request.type === 'abort') {
+    controllers.get(request.id)?.abort()
+    return
+  }
+
+  void run(request)
+})
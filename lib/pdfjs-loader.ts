@@ -0,0 +1,46 @@
+/**
+ * pdf.jsローダー
+ * pdfjs-distの読み込みとワーカーの設定を一元化（圧縮・サムネイル・ページ表示で共用）
+ */
+
+/** pdfjs-distモジュール */
+export type PdfJsLib = typeof import('pdfjs-dist')
+
+/** 読み込み中・読み込み済みのpdfjs-dist */
+let pdfJsPromise: Promise<PdfJsLib> | null = null
+
+/**
+ * pdfjs-distを動的に読み込み、ワーカーを設定
+ * ワーカーはCDNではなくアプリに同梱したものを配信する（オフライン環境・CSP対策）
+ */
+export function loadPdfJs(): Promise<PdfJsLib> {
+  if (!pdfJsPromise) {
+    pdfJsPromise = import('pdfjs-dist')
+      .then((pdfjsLib) => {
+        // バンドラーがワーカーを静的アセットとして出力し、同一オリジンのURLに置き換える
+        pdfjsLib.GlobalWorkerOptions.workerSrc = new URL(
+          'pdfjs-dist/build/pdf.worker.min.mjs',
+          import.meta.url
+        ).toString()
+        return pdfjsLib
+      })
+      .catch((error) => {
+        // 次回の呼び出しで再試行できるようにする
+        pdfJsPromise = null
+        throw error
+      })
+  }
+  return pdfJsPromise
+}
+
+/**
+ * pdf.jsでPDFドキュメントを開く
+ * pdf.jsは渡したバッファをワーカーへ転送して使用不可にするため、コピーを渡す
+ *
+ * @param data - PDFデータ（呼び出し元のバッファは変更されない）
+ * @returns pdf.jsのドキュメント
+ */
+export async function openPdfJsDocument(data: ArrayBuffer | Uint8Array) {
+  const pdfjsLib = await loadPdfJs()
+  return pdfjsLib.getDocument({ data: new Uint8Array(data).slice() }).promise
+}
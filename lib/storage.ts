@@ -249,6 +249,9 @@ export function getActivityLabel(type: ActivityType): string {
     compress: '圧縮',
     numbering: 'ページ番号',
     'page-manage': 'ページ管理',
+    protect: '保護',
+    'header-footer': 'ヘッダー・フッター',
+    watermark: '透かし',
     proofread: '校正',
     transcription: '文字起こし',
   }
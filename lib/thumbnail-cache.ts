@@ -3,7 +3,8 @@
  * LRUキャッシュでPDFページサムネイルを管理
  */
 
-import { PDFDocument } from 'pdf-lib'
+import type { PDFDocumentProxy, PDFPageProxy } from 'pdfjs-dist'
+import { openPdfJsDocument } from '@/lib/pdfjs-loader'
 
 /** サムネイル生成オプション */
 export interface ThumbnailOptions {
@@ -140,13 +141,47 @@ export class ThumbnailCache {
 export const globalThumbnailCache = new ThumbnailCache(50)
 
 /**
- * PDFページのサムネイルを生成
- * 注意: pdf-lib単独では画像レンダリングができないため、
- * この関数はプレースホルダーとして実装
- *
- * 実際のサムネイル生成には以下のアプローチが必要:
- * 1. pdf.js (Mozilla) を使用してCanvasにレンダリング
- * 2. またはサーバーサイドでレンダリング
+ * pdf.jsのページをCanvasにレンダリングしてData URLに変換
+ */
+async function renderThumbnail(
+  page: PDFPageProxy,
+  options: ThumbnailOptions
+): Promise<string> {
+  const viewport = page.getViewport({ scale: options.scale })
+
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.ceil(viewport.width)
+  canvas.height = Math.ceil(viewport.height)
+
+  const context = canvas.getContext('2d')
+  if (!context) {
+    throw new Error('Canvas contextの取得に失敗しました')
+  }
+
+  // 透過部分が黒くならないよう白背景にする
+  context.fillStyle = '#FFFFFF'
+  context.fillRect(0, 0, canvas.width, canvas.height)
+
+  await page.render({ canvasContext: context, viewport, canvas }).promise
+
+  const dataUrl = canvas.toDataURL(`image/${options.format}`, options.quality)
+
+  // Canvasを解放
+  canvas.width = 0
+  canvas.height = 0
+
+  return dataUrl
+}
+
+/**
+ * サムネイルのキャッシュキーを生成（ドキュメントはpdf.jsのフィンガープリントで識別）
+ */
+function getCacheKey(pdfJsDoc: PDFDocumentProxy, pageIndex: number, options: ThumbnailOptions): string {
+  return `${pdfJsDoc.fingerprints[0]}-${pageIndex}-${options.scale}-${options.format}`
+}
+
+/**
+ * PDFページのサムネイルを生成（pdf.jsでCanvasにレンダリング）
  *
  * @param pdfBytes - PDFバイト列
  * @param pageIndex - ページインデックス（0ベース）
@@ -154,58 +189,68 @@ export const globalThumbnailCache = new ThumbnailCache(50)
  * @returns Data URL
  */
 export async function generatePageThumbnail(
-  pdfBytes: Uint8Array,
+  pdfBytes: ArrayBuffer | Uint8Array,
   pageIndex: number,
   options: Partial<ThumbnailOptions> = {}
 ): Promise<string> {
   const opts = { ...DEFAULT_THUMBNAIL_OPTIONS, ...options }
 
-  // キャッシュキーを生成
-  const cacheKey = `${pdfBytes.byteLength}-${pageIndex}-${opts.scale}`
-
-  // キャッシュチェック
-  const cached = globalThumbnailCache.get(cacheKey)
-  if (cached) {
-    return cached
-  }
+  const pdfJsDoc = await openPdfJsDocument(pdfBytes)
+  try {
+    if (pageIndex < 0 || pageIndex >= pdfJsDoc.numPages) {
+      throw new Error(`ページインデックスが範囲外です: ${pageIndex}`)
+    }
 
-  // PDFを読み込んでページを抽出
-  const pdf = await PDFDocument.load(pdfBytes)
-  const totalPages = pdf.getPageCount()
+    // キャッシュチェック
+    const cacheKey = getCacheKey(pdfJsDoc, pageIndex, opts)
+    const cached = globalThumbnailCache.get(cacheKey)
+    if (cached) {
+      return cached
+    }
 
-  if (pageIndex < 0 || pageIndex >= totalPages) {
-    throw new Error(`ページインデックスが範囲外です: ${pageIndex}`)
+    const dataUrl = await renderThumbnail(await pdfJsDoc.getPage(pageIndex + 1), opts)
+    globalThumbnailCache.set(cacheKey, dataUrl)
+    return dataUrl
+  } finally {
+    await pdfJsDoc.destroy()
   }
-
-  // 単一ページのPDFを作成
-  const singlePagePdf = await PDFDocument.create()
-  const [copiedPage] = await singlePagePdf.copyPages(pdf, [pageIndex])
-  singlePagePdf.addPage(copiedPage)
-
-  const pagePdfBytes = await singlePagePdf.save()
-
-  // Data URLを生成
-  const blob = new Blob([pagePdfBytes.buffer as ArrayBuffer], { type: 'application/pdf' })
-  const dataUrl = URL.createObjectURL(blob)
-
-  // キャッシュに保存（実際の画像Data URLではないので、一時的な実装）
-  globalThumbnailCache.set(cacheKey, dataUrl)
-
-  return dataUrl
 }
 
 /**
- * Canvasを使用してサムネイルを生成（pdf.jsが必要な実装）
+ * PDFの全ページのサムネイルを順番に生成
+ * ドキュメントを1回だけ読み込み、生成できたページから順にコールバックで通知する
  *
- * これはpdf.jsを導入した場合の実装例です
+ * @param pdfBytes - PDFバイト列
+ * @param onThumbnail - 1ページ分のサムネイルが生成されたときのコールバック（ページインデックス, Data URL）
+ * @param options - サムネイルオプション
+ * @param signal - キャンセルシグナル（中断した場合は残りのページを生成しない）
  */
-export async function generatePageThumbnailWithCanvas(
-  pdfBytes: Uint8Array,
-  pageIndex: number,
-  _options: Partial<ThumbnailOptions> = {}
-): Promise<string> {
-  // TODO: pdf.jsを導入した場合の実装
-  throw new Error('Canvas-based thumbnail generation requires pdf.js library')
+export async function generatePageThumbnails(
+  pdfBytes: ArrayBuffer | Uint8Array,
+  onThumbnail: (pageIndex: number, dataUrl: string) => void,
+  options: Partial<ThumbnailOptions> = {},
+  signal?: AbortSignal
+): Promise<void> {
+  const opts = { ...DEFAULT_THUMBNAIL_OPTIONS, ...options }
+
+  const pdfJsDoc = await openPdfJsDocument(pdfBytes)
+  try {
+    for (let pageIndex = 0; pageIndex < pdfJsDoc.numPages; pageIndex++) {
+      if (signal?.aborted) return
+
+      const cacheKey = getCacheKey(pdfJsDoc, pageIndex, opts)
+      let dataUrl = globalThumbnailCache.get(cacheKey)
+      if (!dataUrl) {
+        dataUrl = await renderThumbnail(await pdfJsDoc.getPage(pageIndex + 1), opts)
+        globalThumbnailCache.set(cacheKey, dataUrl)
+      }
+
+      if (signal?.aborted) return
+      onThumbnail(pageIndex, dataUrl)
+    }
+  } finally {
+    await pdfJsDoc.destroy()
+  }
 }
 
 /**
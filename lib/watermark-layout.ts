@@ -0,0 +1,145 @@
+/**
+ * 透かしの配置計算
+ * PDFへの描画（lib/pdf-watermark）とプレビューで同じ配置になるよう、座標計算をここにまとめる
+ * 座標はPDF座標系（左下が原点、上向きが正）、回転は反時計回りの角度
+ */
+
+import type { PdfWatermarkOptions } from '@/types'
+import { PDF_WATERMARK_CONSTANTS } from '@/lib/constants'
+
+/** 大きさ */
+export interface WatermarkSize {
+  width: number
+  height: number
+}
+
+/** 座標 */
+export interface WatermarkPoint {
+  x: number
+  y: number
+}
+
+/** 配置の計算に使うオプション */
+export type WatermarkLayoutOptions = Pick<
+  PdfWatermarkOptions,
+  'layout' | 'position' | 'rotation' | 'margin' | 'tileGap'
+>
+
+/**
+ * 回転した透かしを囲む矩形の大きさを計算
+ *
+ * @param box - 回転前の大きさ
+ * @param rotation - 回転角度（度）
+ * @returns 回転後に外接する矩形の大きさ
+ */
+export function getRotatedBounds(box: WatermarkSize, rotation: number): WatermarkSize {
+  const radians = (rotation * Math.PI) / 180
+  const cos = Math.abs(Math.cos(radians))
+  const sin = Math.abs(Math.sin(radians))
+  return {
+    width: box.width * cos + box.height * sin,
+    height: box.width * sin + box.height * cos,
+  }
+}
+
+/**
+ * 透かしの中心座標を計算
+ * 1つ配置する場合は回転後の外接矩形がページ端から余白の位置に収まるようにし、
+ * 敷き詰める場合はページ中央を基準に、行ごとに半分ずらして並べる
+ *
+ * @param page - ページの大きさ
+ * @param box - 回転前の透かしの大きさ
+ * @param options - 配置のオプション
+ * @returns 各透かしの中心座標（敷き詰める場合は上限の数まで）
+ */
+export function getWatermarkCenters(
+  page: WatermarkSize,
+  box: WatermarkSize,
+  options: WatermarkLayoutOptions
+): WatermarkPoint[] {
+  const bounds = getRotatedBounds(box, options.rotation)
+
+  if (options.layout === 'single') {
+    const { position, margin } = options
+    let x: number
+    if (position.endsWith('left')) {
+      x = margin + bounds.width / 2
+    } else if (position.endsWith('center')) {
+      x = page.width / 2
+    } else {
+      x = page.width - margin - bounds.width / 2
+    }
+
+    let y: number
+    if (position.startsWith('top')) {
+      y = page.height - margin - bounds.height / 2
+    } else if (position.startsWith('middle')) {
+      y = page.height / 2
+    } else {
+      y = margin + bounds.height / 2
+    }
+    return [{ x, y }]
+  }
+
+  // 間隔が0以下にならないよう最小1ptにする
+  const stepX = Math.max(1, bounds.width + options.tileGap)
+  const stepY = Math.max(1, bounds.height + options.tileGap)
+  const columns = Math.ceil(page.width / 2 / stepX) + 1
+  const rows = Math.ceil(page.height / 2 / stepY) + 1
+
+  const centers: WatermarkPoint[] = []
+  for (let row = -rows; row <= rows; row++) {
+    const y = page.height / 2 + row * stepY
+    if (y + bounds.height / 2 < 0 || y - bounds.height / 2 > page.height) continue
+
+    const offset = Math.abs(row) % 2 === 1 ? stepX / 2 : 0
+    for (let column = -columns; column <= columns; column++) {
+      const x = page.width / 2 + column * stepX + offset
+      if (x + bounds.width / 2 < 0 || x - bounds.width / 2 > page.width) continue
+
+      centers.push({ x, y })
+      if (centers.length >= PDF_WATERMARK_CONSTANTS.MAX_TILES) return centers
+    }
+  }
+  return centers
+}
+
+/**
+ * 中心座標から描画の原点（回転前の左下）を計算
+ * pdf-libは原点を中心に回転するため、透かしの中心が指定した座標に来るよう原点をずらす
+ *
+ * @param center - 透かしの中心座標
+ * @param box - 回転前の透かしの大きさ
+ * @param rotation - 回転角度（度）
+ * @returns 描画の原点
+ */
+export function getRotatedOrigin(
+  center: WatermarkPoint,
+  box: WatermarkSize,
+  rotation: number
+): WatermarkPoint {
+  const radians = (rotation * Math.PI) / 180
+  const cos = Math.cos(radians)
+  const sin = Math.sin(radians)
+  return {
+    x: center.x - (box.width / 2) * cos + (box.height / 2) * sin,
+    y: center.y - (box.width / 2) * sin - (box.height / 2) * cos,
+  }
+}
+
+/**
+ * 画像の透かしの大きさを計算（縦横比を保ってページ幅に対する割合に合わせる）
+ *
+ * @param page - ページの大きさ
+ * @param image - 画像の元の大きさ
+ * @param scale - ページ幅に対する割合
+ * @returns 透かしの大きさ
+ */
+export function getImageWatermarkSize(
+  page: WatermarkSize,
+  image: WatermarkSize,
+  scale: number
+): WatermarkSize {
+  const width = page.width * scale
+  return { width, height: (image.height / image.width) * width }
+}
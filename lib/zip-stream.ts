@@ -0,0 +1,370 @@
+/**
+ * ストリーミングZIPライター
+ * ZIP全体をメモリ上に組み立てず、エントリごとに書き出し先（ファイルまたは分割したBlob）へ書き込む
+ * PDFは圧縮済みのため無圧縮（STORE）で格納し、ファイル名はUTF-8で記録する
+ */
+
+import type { ProcessingProgress } from '@/types'
+
+/** ZIPに格納するファイル */
+export interface ZipEntry {
+  blob: Blob
+  filename: string
+}
+
+/**
+ * ZIPの書き出し先
+ * close()の戻り値がwriteZipの結果になる
+ */
+export interface ZipSink<T> {
+  /** データを末尾に書き込む */
+  write: (data: Uint8Array | Blob) => Promise<void>
+  /** 書き込みを完了する */
+  close: () => Promise<T>
+  /** 書き込みを中止する（書きかけのファイルは破棄する） */
+  abort: () => Promise<void>
+}
+
+/** 保存ダイアログ（File System Access API）のオプション */
+interface SaveFilePickerOptions {
+  suggestedName?: string
+  types?: Array<{ description?: string; accept: Record<string, string[]> }>
+}
+
+/** 保存ダイアログを持つwindow（File System Access APIは一部のブラウザのみ対応） */
+type WindowWithSaveFilePicker = Window & {
+  showSaveFilePicker?: (options?: SaveFilePickerOptions) => Promise<FileSystemFileHandle>
+}
+
+/** キャンセル時のエラーメッセージ */
+const CANCELLED_ERROR = '処理がキャンセルされました'
+
+/** CRC-32の計算やBlobの読み込みに使うチャンクサイズ */
+const READ_CHUNK_SIZE = 1024 * 1024
+
+/** 分割Blobの書き出し先で、ヘッダー類をまとめてBlobにするサイズ */
+const BLOB_SINK_FLUSH_SIZE = 1024 * 1024
+
+/** ZIP64を使わずに表せる最大値 */
+const ZIP_MAX_SIZE = 0xffffffff
+const ZIP_MAX_ENTRIES = 0xffff
+
+/** 汎用フラグ: ファイル名がUTF-8 */
+const FLAG_UTF8 = 0x0800
+
+/** 展開に必要なバージョン（2.0） */
+const ZIP_VERSION = 20
+
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04034b50
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50
+
+/** CRC-32のテーブル（初回使用時に生成） */
+let crcTable: Uint32Array | null = null
+
+function getCrcTable(): Uint32Array {
+  if (crcTable) return crcTable
+
+  crcTable = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    }
+    crcTable[n] = c >>> 0
+  }
+  return crcTable
+}
+
+/**
+ * CRC-32を更新
+ *
+ * @param crc - これまでのCRC（初期値は0）
+ * @param data - 追加するデータ
+ * @returns 更新後のCRC
+ */
+export function updateCrc32(crc: number, data: Uint8Array): number {
+  const table = getCrcTable()
+  let c = crc ^ 0xffffffff
+  for (let i = 0; i < data.length; i++) {
+    c = table[(c ^ data[i]) & 0xff] ^ (c >>> 8)
+  }
+  return (c ^ 0xffffffff) >>> 0
+}
+
+/** キャンセルチェック */
+function checkCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) throw new Error(CANCELLED_ERROR)
+}
+
+/**
+ * 日時をMS-DOS形式に変換
+ */
+function toDosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(1980, date.getFullYear())
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  }
+}
+
+/** 書き込み済みエントリの情報（セントラルディレクトリ用） */
+interface WrittenEntry {
+  name: Uint8Array
+  crc: number
+  size: number
+  offset: number
+}
+
+/**
+ * ローカルファイルヘッダーを生成
+ */
+function createLocalFileHeader(
+  entry: WrittenEntry,
+  dosTime: { time: number; date: number }
+): Uint8Array {
+  const header = new Uint8Array(30 + entry.name.length)
+  const view = new DataView(header.buffer)
+  view.setUint32(0, LOCAL_FILE_HEADER_SIGNATURE, true)
+  view.setUint16(4, ZIP_VERSION, true)
+  view.setUint16(6, FLAG_UTF8, true)
+  view.setUint16(8, 0, true) // 無圧縮
+  view.setUint16(10, dosTime.time, true)
+  view.setUint16(12, dosTime.date, true)
+  view.setUint32(14, entry.crc, true)
+  view.setUint32(18, entry.size, true)
+  view.setUint32(22, entry.size, true)
+  view.setUint16(26, entry.name.length, true)
+  view.setUint16(28, 0, true)
+  header.set(entry.name, 30)
+  return header
+}
+
+/**
+ * セントラルディレクトリと終端レコードを生成
+ */
+function createCentralDirectory(
+  entries: WrittenEntry[],
+  dosTime: { time: number; date: number },
+  offset: number
+): Uint8Array {
+  const directorySize = entries.reduce((sum, entry) => sum + 46 + entry.name.length, 0)
+  if (offset + directorySize + 22 > ZIP_MAX_SIZE) {
+    throw new Error('ZIPファイルが大きすぎます（4GBまで）')
+  }
+
+  const data = new Uint8Array(directorySize + 22)
+  const view = new DataView(data.buffer)
+  let position = 0
+
+  for (const entry of entries) {
+    view.setUint32(position, CENTRAL_DIRECTORY_SIGNATURE, true)
+    view.setUint16(position + 4, ZIP_VERSION, true)
+    view.setUint16(position + 6, ZIP_VERSION, true)
+    view.setUint16(position + 8, FLAG_UTF8, true)
+    view.setUint16(position + 10, 0, true) // 無圧縮
+    view.setUint16(position + 12, dosTime.time, true)
+    view.setUint16(position + 14, dosTime.date, true)
+    view.setUint32(position + 16, entry.crc, true)
+    view.setUint32(position + 20, entry.size, true)
+    view.setUint32(position + 24, entry.size, true)
+    view.setUint16(position + 28, entry.name.length, true)
+    // 拡張フィールド長・コメント長・ディスク番号・内部属性・外部属性は0
+    view.setUint32(position + 42, entry.offset, true)
+    data.set(entry.name, position + 46)
+    position += 46 + entry.name.length
+  }
+
+  view.setUint32(position, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true)
+  view.setUint16(position + 8, entries.length, true)
+  view.setUint16(position + 10, entries.length, true)
+  view.setUint32(position + 12, directorySize, true)
+  view.setUint32(position + 16, offset, true)
+  return data
+}
+
+/**
+ * BlobのCRC-32をチャンクごとに計算
+ *
+ * @param blob - 対象のBlob
+ * @param onChunk - チャンクを読み込むたびに読み込んだバイト数で呼ばれる
+ * @param signal - キャンセル用シグナル
+ */
+async function computeBlobCrc32(
+  blob: Blob,
+  onChunk: (bytes: number) => void,
+  signal?: AbortSignal
+): Promise<number> {
+  let crc = 0
+  for (let start = 0; start < blob.size; start += READ_CHUNK_SIZE) {
+    checkCancelled(signal)
+    const chunk = new Uint8Array(await blob.slice(start, start + READ_CHUNK_SIZE).arrayBuffer())
+    crc = updateCrc32(crc, chunk)
+    onChunk(chunk.length)
+  }
+  return crc
+}
+
+/**
+ * ZIPを書き出し先へストリーミングで書き込む
+ * エントリごとにCRC-32を計算してからヘッダーとデータを書き込むため、一度に読み込むのは1チャンク分のみ
+ * 失敗・キャンセル時は書き出し先を中止してからエラーを投げる
+ *
+ * @param entries - 格納するファイル（ファイル名はフォルダを「/」で区切る）
+ * @param sink - 書き出し先
+ * @param onProgress - 進捗コールバック（エントリごと・チャンクごとに通知）
+ * @param signal - キャンセル用シグナル
+ * @returns 書き出し先のclose()の結果
+ */
+export async function writeZip<T>(
+  entries: ZipEntry[],
+  sink: ZipSink<T>,
+  onProgress?: (progress: ProcessingProgress) => void,
+  signal?: AbortSignal
+): Promise<T> {
+  try {
+    if (entries.length > ZIP_MAX_ENTRIES) {
+      throw new Error(`ZIPに格納できるファイルは${ZIP_MAX_ENTRIES}個までです`)
+    }
+
+    const encoder = new TextEncoder()
+    const dosTime = toDosDateTime(new Date())
+    const totalBytes = entries.reduce((sum, entry) => sum + entry.blob.size, 0)
+    const written: WrittenEntry[] = []
+    let processedBytes = 0
+    let offset = 0
+
+    const reportProgress = (index: number, filename: string) => {
+      onProgress?.({
+        stage: 'finalizing',
+        percentage: totalBytes > 0 ? Math.floor((processedBytes / totalBytes) * 100) : 100,
+        currentFile: index + 1,
+        totalFiles: entries.length,
+        message: `ZIPファイルを作成しています (${index + 1}/${entries.length}): ${filename}`,
+      })
+    }
+
+    for (const [index, { blob, filename }] of entries.entries()) {
+      checkCancelled(signal)
+      reportProgress(index, filename)
+
+      const crc = await computeBlobCrc32(
+        blob,
+        (bytes) => {
+          processedBytes += bytes
+          reportProgress(index, filename)
+        },
+        signal
+      )
+
+      const entry: WrittenEntry = { name: encoder.encode(filename), crc, size: blob.size, offset }
+      const header = createLocalFileHeader(entry, dosTime)
+      if (offset + header.length + blob.size > ZIP_MAX_SIZE) {
+        throw new Error('ZIPファイルが大きすぎます（4GBまで）')
+      }
+
+      checkCancelled(signal)
+      await sink.write(header)
+      await sink.write(blob)
+      offset += header.length + blob.size
+      written.push(entry)
+    }
+
+    checkCancelled(signal)
+    await sink.write(createCentralDirectory(written, dosTime, offset))
+    return await sink.close()
+  } catch (err) {
+    await sink.abort().catch(() => {
+      // 中止に失敗しても元のエラーを優先する
+    })
+    throw err
+  }
+}
+
+/**
+ * 分割したBlobへの書き出し先
+ * 格納するファイルのBlobはコピーせずにそのまま連結し、ヘッダー類は一定サイズごとにBlobにまとめる
+ *
+ * @returns close()でZIPファイルのBlobを返す書き出し先
+ */
+export function createChunkedBlobSink(): ZipSink<Blob> {
+  let parts: Blob[] = []
+  let pending: Uint8Array[] = []
+  let pendingSize = 0
+
+  const flush = () => {
+    if (pending.length === 0) return
+    parts.push(new Blob(pending as BlobPart[]))
+    pending = []
+    pendingSize = 0
+  }
+
+  return {
+    write: async (data) => {
+      if (data instanceof Blob) {
+        flush()
+        parts.push(data)
+        return
+      }
+      pending.push(data)
+      pendingSize += data.length
+      if (pendingSize >= BLOB_SINK_FLUSH_SIZE) flush()
+    },
+    close: async () => {
+      flush()
+      const blob = new Blob(parts, { type: 'application/zip' })
+      parts = []
+      return blob
+    },
+    abort: async () => {
+      parts = []
+      pending = []
+      pendingSize = 0
+    },
+  }
+}
+
+/**
+ * ファイル（File System Access API）への書き出し先
+ *
+ * @param writable - 保存先ファイルの書き込みストリーム
+ */
+export function createFileSink(writable: FileSystemWritableFileStream): ZipSink<void> {
+  return {
+    write: (data) => writable.write(data as FileSystemWriteChunkType),
+    close: () => writable.close(),
+    abort: () => writable.abort(),
+  }
+}
+
+/**
+ * File System Access APIの保存ダイアログが使えるかどうか
+ */
+export function isFileSystemAccessSupported(): boolean {
+  return typeof window !== 'undefined' &&
+    typeof (window as WindowWithSaveFilePicker).showSaveFilePicker === 'function'
+}
+
+/**
+ * ZIPファイルの保存先を選択
+ * ユーザー操作の直後に呼び出すこと（ブラウザの制限）
+ *
+ * @param suggestedName - 初期ファイル名
+ * @returns 保存先ファイル（ダイアログが閉じられた場合はnull）
+ */
+export async function pickZipSaveFile(suggestedName: string): Promise<FileSystemFileHandle | null> {
+  const picker = (window as WindowWithSaveFilePicker).showSaveFilePicker
+  if (!picker) return null
+
+  try {
+    return await picker({
+      suggestedName,
+      types: [{ description: 'ZIPファイル', accept: { 'application/zip': ['.zip'] } }],
+    })
+  } catch (err) {
+    if (err instanceof DOMException && err.name === 'AbortError') {
+      return null
+    }
+    throw err
+  }
+}
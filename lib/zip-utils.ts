@@ -1,57 +1,63 @@
 /**
  * ZIP操作ユーティリティ
- * JSZipを使用した一括ダウンロード機能
+ * ストリーミングZIPライターを使用した一括ダウンロード機能
  */
 
-import JSZip from 'jszip'
+import type { ProcessingProgress } from '@/types'
+import { downloadBlob } from '@/lib/file-utils'
+import {
+  createChunkedBlobSink,
+  createFileSink,
+  isFileSystemAccessSupported,
+  pickZipSaveFile,
+  writeZip,
+  type ZipEntry,
+} from '@/lib/zip-stream'
 
 /**
  * 複数のBlobをZIPファイルとしてダウンロード
+ * File System Access APIが使える場合は保存先のファイルへ直接書き込み、
+ * 使えない場合は分割したBlobでZIPを作成してダウンロードする
+ * 保存先を選択させるため、ユーザー操作の直後に呼び出すこと
  *
  * @param items - Blobとファイル名の配列
  * @param zipFilename - ZIPファイル名
+ * @param onProgress - 進捗コールバック
+ * @param signal - キャンセル用シグナル
+ * @returns 保存した場合はtrue（保存先の選択がキャンセルされた場合はfalse）
  */
 export async function downloadBlobsAsZip(
-  items: Array<{ blob: Blob; filename: string }>,
-  zipFilename: string
-): Promise<void> {
-  const zip = new JSZip()
-
-  // ZIPにファイルを追加
-  items.forEach(({ blob, filename }) => {
-    zip.file(filename, blob)
-  })
-
-  // ZIPを生成
-  const zipBlob = await zip.generateAsync({ type: 'blob' })
-
-  // ダウンロード
-  const url = URL.createObjectURL(zipBlob)
-  const a = document.createElement('a')
-  a.href = url
-  a.download = zipFilename
-  document.body.appendChild(a)
-  a.click()
-  document.body.removeChild(a)
-
-  // URLを解放
-  setTimeout(() => URL.revokeObjectURL(url), 1000)
+  items: ZipEntry[],
+  zipFilename: string,
+  onProgress?: (progress: ProcessingProgress) => void,
+  signal?: AbortSignal
+): Promise<boolean> {
+  if (isFileSystemAccessSupported()) {
+    const handle = await pickZipSaveFile(zipFilename)
+    if (!handle) return false
+
+    const writable = await handle.createWritable()
+    await writeZip(items, createFileSink(writable), onProgress, signal)
+    return true
+  }
+
+  const zipBlob = await createZipBlob(items, onProgress, signal)
+  downloadBlob(zipBlob, zipFilename)
+  return true
 }
 
 /**
  * 複数のBlobからZIP Blobを生成
  *
  * @param items - Blobとファイル名の配列
+ * @param onProgress - 進捗コールバック
+ * @param signal - キャンセル用シグナル
  * @returns ZIPファイルのBlob
  */
 export async function createZipBlob(
-  items: Array<{ blob: Blob; filename: string }>
+  items: ZipEntry[],
+  onProgress?: (progress: ProcessingProgress) => void,
+  signal?: AbortSignal
 ): Promise<Blob> {
-  const zip = new JSZip()
-
-  items.forEach(({ blob, filename }) => {
-    zip.file(filename, blob)
-  })
-
-  return zip.generateAsync({ type: 'blob' })
+  return writeZip(items, createChunkedBlobSink(), onProgress, signal)
 }
@@ -9,9 +9,10 @@ export interface FileUpload {
   file?: File; // 実際のFileオブジェクト（PDF処理用）
   name: string;
   size: string;
-  type: 'pdf' | 'docx';
+  type: 'pdf' | 'docx' | 'image';
   pages?: number;
-  status?: 'pending' | 'loading' | 'ready' | 'error';
+  pageRange?: string; // 使用するページ範囲（"1-3, 5" 形式、未指定は全ページ）
+  status?: 'pending' | 'loading' | 'ready' | 'locked' | 'error'; // locked: パスワード入力待ち
   error?: string;
 }
 
@@ -79,6 +80,9 @@ export type MergeOrder = 'original' | 'filename';
 /** 画像品質オプション */
 export type ImageQuality = 'high' | 'medium' | 'low';
 
+/** 画像ファイルのページサイズ（用紙に合わせる、または画像の元サイズ） */
+export type ImagePageSize = 'a4' | 'letter' | 'original';
+
 /** 結合オプション */
 export interface PdfMergeOptions {
   /** 結合順序 */
@@ -91,6 +95,12 @@ export interface PdfMergeOptions {
   imageQuality: ImageQuality;
   /** ファイルサイズを最適化 */
   optimize: boolean;
+  /** 画像ファイルのページサイズ */
+  imagePageSize: ImagePageSize;
+  /** パスワード保護（未指定の場合は暗号化しない） */
+  protection?: PdfProtectionOptions;
+  /** 出力ファイル名のテンプレート（未指定の場合はkeepFilenameに従った既定値） */
+  filenameTemplate?: string;
 }
 
 /** デフォルトの結合オプション */
@@ -100,6 +110,7 @@ export const DEFAULT_PDF_MERGE_OPTIONS: PdfMergeOptions = {
   createBookmarks: true,
   imageQuality: 'high',
   optimize: false,
+  imagePageSize: 'a4',
 } as const;
 
 /** 処理ステージ */
@@ -123,12 +134,24 @@ export interface ProcessingProgress {
 /** 処理状態 */
 export type MergeStatus = 'idle' | 'processing' | 'completed' | 'error';
 
+/** ファイルサイズ最適化の結果（各処理で削減したバイト数） */
+export interface OptimizationResult {
+  /** 重複リソース（フォント・画像など）の統合 */
+  deduplicatedBytes: number;
+  /** 未使用オブジェクトの削除 */
+  unusedObjectBytes: number;
+  /** 画像のダウンサンプリング */
+  downsampledImageBytes: number;
+}
+
 /** PDF結合結果 */
 export interface MergeResult {
   blob: Blob;
   filename: string;
   size: number;
   pages: number;
+  /** 最適化結果（最適化・画像品質の指定がない場合はundefined） */
+  optimization?: OptimizationResult;
 }
 
 // ============================================================================
@@ -142,6 +165,15 @@ export type ValidationError =
   | 'FILE_TOO_SMALL'
   | 'MAX_FILES_EXCEEDED'
   | 'NO_FILES'
+  | 'ENCRYPTED'
+  | 'NO_PASSWORD'
+  | 'INVALID_TARGET_SIZE'
+  | 'INVALID_FILENAME_TEMPLATE'
+  | 'INVALID_FONT'
+  | 'INVALID_NUMBER_FORMAT'
+  | 'INVALID_BATES'
+  | 'INVALID_HEADER_FOOTER'
+  | 'INVALID_WATERMARK'
   | 'UNKNOWN_ERROR'
 
 /** バリデーション結果 */
@@ -149,12 +181,20 @@ export type ValidationResult =
   | { success: true }
   | { success: false; error: ValidationError; message: string }
 
+/** 暗号化されたPDFのパスワード入力要求 */
+export interface PasswordRequest {
+  /** 対象のファイル名 */
+  fileName: string
+  /** 直前に入力したパスワードが誤っていた場合のメッセージ */
+  error: string | null
+}
+
 // ============================================================================
 // PDF分割機能の型定義
 // ============================================================================
 
 /** 分割方法 */
-export type SplitMethod = 'ranges' | 'equalParts' | 'equalPages'
+export type SplitMethod = 'ranges' | 'equalParts' | 'equalPages' | 'bookmarks' | 'blankPages' | 'maxSize'
 
 /** ページ範囲（1ページ始まり、 inclusive） */
 export interface PageRange {
@@ -162,6 +202,14 @@ export interface PageRange {
   end: number    // 終了ページ（start以上）
 }
 
+/** しおりから求めたページ範囲 */
+export interface BookmarkRange extends PageRange {
+  /** しおりのタイトル */
+  title: string
+  /** しおりの階層（1 = 最上位） */
+  level: number
+}
+
 /** ページ範囲のバリデーション結果 */
 export interface RangeValidationResult {
   isValid: boolean
@@ -170,10 +218,22 @@ export interface RangeValidationResult {
   totalPages: number
 }
 
+/** カンマ区切りの要素ごとのページ範囲バリデーション結果 */
+export interface PageGroupValidationResult {
+  isValid: boolean
+  /** 要素ごとのページ番号（1始まり、昇順） */
+  groups: number[][]
+  errors: RangeError[]
+}
+
 /** ページ範囲エラー */
 export interface RangeError {
   input: string
   message: string
+  /** 入力文字列内でのエラー箇所の開始位置（0始まり） */
+  start: number
+  /** 入力文字列内でのエラー箇所の終了位置（この位置の文字は含まない） */
+  end: number
 }
 
 /** PDF分割オプション */
@@ -186,6 +246,20 @@ export interface PdfSplitOptions {
   partsCount?: number
   /** ページ数ごとに分割（method='equalPages'時） */
   pagesPerSplit?: number
+  /** 分割に使うしおりの階層（method='bookmarks'時、1 = 最上位のみ） */
+  bookmarkLevel?: number
+  /** 空白ページとみなすインク率の上限（%、method='blankPages'時） */
+  blankThreshold?: number
+  /** 区切りの空白ページを出力から除く（method='blankPages'時） */
+  removeBlankPages?: boolean
+  /** 検出済みの空白ページ番号（method='blankPages'時、未指定の場合は分割時に検出） */
+  blankPages?: number[]
+  /** 分割後の1ファイルあたりの最大サイズ（バイト、method='maxSize'時） */
+  maxFileSize?: number
+  /** 出力ファイル名のテンプレート（未指定の場合は分割方法ごとの既定値） */
+  filenameTemplate?: string
+  /** パスワード保護（未指定の場合は暗号化しない） */
+  protection?: PdfProtectionOptions
 }
 
 /** デフォルトの分割オプション */
@@ -207,7 +281,6 @@ export interface SplitResult {
 /** 分割処理の全体結果 */
 export interface SplitBatchResult {
   splits: SplitResult[]
-  zipBlob?: Blob  // ZIPファイル（全分割を含む）
   totalPages: number
   totalSplits: number
 }
@@ -237,6 +310,8 @@ export interface PdfPage {
 export interface PdfPageManageOptions {
   /** 元のファイル名を維持 */
   keepFilename: boolean
+  /** パスワード保護（未指定の場合は暗号化しない） */
+  protection?: PdfProtectionOptions
 }
 
 /** デフォルトのページ管理オプション */
@@ -281,6 +356,34 @@ export interface OddEvenPosition {
   even: NumberPosition  // 偶数ページの位置
 }
 
+/**
+ * ページ番号のフォント
+ * - helvetica: 欧文の標準フォント（埋め込み不要、日本語は表示できない）
+ * - noto-sans-jp: 同梱の日本語フォント
+ * - custom: アップロードしたTTF/OTFフォント
+ */
+export type NumberingFont = 'helvetica' | 'noto-sans-jp' | 'custom'
+
+/** ページ番号の数字の表記 */
+export type NumberStyle =
+  | 'arabic'       // 1, 2, 3
+  | 'roman-lower'  // i, ii, iii
+  | 'roman-upper'  // I, II, III
+  | 'alpha-lower'  // a, b, c
+  | 'alpha-upper'  // A, B, C
+  | 'fullwidth'    // １, ２, ３
+  | 'kanji'        // 一, 二, 三
+
+/** Bates番号の設定（例: 接頭辞 "ABC-"・6桁 → ABC-000123） */
+export interface BatesOptions {
+  /** 接頭辞 */
+  prefix: string
+  /** 接尾辞 */
+  suffix: string
+  /** 0埋めする桁数 */
+  digits: number
+}
+
 /** ページ番号挿入オプション */
 export interface PdfNumberingOptions {
   /** 配置位置（単一または奇数・偶数別） */
@@ -296,6 +399,18 @@ export interface PdfNumberingOptions {
   marginY: number
   /** フォントカラー (16進数 #RRGGBB) */
   fontColor: string
+  /** フォント（未指定の場合は helvetica） */
+  font?: NumberingFont
+  /** アップロードしたフォントファイル（font が custom の場合） */
+  customFont?: File
+  /** ページ番号の書式（{n}・{total}を使用、未指定の場合は "{n}"） */
+  format?: string
+  /** 数字の表記（未指定の場合は arabic） */
+  numberStyle?: NumberStyle
+  /** Bates番号（指定した場合は書式・数字の表記の代わりに使用） */
+  bates?: BatesOptions
+  /** 出力ファイル名のテンプレート（未指定の場合は "{base}_numbered"） */
+  filenameTemplate?: string
 }
 
 /** デフォルトのページ番号挿入オプション */
@@ -309,12 +424,30 @@ export const DEFAULT_PDF_NUMBERING_OPTIONS: PdfNumberingOptions = {
   fontColor: '#000000',
 } as const
 
+/** 既定のBates番号の設定 */
+export const DEFAULT_BATES_OPTIONS: BatesOptions = {
+  prefix: '',
+  suffix: '',
+  digits: 6,
+} as const
+
+/** 番号を付けたページの範囲（最初と最後のページに付けた番号） */
+export interface NumberedRange {
+  first: number
+  last: number
+  /** 描画した文字列（Bates番号の記録用） */
+  firstLabel: string
+  lastLabel: string
+}
+
 /** ページ番号挿入結果 */
 export interface NumberingResult {
   blob: Blob
   filename: string
   size: number
   pages: number
+  /** 番号を付けたページの範囲（番号を付けたページがない場合は未定義） */
+  numberedRange?: NumberedRange
 }
 
 // ============================================================================
@@ -324,6 +457,13 @@ export interface NumberingResult {
 /** 圧縮プリセット */
 export type CompressionPreset = 'low' | 'medium' | 'high'
 
+/**
+ * 圧縮方式
+ * structural: 大きな画像の縮小とストリームの再圧縮のみ（テキストを保持）
+ * rasterize: 全ページを画像として再作成（テキストの選択・検索はできなくなる）
+ */
+export type CompressionMode = 'structural' | 'rasterize'
+
 /** 圧縮プリセット設定 */
 export interface CompressionPresetConfig {
   quality: number
@@ -366,20 +506,26 @@ export const COMPRESSION_PRESET_CONFIGS: Record<CompressionPreset, CompressionPr
 export interface PdfCompressionOptions {
   /** 圧縮レベルプリセット */
   preset: CompressionPreset
+  /** 圧縮方式 */
+  mode: CompressionMode
   /** メタデータを削除 */
   removeMetadata: boolean
   /** 注釈を削除 */
   removeAnnotations: boolean
-  /** グレースケールに変換（現在サポート外） */
+  /** グレースケールに変換 */
   convertToGrayscale: boolean
+  /** 目標ファイルサイズ（バイト）。指定した場合はプリセットの代わりに収まる設定を探す */
+  targetSize: number | null
 }
 
 /** デフォルトのPDF圧縮オプション */
 export const DEFAULT_PDF_COMPRESSION_OPTIONS: PdfCompressionOptions = {
   preset: 'medium',
+  mode: 'structural',
   removeMetadata: true,
   removeAnnotations: false,
   convertToGrayscale: false,
+  targetSize: null,
 } as const
 
 /** PDF圧縮結果 */
@@ -390,6 +536,12 @@ export interface CompressionResult {
   compressedSize: number
   reductionRate: number
   pages: number
+  /** グレースケール変換で削減したバイト数（変換しなかった場合はundefined） */
+  grayscaleSavedBytes?: number
+  /** 目標ファイルサイズ（バイト、指定した場合のみ） */
+  targetSize?: number
+  /** 目標ファイルサイズに収まったか（指定した場合のみ） */
+  targetReached?: boolean
 }
 
 /** プリセット対応日本語ラベル */
@@ -404,10 +556,259 @@ export const COMPRESSION_LOADING_MESSAGES = {
   INIT: 'PDFを読み込んでいます...',
   ANALYZING: 'PDFを解析中...',
   COMPRESSING: '画像を最適化中...',
+  RECOMPRESSING: 'ストリームを再圧縮中...',
+  GRAYSCALE: 'グレースケールに変換中...',
+  SEARCHING: '目標サイズに合わせて圧縮中',
   SAVING: 'PDFを保存中...',
   COMPLETED: '圧縮完了',
 } as const
 
+// ============================================================================
+// PDF保護機能の型定義
+// ============================================================================
+
+/** 暗号化したPDFで許可する操作 */
+export interface PdfPermissions {
+  /** 印刷 */
+  printing: boolean
+  /** テキスト・画像のコピー */
+  copying: boolean
+  /** 内容の変更（ページの挿入・削除・回転を含む） */
+  modifying: boolean
+  /** 注釈の追加・フォームへの入力 */
+  annotating: boolean
+}
+
+/** PDF保護オプション */
+export interface PdfProtectionOptions {
+  /** ユーザーパスワード（閲覧時に要求、空文字の場合は閲覧制限のみ） */
+  userPassword: string
+  /** オーナーパスワード（権限の変更に使用、空文字の場合はユーザーパスワードと同じ） */
+  ownerPassword: string
+  /** 許可する操作 */
+  permissions: PdfPermissions
+}
+
+/** デフォルトのPDF保護オプション */
+export const DEFAULT_PDF_PROTECTION_OPTIONS: PdfProtectionOptions = {
+  userPassword: '',
+  ownerPassword: '',
+  permissions: {
+    printing: true,
+    copying: false,
+    modifying: false,
+    annotating: false,
+  },
+} as const
+
+/** PDF保護結果 */
+export interface ProtectionResult {
+  blob: Blob
+  filename: string
+  size: number
+  pages: number
+}
+
+// ============================================================================
+// ヘッダー・フッター機能の型定義
+// ============================================================================
+
+/** ヘッダー・フッターのテキストの配置（左・中央・右） */
+export type HeaderFooterSlot = 'left' | 'center' | 'right'
+
+/**
+ * ヘッダー・フッターの規則
+ * 対象ページの上端（ヘッダー）または下端（フッター）の左・中央・右にテキストを配置する
+ */
+export interface HeaderFooterRule {
+  id: string
+  /** 配置する位置（ヘッダー・フッター） */
+  placement: 'header' | 'footer'
+  /** 左・中央・右のテキスト（{filename}・{date}・{page}・{total}・{text}を使用、空文字の場合は配置しない） */
+  slots: Record<HeaderFooterSlot, string>
+  /** 対象ページ（ページ範囲の書式、空文字の場合は全ページ。例: "!1" で表紙以外） */
+  pageRange: string
+  /** 偶数ページで左右を入れ替えるか（見開きの外側にそろえる場合） */
+  mirrorOnEvenPages: boolean
+  /** フォントサイズ (pt単位) */
+  fontSize: number
+  /** フォントカラー (16進数 #RRGGBB) */
+  fontColor: string
+  /** 不透明度（0〜1） */
+  opacity: number
+}
+
+/** ヘッダー・フッター挿入オプション */
+export interface PdfHeaderFooterOptions {
+  /** 規則（上から順に描画） */
+  rules: HeaderFooterRule[]
+  /** {text} に入れる任意のテキスト */
+  customText: string
+  /** 余白 (PDFユニット、1/72インチ) */
+  marginX: number
+  marginY: number
+  /** フォント（未指定の場合は helvetica） */
+  font?: NumberingFont
+  /** アップロードしたフォントファイル（font が custom の場合） */
+  customFont?: File
+  /** 出力ファイル名のテンプレート（未指定の場合は "{base}_stamped"） */
+  filenameTemplate?: string
+}
+
+/** 新しい規則の既定値（idは追加時に割り当てる） */
+export const DEFAULT_HEADER_FOOTER_RULE: Omit<HeaderFooterRule, 'id'> = {
+  placement: 'footer',
+  slots: { left: '', center: '', right: '' },
+  pageRange: '',
+  mirrorOnEvenPages: false,
+  fontSize: 10,
+  fontColor: '#000000',
+  opacity: 1,
+} as const
+
+/** デフォルトのヘッダー・フッター挿入オプション */
+export const DEFAULT_PDF_HEADER_FOOTER_OPTIONS: PdfHeaderFooterOptions = {
+  rules: [
+    {
+      ...DEFAULT_HEADER_FOOTER_RULE,
+      id: 'default',
+      slots: { left: '{filename}', center: '', right: '{page} / {total}' },
+    },
+  ],
+  customText: '',
+  marginX: 40,
+  marginY: 20,
+} as const
+
+/** ヘッダー・フッター挿入結果 */
+export interface HeaderFooterResult {
+  blob: Blob
+  filename: string
+  size: number
+  pages: number
+}
+
+// ============================================================================
+// 透かし機能の型定義
+// ============================================================================
+
+/** 透かしの種類（テキスト・画像） */
+export type WatermarkType = 'text' | 'image'
+
+/**
+ * 透かしの配置
+ * - single: 9箇所のいずれか（middle-center で中央）に1つ配置
+ * - tile: ページ全体に敷き詰める
+ */
+export type WatermarkLayout = 'single' | 'tile'
+
+/** 透かしを描画する層（over: 本文の上、under: 本文の下） */
+export type WatermarkLayer = 'over' | 'under'
+
+/** 透かし挿入オプション */
+export interface PdfWatermarkOptions {
+  /** 透かしの種類 */
+  type: WatermarkType
+  /** テキスト（type が text の場合） */
+  text: string
+  /** フォント（未指定の場合は helvetica） */
+  font?: NumberingFont
+  /** アップロードしたフォントファイル（font が custom の場合） */
+  customFont?: File
+  /** フォントサイズ (pt単位) */
+  fontSize: number
+  /** フォントカラー (16進数 #RRGGBB) */
+  fontColor: string
+  /** 画像ファイル（type が image の場合、PNGの透過はそのまま使用） */
+  image?: File
+  /** 画像の幅（ページ幅に対する割合、0〜1） */
+  imageScale: number
+  /** 不透明度（0〜1） */
+  opacity: number
+  /** 回転角度（度、反時計回り。45 で左下から右上への斜め） */
+  rotation: number
+  /** 配置 */
+  layout: WatermarkLayout
+  /** 配置位置（layout が single の場合） */
+  position: NumberPosition
+  /** 敷き詰める間隔 (PDFユニット、layout が tile の場合) */
+  tileGap: number
+  /** ページ端からの余白 (PDFユニット、layout が single の場合) */
+  margin: number
+  /** 対象ページ（ページ範囲の書式、空文字の場合は全ページ） */
+  pageRange: string
+  /** 描画する層 */
+  layer: WatermarkLayer
+  /** 出力ファイル名のテンプレート（未指定の場合は "{base}_watermarked"） */
+  filenameTemplate?: string
+}
+
+/** デフォルトの透かし挿入オプション */
+export const DEFAULT_PDF_WATERMARK_OPTIONS: PdfWatermarkOptions = {
+  type: 'text',
+  text: 'CONFIDENTIAL',
+  fontSize: 60,
+  fontColor: '#808080',
+  imageScale: 0.3,
+  opacity: 0.3,
+  rotation: 45,
+  layout: 'single',
+  position: 'middle-center',
+  tileGap: 60,
+  margin: 40,
+  pageRange: '',
+  layer: 'over',
+} as const
+
+/** 透かし挿入結果 */
+export interface WatermarkResult {
+  blob: Blob
+  filename: string
+  size: number
+  pages: number
+}
+
+// ============================================================================
+// 一括処理の型定義
+// ============================================================================
+
+/** 一括処理の各ファイルの状態 */
+export type BatchItemStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled'
+
+/** 一括処理で生成したファイル */
+export interface BatchOutput {
+  blob: Blob
+  filename: string
+  /** 番号を付けたページの範囲（ページ番号挿入の場合） */
+  numberedRange?: NumberedRange
+}
+
+/** 一括処理の対象ファイル */
+export interface BatchItem {
+  /** 元のファイル */
+  file: FileUpload
+  /** 処理状態 */
+  status: BatchItemStatus
+  /** ファイルごとの進捗 */
+  progress: ProcessingProgress | null
+  /** 生成したファイル（分割の場合は複数） */
+  outputs: BatchOutput[]
+  /** エラーメッセージ（失敗した場合） */
+  error?: string
+}
+
+/** 一括処理の全体結果 */
+export interface BatchResult {
+  /** ZIPファイル名（ZIPはダウンロード時に作成する） */
+  zipFilename: string
+  /** 成功したファイル数 */
+  completed: number
+  /** 失敗したファイル数 */
+  failed: number
+  /** キャンセルにより処理しなかったファイル数 */
+  cancelled: number
+}
+
 // ============================================================================
 // 認証関連の型定義
 // ============================================================================
@@ -426,6 +827,9 @@ export type ActivityType =
   | 'compress'     // PDF圧縮
   | 'numbering'    // ページ番号挿入
   | 'page-manage'  // ページ管理
+  | 'protect'      // PDF保護
+  | 'header-footer' // ヘッダー・フッター
+  | 'watermark'    // 透かし
   | 'proofread'    // 文章校正
   | 'transcription' // 音声文字起こし
 